@@ -0,0 +1,92 @@
+import * as path from 'node:path';
+import { DEFAULT_ON_COLLISION, MAX_COLLISION_SUFFIX } from './constants';
+import { Config, OutputPath } from './dreadcabinet';
+import { CollisionError } from './error/CollisionError';
+import * as Storage from './util/storage';
+import { Options } from 'dreadcabinet';
+
+export { CollisionError };
+
+// Insert a numbered suffix before the extension: note.md -> note-1.md
+export const withSuffix = (filename: string, suffix: number): string => {
+    const extension = path.extname(filename);
+    const stem = filename.slice(0, filename.length - extension.length);
+    return `${stem}-${suffix}${extension}`;
+}
+
+export const create = (config: Config, options: Options): {
+    resolve: (directory: string, filename: string, options?: { source?: string }) => Promise<OutputPath>;
+    release: (path: string) => void;
+} => {
+    const logger = options.logger;
+    const storage: Storage.Utility = Storage.create({ log: logger.debug });
+    const policy = config.onCollision || DEFAULT_ON_COLLISION;
+
+    // Paths handed out by this operator. A path is claimed synchronously, before any
+    // filesystem check is awaited, so concurrent workers can never claim the same one.
+    const reserved = new Set<string>();
+
+    const isIdentical = async (source: string, target: string): Promise<boolean> => {
+        const [sourceDigest, targetDigest] = await Promise.all([storage.digestFile(source), storage.digestFile(target)]);
+        return sourceDigest === targetDigest;
+    }
+
+    async function resolve(directory: string, filename: string, resolveOptions: { source?: string } = {}): Promise<OutputPath> {
+        if (policy === 'compare-hash' && !resolveOptions.source) {
+            throw new Error('Unable to Resolve Output: The compare-hash collision policy needs the source file to compare against');
+        }
+
+        const requested = path.resolve(directory, filename);
+
+        for (let suffix = 0; suffix <= MAX_COLLISION_SUFFIX; suffix++) {
+            const candidate = suffix === 0 ? requested : path.resolve(directory, withSuffix(filename, suffix));
+            const collidedWith = suffix === 0 ? {} : { collidedWith: requested };
+
+            if (reserved.has(candidate)) {
+                // Another input in this run already claimed the path, which is never overwritten
+                logger.debug('Output path %s is reserved by another file in this run', candidate);
+                if (policy === 'skip') {
+                    return { path: candidate, resolution: 'skipped', ...collidedWith };
+                }
+                if (policy === 'fail') {
+                    throw new CollisionError(candidate, `Output path ${candidate} is already claimed by another file in this run`);
+                }
+                continue;
+            }
+            reserved.add(candidate);
+
+            if (!await storage.exists(candidate)) {
+                return { path: candidate, resolution: suffix === 0 ? 'none' : 'suffixed', ...collidedWith };
+            }
+
+            logger.debug('Output path %s already exists, applying collision policy %s', candidate, policy);
+            switch (policy) {
+                case 'overwrite':
+                    return { path: candidate, resolution: 'overwritten', ...collidedWith };
+                case 'skip':
+                    return { path: candidate, resolution: 'skipped', ...collidedWith };
+                case 'fail':
+                    reserved.delete(candidate);
+                    throw new CollisionError(candidate, `Output path ${candidate} already exists`);
+                case 'compare-hash':
+                    if (await isIdentical(resolveOptions.source!, candidate)) {
+                        return { path: candidate, resolution: 'identical', ...collidedWith };
+                    }
+                    break;
+            }
+            // Try the next suffix, the existing file guards this path from now on
+            reserved.delete(candidate);
+        }
+
+        throw new CollisionError(requested, `Unable to find a free output path for ${requested} after ${MAX_COLLISION_SUFFIX} attempts`);
+    }
+
+    function release(outputPath: string): void {
+        reserved.delete(path.resolve(outputPath));
+    }
+
+    return {
+        resolve,
+        release,
+    }
+}
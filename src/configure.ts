@@ -1,15 +1,27 @@
 import { Command } from "commander";
 import {
     DATE_FORMAT_YEAR_MONTH_DAY,
+    DEFAULT_DATE_FORMAT_PROFILE,
+    DEFAULT_DRY_RUN,
     DEFAULT_EXTENSIONS,
+    DEFAULT_FISCAL_YEAR_START_MONTH,
+    DEFAULT_GITIGNORE,
     DEFAULT_INPUT_DIRECTORY,
     DEFAULT_INPUT_FILENAME_OPTIONS,
     DEFAULT_INPUT_STRUCTURE,
+    DEFAULT_ON_COLLISION,
+    DEFAULT_ON_ERROR,
     DEFAULT_OUTPUT_DIRECTORY,
     DEFAULT_OUTPUT_FILENAME_OPTIONS,
     DEFAULT_OUTPUT_STRUCTURE,
+    DEFAULT_PROGRESS,
+    DEFAULT_REVERSE,
+    DEFAULT_QUARANTINE_DIRECTORY,
     DEFAULT_RECURSIVE,
-    DEFAULT_TIMEZONE
+    DEFAULT_RETRIES,
+    DEFAULT_RETRY_DELAY,
+    DEFAULT_TIMEZONE,
+    IGNORE_FILENAME
 } from "./constants";
 import { DefaultOptions, Feature } from "./dreadcabinet";
 import { ArgumentError } from "./error/ArgumentError";
@@ -37,24 +49,52 @@ export const configure = async (command: Command, defaults: DefaultOptions, addD
     if (features.includes('input')) {
         addOption(command, '-r, --recursive', 'recursive mode, process all files in the input directory', addDefaults, defaults?.recursive !== undefined ? defaults.recursive : DEFAULT_RECURSIVE)
         addOption(command, '-i, --input-directory <inputDirectory>', 'input directory', addDefaults, defaults?.inputDirectory || DEFAULT_INPUT_DIRECTORY)
-        addOption(command, '--limit <limit>', 'limit the number of files to process', addDefaults, defaults?.limit ? defaults?.limit.toString() : undefined)
+        addOption(command, '--limit <limit>', 'limit the number of matching files to process', addDefaults, defaults?.limit ? defaults?.limit.toString() : undefined)
+        addOption(command, '--offset <offset>', 'pass over this many matching files before --limit, for paging through the input', addDefaults, defaults?.offset ? defaults.offset.toString() : undefined)
+        addOption(command, '--sample <sample>', 'process this many matching files picked at random, before --offset and --limit', addDefaults, defaults?.sample ? defaults.sample.toString() : undefined)
+        addOption(command, '--seed <seed>', 'pick the same --sample every time, example \'prompt-eval\'', addDefaults, defaults?.seed)
         addOption(command, '--concurrency <concurrency>', 'concurrency level for processing files', addDefaults, defaults?.concurrency ? defaults?.concurrency.toString() : undefined)
+        addOption(command, '--date-source [dateSource...]', 'where unstructured input finds each file\'s date, tried in order (space-separated list of: mtime,birthtime,ctime,frontmatter,filename,content,custom) example \'frontmatter filename mtime\'', addDefaults, defaults?.dateSources)
+        addOption(command, '--filename-date-patterns [filenameDatePatterns...]', 'how dates are found in filenames, tried in order (space-separated list of: camera,screenshot,whatsapp,iso,compact,dreadcabinet, or regular expressions with year, month and day named groups)', addDefaults, defaults?.filenameDatePatterns)
+        addOption(command, '--include [include...]', 'only process input files matching these globs, relative to the input directory, example \'notes/**/*.md\'', addDefaults, defaults?.include)
+        addOption(command, '--exclude [exclude...]', 'leave out input files and directories matching these globs, relative to the input directory, example \'drafts **/*.tmp\'', addDefaults, defaults?.exclude)
+        addOption(command, '--gitignore', `honor .gitignore in the input directory as well as ${IGNORE_FILENAME}`, addDefaults, defaults?.gitignore ?? DEFAULT_GITIGNORE)
+        addOption(command, '--on-error <policy>', 'what to do when processing a file fails (continue/fail-fast/max-errors=N/quarantine)', addDefaults, defaults?.onError || DEFAULT_ON_ERROR)
+        addOption(command, '--quarantine-directory <quarantineDirectory>', 'where --on-error quarantine moves failed files, each with an error sidecar', addDefaults, defaults?.quarantineDirectory || DEFAULT_QUARANTINE_DIRECTORY)
+        addOption(command, '--progress', 'show a progress bar with running totals and an ETA while processing, when writing to a terminal', addDefaults, defaults?.progress ?? DEFAULT_PROGRESS)
+        addOption(command, '--timeout <timeout>', 'milliseconds a file\'s callback may take before it fails', addDefaults, defaults?.timeout ? defaults.timeout.toString() : undefined)
+        addOption(command, '--retries <retries>', 'how many more times to try a file whose callback failed', addDefaults, (defaults?.retries ?? DEFAULT_RETRIES).toString())
+        addOption(command, '--retry-delay <retryDelay>', 'milliseconds to wait before the first retry, doubled for each retry after it, with jitter', addDefaults, (defaults?.retryDelay ?? DEFAULT_RETRY_DELAY).toString())
+        addOption(command, '--rate-limit <rateLimit>', 'start at most this many files per second or minute across all workers, example \'5/s\' or \'30/m\'', addDefaults, defaults?.rateLimit)
+        addOption(command, '--sort <order>', 'the order files are processed in, applied before --limit (name/path/date-asc/date-desc/size/mtime)', addDefaults, defaults?.sort)
+        addOption(command, '--reverse', 'reverse the --sort order', addDefaults, defaults?.reverse ?? DEFAULT_REVERSE)
+        addOption(command, '--start <date>', `start date filter (${DATE_FORMAT_YEAR_MONTH_DAY}), unstructured input needs --date-source`, addDefaults, undefined)
+        addOption(command, '--end <date>', `end date filter (${DATE_FORMAT_YEAR_MONTH_DAY}), defaults to today`, addDefaults, undefined)
     }
     if (features.includes('output')) {
         addOption(command, '-o, --output-directory <outputDirectory>', 'output directory', addDefaults, defaults?.outputDirectory || DEFAULT_OUTPUT_DIRECTORY)
+        addOption(command, '--dry-run', 'show what would be written without writing anything', addDefaults, defaults?.dryRun ?? DEFAULT_DRY_RUN)
+        addOption(command, '--on-collision <policy>', 'what to do when an output path is taken (suffix/skip/overwrite/fail/compare-hash)', addDefaults, defaults?.onCollision || DEFAULT_ON_COLLISION)
     }
     if (features.includes('structured-output')) {
-        addOption(command, '--output-structure <type>', 'output directory structure (none/year/month/day)', addDefaults, defaults?.outputStructure || DEFAULT_OUTPUT_STRUCTURE)
+        addOption(command, '--output-structure <type>', 'output directory structure (none/year/quarter/month/week/day/fiscal-year/fiscal-quarter)', addDefaults, defaults?.outputStructure || DEFAULT_OUTPUT_STRUCTURE)
+        addOption(command, '--output-directory-template <template>', 'output directory template using date tokens ({YYYY},{GGGG},{Q},{M},{MM},{MMM},{MMMM},{W},{WW},{D},{DD}) and {ext}, overrides --output-structure, example \'{YYYY}/{MM}-{MMMM}/{DD}\'', addDefaults, defaults?.outputDirectoryTemplate)
         addOption(command, '--output-filename-options [outputFilenameOptions...]', 'filename format options (space-separated list of: date,time,subject) example \'date subject\'', addDefaults, defaults?.outputFilenameOptions || DEFAULT_OUTPUT_FILENAME_OPTIONS)
+        addOption(command, '--subject-sources [subjectSources...]', 'where to find a subject when none is given, tried in order (space-separated list of: frontmatter,heading,first-line,filename,custom) example \'frontmatter heading filename\'', addDefaults, defaults?.subjectSources)
+        addOption(command, '--output-filename-template <template>', 'filename template using {date},{time},{hash},{type},{subject} tokens, overrides --output-filename-options, example \'{date}_{subject}__{hash}.{type}\'', addDefaults, defaults?.outputFilenameTemplate)
     }
     if (features.includes('extensions')) {
         addOption(command, '--extensions [extensions...]', 'file extensions to process (space-separated list of: mp3,mp4,mpeg,mpga,m4a,wav,webm)', addDefaults, defaults?.extensions || DEFAULT_EXTENSIONS)
     }
 
     if (features.includes('structured-input')) {
-        addOption(command, '--input-structure <type>', 'input directory structure (none/year/month/day)', addDefaults, defaults?.inputStructure || DEFAULT_INPUT_STRUCTURE)
+        addOption(command, '--input-structure <type>', 'input directory structure (none/year/quarter/month/week/day/fiscal-year/fiscal-quarter)', addDefaults, defaults?.inputStructure || DEFAULT_INPUT_STRUCTURE)
         addOption(command, '--input-filename-options [options...]', 'filename format options (space-separated list of: date,time,subject)', addDefaults, defaults?.inputFilenameOptions || DEFAULT_INPUT_FILENAME_OPTIONS)
-        addOption(command, '--start <date>', `start date filter (${DATE_FORMAT_YEAR_MONTH_DAY})`, addDefaults, undefined)
-        addOption(command, '--end <date>', `end date filter (${DATE_FORMAT_YEAR_MONTH_DAY}), defaults to today`, addDefaults, undefined)
+        addOption(command, '--input-directory-template <template>', 'input directory template, the same as --output-directory-template of the run that produced the input, overrides --input-structure', addDefaults, defaults?.inputDirectoryTemplate)
+    }
+
+    if (features.includes('structured-input') || features.includes('structured-output')) {
+        addOption(command, '--fiscal-year-start-month <month>', 'month (1-12) in which the fiscal year starts, used by the fiscal-year and fiscal-quarter structures', addDefaults, (defaults?.fiscalYearStartMonth ?? DEFAULT_FISCAL_YEAR_START_MONTH).toString())
+        addOption(command, '--date-format-profile <profile>', 'date format profile (compact/padded), padded zero-pads months and days in output directories and filenames so they sort correctly', addDefaults, defaults?.dateFormatProfile || DEFAULT_DATE_FORMAT_PROFILE)
     }
 }
\ No newline at end of file
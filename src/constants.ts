@@ -1,4 +1,4 @@
-import { FilenameOption, FilesystemStructure } from './dreadcabinet';
+import { CollisionPolicy, DateFormatProfile, ErrorPolicy, DateSource, FilenameDatePattern, FilenameOption, FilesystemStructure, PlacementMode, SortOrder, SubjectSource } from './dreadcabinet';
 
 export const VERSION = '__VERSION__ (__GIT_BRANCH__/__GIT_COMMIT__ __GIT_TAGS__ __GIT_COMMIT_DATE__) __SYSTEM_INFO__';
 export const PROGRAM_NAME = 'dreadcabinet';
@@ -21,21 +21,87 @@ export const DATE_FORMAT_HOURS = 'HHmm';
 export const DATE_FORMAT_MINUTES = 'mm';
 export const DATE_FORMAT_SECONDS = 'ss';
 export const DATE_FORMAT_MILLISECONDS = 'SSS';
+export const DATE_FORMAT_MONTH_PADDED = 'MM';
+export const DATE_FORMAT_DAY_PADDED = 'DD';
+export const DATE_FORMAT_MONTH_DAY_PADDED = 'MM-DD';
+export const DATE_FORMAT_YEAR_MONTH_DAY_PADDED = 'YYYY-MM-DD';
+export const ISO_WEEK_PREFIX = 'W';
+export const QUARTER_PREFIX = 'Q';
+export const FISCAL_YEAR_PREFIX = 'FY';
 
 export const DEFAULT_RECURSIVE = false;
 export const DEFAULT_INPUT_DIRECTORY = './';
 export const DEFAULT_OUTPUT_DIRECTORY = './';
 export const DEFAULT_CONCURRENCY = 1;
+export const DEFAULT_FISCAL_YEAR_START_MONTH = 1;
+export const DEFAULT_DATE_FORMAT_PROFILE = 'compact' as DateFormatProfile;
+export const DEFAULT_ON_COLLISION = 'suffix' as CollisionPolicy;
+export const DEFAULT_DRY_RUN = false;
+export const DEFAULT_GITIGNORE = false;
+export const DEFAULT_PROGRESS = false;
+export const DEFAULT_REVERSE = false;
+export const DEFAULT_ON_ERROR = 'continue' as ErrorPolicy;
+export const DEFAULT_QUARANTINE_DIRECTORY = './quarantine';
+
+// Read from the input directory, with the same syntax as .gitignore
+export const IGNORE_FILENAME = '.dreadcabinetignore';
+export const GITIGNORE_FILENAME = '.gitignore';
 
 export const DEFAULT_OUTPUT_STRUCTURE = 'month' as FilesystemStructure;
 export const DEFAULT_OUTPUT_FILENAME_OPTIONS = ['date', 'subject'] as FilenameOption[];
 export const DEFAULT_INPUT_STRUCTURE = 'month' as FilesystemStructure;
 export const DEFAULT_INPUT_FILENAME_OPTIONS = ['date', 'subject'] as FilenameOption[];
+// Unless filenameDatePatterns says otherwise, the filename date source tries every built-in pattern
+export const DEFAULT_FILENAME_DATE_PATTERNS = ['camera', 'screenshot', 'whatsapp', 'iso', 'compact', 'dreadcabinet'] as FilenameDatePattern[];
 export const DEFAULT_EXTENSIONS = ['md'] as string[];
 
-export const ALLOWED_INPUT_STRUCTURES = ['none', 'year', 'month', 'day'] as FilesystemStructure[];
+export const ALLOWED_INPUT_STRUCTURES = ['none', 'year', 'quarter', 'month', 'week', 'day', 'fiscal-year', 'fiscal-quarter'] as FilesystemStructure[];
 export const ALLOWED_INPUT_FILENAME_OPTIONS = ['date', 'time', 'subject'] as FilenameOption[];
-export const ALLOWED_OUTPUT_STRUCTURES = ['none', 'year', 'month', 'day'] as FilesystemStructure[];
+export const ALLOWED_OUTPUT_STRUCTURES = ['none', 'year', 'quarter', 'month', 'week', 'day', 'fiscal-year', 'fiscal-quarter'] as FilesystemStructure[];
 export const ALLOWED_OUTPUT_FILENAME_OPTIONS = ['date', 'time', 'subject'] as FilenameOption[];
 
+export const ALLOWED_COLLISION_POLICIES = ['suffix', 'skip', 'overwrite', 'fail', 'compare-hash'] as CollisionPolicy[];
+// max-errors=N is allowed too, for any whole number N
+export const ALLOWED_ERROR_POLICIES = ['continue', 'fail-fast', 'quarantine'] as ErrorPolicy[];
+export const MAX_ERRORS_POLICY = /^max-errors=(\d+)$/;
+// Written next to each quarantined file, with the error that sent it there
+export const QUARANTINE_SIDECAR_SUFFIX = '.error.json';
+export const DEFAULT_RETRIES = 0;
+export const DEFAULT_RETRY_DELAY = 1000;
+// Backoff never waits longer than this between two attempts at a file
+export const MAX_RETRY_DELAY = 60000;
+// --rate-limit takes a number of files per second or per minute, such as 5/s or 30/m
+export const RATE_LIMIT = /^(\d+(?:\.\d+)?)\/(s|m)$/;
+export const ALLOWED_SORT_ORDERS = ['name', 'path', 'date-asc', 'date-desc', 'size', 'mtime'] as SortOrder[];
+// The signals createShutdownSignal turns into an aborted signal for Operator.process
+export const DEFAULT_SHUTDOWN_SIGNALS = ['SIGINT', 'SIGTERM'] as NodeJS.Signals[];
+export const DEFAULT_PLACEMENT_MODE = 'copy' as PlacementMode;
+// Length of the content hash Operator.place puts in filenames when none is given
+export const DEFAULT_PLACEMENT_HASH_LENGTH = 8;
+// Append-only NDJSON record of the directories and files each run created, kept in the output directory
+export const DEFAULT_JOURNAL_FILENAME = '.dreadcabinet-journal.ndjson';
+// Give up on finding a free name after this many numbered suffixes
+export const MAX_COLLISION_SUFFIX = 1000;
+// Error codes that mean a rename is impossible between two paths, rather than that it failed
+export const CROSS_DEVICE_CODES = ['EXDEV'] as string[];
+export const ALLOWED_DATE_FORMAT_PROFILES = ['compact', 'padded'] as DateFormatProfile[];
+export const ALLOWED_DATE_SOURCES = ['mtime', 'birthtime', 'ctime', 'frontmatter', 'filename', 'content', 'custom'] as DateSource[];
+export const ALLOWED_FILENAME_DATE_PATTERNS = ['camera', 'screenshot', 'whatsapp', 'iso', 'compact', 'dreadcabinet'] as FilenameDatePattern[];
+export const ALLOWED_SUBJECT_SOURCES = ['frontmatter', 'heading', 'first-line', 'filename', 'custom'] as SubjectSource[];
+
+// The formats used for output directories and filename dates under each date format profile.
+// Structured input parses both, so a tree written with either profile (or a mix of them) can be read back.
+export const DATE_FORMAT_PROFILES: Record<DateFormatProfile, { month: string; day: string; monthDay: string; yearMonthDay: string }> = {
+    compact: { month: DATE_FORMAT_MONTH, day: DATE_FORMAT_DAY, monthDay: DATE_FORMAT_MONTH_DAY, yearMonthDay: DATE_FORMAT_YEAR_MONTH_DAY },
+    padded: { month: DATE_FORMAT_MONTH_PADDED, day: DATE_FORMAT_DAY_PADDED, monthDay: DATE_FORMAT_MONTH_DAY_PADDED, yearMonthDay: DATE_FORMAT_YEAR_MONTH_DAY_PADDED },
+};
+
+export const FILENAME_TEMPLATE_TOKENS = ['date', 'time', 'hash', 'type', 'subject'] as string[];
+export const FILENAME_TEMPLATE_UNIQUE_TOKENS = ['hash'] as string[];
+export const FILENAME_TEMPLATE_CASE_FORMATS = ['lower', 'upper'] as string[];
+
+// Date tokens follow dayjs format names, plus GGGG/W/WW for ISO week-years and weeks
+export const DIRECTORY_TEMPLATE_TOKENS = ['YYYY', 'GGGG', 'Q', 'M', 'MM', 'MMM', 'MMMM', 'W', 'WW', 'D', 'DD', 'ext'] as string[];
+export const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'] as string[];
+
 export const ALLOWED_EXTENSIONS = ['md', 'txt'] as string[];
\ No newline at end of file
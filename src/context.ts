@@ -0,0 +1,95 @@
+import * as path from 'node:path';
+import { Config, FileContext, FileDateSource, Options } from 'dreadcabinet';
+import { DEFAULT_PLACEMENT_HASH_LENGTH } from './constants';
+import * as FilenameDate from './input/filename-date';
+import * as Output from './output';
+import { toOutputFilename } from './place';
+import * as Storage from './util/storage';
+
+// Date and time parts at the start of a filename, such as `2025-3-7-1015-` or `15-1430_`
+const LEADING_DATE_PARTS = /^(?:\d+[-_])*\d+(?:[-_]+|$)/;
+
+// Separators left at either end once the date is cut out, as in `notes - 2024-01-01` or `2024-01-01_notes`
+const LOOSE_ENDS = /^[\s._-]+|[\s._-]+$/g;
+
+// The filename without its extension and without its date: the text the filename date pattern that dated the file
+// matched, or without one the date and time that this library, and most tools, put in front
+export const subjectFromFilename = (file: string, datePattern?: string): string | undefined => {
+    const filename = path.basename(file);
+    const extension = path.extname(filename);
+    const found = datePattern ? filename.match(FilenameDate.compile(datePattern)) : null;
+    let subject: string;
+    if (found?.index !== undefined) {
+        const rest = filename.slice(0, found.index) + filename.slice(found.index + found[0].length);
+        subject = (rest.endsWith(extension) ? rest.slice(0, rest.length - extension.length) : rest).replace(LOOSE_ENDS, '');
+    } else {
+        subject = path.basename(filename, extension).replace(LEADING_DATE_PARTS, '').trim();
+    }
+    return subject ? subject : undefined;
+}
+
+// What input found out about a file, to build its context from
+export interface FileDetails {
+    date?: Date;
+    dateSource?: FileDateSource;
+    time?: boolean;
+    // The filename date pattern that found the date, when it came from the filename
+    datePattern?: string;
+    subject?: string;
+}
+
+export const create = (config: Config, options: Options, dependencies: {
+    output: ReturnType<typeof Output.create>;
+}): {
+    build: (file: string, details?: FileDetails) => Promise<FileContext>;
+} => {
+    const storage: Storage.Utility = Storage.create({ log: options.logger.debug });
+    const inputDirectory = path.resolve(config.inputDirectory || '.');
+
+    async function build(file: string, details: FileDetails = {}): Promise<FileContext> {
+        const absolutePath = path.resolve(file);
+        const extension = path.extname(absolutePath).slice(1);
+        const { date, dateSource, datePattern } = details;
+        const subject = details.subject ?? subjectFromFilename(absolutePath, datePattern);
+        const { size, mtime } = await storage.stat(absolutePath);
+
+        // Hashing reads the whole file, so it only happens when asked for, and then once
+        let digest: Promise<string> | undefined;
+        const hash = (): Promise<string> => {
+            digest ??= storage.digestFile(absolutePath).then(value => value.slice(0, DEFAULT_PLACEMENT_HASH_LENGTH));
+            return digest;
+        }
+
+        const outputDate = (): Date => {
+            if (!options.features.includes('output')) {
+                throw new Error('Output feature is not enabled, skipping output construction');
+            }
+            if (!date) {
+                throw new Error(`No date found for ${absolutePath}, so it has no output path`);
+            }
+            return date;
+        }
+
+        return {
+            path: absolutePath,
+            relativePath: path.relative(inputDirectory, absolutePath),
+            extension,
+            date,
+            dateSource,
+            datePattern,
+            hasTime: date !== undefined && (details.time ?? false),
+            subject,
+            stats: { size, mtime },
+            hash,
+            outputDirectory: async () => dependencies.output.computeOutputDirectory(outputDate(), { type: extension }),
+            outputFilename: async () => {
+                const filename = dependencies.output.constructFilename(outputDate(), extension, await hash(), { subject });
+                return toOutputFilename(filename, extension);
+            },
+        };
+    }
+
+    return {
+        build,
+    }
+}
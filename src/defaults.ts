@@ -17,13 +17,46 @@ export const applyDefaults = (config: Partial<Config>, features: Feature[], defa
         } else {
             configWithDefaults.concurrency = config.concurrency;
         }
+        // Unstructured input is only dated when sources are configured, or a dateExtractor is given
+        configWithDefaults.dateSources = config.dateSources || defaults?.dateSources;
+        // When unset, the filename date source uses DEFAULT_FILENAME_DATE_PATTERNS and structured input its own format
+        configWithDefaults.filenameDatePatterns = config.filenameDatePatterns || defaults?.filenameDatePatterns;
+        // Without globs every file the extensions and recursive options allow is included
+        configWithDefaults.include = config.include || defaults?.include;
+        configWithDefaults.exclude = config.exclude || defaults?.exclude;
+        configWithDefaults.gitignore = config.gitignore ?? defaults?.gitignore;
+        // When unset, failed files are logged and skipped with DEFAULT_ON_ERROR (continue), and quarantined in DEFAULT_QUARANTINE_DIRECTORY
+        configWithDefaults.onError = config.onError || defaults?.onError;
+        configWithDefaults.quarantineDirectory = config.quarantineDirectory || defaults?.quarantineDirectory;
+        configWithDefaults.progress = config.progress ?? defaults?.progress;
+        // When unset, callbacks have no timeout and no rate limit, and failed files are tried DEFAULT_RETRIES more times
+        configWithDefaults.timeout = config.timeout ?? defaults?.timeout;
+        configWithDefaults.retries = config.retries ?? defaults?.retries;
+        configWithDefaults.retryDelay = config.retryDelay ?? defaults?.retryDelay;
+        configWithDefaults.rateLimit = config.rateLimit || defaults?.rateLimit;
+        // When unset, files come in the order the filesystem lists them
+        configWithDefaults.sort = config.sort || defaults?.sort;
+        configWithDefaults.reverse = config.reverse ?? defaults?.reverse;
+        // When unset, every matching file is processed from the first, up to the limit
+        configWithDefaults.offset = config.offset ?? defaults?.offset;
+        configWithDefaults.sample = config.sample ?? defaults?.sample;
+        configWithDefaults.seed = config.seed || defaults?.seed;
     }
     if (features.includes('output')) {
         configWithDefaults.outputDirectory = config.outputDirectory || (defaults?.outputDirectory || DEFAULT_OUTPUT_DIRECTORY);
+        // When unset, output paths are resolved with DEFAULT_ON_COLLISION (suffix)
+        configWithDefaults.onCollision = config.onCollision || defaults?.onCollision;
+        configWithDefaults.dryRun = config.dryRun ?? defaults?.dryRun;
     }
     if (features.includes('structured-output')) {
         configWithDefaults.outputStructure = config.outputStructure || (defaults?.outputStructure || DEFAULT_OUTPUT_STRUCTURE);
+        // Like the filename template, the directory template is optional and overrides outputStructure when set
+        configWithDefaults.outputDirectoryTemplate = config.outputDirectoryTemplate || defaults?.outputDirectoryTemplate;
         configWithDefaults.outputFilenameOptions = config.outputFilenameOptions || (defaults?.outputFilenameOptions || DEFAULT_OUTPUT_FILENAME_OPTIONS);
+        // The template has no default of its own; when unset, outputFilenameOptions is compiled into one
+        configWithDefaults.outputFilenameTemplate = config.outputFilenameTemplate || defaults?.outputFilenameTemplate;
+        // Subjects are only extracted when sources are configured, or a subjectExtractor is given
+        configWithDefaults.subjectSources = config.subjectSources || defaults?.subjectSources;
     }
     if (features.includes('extensions')) {
         configWithDefaults.extensions = config.extensions || (defaults?.extensions || DEFAULT_EXTENSIONS);
@@ -32,6 +65,13 @@ export const applyDefaults = (config: Partial<Config>, features: Feature[], defa
     if (features.includes('structured-input')) {
         configWithDefaults.inputStructure = config.inputStructure || (defaults?.inputStructure || DEFAULT_INPUT_STRUCTURE);
         configWithDefaults.inputFilenameOptions = config.inputFilenameOptions || (defaults?.inputFilenameOptions || DEFAULT_INPUT_FILENAME_OPTIONS);
+        configWithDefaults.inputDirectoryTemplate = config.inputDirectoryTemplate || defaults?.inputDirectoryTemplate;
+    }
+
+    if (features.includes('structured-input') || features.includes('structured-output')) {
+        // When unset, these fall back to DEFAULT_FISCAL_YEAR_START_MONTH (January) and DEFAULT_DATE_FORMAT_PROFILE (compact)
+        configWithDefaults.fiscalYearStartMonth = config.fiscalYearStartMonth ?? defaults?.fiscalYearStartMonth;
+        configWithDefaults.dateFormatProfile = config.dateFormatProfile || defaults?.dateFormatProfile;
     }
 
     return configWithDefaults as Config;
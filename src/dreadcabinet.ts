@@ -4,24 +4,53 @@ import { applyDefaults } from './defaults';
 import { read } from './read';
 import { validate } from './validate';
 
-import { ALLOWED_EXTENSIONS, ALLOWED_INPUT_FILENAME_OPTIONS, ALLOWED_INPUT_STRUCTURES, ALLOWED_OUTPUT_FILENAME_OPTIONS, ALLOWED_OUTPUT_STRUCTURES, DEFAULT_CONCURRENCY, DEFAULT_EXTENSIONS, DEFAULT_INPUT_DIRECTORY, DEFAULT_INPUT_FILENAME_OPTIONS, DEFAULT_INPUT_STRUCTURE, DEFAULT_OUTPUT_DIRECTORY, DEFAULT_OUTPUT_FILENAME_OPTIONS, DEFAULT_OUTPUT_STRUCTURE, DEFAULT_RECURSIVE, DEFAULT_TIMEZONE } from './constants';
+import { ALLOWED_EXTENSIONS, ALLOWED_INPUT_FILENAME_OPTIONS, ALLOWED_INPUT_STRUCTURES, ALLOWED_OUTPUT_FILENAME_OPTIONS, ALLOWED_OUTPUT_STRUCTURES, DEFAULT_CONCURRENCY, DEFAULT_EXTENSIONS, DEFAULT_INPUT_DIRECTORY, DEFAULT_INPUT_FILENAME_OPTIONS, DEFAULT_INPUT_STRUCTURE, DEFAULT_OUTPUT_DIRECTORY, DEFAULT_OUTPUT_FILENAME_OPTIONS, DEFAULT_OUTPUT_STRUCTURE, DEFAULT_RECURSIVE, DEFAULT_TIMEZONE, MAX_ERRORS_POLICY, RATE_LIMIT } from './constants';
 import { z } from 'zod';
 import { create as createOperator } from './operate';
 import { wrapLogger } from './logger';
 
+export { formatReport } from './report';
+export type { ReportFormat } from './report';
+export { createShutdownSignal } from './shutdown';
+
 export interface Args {
     recursive: boolean;
     timezone: string;
     inputDirectory: string;
     inputStructure?: FilesystemStructure;
     inputFilenameOptions?: FilenameOption[];
+    inputDirectoryTemplate?: string;
     outputDirectory: string;
     outputStructure?: FilesystemStructure;
+    outputDirectoryTemplate?: string;
     outputFilenameOptions?: FilenameOption[];
+    outputFilenameTemplate?: string;
     extensions: string[];
+    fiscalYearStartMonth?: number; // Month (1-12) in which the fiscal year starts
+    dateFormatProfile?: DateFormatProfile; // Whether months and days are zero-padded
+    onCollision?: CollisionPolicy; // What to do when an output path is already taken
+    dryRun?: boolean; // Plan output without writing anything
+    subjectSources?: SubjectSource[]; // Where to look for a subject when none is given
+    dateSource?: DateSource[]; // Where unstructured input looks for each file's date
+    filenameDatePatterns?: string[]; // Built-in pattern names or regular expressions for dates in filenames
+    include?: string[]; // Globs that input files must match, relative to the input directory
+    exclude?: string[]; // Globs for input files and directories to leave out
+    gitignore?: boolean; // Honor the input directory's .gitignore as well as its .dreadcabinetignore
+    onError?: ErrorPolicy; // What to do when processing a file fails
+    quarantineDirectory?: string; // Where the quarantine error policy moves failed files
+    progress?: boolean; // Show a progress bar on the terminal while processing
+    timeout?: number; // Milliseconds a file's callback may take before it fails
+    retries?: number; // How many more times a file whose callback failed is tried
+    retryDelay?: number; // Milliseconds before the first retry, doubled for each one after it
+    rateLimit?: RateLimit; // How many files may start per second or minute
+    sort?: SortOrder; // The order files are processed in, before the limit is applied
+    reverse?: boolean; // Reverse the sort order
     start?: string; // Start date string
     end?: string;   // End date string
-    limit?: number; // Limit the number of files to process
+    limit?: number; // Limit the number of matching files to process
+    offset?: number; // How many matching files to pass over before the limit, for paging
+    sample?: number; // Process this many matching files picked at random
+    seed?: string; // Makes the sample the same from one run to the next
     concurrency?: number; // Concurrency level for processing files
 }
 
@@ -38,25 +67,385 @@ export type FilenameOption = z.infer<typeof FilenameOptionSchema>;
 export const FilesystemStructureSchema = z.enum([
     'none',
     'year',
+    'quarter',
     'month',
+    'week',
     'day',
+    'fiscal-year',
+    'fiscal-quarter',
 ]);
 
 export type FilesystemStructure = z.infer<typeof FilesystemStructureSchema>;
 
+export const DateFormatProfileSchema = z.enum([
+    'compact',
+    'padded',
+]);
+
+export type DateFormatProfile = z.infer<typeof DateFormatProfileSchema>;
+
+export const SubjectSourceSchema = z.enum([
+    'frontmatter',
+    'heading',
+    'first-line',
+    'filename',
+    'custom',
+]);
+
+// Where a subject is looked for: the frontmatter title, the first # heading, the first line,
+// the filename without its extension, or the subjectExtractor given in the options
+export type SubjectSource = z.infer<typeof SubjectSourceSchema>;
+
+// A custom subject source, called with the file and its content
+export type SubjectExtractor = (file: string, content: string) => Promise<string | undefined>;
+
+export const DateSourceSchema = z.enum([
+    'mtime',
+    'birthtime',
+    'ctime',
+    'frontmatter',
+    'filename',
+    'content',
+    'custom',
+]);
+
+// Where unstructured input looks for a file's date: its modification, creation or status change time,
+// the frontmatter date, a date in the filename, the first date-like line of the content,
+// or the dateExtractor given in the options
+export type DateSource = z.infer<typeof DateSourceSchema>;
+
+export const FilenameDatePatternSchema = z.enum([
+    'camera',
+    'screenshot',
+    'whatsapp',
+    'iso',
+    'compact',
+    'dreadcabinet',
+]);
+
+// The built-in patterns for dates in filenames. Regular expressions with year, month and day groups
+// can be listed alongside them.
+export type FilenameDatePattern = z.infer<typeof FilenameDatePatternSchema>;
+
+// A custom date source, called with the file and its content
+export type DateExtractor = (file: string, content: string) => Promise<Date | undefined>;
+
+// Whether a file whose callback threw should be tried again, when retries are configured
+export type RetryPredicate = (error: Error, file: string, attempt: number) => boolean;
+
+// Where a processed file's date came from: one of the date sources for unstructured input, or the
+// directories and filename for structured input
+export type FileDateSource = DateSource | 'structure';
+
+// Everything known about a file being processed, handed to process callbacks after the file, date, subject and date source
+export interface FileContext {
+    path: string; // Absolute path
+    relativePath: string; // Relative to the input directory
+    extension: string; // Without the dot, empty when the file has none
+    date?: Date;
+    dateSource?: FileDateSource;
+    datePattern?: string; // The filename date pattern that found the date: a built-in name or the regular expression
+    hasTime: boolean; // Whether the date has a time of day from the file, rather than midnight
+    subject?: string; // The extracted subject, or the filename without its date and time
+    stats: { size: number, mtime: Date };
+    hash: () => Promise<string>; // The start of the file's sha256 digest, as place uses, computed on first call
+    outputDirectory: () => Promise<string>; // Where output would put a file of this date and extension, without creating it
+    outputFilename: () => Promise<string>; // The output filename with extension for the file's date, subject and hash
+}
+
+export const CollisionPolicySchema = z.enum([
+    'suffix',
+    'skip',
+    'overwrite',
+    'fail',
+    'compare-hash',
+]);
+
+export type CollisionPolicy = z.infer<typeof CollisionPolicySchema>;
+
+// What Operator.process does when a file's callback throws:
+// - continue: log it and go on with the next file
+// - fail-fast: stop starting files and reject
+// - max-errors=N: go on until more than N files have failed, then stop and reject
+// - quarantine: move the file to the quarantine directory, with the error in a sidecar, and go on
+export const ErrorPolicySchema = z.union([
+    z.enum(['continue', 'fail-fast', 'quarantine']),
+    z.custom<`max-errors=${number}`>(value => typeof value === 'string' && MAX_ERRORS_POLICY.test(value)),
+]);
+
+export type ErrorPolicy = z.infer<typeof ErrorPolicySchema>;
+
+// How many files Operator.process may start across all workers: N/s per second, or N/m per minute
+export const RateLimitSchema = z.custom<`${number}/${'s' | 'm'}`>(value => typeof value === 'string' && RATE_LIMIT.test(value));
+
+export type RateLimit = z.infer<typeof RateLimitSchema>;
+
+// The order input files are processed in. Without one they come in the order the filesystem lists them.
+// - name and path: by filename or by path relative to the input directory
+// - date-asc and date-desc: by date, oldest or newest first
+// - size and mtime: by size or modification time, smallest or oldest first
+export const SortOrderSchema = z.enum([
+    'name',
+    'path',
+    'date-asc',
+    'date-desc',
+    'size',
+    'mtime',
+]);
+
+export type SortOrder = z.infer<typeof SortOrderSchema>;
+
+// How resolveOutputPath settled on a path:
+// - none: the path was free
+// - suffixed: a numbered suffix was added to avoid a collision
+// - skipped: the path is taken and nothing should be written
+// - overwritten: the path exists on disk and may be overwritten
+// - identical: the path exists with the same content as the source, so nothing needs to be written
+export type CollisionResolution = 'none' | 'suffixed' | 'skipped' | 'overwritten' | 'identical';
+
+export interface OutputPath {
+    path: string;
+    resolution: CollisionResolution;
+    collidedWith?: string; // The path that was originally requested, when it was taken
+}
+
+// Why input processing passed over a file without calling the callback
+export type SkipReason = 'out-of-range' | 'unparseable-date';
+
+export interface InputHooks {
+    onSkip?: (file: string, reason: SkipReason, date?: Date) => void;
+    // Structured input leaves directories whose dates are all outside the date range unread
+    onPrune?: (directory: string) => void;
+    // A file whose callback, or date parsing, threw. Processing goes on with the next file unless this throws.
+    onFail?: (file: string, error: Error) => void | Promise<void>;
+    // A file that matched but was left out by the offset, the sample or the limit. The walk only goes on past
+    // the limit when this is given.
+    onLimit?: (file: string, reason: LimitReason) => void;
+    // A file found by the walk. With this or onEnumerated given, the walk runs ahead of the files being processed
+    // to find them early, holding up to 10,000 of their paths in memory.
+    onDiscover?: (file: string) => void;
+    // The walk is over, having found this many files
+    onEnumerated?: (total: number) => void;
+    // The callback is about to be called for a file, and has completed for it without throwing
+    onStart?: (file: string) => void;
+    onDone?: (file: string) => void;
+}
+
+// Why a file that matched was left out: past the limit, before the offset, or not picked for the sample
+export type LimitReason = 'limit-reached' | 'offset' | 'not-sampled';
+
+// Why Operator.process did not hand a file to its callback: a SkipReason, left out by the include,
+// exclude and ignore rules, or a LimitReason
+export type ProcessSkipReason = SkipReason | 'excluded' | LimitReason;
+
+export interface ProcessFailure {
+    file: string;
+    error: Error;
+    quarantined?: string; // Where the quarantine error policy moved the file
+}
+
+// What Operator.process did, once every file has been handled
+export interface ProcessReport {
+    processed: number;
+    skipped: Record<ProcessSkipReason, number>;
+    failed: ProcessFailure[];
+    durationMs: number;
+    filesPerSecond: number; // Processed files per second of the whole run
+    aborted: boolean; // Whether the signal stopped the run, so the counts only cover the files started before it
+}
+
+// Running totals of a process run, handed to every event. The ETA is only known once the walk has found every
+// file, and is estimated from how long the files completed so far took.
+export interface ProgressTotals {
+    discovered: number;
+    enumerated: boolean; // Whether the walk is over, so discovered is the total
+    started: number;
+    processed: number;
+    skipped: number;
+    failed: number;
+    elapsedMs: number;
+    etaMs?: number;
+}
+
+// What Operator.on listeners are called with for each event
+export interface OperatorEvents {
+    discover: { file: string, totals: ProgressTotals };
+    start: { file: string, totals: ProgressTotals };
+    skip: { file: string, reason: ProcessSkipReason, totals: ProgressTotals };
+    done: { file: string, totals: ProgressTotals };
+    error: { file: string, error: Error, totals: ProgressTotals };
+    directoryCreated: { directory: string };
+}
+
+export type OperatorEvent = keyof OperatorEvents;
+
+// Options for Operator.process beyond the date range
+export interface ProcessOptions {
+    // Aborting stops processing: files already started finish, no new files start, and process
+    // resolves to the report so far. Also handed to callbacks, so long-running work can stop early.
+    signal?: AbortSignal;
+}
+
+// A file Operator.files yields: what process would hand to its callback, without the subject and context
+export interface InputFile {
+    path: string;
+    date?: Date;
+    dateSource?: FileDateSource;
+}
+
+// Options for Operator.processBatches beyond the date range and signal
+export interface BatchOptions {
+    batchSize: number; // The most files handed to the callback at once
+    maxWaitMs?: number; // Hand a batch over before it is full once its first file has waited this long
+}
+
+// Handles a batch of files. Throwing fails the whole batch, while resolving to a list fails only the files on it.
+export type BatchCallback = (files: InputFile[], signal?: AbortSignal) => Promise<void | { file: string, error: Error }[]>;
+
+// A batch whose callback threw, which failed every file in it
+export interface BatchFailure {
+    files: string[];
+    error: Error;
+}
+
+// What Operator.processBatches did: the report on its files, and how their batches went
+export interface BatchReport extends ProcessReport {
+    batches: number; // Batches handed to the callback
+    failedBatches: BatchFailure[];
+}
+
+// How Operator.place puts a file into the output directory
+export type PlacementMode = z.infer<typeof PlacementModeSchema>;
+
+// File attributes that Operator.place can carry over to copied files
+export type PreserveOption = 'mtime' | 'permissions';
+
+export interface PlaceOptions {
+    date: Date;
+    subject?: string;
+    hash?: string; // Defaults to the start of the file's sha256 digest
+    type?: string; // Defaults to the file's extension
+    mode?: PlacementMode; // Defaults to copy
+    preserve?: PreserveOption[];
+}
+
+export interface Placement {
+    path: string;
+    resolution: CollisionResolution;
+    mode?: PlacementMode; // The mode actually used, which differs from the requested one after a fallback; unset when nothing was written
+}
+
+export const PlacementModeSchema = z.enum([
+    'copy',
+    'move',
+    'hardlink',
+    'symlink',
+    'reflink',
+]);
+
+// One file in a plan. Dates are ISO 8601 strings so that plans survive a round trip through JSON.
+export const PlannedActionSchema = z.object({
+    source: z.string(),
+    date: z.string().optional(),
+    targetDirectory: z.string().optional(),
+    targetFilename: z.string().optional(),
+    mode: PlacementModeSchema.optional(),
+    preserve: z.array(z.enum(['mtime', 'permissions'])).optional(),
+    resolution: z.enum(['none', 'suffixed', 'skipped', 'overwritten', 'identical']).optional(),
+    // Set when the file will not be placed: a SkipReason, 'no-date', 'exists', 'identical', 'failed', or a reason given by the plan callback
+    skipped: z.string().optional(),
+    // Why planning the file threw, when it was skipped as 'failed'
+    error: z.string().optional(),
+});
+
+export type PlannedAction = z.infer<typeof PlannedActionSchema>;
+
+export const PlanSchema = z.object({
+    createdAt: z.string(),
+    actions: z.array(PlannedActionSchema),
+});
+
+export type Plan = z.infer<typeof PlanSchema>;
+
+// What a plan callback decides for one file: placement options, or a reason to skip it
+export type PlanDecision = Partial<PlaceOptions> & { skip?: string };
+
+// One line of the operation journal. File entries keep the target's mtime and size so undo can tell whether it was modified since.
+export const JournalEntrySchema = z.discriminatedUnion('type', [
+    z.object({
+        type: z.literal('directory'),
+        runId: z.string(),
+        timestamp: z.string(),
+        path: z.string(),
+    }),
+    z.object({
+        type: z.literal('file'),
+        runId: z.string(),
+        timestamp: z.string(),
+        path: z.string(),
+        source: z.string(),
+        mode: PlacementModeSchema,
+        mtimeMs: z.number(),
+        size: z.number(),
+        overwritten: z.boolean().optional(), // The placed file replaced one that existed before the run
+    }),
+    z.object({
+        type: z.literal('undo'),
+        runId: z.string(),
+        timestamp: z.string(),
+    }),
+]);
+
+export type JournalEntry = z.infer<typeof JournalEntrySchema>;
+
+// Why undo left a path in place
+export type UndoKeptReason = 'missing' | 'modified' | 'overwritten' | 'source-exists' | 'not-empty';
+
+export interface UndoReport {
+    runId: string;
+    removed: string[]; // Files and directories that were deleted
+    restored: string[]; // Moved files that were put back at their source
+    kept: { path: string, reason: UndoKeptReason }[];
+}
+
 export interface DefaultOptions {
     timezone?: string;
     recursive?: boolean;
     inputDirectory?: string;
     inputStructure?: FilesystemStructure;
     inputFilenameOptions?: FilenameOption[];
+    inputDirectoryTemplate?: string;
     outputDirectory?: string;
     outputStructure?: FilesystemStructure;
+    outputDirectoryTemplate?: string;
     outputFilenameOptions?: FilenameOption[];
+    outputFilenameTemplate?: string;
     extensions?: string[];
+    fiscalYearStartMonth?: number;
+    dateFormatProfile?: DateFormatProfile;
+    onCollision?: CollisionPolicy;
+    dryRun?: boolean;
+    subjectSources?: SubjectSource[];
+    dateSources?: DateSource[];
+    filenameDatePatterns?: string[];
+    include?: string[];
+    exclude?: string[];
+    gitignore?: boolean;
+    onError?: ErrorPolicy;
+    quarantineDirectory?: string;
+    progress?: boolean;
+    timeout?: number;
+    retries?: number;
+    retryDelay?: number;
+    rateLimit?: RateLimit;
+    sort?: SortOrder;
+    reverse?: boolean;
     startDate?: string;
     endDate?: string;
     limit?: number;
+    offset?: number;
+    sample?: number;
+    seed?: string;
     concurrency?: number;
 }
 
@@ -74,6 +463,9 @@ export interface Options {
     features: Feature[],
     addDefaults: boolean;
     logger: Logger;
+    subjectExtractor?: SubjectExtractor;
+    dateExtractor?: DateExtractor;
+    retryable?: RetryPredicate;
 }
 
 export interface Logger {
@@ -136,12 +528,37 @@ export const ConfigSchema = z.object({
     inputDirectory: z.string().optional(),
     inputStructure: FilesystemStructureSchema.optional(),
     inputFilenameOptions: z.array(FilenameOptionSchema).optional(),
+    inputDirectoryTemplate: z.string().optional(),
     recursive: z.boolean().optional(),
     outputDirectory: z.string().optional(),
     outputStructure: FilesystemStructureSchema.optional(),
+    outputDirectoryTemplate: z.string().optional(),
     outputFilenameOptions: z.array(FilenameOptionSchema).optional(),
+    outputFilenameTemplate: z.string().optional(),
     extensions: z.array(z.string()).optional(),
+    fiscalYearStartMonth: z.number().optional(),
+    dateFormatProfile: DateFormatProfileSchema.optional(),
+    onCollision: CollisionPolicySchema.optional(),
+    dryRun: z.boolean().optional(),
+    subjectSources: z.array(SubjectSourceSchema).optional(),
+    dateSources: z.array(DateSourceSchema).optional(),
+    filenameDatePatterns: z.array(z.string()).optional(),
+    include: z.array(z.string()).optional(),
+    exclude: z.array(z.string()).optional(),
+    gitignore: z.boolean().optional(),
+    onError: ErrorPolicySchema.optional(),
+    quarantineDirectory: z.string().optional(),
+    progress: z.boolean().optional(),
+    timeout: z.number().optional(),
+    retries: z.number().optional(),
+    retryDelay: z.number().optional(),
+    rateLimit: RateLimitSchema.optional(),
+    sort: SortOrderSchema.optional(),
+    reverse: z.boolean().optional(),
     limit: z.number().optional(),
+    offset: z.number().optional(),
+    sample: z.number().optional(),
+    seed: z.string().optional(),
     concurrency: z.number().optional(),
 });
 
@@ -153,9 +570,24 @@ export interface DateRange {
 export type Config = z.infer<typeof ConfigSchema>;
 
 export interface Operator {
-    process: (callback: (file: string) => Promise<void>, dateRange?: Partial<DateRange>, concurrency?: number) => Promise<void>;
-    constructFilename: (createDate: Date, type: string, hash: string, options?: { subject?: string }) => Promise<string>;
-    constructOutputDirectory: (createDate: Date) => Promise<string>;
+    // Hands each file to the callback with its context, which describes the file in full. The date, subject and date
+    // source before it are the context's own, kept for callbacks that take them in place.
+    process: (callback: (file: string, date?: Date, subject?: string, dateSource?: FileDateSource, context?: FileContext, signal?: AbortSignal) => Promise<void>, dateRange?: Partial<DateRange> & ProcessOptions) => Promise<ProcessReport>;
+    // Hands the files process would use to the callback in batches, running up to concurrency batches at once
+    processBatches: (callback: BatchCallback, options: BatchOptions & Partial<DateRange> & ProcessOptions) => Promise<BatchReport>;
+    // The files process would use, one at a time. Leaving the loop or aborting the signal stops the walk.
+    files: (options?: Partial<DateRange> & ProcessOptions) => AsyncIterable<InputFile>;
+    constructFilename: (createDate: Date, type: string, hash: string, options?: { subject?: string, file?: string }) => Promise<string>;
+    constructOutputDirectory: (createDate: Date, options?: { type?: string }) => Promise<string>;
+    resolveOutputPath: (directory: string, filename: string, options?: { source?: string }) => Promise<OutputPath>;
+    releaseOutputPath: (path: string) => void;
+    place: (file: string, options: PlaceOptions) => Promise<Placement>;
+    plan: (callback?: (file: string, date?: Date) => Promise<PlanDecision | void>, dateRange?: Partial<DateRange>) => Promise<Plan>;
+    apply: (plan: Plan) => Promise<Placement[]>;
+    runId: string;
+    undo: (runId: string) => Promise<UndoReport>;
+    // Listen to process runs and created directories. Returns a function that removes the listener.
+    on: <E extends OperatorEvent>(event: E, listener: (payload: OperatorEvents[E]) => void) => () => void;
 }
 
 export interface DreadCabinet {
@@ -178,7 +610,10 @@ export const create = (
         allowed: { ...DEFAULT_ALLOWED_OPTIONS, ...creationOptsParam.allowed },
         features: creationOptsParam.features || DEFAULT_FEATURES,
         addDefaults: creationOptsParam.addDefaults === undefined ? DEFAULT_OPTIONS.addDefaults : creationOptsParam.addDefaults,
-        logger: wrapLogger(creationOptsParam.logger || DEFAULT_OPTIONS.logger)
+        logger: wrapLogger(creationOptsParam.logger || DEFAULT_OPTIONS.logger),
+        subjectExtractor: creationOptsParam.subjectExtractor,
+        dateExtractor: creationOptsParam.dateExtractor,
+        retryable: creationOptsParam.retryable,
     };
 
     return {
@@ -0,0 +1,12 @@
+export class CollisionError extends Error {
+    private targetPath: string;
+    constructor(targetPath: string, message: string) {
+        super(`${message}`);
+        this.name = 'CollisionError';
+        this.targetPath = targetPath;
+    }
+
+    get path(): string {
+        return this.targetPath;
+    }
+}
@@ -0,0 +1,12 @@
+export class ProcessingError extends Error {
+    private filePath: string;
+    constructor(filePath: string, message: string, cause?: unknown) {
+        super(`${message}`, { cause });
+        this.name = 'ProcessingError';
+        this.filePath = filePath;
+    }
+
+    get file(): string {
+        return this.filePath;
+    }
+}
@@ -0,0 +1,18 @@
+export class TimeoutError extends Error {
+    private filePath: string;
+    private timeoutMs: number;
+    constructor(filePath: string, timeoutMs: number) {
+        super(`Processing ${filePath} took longer than ${timeoutMs}ms`);
+        this.name = 'TimeoutError';
+        this.filePath = filePath;
+        this.timeoutMs = timeoutMs;
+    }
+
+    get file(): string {
+        return this.filePath;
+    }
+
+    get timeout(): number {
+        return this.timeoutMs;
+    }
+}
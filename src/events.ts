@@ -0,0 +1,100 @@
+import { InputHooks, LimitReason, Logger, OperatorEvent, OperatorEvents, ProcessSkipReason, ProgressTotals } from 'dreadcabinet';
+
+type Listener<E extends OperatorEvent> = (payload: OperatorEvents[E]) => void;
+
+// The events of a process run, as opposed to directoryCreated which any output can cause
+export const PROCESS_EVENTS: OperatorEvent[] = ['discover', 'start', 'skip', 'done', 'error'];
+
+export const create = (logger: Logger): {
+    on: <E extends OperatorEvent>(event: E, listener: Listener<E>) => () => void;
+    emit: <E extends OperatorEvent>(event: E, payload: OperatorEvents[E]) => void;
+    track: (hooks?: InputHooks) => InputHooks;
+} => {
+    const listeners = new Map<OperatorEvent, Set<Listener<any>>>();
+
+    const on = <E extends OperatorEvent>(event: E, listener: Listener<E>): () => void => {
+        if (!listeners.has(event)) {
+            listeners.set(event, new Set());
+        }
+        listeners.get(event)!.add(listener);
+        return () => {
+            listeners.get(event)?.delete(listener);
+        };
+    }
+
+    // A listener that throws is logged, so watching a run can never make it fail
+    const emit = <E extends OperatorEvent>(event: E, payload: OperatorEvents[E]): void => {
+        listeners.get(event)?.forEach(listener => {
+            try {
+                listener(payload);
+            } catch (error: any) {
+                logger.warn('A listener for %s events failed: %s', event, error?.message ?? error);
+            }
+        });
+    }
+
+    // Hooks for one process run that keep its running totals and emit its events, calling the given hooks as well.
+    // Without listeners the hooks are returned as they are, so the walk does not run ahead for nothing.
+    const track = (hooks: InputHooks = {}): InputHooks => {
+        if (!PROCESS_EVENTS.some(event => (listeners.get(event)?.size ?? 0) > 0)) {
+            return hooks;
+        }
+
+        const startedAt = Date.now();
+        const counts = { discovered: 0, enumerated: false, started: 0, processed: 0, skipped: 0, failed: 0 };
+        const totals = (): ProgressTotals => {
+            const elapsedMs = Date.now() - startedAt;
+            const completed = counts.processed + counts.skipped + counts.failed;
+            const etaMs = counts.enumerated && completed > 0 ?
+                Math.round((counts.discovered - completed) * elapsedMs / completed) :
+                undefined;
+            return { ...counts, elapsedMs, etaMs };
+        }
+        const skip = (file: string, reason: ProcessSkipReason) => {
+            counts.skipped++;
+            emit('skip', { file, reason, totals: totals() });
+        }
+
+        return {
+            ...hooks,
+            onDiscover: (file: string) => {
+                counts.discovered++;
+                hooks.onDiscover?.(file);
+                emit('discover', { file, totals: totals() });
+            },
+            onEnumerated: (total: number) => {
+                counts.enumerated = true;
+                hooks.onEnumerated?.(total);
+            },
+            onStart: (file: string) => {
+                counts.started++;
+                hooks.onStart?.(file);
+                emit('start', { file, totals: totals() });
+            },
+            onDone: (file: string) => {
+                counts.processed++;
+                hooks.onDone?.(file);
+                emit('done', { file, totals: totals() });
+            },
+            onSkip: (file, reason, date) => {
+                hooks.onSkip?.(file, reason, date);
+                skip(file, reason);
+            },
+            onLimit: (file: string, reason: LimitReason) => {
+                hooks.onLimit?.(file, reason);
+                skip(file, reason);
+            },
+            onFail: async (file: string, error: Error) => {
+                counts.failed++;
+                emit('error', { file, error, totals: totals() });
+                await hooks.onFail?.(file, error);
+            },
+        };
+    }
+
+    return {
+        on,
+        emit,
+        track,
+    }
+}
@@ -0,0 +1,142 @@
+import { BatchCallback, BatchFailure, BatchOptions, BatchReport, Config, Feature, InputFile, InputHooks, Logger } from "dreadcabinet";
+import * as DateSources from "./date-source";
+import { files } from "./files";
+import * as Report from "./report";
+
+export const processBatches = async (
+    config: Config,
+    features: Feature[],
+    logger: Logger,
+    callback: BatchCallback,
+    { batchSize, maxWaitMs, start, end, dates, signal, walkPastLimit, onSkip, onPrune, onFail, onLimit, onDiscover, onEnumerated, onStart, onDone }: BatchOptions & { start?: Date, end?: Date, dates?: ReturnType<typeof DateSources.create>, signal?: AbortSignal, walkPastLimit?: boolean } & InputHooks
+): Promise<BatchReport> => {
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+        throw new Error('Batch size must be a positive integer');
+    }
+    if (maxWaitMs !== undefined && !(maxWaitMs > 0)) {
+        throw new Error('Batch wait must be a positive number of milliseconds');
+    }
+
+    const concurrency = config.concurrency;
+    if (!concurrency) {
+        throw new Error('Concurrency is not configured');
+    }
+
+    let processed = 0;
+    let batches = 0;
+
+    // The same report process builds, plus the batches that failed as a whole. Files whose date could not be read
+    // fail before they are put in a batch, and the files a batch or callback failed go through the same policy.
+    const report = Report.create(config, logger, { onSkip, onPrune, onFail, onLimit, onDiscover, onEnumerated });
+    const failedBatches: BatchFailure[] = [];
+
+    async function run(batch: InputFile[]): Promise<void> {
+        batches++;
+        const paths = batch.map(file => file.path);
+        paths.forEach(path => onStart?.(path));
+
+        let failures: { file: string, error: Error }[] = [];
+        try {
+            failures = (await callback(batch, signal)) || [];
+            failures.forEach(({ file, error }) => logger.error('Error processing file %s: %s', file, error.message));
+        } catch (error) {
+            const batchError = error instanceof Error ? error : new Error(String(error));
+            logger.error('Error processing a batch of %d files starting with %s: %s', paths.length, paths[0], batchError.message);
+            failedBatches.push({ files: paths, error: batchError });
+            failures = paths.map(file => ({ file, error: batchError }));
+        }
+
+        const failedFiles = new Set(failures.map(({ file }) => file));
+        paths.filter(path => !failedFiles.has(path)).forEach(path => {
+            processed++;
+            onDone?.(path);
+        });
+        for (const { file, error } of failures) {
+            await report.fail(file, error);
+        }
+    }
+
+    // Batches run up to concurrency at a time. Once the error policy stops processing or the signal is aborted,
+    // the batches already handed over finish and no more are.
+    const running = new Set<Promise<void>>();
+    let failure: { error: unknown } | undefined;
+    const stopped = () => failure !== undefined || (signal?.aborted ?? false);
+    const dispatch = async (batch: InputFile[]) => {
+        while (running.size >= concurrency) {
+            await Promise.race(running);
+        }
+        if (stopped()) return;
+        const task: Promise<void> = run(batch)
+            .catch(error => {
+                failure ??= { error };
+            })
+            .finally(() => running.delete(task));
+        running.add(task);
+    }
+
+    // The files are walked one at a time, and a batch is handed over once it is full, once the walk is over, or
+    // with maxWaitMs once its first file has waited that long. A file being waited for when time runs out goes
+    // in the next batch.
+    const iterator = files(config, features, logger, { start, end, dates, signal, walkPastLimit, hooks: report.hooks })[Symbol.asyncIterator]();
+    let next: Promise<IteratorResult<InputFile, { excluded?: { files: number, directories: number } } | void>> | undefined;
+    const nextBefore = async (deadline: number) => {
+        let timer: NodeJS.Timeout | undefined;
+        try {
+            return await Promise.race([next!, new Promise<undefined>(resolve => {
+                timer = setTimeout(() => resolve(undefined), Math.max(deadline - Date.now(), 0));
+            })]);
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    let walked = false;
+    let excluded: { files: number, directories: number } | undefined;
+    try {
+        while (!walked && !stopped()) {
+            const batch: InputFile[] = [];
+            let deadline: number | undefined;
+            while (batch.length < batchSize && !stopped()) {
+                next ??= iterator.next();
+                const result = deadline === undefined ? await next : await nextBefore(deadline);
+                if (!result) break;
+                next = undefined;
+                if (result.done) {
+                    walked = true;
+                    excluded = result.value?.excluded;
+                    break;
+                }
+                batch.push(result.value);
+                if (maxWaitMs) {
+                    deadline ??= Date.now() + maxWaitMs;
+                }
+            }
+            if (batch.length > 0) {
+                await dispatch(batch);
+            }
+        }
+    } catch (error) {
+        failure ??= { error };
+    } finally {
+        if (!walked) {
+            // A file may still be on its way when processing stops, and nobody is left to take it
+            next?.catch(() => undefined);
+            await iterator.return(undefined);
+        }
+    }
+    await Promise.all(running);
+    if (failure) {
+        throw failure.error;
+    }
+
+    const aborted = signal?.aborted ?? false;
+    if (aborted) {
+        logger.warn('Processing was aborted after %d batches, the files not yet handed over were left alone.', batches);
+    }
+
+    return {
+        ...report.finish(processed, { excluded, aborted, batches }),
+        batches,
+        failedBatches,
+    };
+}
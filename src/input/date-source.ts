@@ -0,0 +1,122 @@
+import * as path from 'node:path';
+import { Config, DateSource, Options } from 'dreadcabinet';
+import { DEFAULT_FILENAME_DATE_PATTERNS } from '../constants';
+import * as Dates from '../util/dates';
+import * as Frontmatter from '../util/frontmatter';
+import * as Storage from '../util/storage';
+import * as FilenameDate from './filename-date';
+
+// A date, optionally followed by a time: 2025-03-07, 2025-03-07 10:15 or 2025-03-07T10:15:30
+const DATE = /(?<year>\d{4})-(?<month>\d{2})-(?<day>\d{2})(?:[T ](?<hour>\d{2}):(?<minute>\d{2})(?::(?<second>\d{2}))?)?/;
+// A date at the very start of a value, as in `date: 2025-03-07`
+const LEADING_DATE = new RegExp(`^${DATE.source}`);
+
+// The date and the source it was found in, plus the filename date pattern when the source is the filename.
+// `time` says whether the source gave a time of day; file times and custom dates always do.
+export interface ResolvedDate {
+    date: Date;
+    source: DateSource;
+    time: boolean;
+    pattern?: string;
+}
+
+const frontmatterComponents = (content: string): FilenameDate.DateComponents | undefined => {
+    return Frontmatter.field(content, 'date')?.match(LEADING_DATE)?.groups;
+}
+
+// The date parts of the first line after the frontmatter that holds a valid date
+const contentComponents = (dates: Dates.Utility, content: string): FilenameDate.DateComponents | undefined => {
+    for (const line of Frontmatter.strip(content).split(/\r?\n/)) {
+        const components = line.match(DATE)?.groups;
+        if (FilenameDate.toDate(dates, components)) {
+            return components;
+        }
+    }
+    return undefined;
+}
+
+export const fromFrontmatter = (dates: Dates.Utility, content: string): Date | undefined => {
+    return FilenameDate.toDate(dates, frontmatterComponents(content));
+}
+
+export const fromFilename = (dates: Dates.Utility, file: string, patterns: string[] = DEFAULT_FILENAME_DATE_PATTERNS): FilenameDate.FilenameDateMatch | undefined => {
+    return FilenameDate.match(dates, path.basename(file), patterns);
+}
+
+export const fromContent = (dates: Dates.Utility, content: string): Date | undefined => {
+    return FilenameDate.toDate(dates, contentComponents(dates, content));
+}
+
+const isValid = (date: Date | undefined): date is Date => date instanceof Date && !isNaN(date.getTime());
+
+export const create = (config: Config, options: Options): {
+    sources: DateSource[];
+    resolve: (file: string) => Promise<ResolvedDate | undefined>;
+} => {
+    const logger = options.logger;
+    const storage: Storage.Utility = Storage.create({ log: logger.debug });
+    const dates: Dates.Utility = Dates.create({ timezone: config.timezone });
+    // A dateExtractor on its own is used without having to list it as a source
+    const sources: DateSource[] = config.dateSources || (options.dateExtractor ? ['custom'] : []);
+    const needsContent = sources.some(source => source === 'frontmatter' || source === 'content' || source === 'custom');
+    const needsStats = sources.some(source => source === 'mtime' || source === 'birthtime' || source === 'ctime');
+    const filenameDatePatterns = config.filenameDatePatterns || DEFAULT_FILENAME_DATE_PATTERNS;
+
+    // Try the sources in order and return the first date found
+    async function resolve(file: string): Promise<ResolvedDate | undefined> {
+        if (sources.length === 0) {
+            return undefined;
+        }
+        const content = needsContent ? await storage.readFile(file, 'utf8') : '';
+        const stats = needsStats ? await storage.stat(file) : undefined;
+
+        for (const source of sources) {
+            let date: Date | undefined;
+            let pattern: string | undefined;
+            let time = true;
+            let components: FilenameDate.DateComponents | undefined;
+            switch (source) {
+                case 'mtime':
+                    date = stats?.mtime;
+                    break;
+                case 'birthtime':
+                    // Filesystems that do not record creation times report the epoch
+                    date = stats && stats.birthtimeMs > 0 ? stats.birthtime : undefined;
+                    break;
+                case 'ctime':
+                    date = stats?.ctime;
+                    break;
+                case 'frontmatter':
+                    components = frontmatterComponents(content);
+                    date = FilenameDate.toDate(dates, components);
+                    time = components?.hour !== undefined;
+                    break;
+                case 'filename':
+                    ({ date, pattern, time = false } = fromFilename(dates, file, filenameDatePatterns) ?? {});
+                    break;
+                case 'content':
+                    components = contentComponents(dates, content);
+                    date = FilenameDate.toDate(dates, components);
+                    time = components?.hour !== undefined;
+                    break;
+                case 'custom':
+                    date = await options.dateExtractor?.(file, content);
+                    break;
+            }
+            if (isValid(date)) {
+                if (pattern) {
+                    logger.verbose('Found date %s for %s in its filename with pattern %s', date.toISOString(), file, pattern);
+                    return { date, source, time, pattern };
+                }
+                logger.debug('Found date %s for %s in %s', date.toISOString(), file, source);
+                return { date, source, time };
+            }
+        }
+        return undefined;
+    }
+
+    return {
+        sources,
+        resolve,
+    }
+}
@@ -0,0 +1,82 @@
+import { Config, ErrorPolicy, Logger, ProcessFailure } from 'dreadcabinet';
+import * as path from 'node:path';
+import { CROSS_DEVICE_CODES, DEFAULT_ON_ERROR, DEFAULT_QUARANTINE_DIRECTORY, MAX_ERRORS_POLICY, QUARANTINE_SIDECAR_SUFFIX } from '../constants';
+import { ProcessingError } from '../error/ProcessingError';
+import * as Storage from '../util/storage';
+
+// How many files may fail before a policy stops processing
+export const maxErrors = (policy: ErrorPolicy): number => {
+    if (policy === 'fail-fast') {
+        return 0;
+    }
+    const match = policy.match(MAX_ERRORS_POLICY);
+    return match ? Number(match[1]) : Infinity;
+}
+
+// Where a failed file goes in the quarantine directory: under the same relative path as in the input
+// directory, so files with the same name from different directories do not replace each other
+export const quarantinePath = (file: string, inputDirectory: string, quarantineDirectory: string): string => {
+    const relativePath = path.relative(path.resolve(inputDirectory), path.resolve(file));
+    const inside = relativePath !== '' && !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+    return path.join(path.resolve(quarantineDirectory), inside ? relativePath : path.basename(file));
+}
+
+export const create = (config: Config, logger: Logger): {
+    handle: (failure: ProcessFailure) => Promise<void>;
+} => {
+    const storage = Storage.create({ log: logger.debug });
+    const policy = config.onError || DEFAULT_ON_ERROR;
+    const allowed = maxErrors(policy);
+    const quarantineDirectory = config.quarantineDirectory || DEFAULT_QUARANTINE_DIRECTORY;
+
+    let failures = 0;
+
+    async function quarantine(failure: ProcessFailure): Promise<string | undefined> {
+        const target = quarantinePath(failure.file, config.inputDirectory || '.', quarantineDirectory);
+        if (config.dryRun) {
+            logger.info('Would quarantine %s in %s', failure.file, target);
+            return undefined;
+        }
+        try {
+            await storage.createDirectory(path.dirname(target));
+            try {
+                await storage.moveFile(failure.file, target);
+            } catch (error: any) {
+                if (!CROSS_DEVICE_CODES.includes(error?.code)) throw error;
+                await storage.copyFile(failure.file, target);
+                await storage.removeFile(failure.file);
+            }
+            const sidecar = {
+                file: path.resolve(failure.file),
+                failedAt: new Date().toISOString(),
+                error: { name: failure.error.name, message: failure.error.message, stack: failure.error.stack },
+            };
+            await storage.writeFile(`${target}${QUARANTINE_SIDECAR_SUFFIX}`, JSON.stringify(sidecar, null, 2), 'utf8');
+            logger.warn('Quarantined %s in %s', failure.file, target);
+            return target;
+        } catch (error: any) {
+            // The file failed already; not being able to move it should not stop the other files
+            logger.error('Unable to quarantine %s in %s: %s', failure.file, target, error?.message ?? error);
+            return undefined;
+        }
+    }
+
+    // Called for each failed file after it has been logged. Throws a ProcessingError to stop processing.
+    async function handle(failure: ProcessFailure): Promise<void> {
+        failures++;
+        if (policy === 'quarantine') {
+            failure.quarantined = await quarantine(failure);
+            return;
+        }
+        if (failures > allowed) {
+            const message = allowed === 0 ?
+                `Stopped processing after ${failure.file} failed: ${failure.error.message}` :
+                `Stopped processing after ${failures} files failed, more than the ${allowed} allowed by --on-error ${policy}`;
+            throw new ProcessingError(failure.file, message, failure.error);
+        }
+    }
+
+    return {
+        handle,
+    }
+}
@@ -0,0 +1,110 @@
+import { FilenameDatePattern } from 'dreadcabinet';
+import { ALLOWED_FILENAME_DATE_PATTERNS } from '../constants';
+import * as Dates from '../util/dates';
+
+// Named groups a filename date pattern captures. Only year, month and day are required;
+// zone (a trailing Z, meaning UTC) and meridiem (AM/PM) are understood when present.
+export interface DateComponents {
+    year?: string;
+    month?: string;
+    day?: string;
+    hour?: string;
+    minute?: string;
+    second?: string;
+    zone?: string;
+    meridiem?: string;
+}
+
+// The date found in a filename and the pattern that found it, a built-in name or the user's regular expression
+export interface FilenameDateMatch {
+    date: Date;
+    pattern: string;
+    // Whether the filename gave a time of day, rather than the date alone
+    time: boolean;
+}
+
+const REQUIRED_GROUPS = ['year', 'month', 'day'];
+
+// Built-in patterns, matched case-insensitively anywhere in the filename
+const BUILT_IN_PATTERNS: Record<FilenameDatePattern, RegExp> = {
+    // IMG_20240101_123000.jpg, PXL_20240101_123000123.jpg, DSC_20240101.jpg
+    camera: /(?:IMG|VID|PXL|DSC|DSCN|MVIMG|PANO)_(?<year>\d{4})(?<month>\d{2})(?<day>\d{2})(?:_(?<hour>\d{2})(?<minute>\d{2})(?<second>\d{2}))?/i,
+    // Screenshot 2024-01-01 at 10.00.00.png, Screen Shot 2020-01-01 at 1.00.00 PM.png, Screenshot_20240101-100000.png
+    screenshot: /Screen ?shot[ _-](?<year>\d{4})-?(?<month>\d{2})-?(?<day>\d{2})(?:(?: at |[-_ ])(?<hour>\d{1,2})[.:]?(?<minute>\d{2})[.:]?(?<second>\d{2})(?:[ \u202f]?(?<meridiem>[AP]M))?)?/i,
+    // VID-20240101-WA0001.mp4, IMG-20240101-WA0001.jpg, PTT-20240101-WA0001.opus
+    whatsapp: /(?:IMG|VID|AUD|PTT|DOC|STK)-(?<year>\d{4})(?<month>\d{2})(?<day>\d{2})-WA\d+/i,
+    // 2024-01-01T10-00-00Z.m4a, 2024-01-01 10.00.00.m4a, 2024-01-01-notes.md
+    iso: /(?<!\d)(?<year>\d{4})-(?<month>\d{2})-(?<day>\d{2})(?:[T _](?<hour>\d{2})[-.:](?<minute>\d{2})(?:[-.:](?<second>\d{2}))?(?<zone>Z)?)?(?!\d)/i,
+    // 20240101_100000.m4a, 20240101.txt
+    compact: /(?<!\d)(?<year>\d{4})(?<month>\d{2})(?<day>\d{2})(?:[-_T](?<hour>\d{2})(?<minute>\d{2})(?<second>\d{2}))?(?!\d)/i,
+    // The names this library writes for the none structure: 2024-1-1-1000-notes.md
+    dreadcabinet: /^(?<year>\d{4})-(?<month>\d{1,2})-(?<day>\d{1,2})(?:-(?<hour>\d{2})(?<minute>\d{2}))?(?!\d)/,
+};
+
+export const isBuiltIn = (pattern: string): pattern is FilenameDatePattern => {
+    return ALLOWED_FILENAME_DATE_PATTERNS.includes(pattern as FilenameDatePattern);
+}
+
+// Compiled user patterns, so that each is only checked and compiled once per process
+const compiled = new Map<string, RegExp>();
+
+// Turn a built-in name or a regular expression into a RegExp, throwing when a regular expression
+// does not compile or lacks one of the year, month and day groups
+export const compile = (pattern: string): RegExp => {
+    if (isBuiltIn(pattern)) {
+        return BUILT_IN_PATTERNS[pattern];
+    }
+    let regex = compiled.get(pattern);
+    if (!regex) {
+        try {
+            regex = new RegExp(pattern);
+        } catch (error: any) {
+            throw new Error(`Invalid filename date pattern: ${pattern}. ${error.message}`);
+        }
+        const missing = REQUIRED_GROUPS.filter(group => !new RegExp(`\\(\\?<${group}>`).test(pattern));
+        if (missing.length > 0) {
+            throw new Error(`Invalid filename date pattern: ${pattern}. It needs the named groups ${missing.join(', ')}, or use one of: ${ALLOWED_FILENAME_DATE_PATTERNS.join(', ')}`);
+        }
+        compiled.set(pattern, regex);
+    }
+    return regex;
+}
+
+// Build a date from captured components in the configured timezone, or in UTC when they carry a Z.
+// Anything that only looks like a date, such as 2025-13-45 or 2025-02-30, gives undefined.
+export const toDate = (dates: Dates.Utility, components: DateComponents | undefined, { time = true }: { time?: boolean } = {}): Date | undefined => {
+    if (!components?.year || !components.month || !components.day) {
+        return undefined;
+    }
+    const [year, month, day] = [Number(components.year), Number(components.month), Number(components.day)];
+    const [clockHour, minute, second] = time ? [Number(components.hour ?? 0), Number(components.minute ?? 0), Number(components.second ?? 0)] : [0, 0, 0];
+    const meridiem = time ? components.meridiem?.toUpperCase() : undefined;
+    if (meridiem && (clockHour < 1 || clockHour > 12)) {
+        return undefined;
+    }
+    // 12 AM is midnight and 12 PM is noon
+    const hour = meridiem ? (clockHour % 12) + (meridiem === 'PM' ? 12 : 0) : clockHour;
+
+    const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    if (month < 1 || month > 12 || day < 1 || day > daysInMonth || hour > 23 || minute > 59 || second > 59) {
+        return undefined;
+    }
+    if (time && components.zone) {
+        return new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+    }
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return dates.date(`${year}-${pad(month)}-${pad(day)}T${pad(hour)}:${pad(minute)}:${pad(second)}`);
+}
+
+// Try the patterns in order and return the first valid date, along with the pattern that found it.
+// Without `time`, only the day is taken from the filename, as structured input does.
+export const match = (dates: Dates.Utility, filename: string, patterns: string[], { time = true }: { time?: boolean } = {}): FilenameDateMatch | undefined => {
+    for (const pattern of patterns) {
+        const components: DateComponents | undefined = filename.match(compile(pattern))?.groups;
+        const date = toDate(dates, components, { time });
+        if (date) {
+            return { date, pattern, time: time && components?.hour !== undefined };
+        }
+    }
+    return undefined;
+}
@@ -0,0 +1,81 @@
+import { Config, DateSource, Feature, InputFile, InputHooks, Logger } from "dreadcabinet";
+import * as DateSources from "./date-source";
+import { walk } from "./process";
+
+// The files process would hand to its callback, as they are found. The walk runs one file at a time and only
+// goes on once the next file is asked for, so leaving the loop early, or aborting the signal, stops it there.
+// Once the walk is over it returns what the include and exclude rules left out.
+export async function* files(
+    config: Config,
+    features: Feature[],
+    logger: Logger,
+    { start, end, dates, signal, walkPastLimit, hooks }: { start?: Date, end?: Date, dates?: ReturnType<typeof DateSources.create>, signal?: AbortSignal, walkPastLimit?: boolean, hooks?: InputHooks } = {}
+): AsyncGenerator<InputFile, { excluded?: { files: number, directories: number } } | void> {
+    const structured = features.includes('structured-input');
+    const controller = new AbortController();
+    const walkSignal = signal ? AbortSignal.any([signal, controller.signal]) : controller.signal;
+
+    // The file waiting to be taken, with what lets the walk go on once it has been
+    let waiting: { file: InputFile, taken: () => void } | undefined;
+    let wake: (() => void) | undefined;
+    let finished = false;
+    let failure: { error: unknown } | undefined;
+    let excluded: { files: number, directories: number } | undefined;
+    const notify = () => {
+        wake?.();
+        wake = undefined;
+    }
+
+    const callback = (path: string, date?: Date, dateSource?: DateSource) => new Promise<void>(taken => {
+        // Nobody is left to take a file the walk started before it saw the abort
+        if (controller.signal.aborted) {
+            taken();
+            return;
+        }
+        waiting = { file: { path, date, dateSource: structured && date ? 'structure' : dateSource }, taken };
+        notify();
+    });
+
+    // Concurrency and the rate limit are left to whoever iterates
+    const walking = walk({ ...config, concurrency: 1 }, features, logger, callback, { start, end, dates, signal: walkSignal, walkPastLimit, hooks })
+        .then(walked => {
+            excluded = walked.excluded;
+        }, error => {
+            failure = { error };
+        })
+        .finally(() => {
+            finished = true;
+            notify();
+        });
+
+    let current: (() => void) | undefined;
+    try {
+        while (true) {
+            if (!waiting && !finished) {
+                await new Promise<void>(resolve => {
+                    wake = resolve;
+                });
+            }
+            if (waiting) {
+                const { file, taken } = waiting;
+                waiting = undefined;
+                current = taken;
+                yield file;
+                current = undefined;
+                taken();
+            } else if (finished) {
+                if (failure) {
+                    throw failure.error;
+                }
+                return { excluded };
+            }
+        }
+    } finally {
+        if (!finished) {
+            // Left early: the walk sees the abort once the file it is waiting on counts as taken
+            controller.abort();
+            current?.();
+            await walking;
+        }
+    }
+}
@@ -1,10 +1,81 @@
-import { Config, Options } from "dreadcabinet";
+import { BatchCallback, BatchOptions, Config, DateSource, FileContext, FileDateSource, InputHooks, Options, ProcessOptions } from "dreadcabinet";
+import * as path from 'node:path';
+import * as Context from '../context';
+import * as Events from '../events';
+import * as Subject from '../subject';
+import { processBatches } from './batches';
+import * as Dates from '../util/dates';
+import * as DateSources from './date-source';
+import * as FilenameDate from './filename-date';
+import { files } from './files';
 import { process } from './process';
+import * as Retry from './retry';
 
-export const create = (config: Config, options: Options) => {
-    type ProcessCallback = (file: string, date?: Date) => Promise<void>;
+export const create = (config: Config, options: Options, dependencies: {
+    subject?: ReturnType<typeof Subject.create>;
+    context?: ReturnType<typeof Context.create>;
+    events?: ReturnType<typeof Events.create>;
+} = {}) => {
+    type ProcessCallback = (file: string, date?: Date, subject?: string, dateSource?: FileDateSource, context?: FileContext, signal?: AbortSignal) => Promise<void>;
+
+    // Only handed to process when a source is configured, so unstructured input stays undated by default
+    const dateSources = DateSources.create(config, options);
+    const dates = dateSources.sources.length > 0 ? dateSources : undefined;
+
+    // Structured input dates come from the directories and filename, and have a time when filenames are read with one
+    const structured = options.features.includes('structured-input');
+    const structuredTime = config.inputFilenameOptions?.includes('time') ?? false;
+    // Structured input does not say which filename date pattern dated a file, so under the none structure, where the
+    // patterns are what date it, the filename is matched again for the context
+    const structuredPatterns = structured && config.inputStructure === 'none' && !config.inputDirectoryTemplate ? config.filenameDatePatterns : undefined;
+    const filenameDates = Dates.create({ timezone: config.timezone });
+    const structuredPattern = (file: string): string | undefined => structuredPatterns &&
+        FilenameDate.match(filenameDates, path.basename(file), structuredPatterns, { time: structuredTime })?.pattern;
+
+    // Timeouts and retries apply to the callback alone, so subjects and contexts are not worked out again for each attempt
+    const retry = Retry.create(config, options);
+    const attempting = (config.timeout ?? 0) > 0 || (config.retries ?? 0) > 0;
+
+    // Hand each file's extracted subject to the callback along with its date, where the date came from, its context and
+    // a signal: the run's, or with a timeout one that is also aborted when the attempt takes too long
+    const withDetails = (callback: ProcessCallback, signal?: AbortSignal) => {
+        const { subject, context } = dependencies;
+        if (!structured && !subject && !dates && !context && !signal && !attempting) {
+            // Unstructured input without date sources passes nothing beyond the file
+            return callback as (file: string) => Promise<void>;
+        }
+        const handle = async (file: string, date?: Date, dateSource?: DateSource, time?: boolean, datePattern?: string) => {
+            // Structured input dates come from where the file is, which the context and the callback are told alike
+            const fileDateSource: FileDateSource | undefined = structured && date ? 'structure' : dateSource;
+            const fileSubject = await subject?.extract(file);
+            const fileContext = await context?.build(file, {
+                date,
+                dateSource: fileDateSource,
+                time: structured ? structuredTime : time,
+                datePattern: structured && date ? structuredPattern(file) : datePattern,
+                subject: fileSubject,
+            });
+            return retry.run(file, attemptSignal => callback(file, date, fileSubject, fileDateSource, fileContext, attemptSignal), signal);
+        }
+        // The subject is kept while the file is handled, for the callback's constructFilename and place to ask again
+        return subject ? (file: string, date?: Date, dateSource?: DateSource, time?: boolean, datePattern?: string) => subject.handle(file, () => handle(file, date, dateSource, time, datePattern)) : handle;
+    }
 
     return {
-        process: (callback: ProcessCallback, { start, end }: { start?: Date, end?: Date } = {}) => process(config, options.features, options.logger, callback, { start, end }),
+        process: (callback: ProcessCallback, { start, end, signal, ...hooks }: { start?: Date, end?: Date } & ProcessOptions & InputHooks = {}) => {
+            // Each run keeps its own totals for the events. The events and the report hear about every file left out
+            // by the offset and the sample. The walk stops at the first file past the limit, so the report shows the limit
+            // left files out, and only goes on to every file past it when a caller of the input hooks asked with onLimit.
+            const tracked = dependencies.events?.track(hooks) ?? hooks;
+            const walkPastLimit = hooks.onLimit !== undefined;
+            return process(config, options.features, options.logger, withDetails(callback, signal), { start, end, ...tracked, dates, signal, walkPastLimit });
+        },
+        processBatches: (callback: BatchCallback, { start, end, signal, batchSize, maxWaitMs, ...hooks }: BatchOptions & { start?: Date, end?: Date } & ProcessOptions & InputHooks) => {
+            const tracked = dependencies.events?.track(hooks) ?? hooks;
+            const walkPastLimit = hooks.onLimit !== undefined;
+            return processBatches(config, options.features, options.logger, callback, { start, end, batchSize, maxWaitMs, ...tracked, dates, signal, walkPastLimit });
+        },
+        files: ({ start, end, signal }: { start?: Date, end?: Date } & ProcessOptions = {}) =>
+            files(config, options.features, options.logger, { start, end, dates, signal }),
     };
-}
\ No newline at end of file
+}
@@ -0,0 +1,145 @@
+import { Config, Logger } from 'dreadcabinet';
+import * as path from 'node:path';
+import * as Storage from '../util/storage';
+import * as DateSources from './date-source';
+import * as Structured from './structured';
+
+// How the walk puts input files in order for --sort and --reverse, before the limit is applied.
+// Paths are relative to the input directory and use "/" separators.
+export interface Order {
+    // Orders the entries of each directory as it is walked, so files come in order without walking them all first
+    orderEntries?: (a: string, b: string) => number;
+    // Orders every file once the whole walk is over, for orders that depend on more than where a file is
+    sort?: (files: string[]) => Promise<string[]>;
+    // Date sources that hand back the dates sorting already found, instead of finding them again
+    dates?: ReturnType<typeof DateSources.create>;
+}
+
+// By code point, so the order is the same on every machine whatever its locale
+export const comparePaths = (a: string, b: string): number => a < b ? -1 : a > b ? 1 : 0;
+
+// Numbers compare by value, so 2/10 comes after 2/9, for names whose dates tie
+const naturalCollator = new Intl.Collator('en', { numeric: true });
+
+// Template levels that do not keep a directory's dates together: extensions split them, and weeks under a calendar
+// year take in days of the year before or after. Trees with them are sorted whole instead.
+const templateKeepsDatesTogether = (template: string): boolean =>
+    !template.includes('{ext}') && (!/\{WW?\}/.test(template) || template.includes('{GGGG}'));
+
+// Files without a date are told about as they are matched, so working out the order says nothing
+const ignore = () => undefined;
+const quiet: Logger = { debug: ignore, info: ignore, warn: ignore, error: ignore, verbose: ignore, silly: ignore };
+
+export const create = (config: Config, logger: Logger, { structured, dates }: { structured: boolean, dates?: ReturnType<typeof DateSources.create> }): Order => {
+    const sortOrder = config.sort;
+    if (!sortOrder) {
+        return { dates };
+    }
+    const direction = config.reverse ? -1 : 1;
+    const inputDirectory = config.inputDirectory || '.';
+    const storage = Storage.create({ log: logger.debug });
+
+    // Sort by a key found for each file, breaking ties by path so that equal keys keep a stable order
+    const byKey = <K extends number | string>(key: (file: string) => Promise<K | undefined>, descending = false) =>
+        async (files: string[]): Promise<string[]> => {
+            logger.debug('Sorting %d files by %s', files.length, sortOrder);
+            const keyed: { file: string, key?: K }[] = [];
+            for (const file of files) {
+                keyed.push({ file, key: await key(file) });
+            }
+            const ordered = keyed.sort((a, b) => {
+                // Files without a key, such as files without a date, come last
+                if (a.key === undefined || b.key === undefined) {
+                    return a.key === b.key ? comparePaths(a.file, b.file) : a.key === undefined ? 1 : -1;
+                }
+                const compared = a.key < b.key ? -1 : a.key > b.key ? 1 : 0;
+                return (descending ? -compared : compared) || comparePaths(a.file, b.file);
+            }).map(({ file }) => file);
+            return direction < 0 ? ordered.reverse() : ordered;
+        };
+
+    switch (sortOrder) {
+        case 'path':
+            return { orderEntries: (a, b) => direction * comparePaths(a, b), dates };
+        case 'name':
+            return { sort: byKey(async file => path.posix.basename(file)), dates };
+        case 'size':
+            return { sort: byKey(async file => (await storage.stat(path.join(inputDirectory, file))).size), dates };
+        case 'mtime':
+            return { sort: byKey(async file => (await storage.stat(path.join(inputDirectory, file))).mtime.getTime()), dates };
+        case 'date-asc':
+        case 'date-desc': {
+            const descending = sortOrder === 'date-desc';
+            if (structured) {
+                // Structured input keeps its dates in directory and file names: directories cover the dates their
+                // structure gives them, and files have the date parsed from their path
+                const structure = config.inputStructure ?? 'none';
+                const structureOptions = { fiscalYearStartMonth: config.fiscalYearStartMonth, directoryTemplate: config.inputDirectoryTemplate, filenameDatePatterns: config.filenameDatePatterns };
+                const shouldParseTime = config.inputFilenameOptions?.includes('time') ?? false;
+                const dateOf = (entry: string): number | undefined => {
+                    const range = Structured.directoryDateRange(entry, structure, config.timezone, structureOptions);
+                    if (range) {
+                        return range.start.getTime();
+                    }
+                    try {
+                        return Structured.parseDateFromFilePath(entry.split('/').join(path.sep), path.posix.basename(entry), structure, shouldParseTime, config.timezone, quiet, structureOptions)?.getTime();
+                    } catch {
+                        return undefined;
+                    }
+                };
+
+                if (config.inputDirectoryTemplate && !templateKeepsDatesTogether(config.inputDirectoryTemplate)) {
+                    return { sort: byKey(async file => dateOf(file), descending), dates };
+                }
+
+                // Walking the entries in date order means the newest N files need no full scan. Each directory's
+                // entries are ordered at once, so only the dates of the directory being ordered are kept.
+                let ordering: string | undefined;
+                const entryDates = new Map<string, number | undefined>();
+                const entryDate = (entry: string): number | undefined => {
+                    const directory = path.posix.dirname(entry);
+                    if (directory !== ordering) {
+                        entryDates.clear();
+                        ordering = directory;
+                    }
+                    if (!entryDates.has(entry)) {
+                        entryDates.set(entry, dateOf(entry));
+                    }
+                    return entryDates.get(entry);
+                };
+                const byDate = (a: string, b: string): number => {
+                    const [first, second] = [entryDate(a), entryDate(b)];
+                    // Entries without a date, such as stray directories, come last
+                    if (first === undefined || second === undefined) {
+                        return first === second ? naturalCollator.compare(a, b) : first === undefined ? 1 : -1;
+                    }
+                    return (descending ? second - first : first - second) || naturalCollator.compare(a, b);
+                };
+                return { orderEntries: (a, b) => direction * byDate(a, b), dates };
+            }
+            // Unstructured input has to find every file's date first. The dates found are kept for processing the
+            // files, and each is handed back once.
+            const found = new Map<string, DateSources.ResolvedDate | undefined>();
+            const sort = byKey(async file => {
+                const absolute = path.join(inputDirectory, file);
+                const resolved = await dates?.resolve(absolute);
+                found.set(absolute, resolved);
+                return resolved?.date.getTime();
+            }, descending);
+            return {
+                sort,
+                dates: dates && {
+                    ...dates,
+                    resolve: async (file: string) => {
+                        if (found.has(file)) {
+                            const resolved = found.get(file);
+                            found.delete(file);
+                            return resolved;
+                        }
+                        return dates.resolve(file);
+                    },
+                },
+            };
+        }
+    }
+}
@@ -1,14 +1,22 @@
-import { Config, Feature, Logger } from "dreadcabinet";
+import { Config, DateSource, Feature, InputHooks, Logger, ProcessReport } from "dreadcabinet";
+import * as DateSources from "./date-source";
+import * as Order from "./order";
+import * as Report from "./report";
+import { rateLimitInterval } from "./retry";
+import * as Sample from "./sample";
+import * as Selection from "./selection";
 import { process as processStructuredInput } from "./structured";
 import { process as processUnstructuredInput } from "./unstructured";
 
-export const process = async (
+// Runs the callback for every file that structured or unstructured input selects, and returns how many it ran for
+// along with what the include and exclude rules left out. Shared by process and files, so both see the same files.
+export const walk = async (
     config: Config,
     features: Feature[],
     logger: Logger,
-    callback: (file: string) => Promise<void>,
-    { start, end }: { start?: Date, end?: Date } = {}
-) => {
+    callback: (file: string, date?: Date, dateSource?: DateSource, time?: boolean, datePattern?: string) => Promise<void>,
+    { start, end, dates, signal, interval, walkPastLimit, hooks = {} }: { start?: Date, end?: Date, dates?: ReturnType<typeof DateSources.create>, signal?: AbortSignal, interval?: number, walkPastLimit?: boolean, hooks?: InputHooks } = {}
+): Promise<{ fileCount: number, excluded?: { files: number, directories: number } }> => {
     if (!features.includes('input')) {
         throw new Error('Input feature is not enabled, skipping input processing');
     }
@@ -23,9 +31,16 @@ export const process = async (
         throw new Error('Input directory is not configured');
     }
 
-    let fileCount = 0;
+    // Include and exclude globs and ignore files apply to both kinds of input
+    const selection = await Selection.create(config, logger);
+    // So do --sort, --sample, --offset and --limit, in that order
+    const structured = features.includes('structured-input');
+    const { orderEntries, sort, dates: orderedDates } = Order.create(config, logger, { structured, dates });
+    const sample = Sample.create(config, logger);
+    const offset = config.offset;
 
-    if (features.includes('structured-input')) {
+    let fileCount = 0;
+    if (structured) {
         logger.debug('Processing Structured Input from %s with start date %s and end date %s', inputDirectory, start, end);
 
         if (!start || !end) {
@@ -43,7 +58,11 @@ export const process = async (
                 logger,
                 inputDirectory,
                 callback,
-                concurrency
+                concurrency,
+                { fiscalYearStartMonth: config.fiscalYearStartMonth, directoryTemplate: config.inputDirectoryTemplate, filenameDatePatterns: config.filenameDatePatterns },
+                hooks,
+                selection,
+                { signal, interval, orderEntries, sort, offset, sample, walkPastLimit }
             )
         }
 
@@ -52,8 +71,12 @@ export const process = async (
         // Original Unstructured Input Logic
         logger.debug('Processing Unstructured Input from %s', inputDirectory);
 
-        if (start || end) {
-            throw new Error('Start or end date is not allowed for unstructured input');
+        // Without a date source there is nothing to compare the range against
+        if ((start || end) && !dates) {
+            throw new Error('Start or end date is not allowed for unstructured input without a date source (--date-source)');
+        }
+        if (config.sort?.startsWith('date-') && !dates) {
+            throw new Error('Sorting by date is not possible for unstructured input without a date source (--date-source)');
         }
 
         fileCount = await processUnstructuredInput(
@@ -63,9 +86,39 @@ export const process = async (
             config.limit,
             logger,
             callback,
-            concurrency
+            concurrency,
+            { dates: orderedDates, start, end, ...hooks, selection, interval, signal, orderEntries, sort, offset, sample, walkPastLimit }
         );
     }
 
-    logger.info('Processed %d files matching criteria.', fileCount);
+    return { fileCount, excluded: selection?.excluded() };
+}
+
+export const process = async (
+    config: Config,
+    features: Feature[],
+    logger: Logger,
+    callback: (file: string, date?: Date, dateSource?: DateSource, time?: boolean, datePattern?: string) => Promise<void>,
+    { start, end, onSkip, onPrune, onFail, onLimit, onDiscover, onEnumerated, onStart, onDone, dates, signal, walkPastLimit }: { start?: Date, end?: Date, dates?: ReturnType<typeof DateSources.create>, signal?: AbortSignal, walkPastLimit?: boolean } & InputHooks = {}
+): Promise<ProcessReport> => {
+    // The rate limit is kept by spacing out the files the workers start
+    const interval = config.rateLimit ? rateLimitInterval(config.rateLimit) : undefined;
+    const report = Report.create(config, logger, { onSkip, onPrune, onFail, onLimit, onDiscover, onEnumerated });
+
+    // Only wrapped when someone listens, since the input processors call it once per file
+    const tracked = onStart || onDone ?
+        async (file: string, date?: Date, dateSource?: DateSource, time?: boolean, datePattern?: string) => {
+            onStart?.(file);
+            await callback(file, date, dateSource, time, datePattern);
+            onDone?.(file);
+        } : callback;
+
+    const { fileCount, excluded } = await walk(config, features, logger, tracked, { start, end, dates, signal, interval, walkPastLimit, hooks: report.hooks });
+
+    const aborted = signal?.aborted ?? false;
+    if (aborted) {
+        logger.warn('Processing was aborted after %d files, the files not yet started were left alone.', fileCount);
+    }
+
+    return report.finish(fileCount, { excluded, aborted });
 };
@@ -0,0 +1,69 @@
+import { Config, InputHooks, LimitReason, Logger, ProcessFailure, ProcessReport, SkipReason } from "dreadcabinet";
+import * as ErrorPolicy from "./error-policy";
+
+// Builds the report of a process or processBatches run. The hooks count what happens to every file and still tell
+// the caller's own hooks, and each failure goes to the error policy, which stops processing by throwing.
+export const create = (
+    config: Config,
+    logger: Logger,
+    { onSkip, onPrune, onFail, onLimit, onDiscover, onEnumerated }: InputHooks = {}
+): {
+    hooks: InputHooks;
+    fail: (file: string, error: Error) => Promise<void>;
+    finish: (processed: number, options: { excluded?: { files: number, directories: number }, aborted: boolean, batches?: number }) => ProcessReport;
+} => {
+    const startedAt = Date.now();
+
+    // Without walkPastLimit the walk stops at the first file past the limit, so that is the only one counted
+    const skipped = { 'out-of-range': 0, 'unparseable-date': 0, 'excluded': 0, 'limit-reached': 0, 'offset': 0, 'not-sampled': 0 };
+    const failed: ProcessFailure[] = [];
+    // The policy sees each failure after the caller's hook
+    const errorPolicy = ErrorPolicy.create(config, logger);
+
+    const fail = async (file: string, error: Error) => {
+        const failure: ProcessFailure = { file, error };
+        failed.push(failure);
+        await onFail?.(file, error);
+        await errorPolicy.handle(failure);
+    }
+
+    const hooks: InputHooks = {
+        onSkip: (file: string, reason: SkipReason, date?: Date) => {
+            skipped[reason]++;
+            onSkip?.(file, reason, date);
+        },
+        onPrune,
+        onFail: fail,
+        onLimit: (file: string, reason: LimitReason) => {
+            skipped[reason]++;
+            onLimit?.(file, reason);
+        },
+        onDiscover,
+        onEnumerated,
+    };
+
+    const finish = (processed: number, { excluded, aborted, batches }: { excluded?: { files: number, directories: number }, aborted: boolean, batches?: number }): ProcessReport => {
+        const counts: [string, number[]] = batches !== undefined ?
+            ['Processed %d files matching criteria in %d batches', [processed, batches]] :
+            ['Processed %d files matching criteria', [processed]];
+        if (excluded && (excluded.files > 0 || excluded.directories > 0)) {
+            logger.info(`${counts[0]}, excluded %d files and %d directories.`, ...counts[1], excluded.files, excluded.directories);
+        } else {
+            logger.info(`${counts[0]}.`, ...counts[1]);
+        }
+
+        // Files under excluded directories are never seen, so only the files excluded one by one can be counted
+        skipped.excluded = excluded?.files ?? 0;
+        const durationMs = Date.now() - startedAt;
+        return {
+            processed,
+            skipped,
+            failed,
+            durationMs,
+            filesPerSecond: durationMs > 0 ? processed / (durationMs / 1000) : 0,
+            aborted,
+        };
+    }
+
+    return { hooks, fail, finish };
+}
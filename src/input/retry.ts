@@ -0,0 +1,75 @@
+import { Config, Options, RetryPredicate } from 'dreadcabinet';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { DEFAULT_RETRIES, DEFAULT_RETRY_DELAY, MAX_RETRY_DELAY, RATE_LIMIT } from '../constants';
+import { TimeoutError } from '../error/TimeoutError';
+
+// Exponential backoff with equal jitter: half of each delay is fixed and half random, so files that
+// failed together, say when a server went away, are not all tried again at the same moment
+export const backoffDelay = (retry: number, retryDelay: number, random: () => number = Math.random): number => {
+    const delay = Math.min(retryDelay * 2 ** (retry - 1), MAX_RETRY_DELAY);
+    return Math.round(delay / 2 + random() * delay / 2);
+}
+
+// The least time between two files starting under a rate limit such as 5/s or 30/m
+export const rateLimitInterval = (rateLimit: string): number => {
+    const [, count, unit] = rateLimit.match(RATE_LIMIT)!;
+    return (unit === 's' ? 1000 : 60000) / Number(count);
+}
+
+export const create = (config: Config, options: Options): {
+    run: (file: string, attempt: (signal?: AbortSignal) => Promise<void>, signal?: AbortSignal) => Promise<void>;
+} => {
+    const logger = options.logger;
+    const retries = config.retries ?? DEFAULT_RETRIES;
+    const retryDelay = config.retryDelay ?? DEFAULT_RETRY_DELAY;
+    const retryable: RetryPredicate = options.retryable || (() => true);
+
+    // A promise cannot be cancelled from outside, so a timed out attempt also has its signal aborted,
+    // for callbacks that can stop their work
+    async function withTimeout(file: string, attempt: (signal?: AbortSignal) => Promise<void>, signal?: AbortSignal): Promise<void> {
+        const timeout = config.timeout;
+        if (!timeout) {
+            return attempt(signal);
+        }
+        const controller = new AbortController();
+        let timer: NodeJS.Timeout | undefined;
+        const timedOut = new Promise<never>((_, reject) => {
+            timer = setTimeout(() => {
+                const error = new TimeoutError(file, timeout);
+                controller.abort(error);
+                reject(error);
+            }, timeout);
+        });
+        try {
+            return await Promise.race([attempt(signal ? AbortSignal.any([signal, controller.signal]) : controller.signal), timedOut]);
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    // Tries a file until an attempt succeeds, the retries run out, the predicate says the error will not go
+    // away, or the run is aborted. The last error is thrown as it is.
+    async function run(file: string, attempt: (signal?: AbortSignal) => Promise<void>, signal?: AbortSignal): Promise<void> {
+        for (let retry = 1; ; retry++) {
+            try {
+                return await withTimeout(file, attempt, signal);
+            } catch (error) {
+                const failure = error instanceof Error ? error : new Error(String(error));
+                if (retry > retries || signal?.aborted || !retryable(failure, file, retry)) {
+                    throw error;
+                }
+                const delay = backoffDelay(retry, retryDelay);
+                logger.warn('Processing %s failed: %s. Trying again in %dms (retry %d of %d)', file, failure.message, delay, retry, retries);
+                // An abort cuts the wait short, and then the file is not tried again
+                await sleep(delay, undefined, { signal }).catch(() => undefined);
+                if (signal?.aborted) {
+                    throw error;
+                }
+            }
+        }
+    }
+
+    return {
+        run,
+    }
+}
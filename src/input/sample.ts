@@ -0,0 +1,28 @@
+import { Config, Logger } from 'dreadcabinet';
+import * as crypto from 'node:crypto';
+
+// A file's place in the sample for a seed, given its path relative to the input directory. Ranking files by a hash
+// of the seed and path, rather than drawing random numbers in walk order, picks the same files whatever order they
+// are found in and wherever the input directory is, and a file added to the input only changes the sample when it
+// ranks ahead of one that was picked.
+export const rank = (seed: string, file: string): string =>
+    crypto.createHash('sha256').update(`${seed}\n${file}`).digest('hex');
+
+// Picks --sample of the matching files, the same ones for the same --seed. Without a seed one is made up and
+// logged, so that the run can be repeated.
+export const create = (config: Config, logger: Logger): ((files: string[]) => string[]) | undefined => {
+    const size = config.sample;
+    if (!size) {
+        return undefined;
+    }
+    const seed = config.seed ?? crypto.randomBytes(4).toString('hex');
+    if (config.seed === undefined) {
+        logger.info('Sampling %d files with seed %s, pass --seed %s to pick the same files again', size, seed, seed);
+    }
+
+    return (files: string[]): string[] => files
+        .map(file => ({ file, rank: rank(seed, file) }))
+        .sort((a, b) => a.rank < b.rank ? -1 : a.rank > b.rank ? 1 : 0)
+        .slice(0, size)
+        .map(({ file }) => file);
+}
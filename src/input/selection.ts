@@ -0,0 +1,125 @@
+import { Config, Logger } from 'dreadcabinet';
+import * as path from 'node:path';
+import { DEFAULT_QUARANTINE_DIRECTORY, GITIGNORE_FILENAME, IGNORE_FILENAME } from '../constants';
+import * as Glob from '../util/glob';
+import * as Storage from '../util/storage';
+
+// A line of an ignore file
+export interface IgnoreRule {
+    matcher: Glob.Matcher;
+    // A leading ! includes again what earlier rules left out
+    negate: boolean;
+    // A trailing / only matches directories
+    directoryOnly: boolean;
+}
+
+// Which input files and directories are left out, beyond the extensions and recursive options.
+// Paths are relative to the input directory and use "/" separators.
+export interface Selection {
+    // Directories that are left out along with everything under them
+    excludesDirectory: (relativeDirectory: string) => boolean;
+    excludesFile: (relativeFile: string) => boolean;
+    // How many files and directories have been left out so far
+    excluded: () => { files: number, directories: number };
+}
+
+// Read rules with .gitignore syntax: # comments, ! negation, a trailing / for directories, and
+// patterns without a slash in front or in the middle matching at any depth
+export const parseIgnoreFile = (content: string): IgnoreRule[] => {
+    const rules: IgnoreRule[] = [];
+    for (const rawLine of content.split(/\r?\n/)) {
+        // Trailing spaces are ignored unless escaped
+        let line = rawLine.replace(/(?<!\\)\s+$/, '');
+        if (line === '' || line.startsWith('#')) {
+            continue;
+        }
+        const negate = line.startsWith('!');
+        if (negate) {
+            line = line.slice(1);
+        } else if (line.startsWith('\\!') || line.startsWith('\\#')) {
+            line = line.slice(1);
+        }
+        const directoryOnly = line.endsWith('/');
+        line = line.replace(/\/+$/, '');
+        if (line === '') {
+            continue;
+        }
+        const anchored = line.includes('/');
+        const pattern = anchored ? line.replace(/^\//, '') : `**/${line}`;
+        rules.push({ matcher: Glob.compile(pattern), negate, directoryOnly });
+    }
+    return rules;
+}
+
+// The last rule that matches decides, as in .gitignore
+export const isIgnored = (rules: IgnoreRule[], relativePath: string, isDirectory: boolean): boolean => {
+    let ignored = false;
+    for (const rule of rules) {
+        if (rule.directoryOnly && !isDirectory) {
+            continue;
+        }
+        if (rule.matcher.matches(relativePath)) {
+            ignored = !rule.negate;
+        }
+    }
+    return ignored;
+}
+
+// Build the selection for the configured input directory, or undefined when nothing is left out
+export const create = async (config: Config, logger: Logger): Promise<Selection | undefined> => {
+    const storage = Storage.create({ log: logger.debug });
+    const inputDirectory = config.inputDirectory!;
+
+    const rules: IgnoreRule[] = [];
+    for (const filename of config.gitignore ? [GITIGNORE_FILENAME, IGNORE_FILENAME] : [IGNORE_FILENAME]) {
+        const file = path.join(inputDirectory, filename);
+        if (await storage.exists(file)) {
+            const fileRules = parseIgnoreFile(await storage.readFile(file, 'utf8'));
+            logger.debug('Read %d rules from %s', fileRules.length, file);
+            rules.push(...fileRules);
+        }
+    }
+
+    const include = config.include && config.include.length > 0 ? Glob.compile(config.include) : undefined;
+    const exclude = config.exclude && config.exclude.length > 0 ? Glob.compile(config.exclude) : undefined;
+
+    // Files quarantined during the run must not be walked into again, when the quarantine directory is in the input directory
+    const quarantine = config.onError === 'quarantine' ?
+        path.relative(path.resolve(inputDirectory), path.resolve(config.quarantineDirectory || DEFAULT_QUARANTINE_DIRECTORY)).split(path.sep).join('/') :
+        undefined;
+    const quarantineDirectory = quarantine && !quarantine.startsWith('..') && !path.isAbsolute(quarantine) ? quarantine : undefined;
+
+    if (!include && !exclude && rules.length === 0 && !quarantineDirectory) {
+        return undefined;
+    }
+
+    const counts = { files: 0, directories: 0 };
+
+    const excludesDirectory = (relativeDirectory: string): boolean => {
+        if (relativeDirectory === quarantineDirectory) {
+            logger.debug('Leaving out the quarantine directory %s', relativeDirectory);
+            return true;
+        }
+        if (exclude?.matches(relativeDirectory) || isIgnored(rules, relativeDirectory, true)) {
+            logger.debug('Excluding directory %s', relativeDirectory);
+            counts.directories++;
+            return true;
+        }
+        return false;
+    }
+
+    const excludesFile = (relativeFile: string): boolean => {
+        if ((include && !include.matches(relativeFile)) || exclude?.matches(relativeFile) || isIgnored(rules, relativeFile, false)) {
+            logger.debug('Excluding file %s', relativeFile);
+            counts.files++;
+            return true;
+        }
+        return false;
+    }
+
+    return {
+        excludesDirectory,
+        excludesFile,
+        excluded: () => ({ ...counts }),
+    }
+}
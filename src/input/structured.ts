@@ -1,10 +1,14 @@
-import { Feature, FilenameOption, FilesystemStructure, Logger } from 'dreadcabinet';
+import { Feature, FilenameOption, FilesystemStructure, InputHooks, LimitReason, Logger } from 'dreadcabinet';
 import * as path from 'node:path';
 import { z } from 'zod';
 import { ArgumentError } from "../configure";
-import { DATE_FORMAT_YEAR_MONTH_DAY } from '../constants';
+import { DATE_FORMAT_YEAR_MONTH_DAY, DEFAULT_FISCAL_YEAR_START_MONTH, FISCAL_YEAR_PREFIX, ISO_WEEK_PREFIX, MONTH_NAMES, QUARTER_PREFIX } from '../constants';
 import * as Dates from "../util/dates";
 import * as Storage from "../util/storage";
+import * as Template from "../util/template";
+import * as FilenameDate from "./filename-date";
+import * as Order from "./order";
+import * as Selection from "./selection";
 
 export const DateRangeSchema = z.object({
     start: z.date(),
@@ -13,6 +17,45 @@ export const DateRangeSchema = z.object({
 
 export type DateRange = z.infer<typeof DateRangeSchema>;
 
+// Settings that change how a structure maps to dates, beyond the structure name itself
+export interface StructureOptions {
+    fiscalYearStartMonth?: number;
+    // Overrides the structure: directories are matched against an output directory template
+    directoryTemplate?: string;
+    // Built-in names or regular expressions for full dates in filenames, used by the none structure
+    filenameDatePatterns?: string[];
+}
+
+// Date parts captured from a directory path by a directory template
+export interface DirectoryComponents {
+    year?: number;
+    weekYear?: number;
+    quarter?: number;
+    month?: number; // 1-indexed
+    week?: number;
+    day?: number;
+    ext?: string;
+}
+
+// Regular expressions for each directory template token, see DIRECTORY_TEMPLATE_TOKENS.
+// Padded and unpadded numbers are accepted alike so that mixed trees can be read back.
+const DIRECTORY_TOKEN_PATTERNS: Record<string, string> = {
+    YYYY: '\\d{4}',
+    GGGG: '\\d{4}',
+    Q: '[1-4]',
+    M: '\\d{1,2}',
+    MM: '\\d{1,2}',
+    MMM: '\\p{L}{3}',
+    MMMM: '\\p{L}+',
+    W: '\\d{1,2}',
+    WW: '\\d{1,2}',
+    D: '\\d{1,2}',
+    DD: '\\d{1,2}',
+    ext: '[^/]+',
+};
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
 // Sanitize a file extension to prevent glob injection.
 // Only allows alphanumeric characters, stripping any glob metacharacters.
 const sanitizeExtension = (ext: string): string => {
@@ -264,6 +307,149 @@ export const calculateDateRange = (timezone: string, startDate: Date, endDate: D
 
 
 
+// Match a relative directory path (using "/" separators) against a directory template.
+// Returns null if the path does not match or if the same part is captured twice with different values.
+export const parseDirectoryTemplate = (relativeDirectory: string, template: string): DirectoryComponents | null => {
+    const segments = Template.parse(template);
+    const names: string[] = [];
+    const source = segments.map(segment => {
+        if (segment.kind === 'literal') {
+            return escapeRegExp(segment.value);
+        }
+        const pattern = DIRECTORY_TOKEN_PATTERNS[segment.name];
+        if (!pattern) {
+            throw new Error(`Unknown directory template token "{${segment.name}}"`);
+        }
+        names.push(segment.name);
+        return `(${pattern})`;
+    }).join('');
+
+    const match = relativeDirectory.match(new RegExp(`^${source}$`, 'iu'));
+    if (!match) {
+        return null;
+    }
+
+    const components: DirectoryComponents = {};
+    const assign = (key: keyof DirectoryComponents, value: number | string): boolean => {
+        if (components[key] !== undefined && components[key] !== value) {
+            return false;
+        }
+        (components as Record<string, number | string>)[key] = value;
+        return true;
+    };
+
+    for (let i = 0; i < names.length; i++) {
+        const value = match[i + 1];
+        let consistent: boolean;
+        switch (names[i]) {
+            case 'YYYY':
+                consistent = assign('year', parseInt(value, 10));
+                break;
+            case 'GGGG':
+                consistent = assign('weekYear', parseInt(value, 10));
+                break;
+            case 'Q':
+                consistent = assign('quarter', parseInt(value, 10));
+                break;
+            case 'MMM':
+            case 'MMMM': {
+                const monthIndex = MONTH_NAMES.findIndex(name => names[i] === 'MMM'
+                    ? name.slice(0, 3).toLowerCase() === value.toLowerCase()
+                    : name.toLowerCase() === value.toLowerCase());
+                consistent = monthIndex !== -1 && assign('month', monthIndex + 1);
+                break;
+            }
+            case 'M':
+            case 'MM':
+                consistent = assign('month', parseInt(value, 10));
+                break;
+            case 'W':
+            case 'WW':
+                consistent = assign('week', parseInt(value, 10));
+                break;
+            case 'D':
+            case 'DD':
+                consistent = assign('day', parseInt(value, 10));
+                break;
+            default:
+                consistent = assign('ext', value);
+        }
+        if (!consistent) {
+            return null;
+        }
+    }
+
+    return components;
+};
+
+// Parse a date from a path whose directories were produced by a directory template. The filename
+// carries whatever the directories do not: the full date, M-D, D, or only the time.
+const parseDateFromTemplatePath = (
+    relativePath: string,
+    filename: string,
+    template: string,
+    shouldParseTime: boolean,
+    timezone: string,
+    logger: Logger
+): Date | null => {
+    const directory = relativePath.split(path.sep).slice(0, -1).join('/');
+    const components = parseDirectoryTemplate(directory, template);
+    if (!components) {
+        logger.warn(`File path ${relativePath} does not match input directory template "${template}"`);
+        return null;
+    }
+
+    if (components.ext !== undefined && components.ext.toLowerCase() !== path.extname(filename).slice(1).toLowerCase()) {
+        logger.warn(`File ${relativePath} is not in the directory for its extension`);
+        return null;
+    }
+
+    const filenameWithoutExt = path.basename(filename, path.extname(filename));
+    const nameParts = filenameWithoutExt.split(/[-_]/).map(part => parseInt(part, 10));
+    let year: number;
+    let month: number;
+    let day: number;
+    let parsedDate: Date | null;
+
+    if (components.year !== undefined && components.month !== undefined && components.day !== undefined) {
+        [year, month, day] = [components.year, components.month, components.day];
+        parsedDate = parseDateFromString(filenameWithoutExt, 'HHmm', shouldParseTime, timezone, year, month - 1, day);
+    } else if (components.year !== undefined && components.month !== undefined) {
+        [year, month, day] = [components.year, components.month, nameParts[0]];
+        parsedDate = parseDateFromString(filenameWithoutExt, 'D-HHmm', shouldParseTime, timezone, year, month - 1);
+    } else if (components.year !== undefined || components.weekYear !== undefined) {
+        [month, day] = [nameParts[0], nameParts[1]];
+        // Without a calendar year the ISO week-year and week decide which calendar year the month falls in
+        year = components.year ?? Dates.calendarYearForIsoWeek(components.weekYear!, components.week!, month);
+        parsedDate = parseDateFromString(filenameWithoutExt, 'M-D-HHmm', shouldParseTime, timezone, year);
+    } else {
+        [year, month, day] = [nameParts[0], nameParts[1], nameParts[2]];
+        parsedDate = parseDateFromString(filenameWithoutExt, 'YYYY-M-D-HHmm', shouldParseTime, timezone);
+    }
+
+    if (!parsedDate) {
+        return null;
+    }
+
+    // Cross-check the coarser parts captured from the directories against the parsed date
+    const isoWeek = Dates.isoWeekOf(year, month, day);
+    if ((components.month !== undefined && components.month !== month) ||
+        (components.quarter !== undefined && components.quarter !== Dates.quarterOf(month)) ||
+        (components.week !== undefined && components.week !== isoWeek.week) ||
+        (components.weekYear !== undefined && components.weekYear !== isoWeek.year)) {
+        logger.warn(`Date in filename ${filename} does not match its directory ${directory}`);
+        return null;
+    }
+
+    return parsedDate;
+};
+
+// Parse the number out of a directory name such as "W07", "Q3" or "FY2025", the prefix is optional
+const parsePrefixedNumber = (part: string, prefix: string): number => {
+    const match = part.match(new RegExp(`^(?:${prefix})?(\\d+)$`, 'i'));
+    return match ? parseInt(match[1], 10) : NaN;
+};
+
 // Parse date from file path based on the input structure
 export const parseDateFromFilePath = (
     relativePath: string,
@@ -271,10 +457,18 @@ export const parseDateFromFilePath = (
     structure: string,
     shouldParseTime: boolean,
     timezone: string,
-    logger: Logger
+    logger: Logger,
+    structureOptions: StructureOptions = {}
 ): Date | null => {
+    if (structureOptions.directoryTemplate) {
+        return parseDateFromTemplatePath(relativePath, filename, structureOptions.directoryTemplate, shouldParseTime, timezone, logger);
+    }
+
     const pathParts = relativePath.split(path.sep);
     const filenameWithoutExt = path.basename(filename, path.extname(filename));
+    const fiscalYearStartMonth = structureOptions.fiscalYearStartMonth ?? DEFAULT_FISCAL_YEAR_START_MONTH;
+    // Month in filenames of the form M-D-HHmm, used to resolve structures that span several months
+    const monthInName = parseInt(filenameWithoutExt.split(/[-_]/)[0], 10);
 
     let parsedDate: Date | null = null;
     let year: number | undefined;
@@ -283,6 +477,15 @@ export const parseDateFromFilePath = (
 
     switch (structure) {
         case 'none':
+            if (structureOptions.filenameDatePatterns) {
+                // Filename format: whatever the configured patterns recognize
+                const match = FilenameDate.match(Dates.create({ timezone }), filename, structureOptions.filenameDatePatterns, { time: shouldParseTime });
+                if (match) {
+                    logger.verbose('Found date %s in filename %s with pattern %s', match.date.toISOString(), filename, match.pattern);
+                }
+                parsedDate = match?.date ?? null;
+                break;
+            }
             // Filename format: YYYY-M-D-HHmm...
             parsedDate = parseDateFromString(filenameWithoutExt, 'YYYY-M-D-HHmm', shouldParseTime, timezone);
             break;
@@ -299,6 +502,47 @@ export const parseDateFromFilePath = (
                 logger.warn(`File path does not match expected 'year' structure (YYYY/...)`);
             }
             break;
+        case 'quarter':
+            // Path: YYYY / Qn / M-D-HHmm...
+            if (pathParts.length >= 2) {
+                year = parseInt(pathParts[0], 10);
+                const quarter = parsePrefixedNumber(pathParts[1], QUARTER_PREFIX);
+                if (!isNaN(year) && !isNaN(quarter) && quarter >= 1 && quarter <= 4) {
+                    parsedDate = parseDateFromString(filenameWithoutExt, 'M-D-HHmm', shouldParseTime, timezone, year);
+                    if (parsedDate && Dates.quarterOf(monthInName) !== quarter) {
+                        logger.warn(`Date in filename ${filename} does not fall in quarter ${pathParts[0]}/${pathParts[1]}`);
+                        parsedDate = null;
+                    }
+                } else {
+                    logger.warn(`Invalid year/quarter format in path: ${pathParts[0]}/${pathParts[1]}`);
+                }
+            } else {
+                logger.warn(`File path does not match expected 'quarter' structure (YYYY/Qn/...)`);
+            }
+            break;
+        case 'fiscal-year':
+        case 'fiscal-quarter': {
+            // Path: FYyyyy / M-D-HHmm... or FYyyyy / Qn / M-D-HHmm...
+            const withQuarter = structure === 'fiscal-quarter';
+            if (pathParts.length >= (withQuarter ? 2 : 1)) {
+                const fiscalYear = parsePrefixedNumber(pathParts[0], FISCAL_YEAR_PREFIX);
+                const quarter = withQuarter ? parsePrefixedNumber(pathParts[1], QUARTER_PREFIX) : undefined;
+                if (!isNaN(fiscalYear) && (quarter === undefined || (!isNaN(quarter) && quarter >= 1 && quarter <= 4))) {
+                    // The fiscal year spans two calendar years; the month in the filename says which one
+                    year = Dates.calendarYearForFiscalYear(fiscalYear, monthInName, fiscalYearStartMonth);
+                    parsedDate = parseDateFromString(filenameWithoutExt, 'M-D-HHmm', shouldParseTime, timezone, year);
+                    if (parsedDate && quarter !== undefined && Dates.fiscalPeriodOf(year, monthInName, fiscalYearStartMonth).quarter !== quarter) {
+                        logger.warn(`Date in filename ${filename} does not fall in fiscal quarter ${pathParts[0]}/${pathParts[1]}`);
+                        parsedDate = null;
+                    }
+                } else {
+                    logger.warn(`Invalid fiscal year${withQuarter ? '/quarter' : ''} format in path: ${pathParts.slice(0, withQuarter ? 2 : 1).join('/')}`);
+                }
+            } else {
+                logger.warn(`File path does not match expected '${structure}' structure (${withQuarter ? 'FYyyyy/Qn' : 'FYyyyy'}/...)`);
+            }
+            break;
+        }
         case 'month':
             // Path: YYYY / MM / D-HHmm...
             if (pathParts.length >= 2) {
@@ -314,6 +558,30 @@ export const parseDateFromFilePath = (
                 logger.warn(`File path does not match expected 'month' structure (YYYY/MM/...)`);
             }
             break;
+        case 'week':
+            // Path: YYYY / Www / M-D-HHmm... where YYYY is the ISO week-year
+            if (pathParts.length >= 2) {
+                const weekYear = parseInt(pathParts[0], 10);
+                const week = parsePrefixedNumber(pathParts[1], ISO_WEEK_PREFIX);
+                if (!isNaN(weekYear) && !isNaN(week) && week >= 1 && week <= Dates.isoWeeksInYear(weekYear)) {
+                    // The filename carries month and day; resolve which calendar year they belong to
+                    const dayInName = parseInt(filenameWithoutExt.split(/[-_]/)[1], 10);
+                    year = Dates.calendarYearForIsoWeek(weekYear, week, monthInName);
+                    parsedDate = parseDateFromString(filenameWithoutExt, 'M-D-HHmm', shouldParseTime, timezone, year);
+                    if (parsedDate) {
+                        const actual = Dates.isoWeekOf(year, monthInName, dayInName);
+                        if (actual.year !== weekYear || actual.week !== week) {
+                            logger.warn(`Date in filename ${filename} does not fall in ISO week ${pathParts[0]}/${pathParts[1]}`);
+                            parsedDate = null;
+                        }
+                    }
+                } else {
+                    logger.warn(`Invalid year/week format in path: ${pathParts[0]}/${pathParts[1]}`);
+                }
+            } else {
+                logger.warn(`File path does not match expected 'week' structure (YYYY/Www/...)`);
+            }
+            break;
         case 'day':
             // Path: YYYY / MM / DD / HHmm...
             if (pathParts.length >= 3) {
@@ -338,21 +606,130 @@ export const parseDateFromFilePath = (
     return parsedDate;
 };
 
-// Process a single file from the structured input
-export const processStructuredFile = async (
+// Calendar days as UTC midnights, for working out which days a directory covers
+const utcDay = (year: number, month: number, day: number): Date => new Date(Date.UTC(year, month - 1, day));
+
+// Monday of an ISO week, as a UTC midnight
+const isoWeekStart = (weekYear: number, week: number): Date => {
+    // January 4th is always in week 1
+    const dayOfWeek = utcDay(weekYear, 1, 4).getUTCDay() || 7;
+    return utcDay(weekYear, 1, 4 - (dayOfWeek - 1) + 7 * (week - 1));
+};
+
+// The days, first inclusive and last exclusive, covered by date components taken from directory names
+const spanOfComponents = (components: DirectoryComponents): { first: Date, next: Date } | null => {
+    const { year, weekYear, quarter, month, week, day } = components;
+    if (year !== undefined && month !== undefined && month >= 1 && month <= 12) {
+        if (day === undefined) {
+            return { first: utcDay(year, month, 1), next: utcDay(year, month + 1, 1) };
+        }
+        const first = utcDay(year, month, day);
+        return day >= 1 && first.getUTCMonth() === month - 1 ? { first, next: utcDay(year, month, day + 1) } : null;
+    }
+    if (year !== undefined && quarter !== undefined && quarter >= 1 && quarter <= 4) {
+        return { first: utcDay(year, quarter * 3 - 2, 1), next: utcDay(year, quarter * 3 + 1, 1) };
+    }
+    if (weekYear !== undefined && week !== undefined) {
+        return week >= 1 && week <= Dates.isoWeeksInYear(weekYear) ? { first: isoWeekStart(weekYear, week), next: isoWeekStart(weekYear, week + 1) } : null;
+    }
+    if (weekYear !== undefined) {
+        return { first: isoWeekStart(weekYear, 1), next: isoWeekStart(weekYear + 1, 1) };
+    }
+    if (year !== undefined) {
+        return { first: utcDay(year, 1, 1), next: utcDay(year + 1, 1, 1) };
+    }
+    return null;
+};
+
+// The days covered by a fiscal year directory, or by one of its quarters
+const spanOfFiscalPeriod = (fiscalYear: number, quarter: number | undefined, startMonth: number): { first: Date, next: Date } | null => {
+    if (isNaN(fiscalYear) || (quarter !== undefined && (isNaN(quarter) || quarter < 1 || quarter > 4))) {
+        return null;
+    }
+    const year = Dates.calendarYearForFiscalYear(fiscalYear, startMonth, startMonth);
+    const firstMonth = startMonth + (quarter === undefined ? 0 : (quarter - 1) * 3);
+    return { first: utcDay(year, firstMonth, 1), next: utcDay(year, firstMonth + (quarter === undefined ? 12 : 3), 1) };
+};
+
+// The range of dates that files under a directory of a structured tree can have, start inclusive and
+// end exclusive, or null when the directory says nothing about dates and has to be read.
+// The directory is relative to the input directory and uses "/" separators.
+export const directoryDateRange = (
+    relativeDirectory: string,
+    structure: string,
+    timezone: string,
+    structureOptions: StructureOptions = {}
+): DateRange | null => {
+    const parts = relativeDirectory.split('/').filter(part => part !== '');
+    const number = (part: string | undefined): number | undefined => part !== undefined && /^\d+$/.test(part) ? parseInt(part, 10) : undefined;
+    let span: { first: Date, next: Date } | null = null;
+
+    if (structureOptions.directoryTemplate) {
+        // Match the directory against as many levels of the template as it has
+        const levels = structureOptions.directoryTemplate.split('/');
+        const components = parts.length <= levels.length ? parseDirectoryTemplate(parts.join('/'), levels.slice(0, parts.length).join('/')) : null;
+        span = components ? spanOfComponents(components) : null;
+    } else {
+        switch (structure) {
+            case 'year':
+                span = parts.length === 1 ? spanOfComponents({ year: number(parts[0]) }) : null;
+                break;
+            case 'quarter':
+                span = parts.length <= 2 ? spanOfComponents({ year: number(parts[0]), quarter: parts[1] === undefined ? undefined : parsePrefixedNumber(parts[1], QUARTER_PREFIX) }) : null;
+                break;
+            case 'month':
+            case 'day':
+                span = parts.length <= (structure === 'day' ? 3 : 2) ? spanOfComponents({ year: number(parts[0]), month: number(parts[1]), day: number(parts[2]) }) : null;
+                break;
+            case 'week':
+                span = parts.length <= 2 ? spanOfComponents({ weekYear: number(parts[0]), week: parts[1] === undefined ? undefined : parsePrefixedNumber(parts[1], ISO_WEEK_PREFIX) }) : null;
+                break;
+            case 'fiscal-year':
+            case 'fiscal-quarter':
+                span = parts.length <= (structure === 'fiscal-quarter' ? 2 : 1) ? spanOfFiscalPeriod(
+                    parsePrefixedNumber(parts[0], FISCAL_YEAR_PREFIX),
+                    parts[1] === undefined ? undefined : parsePrefixedNumber(parts[1], QUARTER_PREFIX),
+                    structureOptions.fiscalYearStartMonth ?? DEFAULT_FISCAL_YEAR_START_MONTH
+                ) : null;
+                break;
+        }
+    }
+
+    if (!span) {
+        return null;
+    }
+    // Days start at midnight in the configured timezone, as the dates parsed from filenames do
+    const dates = Dates.create({ timezone });
+    const midnight = (day: Date) => dates.date(`${day.toISOString().slice(0, 10)}T00:00:00`);
+    return { start: midnight(span.first), end: midnight(span.next) };
+};
+
+const failStructuredFile = async (filePath: string, error: unknown, logger: Logger, hooks: InputHooks): Promise<void> => {
+    if (error instanceof Error) {
+        logger.error('Error processing file %s: %s\n%s', filePath, error.message, error.stack);
+    } else {
+        logger.error('Error processing file %s: %s', filePath, error);
+    }
+    await hooks.onFail?.(filePath, error instanceof Error ? error : new Error(String(error)));
+}
+
+// The date of a file from the structured input, when it has one in the date range. Files without one are told to
+// onSkip, or to onFail when reading the date threw, and do not count towards the offset and limit.
+export const matchStructuredFile = async (
     filePath: string,
     inputDirectory: string,
     structure: string,
     shouldParseTime: boolean,
     timezone: string,
-    callback: (file: string, date?: Date) => Promise<void>,
     pattern: string,
     dateRange: DateRange,
-    logger: Logger
-): Promise<boolean> => {
+    logger: Logger,
+    structureOptions: StructureOptions = {},
+    hooks: InputHooks = {}
+): Promise<Date | undefined> => {
     // Skip if filePath somehow points to the inputDirectory itself or is not a file
     if (filePath === inputDirectory || !path.extname(filePath) && pattern.endsWith('*.*')) {
-        return false;
+        return undefined;
     }
 
     const relativePath = path.relative(inputDirectory, filePath);
@@ -361,40 +738,72 @@ export const processStructuredFile = async (
 
     if (!filename) {
         logger.warn(`Could not determine filename for path: ${filePath}`);
-        return false;
+        return undefined;
     }
 
     try {
-        const parsedDate = parseDateFromFilePath(relativePath, filename, structure, shouldParseTime, timezone, logger);
+        const parsedDate = parseDateFromFilePath(relativePath, filename, structure, shouldParseTime, timezone, logger, structureOptions);
 
         if (parsedDate) {
             // Apply date range filtering
             if (isDateInRange(parsedDate, dateRange)) {
-                logger.debug('Processing file %s with date %s', filePath, parsedDate.toISOString());
-                await callback(filePath, parsedDate);
-                return true;
+                return parsedDate;
             } else {
                 const dateRangeDisplay = dateRange ?
                     `from ${dateRange.start ? new Date(dateRange.start).toISOString() : 'beginning'} up to ${dateRange.end ? new Date(dateRange.end).toISOString() : 'end'}` :
                     'all dates';
                 logger.debug('Skipping file %s, date %s out of range %s', filePath, parsedDate.toISOString(), dateRangeDisplay);
+                hooks.onSkip?.(filePath, 'out-of-range', parsedDate);
             }
         } else {
             logger.warn('Could not parse date for file %s with structure "%s" (filename base: "%s", path parts: %s)',
                 filePath, structure, path.basename(filename, path.extname(filename)), pathParts.join('/'));
+            hooks.onSkip?.(filePath, 'unparseable-date');
         }
     } catch (error) {
-        // Log error from the callback or date parsing/filtering itself
-        if (error instanceof Error) {
-            logger.error('Error processing file %s: %s\n%s', filePath, error.message, error.stack);
-        } else {
-            logger.error('Error processing file %s: %s', filePath, error);
-        }
+        // Log error from date parsing/filtering itself
+        await failStructuredFile(filePath, error, logger, hooks);
     }
 
+    return undefined;
+};
+
+// Hand a matching file to the callback, telling onFail when it throws
+const processMatchedFile = async (
+    filePath: string,
+    date: Date,
+    callback: (file: string, date?: Date) => Promise<void>,
+    logger: Logger,
+    hooks: InputHooks
+): Promise<boolean> => {
+    try {
+        logger.debug('Processing file %s with date %s', filePath, date.toISOString());
+        await callback(filePath, date);
+        return true;
+    } catch (error) {
+        await failStructuredFile(filePath, error, logger, hooks);
+    }
     return false;
 };
 
+// Process a single file from the structured input
+export const processStructuredFile = async (
+    filePath: string,
+    inputDirectory: string,
+    structure: string,
+    shouldParseTime: boolean,
+    timezone: string,
+    callback: (file: string, date?: Date) => Promise<void>,
+    pattern: string,
+    dateRange: DateRange,
+    logger: Logger,
+    structureOptions: StructureOptions = {},
+    hooks: InputHooks = {}
+): Promise<boolean> => {
+    const date = await matchStructuredFile(filePath, inputDirectory, structure, shouldParseTime, timezone, pattern, dateRange, logger, structureOptions, hooks);
+    return date ? processMatchedFile(filePath, date, callback, logger, hooks) : false;
+};
+
 export const process = async (
     inputStructure: FilesystemStructure,
     inputFilenameOptions: FilenameOption[],
@@ -407,7 +816,11 @@ export const process = async (
     logger: Logger,
     inputDirectory: string,
     callback: (file: string, date?: Date) => Promise<void>,
-    concurrency?: number
+    concurrency?: number,
+    structureOptions: StructureOptions = {},
+    hooks: InputHooks = {},
+    selection?: Selection.Selection,
+    { signal, interval, orderEntries, sort, offset, sample, walkPastLimit }: { signal?: AbortSignal, interval?: number, offset?: number, sample?: (files: string[]) => string[], walkPastLimit?: boolean } & Pick<Order.Order, 'orderEntries' | 'sort'> = {}
 ): Promise<number> => {
     const storage = Storage.create({ log: logger.debug });
     const dateRange = calculateDateRange(timezone, start, end);
@@ -438,23 +851,49 @@ export const process = async (
 
     logger.debug('Processing Structured Input with pattern %s from %s', filePattern, inputDirectory);
 
+    // Leave directories whose dates cannot fall in the range unread, so a week of a large archive only touches that week
+    let prunedCount = 0;
+    const prune = (relativeDirectory: string): boolean => {
+        if (selection?.excludesDirectory(relativeDirectory)) {
+            return true;
+        }
+        const directoryRange = directoryDateRange(relativeDirectory, structure, timezone, structureOptions);
+        if (!directoryRange || (directoryRange.start < dateRange.end && directoryRange.end > dateRange.start)) {
+            return false;
+        }
+        logger.debug('Pruning directory %s, its dates are outside the date range', relativeDirectory);
+        prunedCount++;
+        hooks.onPrune?.(path.join(inputDirectory, relativeDirectory));
+        return true;
+    };
+
+    // Dates are read as files are matched, before the offset and limit count them, and kept for the callback. Files
+    // the offset, sample or limit leave out are dropped as they are, so only files yet to start are held, along with
+    // the few checked ahead when the run stops.
+    const matched = new Map<string, Date>();
+    const matches = async (filePath: string): Promise<boolean> => {
+        const date = await matchStructuredFile(filePath, inputDirectory, structure, shouldParseTime, timezone, filePattern, dateRange, logger, structureOptions, hooks);
+        if (date) {
+            matched.set(filePath, date);
+        }
+        return date !== undefined;
+    };
+    const onLimit = (filePath: string, reason: LimitReason) => {
+        matched.delete(filePath);
+        hooks.onLimit?.(filePath, reason);
+    };
+
     await storage.forEachFileIn(inputDirectory, async (filePath: string) => {
-        const processed = await processStructuredFile(
-            filePath,
-            inputDirectory,
-            structure,
-            shouldParseTime,
-            timezone,
-            callback,
-            filePattern,
-            dateRange,
-            logger
-        );
-
-        if (processed) {
+        const date = matched.get(filePath)!;
+        matched.delete(filePath);
+        if (await processMatchedFile(filePath, date, callback, logger, hooks)) {
             fileCount++;
         }
-    }, { pattern: filePattern, limit, concurrency } as { pattern: string, limit?: number, concurrency?: number });
+    }, { pattern: filePattern, limit, offset, concurrency, prune, exclude: selection?.excludesFile, matches, sample, onLimit, walkPastLimit, onDiscover: hooks.onDiscover, onEnumerated: hooks.onEnumerated, interval, signal, orderEntries, sort });
+
+    if (prunedCount > 0) {
+        logger.info('Pruned %d directories outside the date range.', prunedCount);
+    }
 
     return fileCount;
 }
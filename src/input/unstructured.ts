@@ -1,5 +1,9 @@
-import { Logger } from 'dreadcabinet';
+import { DateSource, InputHooks, LimitReason, Logger } from 'dreadcabinet';
 import * as Storage from "../util/storage";
+import * as DateSources from './date-source';
+import * as Order from './order';
+import * as Selection from './selection';
+import { DateRange, isDateInRange } from './structured';
 
 // Sanitize a file extension to prevent glob injection.
 // Only allows alphanumeric characters, stripping any glob metacharacters.
@@ -14,8 +18,9 @@ export const process = async (
     extensions: string[],
     limit: number | undefined,
     logger: Logger,
-    callback: (file: string) => Promise<void>,
-    concurrency?: number
+    callback: (file: string, date?: Date, dateSource?: DateSource, time?: boolean, datePattern?: string) => Promise<void>,
+    concurrency?: number,
+    { dates, start, end, onSkip, onFail, onLimit, onDiscover, onEnumerated, selection, interval, signal, orderEntries, sort, offset, sample, walkPastLimit }: { dates?: ReturnType<typeof DateSources.create>, start?: Date, end?: Date, selection?: Selection.Selection, interval?: number, signal?: AbortSignal, offset?: number, sample?: (files: string[]) => string[], walkPastLimit?: boolean } & Pick<Order.Order, 'orderEntries' | 'sort'> & InputHooks = {}
 ): Promise<number> => {
     const storage = Storage.create({ log: logger.debug });
 
@@ -42,20 +47,59 @@ export const process = async (
     logger.info('Processing unstructured files %s in %s with pattern %s',
         recursive ? 'recursively' : 'non-recursively', inputDirectory, filePattern);
 
+    const fail = async (file: string, error: unknown) => {
+        if (error instanceof Error) {
+            logger.error('Error processing file %s: %s\n%s', file, error.message, error.stack);
+        } else {
+            logger.error('Error processing file %s: %s', file, error);
+        }
+        await onFail?.(file, error instanceof Error ? error : new Error(String(error)));
+    }
+
+    // With a date range, dates are found as files are matched, so that files outside the range do not count towards
+    // the offset and limit, and kept for the callback until it runs or the offset, sample or limit leaves the file out
+    const found = new Map<string, DateSources.ResolvedDate>();
+    const matches = start || end ? async (file: string): Promise<boolean> => {
+        try {
+            const resolved = await dates?.resolve(file);
+            if (!resolved) {
+                logger.debug('Skipping file %s, no date found in %s', file, dates?.sources.join(', '));
+                onSkip?.(file, 'unparseable-date');
+                return false;
+            }
+            if (!isDateInRange(resolved.date, { start, end } as DateRange)) {
+                logger.debug('Skipping file %s, date %s is outside the range', file, resolved.date.toISOString());
+                onSkip?.(file, 'out-of-range', resolved.date);
+                return false;
+            }
+            found.set(file, resolved);
+            return true;
+        } catch (error) {
+            await fail(file, error);
+            return false;
+        }
+    } : undefined;
+    const leftOut = (file: string, reason: LimitReason) => {
+        found.delete(file);
+        onLimit?.(file, reason);
+    };
+
     await storage.forEachFileIn(inputDirectory, async (file: string) => {
         try {
             logger.debug('Processing file %s', file);
-            // Call callback without date for unstructured input
-            await callback(file); // Pass undefined for the date parameter
-            fileCount++;
-        } catch (error) {
-            if (error instanceof Error) {
-                logger.error('Error processing file %s: %s\n%s', file, error.message, error.stack);
+            const resolved = found.get(file) ?? await dates?.resolve(file);
+            found.delete(file);
+            if (resolved) {
+                await callback(file, resolved.date, resolved.source, resolved.time, resolved.pattern);
             } else {
-                logger.error('Error processing file %s: %s', file, error);
+                // Call callback without date when no date source is configured or none found one
+                await callback(file);
             }
+            fileCount++;
+        } catch (error) {
+            await fail(file, error);
         }
-    }, { pattern: filePattern, limit, concurrency } as { pattern: string, limit?: number, concurrency?: number });
+    }, { pattern: filePattern, limit, offset, concurrency, prune: selection?.excludesDirectory, exclude: selection?.excludesFile, matches, sample, onLimit: leftOut, walkPastLimit, onDiscover, onEnumerated, interval, signal, orderEntries, sort });
 
     return fileCount;
 };
@@ -0,0 +1,159 @@
+import * as crypto from 'node:crypto';
+import * as path from 'node:path';
+import { DEFAULT_JOURNAL_FILENAME, DEFAULT_OUTPUT_DIRECTORY } from './constants';
+import { Config, JournalEntry, JournalEntrySchema, PlacementMode, UndoReport } from './dreadcabinet';
+import * as Events from './events';
+import * as Storage from './util/storage';
+import { Options } from 'dreadcabinet';
+
+// Sortable and short enough to type: 20250307T101500123Z-a1b2c3
+export const createRunId = (now: Date = new Date()): string => {
+    return `${now.toISOString().replace(/[-:.]/g, '')}-${crypto.randomBytes(3).toString('hex')}`;
+}
+
+export const create = (config: Config, options: Options, dependencies: {
+    events?: ReturnType<typeof Events.create>;
+} = {}): {
+    runId: string;
+    recordDirectory: (created: string, directory: string) => Promise<void>;
+    recordFile: (source: string, target: string, mode: PlacementMode, overwritten?: boolean) => Promise<void>;
+    undo: (runId: string) => Promise<UndoReport>;
+} => {
+    const logger = options.logger;
+    const storage: Storage.Utility = Storage.create({ log: logger.debug });
+    const runId = createRunId();
+    const journalDirectory = path.resolve(config.outputDirectory || DEFAULT_OUTPUT_DIRECTORY);
+    const journalPath = path.join(journalDirectory, DEFAULT_JOURNAL_FILENAME);
+
+    // Appends are chained so that lines from concurrent workers never interleave
+    let pending: Promise<void> = Promise.resolve();
+    const append = (entry: JournalEntry): Promise<void> => {
+        pending = pending.catch(() => undefined).then(async () => {
+            // Plans can place files outside the output directory before anything has created it
+            await storage.createDirectory(journalDirectory);
+            await storage.appendFile(journalPath, `${JSON.stringify(entry)}\n`);
+        });
+        return pending;
+    }
+
+    // Record every directory from the first one mkdir created down to the requested one, parents first.
+    // The directory holding the journal is left out, since it can never be empty again.
+    async function recordDirectory(created: string, directory: string): Promise<void> {
+        const first = path.resolve(created);
+        const directories: string[] = [];
+        for (let current = path.resolve(directory); ; current = path.dirname(current)) {
+            directories.unshift(current);
+            if (current === first || current === path.dirname(current)) {
+                break;
+            }
+        }
+        for (const entryPath of directories) {
+            if (entryPath !== journalDirectory) {
+                await append({ type: 'directory', runId, timestamp: new Date().toISOString(), path: entryPath });
+            }
+            dependencies.events?.emit('directoryCreated', { directory: entryPath });
+        }
+    }
+
+    async function recordFile(source: string, target: string, mode: PlacementMode, overwritten = false): Promise<void> {
+        const stats = await storage.lstat(target);
+        await append({
+            type: 'file',
+            runId,
+            timestamp: new Date().toISOString(),
+            path: path.resolve(target),
+            source: path.resolve(source),
+            mode,
+            mtimeMs: stats.mtimeMs,
+            size: stats.size,
+            ...(overwritten ? { overwritten } : {}),
+        });
+    }
+
+    const readJournal = async (): Promise<JournalEntry[]> => {
+        if (!await storage.exists(journalPath)) {
+            throw new Error(`Unable to Undo: No journal found at ${journalPath}`);
+        }
+        const contents = await storage.readFile(journalPath, 'utf8');
+        return contents.split('\n')
+            .filter(line => line.trim() !== '')
+            .map(line => JournalEntrySchema.parse(JSON.parse(line)));
+    }
+
+    const restore = async (target: string, source: string): Promise<void> => {
+        await storage.createDirectory(path.dirname(source));
+        try {
+            await storage.moveFile(target, source);
+        } catch (error: any) {
+            if (error?.code !== 'EXDEV') throw error;
+            await storage.copyFile(target, source);
+            await storage.copyAttributes(target, source, { mtime: true, permissions: true });
+            await storage.removeFile(target);
+        }
+    }
+
+    async function undo(undoRunId: string): Promise<UndoReport> {
+        const entries = (await readJournal()).filter(entry => entry.runId === undoRunId);
+        if (entries.length === 0) {
+            throw new Error(`Unable to Undo: No journal entries found for run ${undoRunId} in ${journalPath}`);
+        }
+        if (entries.some(entry => entry.type === 'undo')) {
+            throw new Error(`Unable to Undo: Run ${undoRunId} has already been undone`);
+        }
+
+        const report: UndoReport = { runId: undoRunId, removed: [], restored: [], kept: [] };
+
+        // Files first and newest first, so that the directories they were placed in can be emptied
+        for (const entry of [...entries].reverse()) {
+            if (entry.type !== 'file') continue;
+
+            const stats = await storage.lstat(entry.path).catch(() => undefined);
+            if (!stats) {
+                report.kept.push({ path: entry.path, reason: 'missing' });
+            } else if (stats.mtimeMs !== entry.mtimeMs || stats.size !== entry.size) {
+                logger.warn('Not undoing %s, it was modified after run %s', entry.path, undoRunId);
+                report.kept.push({ path: entry.path, reason: 'modified' });
+            } else if (entry.overwritten) {
+                // Removing it would lose both the placed file and the one it replaced
+                report.kept.push({ path: entry.path, reason: 'overwritten' });
+            } else if (entry.mode === 'move') {
+                if (await storage.exists(entry.source)) {
+                    logger.warn('Not restoring %s, its original path %s is taken', entry.path, entry.source);
+                    report.kept.push({ path: entry.path, reason: 'source-exists' });
+                } else {
+                    await restore(entry.path, entry.source);
+                    report.restored.push(entry.source);
+                }
+            } else {
+                await storage.removeFile(entry.path);
+                report.removed.push(entry.path);
+            }
+        }
+
+        for (const entry of [...entries].reverse()) {
+            if (entry.type !== 'directory') continue;
+
+            const contents = await storage.listFiles(entry.path).catch(() => undefined);
+            if (!contents) {
+                continue;
+            }
+            if (contents.length > 0) {
+                report.kept.push({ path: entry.path, reason: 'not-empty' });
+                continue;
+            }
+            await storage.removeDirectory(entry.path);
+            report.removed.push(entry.path);
+        }
+
+        await append({ type: 'undo', runId: undoRunId, timestamp: new Date().toISOString() });
+        logger.info('Undid run %s: removed %d, restored %d, kept %d.', undoRunId, report.removed.length, report.restored.length, report.kept.length);
+        return report;
+    }
+
+    return {
+        runId,
+        recordDirectory,
+        recordFile,
+        undo,
+    }
+}
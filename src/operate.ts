@@ -1,31 +1,115 @@
 import { Args, Operator, Options } from 'dreadcabinet';
-import { Config } from './dreadcabinet';
+import * as Collision from './collision';
+import * as Context from './context';
+import { Config, DateRange, OutputPath, Plan, PlanDecision, PlaceOptions, Placement, UndoReport } from './dreadcabinet';
+import * as Events from './events';
 import * as Input from './input/input';
+import * as Journal from './journal';
 import * as Output from './output';
+import * as Place from './place';
+import * as Planner from './plan';
+import * as Progress from './progress';
+import * as Subject from './subject';
 
 export const create = async (config: Config, args: Args, options: Options): Promise<Operator> => {
 
-    const output = Output.create(config, options);
-    const input = Input.create(config, options);
+    const events = Events.create(options.logger);
+    // Every directory and file this operator creates is journaled under one run ID, so the run can be undone
+    const journal = Journal.create(config, options, { events });
+    const output = Output.create(config, options, { journal });
+    // Subjects are shared too, so while process hands a file to its callback, constructFilename and place extract its subject once
+    const subject = Subject.create(config, options);
+    // Each processed file's context has output helpers bound to it
+    const context = Context.create(config, options, { output });
+    const tracked = Input.create(config, options, { subject, context, events });
+    // --progress draws a bar while files are processed, for plans as well, and ends its line once each run is over
+    const progress = config.progress ? Progress.create(events) : undefined;
+    const input: typeof tracked = {
+        process: async (callback, processOptions) => {
+            try {
+                return await tracked.process(callback, processOptions);
+            } finally {
+                progress?.finish();
+            }
+        },
+        processBatches: async (callback, batchOptions) => {
+            try {
+                return await tracked.processBatches(callback, batchOptions);
+            } finally {
+                progress?.finish();
+            }
+        },
+        files: tracked.files,
+    };
+    const collision = Collision.create(config, options);
+    // Placement shares the collision registry, so placed files and resolveOutputPath never hand out the same path
+    const placement = Place.create(config, options, { output, collision, journal, subject });
+    const planner = Planner.create(config, options, { input, placement });
 
-    const constructFilename = async (createDate: Date, type: string, hash: string, context?: { subject?: string }): Promise<string> => {
+    const constructFilename = async (createDate: Date, type: string, hash: string, context?: { subject?: string, file?: string }): Promise<string> => {
         if (!options.features.includes('output')) {
             throw new Error('Output feature is not enabled, skipping output construction');
         }
-        return output.constructFilename(createDate, type, hash, context);
+        const fileSubject = context?.subject ?? (context?.file ? await subject.extract(context.file) : undefined);
+        return output.constructFilename(createDate, type, hash, { subject: fileSubject });
     }
 
-    const constructOutputDirectory = async (createDate: Date): Promise<string> => {
+    const constructOutputDirectory = async (createDate: Date, context?: { type?: string }): Promise<string> => {
         if (!options.features.includes('output')) {
             throw new Error('Output feature is not enabled, skipping output construction');
         }
-        return output.constructOutputDirectory(createDate);
+        return output.constructOutputDirectory(createDate, context);
+    }
+
+    const resolveOutputPath = async (directory: string, filename: string, context?: { source?: string }): Promise<OutputPath> => {
+        if (!options.features.includes('output')) {
+            throw new Error('Output feature is not enabled, skipping output construction');
+        }
+        return collision.resolve(directory, filename, context);
+    }
+
+    const place = async (file: string, placeOptions: PlaceOptions): Promise<Placement> => {
+        if (!options.features.includes('output')) {
+            throw new Error('Output feature is not enabled, skipping output construction');
+        }
+        return placement.place(file, placeOptions);
+    }
+
+    const plan = async (callback?: (file: string, date?: Date) => Promise<PlanDecision | void>, dateRange?: Partial<DateRange>): Promise<Plan> => {
+        if (!options.features.includes('output')) {
+            throw new Error('Output feature is not enabled, skipping output construction');
+        }
+        return planner.plan(callback, dateRange);
+    }
+
+    const apply = async (plannedActions: Plan): Promise<Placement[]> => {
+        if (!options.features.includes('output')) {
+            throw new Error('Output feature is not enabled, skipping output construction');
+        }
+        return planner.apply(plannedActions);
+    }
+
+    const undo = async (runId: string): Promise<UndoReport> => {
+        if (!options.features.includes('output')) {
+            throw new Error('Output feature is not enabled, skipping output construction');
+        }
+        return journal.undo(runId);
     }
 
     return {
         process: input.process,
+        processBatches: input.processBatches,
+        files: input.files,
         constructFilename,
         constructOutputDirectory,
+        resolveOutputPath,
+        releaseOutputPath: collision.release,
+        place,
+        plan,
+        apply,
+        runId: journal.runId,
+        undo,
+        on: events.on,
     }
 
 }
@@ -1,22 +1,67 @@
 import * as path from 'node:path';
-import { DATE_FORMAT_DAY, DATE_FORMAT_MONTH, DATE_FORMAT_MONTH_DAY, DATE_FORMAT_YEAR, DATE_FORMAT_YEAR_MONTH_DAY } from './constants';
-import { Config } from './dreadcabinet';
+import { DATE_FORMAT_HOURS, DATE_FORMAT_MONTH, DATE_FORMAT_PROFILES, DATE_FORMAT_YEAR, DEFAULT_DATE_FORMAT_PROFILE, DEFAULT_FISCAL_YEAR_START_MONTH, FISCAL_YEAR_PREFIX, ISO_WEEK_PREFIX, QUARTER_PREFIX } from './constants';
+import { Config, FilenameOption, FilesystemStructure } from './dreadcabinet';
+import * as Journal from './journal';
 import * as Dates from './util/dates';
 import * as Storage from './util/storage';
+import * as Template from './util/template';
 import { Options } from 'dreadcabinet';
 
-export const create = (config: Config, options: Options): {
+// Compile the outputFilenameOptions shorthand into the equivalent filename template.
+// The order mirrors the historical layout: date-time-hash-type-subject.
+export const toFilenameTemplate = (filenameOptions: FilenameOption[] = []): string => {
+    const parts: string[] = [];
+    if (filenameOptions.includes('date')) {
+        parts.push('{date}');
+    }
+    if (filenameOptions.includes('time')) {
+        parts.push('{time}');
+    }
+    parts.push('{hash}', '{type}');
+    if (filenameOptions.includes('subject')) {
+        parts.push('{subject}');
+    }
+    return parts.join('-');
+}
+
+// The structure a directory template stands for when the filename carries a date. Like the structures, the filename
+// holds the parts of the date its directories leave out, as structured input reads them back with the same template:
+// the time alone under a day, the day under a month, the month and day under a year or week-year, or the whole date.
+export const templateStructure = (directoryTemplate: string): FilesystemStructure => {
+    const names = Template.tokens(Template.parse(directoryTemplate)).map(token => token.name);
+    const has = (...candidates: string[]) => candidates.some(name => names.includes(name));
+    const hasYear = has('YYYY');
+    const hasMonth = has('M', 'MM', 'MMM', 'MMMM');
+    if (hasYear && hasMonth && has('D', 'DD')) {
+        return 'day';
+    }
+    if (hasYear && hasMonth) {
+        return 'month';
+    }
+    return hasYear || has('GGGG') ? 'year' : 'none';
+}
+
+// The journal is optional so that output paths can be built without recording anything
+export const create = (config: Config, options: Options, dependencies: {
+    journal?: ReturnType<typeof Journal.create>;
+} = {}): {
     constructFilename: (date: Date, type: string, hash: string, options?: { subject?: string }) => string;
-    constructOutputDirectory: (creationTime: Date) => Promise<string>;
+    constructOutputDirectory: (creationTime: Date, options?: { type?: string }) => Promise<string>;
+    computeOutputDirectory: (creationTime: Date, options?: { type?: string }) => string;
 } => {
     const logger = options.logger;
     const timezone = config?.timezone || 'UTC';
     const dates = Dates.create({ timezone });
     const storage: Storage.Utility = Storage.create({ log: logger.debug });
 
-    const { outputDirectory, outputStructure, outputFilenameOptions } = config;
+    const { outputDirectory, outputStructure, outputDirectoryTemplate, outputFilenameOptions, outputFilenameTemplate } = config;
+    const fiscalYearStartMonth = config.fiscalYearStartMonth ?? DEFAULT_FISCAL_YEAR_START_MONTH;
+    const dateFormats = DATE_FORMAT_PROFILES[config.dateFormatProfile || DEFAULT_DATE_FORMAT_PROFILE];
+    const filenameTemplate = Template.parse(outputFilenameTemplate || toFilenameTemplate(outputFilenameOptions));
+    const directoryTemplate = outputDirectoryTemplate ? Template.parse(outputDirectoryTemplate) : undefined;
+    const filenameStructure = outputDirectoryTemplate ? templateStructure(outputDirectoryTemplate) : outputStructure;
 
-    function formatDate(date: Date, outputStructure: 'none' | 'year' | 'month' | 'day'): string {
+    function formatDate(date: Date, outputStructure: FilesystemStructure): string {
 
         if (!outputStructure) {
             throw new Error('Unable to Create Output: Output structure is not set');
@@ -24,13 +69,20 @@ export const create = (config: Config, options: Options): {
 
         switch (outputStructure) {
             case 'none':
-                return dates.format(date, DATE_FORMAT_YEAR_MONTH_DAY);
+                return dates.format(date, dateFormats.yearMonthDay);
             case 'year':
-                return dates.format(date, DATE_FORMAT_MONTH_DAY);
+            case 'quarter':
+            case 'week':
+            case 'fiscal-year':
+            case 'fiscal-quarter':
+                // These periods span several months (and possibly two calendar years), so keep month and day in the filename
+                return dates.format(date, dateFormats.monthDay);
             case 'month':
-                return dates.format(date, DATE_FORMAT_DAY);
+                return dates.format(date, dateFormats.day);
             case 'day':
-                throw new Error('Cannot use date in filename when output structure is "day"');
+                throw new Error(outputDirectoryTemplate ?
+                    'Cannot use date in filename when the output directory template has a day' :
+                    'Cannot use date in filename when output structure is "day"');
         }
     }
 
@@ -46,6 +98,17 @@ export const create = (config: Config, options: Options): {
             .replace(/^$/, 'untitled');
     }
 
+    function applyCase(str: string, format?: string): string {
+        switch (format) {
+            case 'lower':
+                return str.toLowerCase();
+            case 'upper':
+                return str.toUpperCase();
+            default:
+                return str;
+        }
+    }
+
     function constructFilename(
         date: Date,
         type: string,
@@ -54,41 +117,69 @@ export const create = (config: Config, options: Options): {
             subject?: string;
         } = {}
     ): string {
-        const parts: string[] = [];
-
-        // Add date if requested
-        if (outputFilenameOptions?.includes('date')) {
-            const dateStr = formatDate(date, outputStructure!);
-            parts.push(dateStr);
-        }
-
-        // Add time if requested
-        if (outputFilenameOptions?.includes('time')) {
-            const dates = Dates.create({ timezone });
-            const timeStr = dates.format(date, 'HHmm');
-            parts.push(timeStr);
-        }
-
-        // Add message ID
-        parts.push(hash);
-        parts.push(type);
+        return Template.render(filenameTemplate, (token) => {
+            switch (token.name) {
+                case 'date':
+                    // Without an explicit format the date is relative to the output structure, or directory template
+                    return token.format ? dates.format(date, token.format) : formatDate(date, filenameStructure!);
+                case 'time': {
+                    const dates = Dates.create({ timezone });
+                    return dates.format(date, token.format || DATE_FORMAT_HOURS);
+                }
+                case 'hash':
+                    return token.format ? hash.slice(0, parseInt(token.format, 10)) : hash;
+                case 'type':
+                    return applyCase(type, token.format);
+                case 'subject':
+                    // Sanitize the provided subject, defaulting to empty string if undefined/null
+                    return applyCase(sanitizeFilenameString(options.subject || ''), token.format);
+                default:
+                    throw new Error(`Unknown filename template token "{${token.name}}"`);
+            }
+        });
+    }
 
-        // Add subject if requested
-        if (outputFilenameOptions?.includes('subject')) {
-            // Sanitize the provided subject, defaulting to empty string if undefined/null
-            parts.push(sanitizeFilenameString(options.subject || ''));
+    function renderDirectoryToken(token: Template.TokenSegment, date: Date, type?: string): string {
+        switch (token.name) {
+            case 'YYYY':
+            case 'M':
+            case 'MM':
+            case 'MMM':
+            case 'MMMM':
+            case 'D':
+            case 'DD':
+                // These tokens share their names with dayjs format strings
+                return dates.format(date, token.name);
+            case 'Q':
+                return String(Dates.quarterOf(parseInt(dates.format(date, DATE_FORMAT_MONTH), 10)));
+            case 'GGGG':
+                return String(dates.isoWeek(date).year);
+            case 'W':
+                return String(dates.isoWeek(date).week);
+            case 'WW':
+                return String(dates.isoWeek(date).week).padStart(2, '0');
+            case 'ext':
+                if (!type) {
+                    throw new Error('Unable to Create Output: Output directory template uses {ext} but no file type was provided');
+                }
+                return sanitizeFilenameString(type);
+            default:
+                throw new Error(`Unknown output directory template token "{${token.name}}"`);
         }
-
-        return parts.join('-');
     }
 
-    async function constructOutputDirectory(creationTime: Date) {
+    // Work out the output directory without creating it, for planning
+    function computeOutputDirectory(creationTime: Date, options: { type?: string } = {}): string {
 
         // Throw this error to ensure that we don't success if outputDirectory or outputStructure are not set
         if (!outputDirectory) {
             throw new Error('Unable to Create Output: Output directory is not set');
         }
 
+        if (directoryTemplate) {
+            const date = dates.date(creationTime);
+            return path.join(outputDirectory, Template.render(directoryTemplate, token => renderDirectoryToken(token, date, options.type)));
+        }
 
         if (!outputStructure) {
             throw new Error('Unable to Create Output: Output structure is not set');
@@ -97,17 +188,35 @@ export const create = (config: Config, options: Options): {
 
         const date = dates.date(creationTime);
         const year = dates.format(date, DATE_FORMAT_YEAR);
-        const month = dates.format(date, DATE_FORMAT_MONTH);
-        const day = dates.format(date, DATE_FORMAT_DAY);
+        const month = dates.format(date, dateFormats.month);
+        const day = dates.format(date, dateFormats.day);
 
         let outputPath: string;
         switch (outputStructure) {
             case 'year':
                 outputPath = path.join(outputDirectory!, year);
                 break;
+            case 'quarter':
+                outputPath = path.join(outputDirectory!, year, `${QUARTER_PREFIX}${Dates.quarterOf(parseInt(month, 10))}`);
+                break;
             case 'month':
                 outputPath = path.join(outputDirectory!, year, month);
                 break;
+            case 'fiscal-year':
+            case 'fiscal-quarter': {
+                const fiscalPeriod = Dates.fiscalPeriodOf(parseInt(year, 10), parseInt(month, 10), fiscalYearStartMonth);
+                outputPath = path.join(outputDirectory!, `${FISCAL_YEAR_PREFIX}${fiscalPeriod.year}`);
+                if (outputStructure === 'fiscal-quarter') {
+                    outputPath = path.join(outputPath, `${QUARTER_PREFIX}${fiscalPeriod.quarter}`);
+                }
+                break;
+            }
+            case 'week': {
+                // Directories use the ISO week-year, which can differ from the calendar year
+                const isoWeek = dates.isoWeek(date);
+                outputPath = path.join(outputDirectory!, String(isoWeek.year), `${ISO_WEEK_PREFIX}${String(isoWeek.week).padStart(2, '0')}`);
+                break;
+            }
             case 'day':
                 outputPath = path.join(outputDirectory!, year, month, day);
                 break;
@@ -115,12 +224,25 @@ export const create = (config: Config, options: Options): {
                 outputPath = outputDirectory!;
         }
 
-        await storage.createDirectory(outputPath);
+        return outputPath;
+    }
+
+    async function constructOutputDirectory(creationTime: Date, options: { type?: string } = {}): Promise<string> {
+        const outputPath = computeOutputDirectory(creationTime, options);
+        if (config.dryRun) {
+            logger.debug('Dry run: not creating output directory %s', outputPath);
+        } else {
+            const created = await storage.createDirectory(outputPath);
+            if (created) {
+                await dependencies.journal?.recordDirectory(created, outputPath);
+            }
+        }
         return outputPath;
     }
 
     return {
         constructFilename,
         constructOutputDirectory,
+        computeOutputDirectory,
     }
 }
@@ -0,0 +1,154 @@
+import * as path from 'node:path';
+import * as Collision from './collision';
+import { CROSS_DEVICE_CODES, DEFAULT_PLACEMENT_HASH_LENGTH, DEFAULT_PLACEMENT_MODE } from './constants';
+import { Config, PlaceOptions, Placement, PlacementMode } from './dreadcabinet';
+import * as Journal from './journal';
+import * as Output from './output';
+import * as Subject from './subject';
+import * as Storage from './util/storage';
+import { Options } from 'dreadcabinet';
+
+// Error codes that mean an operation is impossible between these two paths, rather than that it failed
+const UNSUPPORTED_LINK_CODES = ['EXDEV', 'EPERM', 'ENOTSUP', 'EOPNOTSUPP'];
+const UNSUPPORTED_CLONE_CODES = ['EXDEV', 'ENOTSUP', 'EOPNOTSUPP', 'ENOSYS', 'EINVAL'];
+
+const hasCode = (error: any, codes: string[]): boolean => codes.includes(error?.code);
+
+// Append the type as an extension, unless the filename template already ends with it
+export const toOutputFilename = (filename: string, type: string): string => {
+    return filename.endsWith(`.${type}`) ? filename : `${filename}.${type}`;
+}
+
+export const create = (config: Config, options: Options, dependencies: {
+    output: ReturnType<typeof Output.create>;
+    collision: ReturnType<typeof Collision.create>;
+    journal: ReturnType<typeof Journal.create>;
+    subject: ReturnType<typeof Subject.create>;
+}): {
+    place: (file: string, placeOptions: PlaceOptions) => Promise<Placement>;
+    placeAt: (file: string, directory: string, filename: string, placeOptions?: Pick<PlaceOptions, 'mode' | 'preserve'>) => Promise<Placement>;
+    locate: (file: string, placeOptions: PlaceOptions) => Promise<{ directory: string, filename: string }>;
+} => {
+    const logger = options.logger;
+    const storage: Storage.Utility = Storage.create({ log: logger.debug });
+    const { output, collision, journal, subject } = dependencies;
+
+    const copy = async (source: string, target: string, preserve: { mtime?: boolean, permissions?: boolean }, clone = false): Promise<void> => {
+        await storage.copyFile(source, target, { clone });
+        if (preserve.mtime || preserve.permissions) {
+            await storage.copyAttributes(source, target, preserve);
+        }
+    }
+
+    const transfer = async (mode: PlacementMode, source: string, target: string, preserve: { mtime?: boolean, permissions?: boolean }): Promise<PlacementMode> => {
+        switch (mode) {
+            case 'copy':
+                await copy(source, target, preserve);
+                return 'copy';
+            case 'reflink':
+                try {
+                    await copy(source, target, preserve, true);
+                    return 'reflink';
+                } catch (error: any) {
+                    if (!hasCode(error, UNSUPPORTED_CLONE_CODES)) throw error;
+                    logger.debug('Unable to reflink %s to %s (%s), copying instead', source, target, error.code);
+                    await copy(source, target, preserve);
+                    return 'copy';
+                }
+            case 'hardlink':
+                // A hard link shares the source's inode, so there is nothing to preserve
+                try {
+                    await storage.linkFile(source, target);
+                    return 'hardlink';
+                } catch (error: any) {
+                    if (!hasCode(error, UNSUPPORTED_LINK_CODES)) throw error;
+                    logger.debug('Unable to hard link %s to %s (%s), copying instead', source, target, error.code);
+                    await copy(source, target, preserve);
+                    return 'copy';
+                }
+            case 'symlink':
+                await storage.symlinkFile(source, target);
+                return 'symlink';
+            case 'move':
+                try {
+                    await storage.moveFile(source, target);
+                    return 'move';
+                } catch (error: any) {
+                    if (!hasCode(error, CROSS_DEVICE_CODES)) throw error;
+                    // A rename keeps times and permissions, so the copy across devices does too
+                    logger.debug('Unable to rename %s to %s across devices, copying and removing the source instead', source, target);
+                    await copy(source, target, { mtime: true, permissions: true });
+                    await storage.removeFile(source);
+                    return 'move';
+                }
+        }
+    }
+
+    // Place a file at a computed directory and filename, resolving collisions first
+    async function placeAt(file: string, directory: string, filename: string, placeOptions: Pick<PlaceOptions, 'mode' | 'preserve'> = {}): Promise<Placement> {
+        const source = path.resolve(file);
+        const mode = placeOptions.mode || DEFAULT_PLACEMENT_MODE;
+        const preserve = {
+            mtime: placeOptions.preserve?.includes('mtime'),
+            permissions: placeOptions.preserve?.includes('permissions'),
+        };
+
+        const target = await collision.resolve(directory, filename, { source });
+
+        if (target.resolution === 'skipped' || target.resolution === 'identical') {
+            logger.debug('Not placing %s, output %s is %s', source, target.path, target.resolution);
+            return { path: target.path, resolution: target.resolution };
+        }
+
+        if (config.dryRun) {
+            logger.info('Dry run: would %s %s to %s', mode, source, target.path);
+            return { path: target.path, resolution: target.resolution };
+        }
+
+        let usedMode: PlacementMode;
+        try {
+            const created = await storage.createDirectory(directory);
+            if (created) {
+                await journal.recordDirectory(created, directory);
+            }
+
+            if (target.resolution === 'overwritten' && (mode === 'hardlink' || mode === 'symlink')) {
+                // Unlike copies and renames, links cannot replace an existing file
+                await storage.removeFile(target.path);
+            }
+
+            usedMode = await transfer(mode, source, target.path, preserve);
+        } catch (error) {
+            // Nothing was placed, so a retry of the same file must not collide with its own reservation
+            collision.release(target.path);
+            throw error;
+        }
+        await journal.recordFile(source, target.path, usedMode, target.resolution === 'overwritten');
+        logger.debug('Placed %s at %s (%s)', source, target.path, usedMode);
+        return { path: target.path, resolution: target.resolution, mode: usedMode };
+    }
+
+    // Work out where a file would go, without touching the filesystem beyond hashing the file
+    async function locate(file: string, placeOptions: PlaceOptions): Promise<{ directory: string, filename: string }> {
+        const source = path.resolve(file);
+        const type = placeOptions.type || path.extname(source).slice(1);
+        const hash = placeOptions.hash || (await storage.digestFile(source)).slice(0, DEFAULT_PLACEMENT_HASH_LENGTH);
+
+        const fileSubject = placeOptions.subject ?? await subject.extract(source);
+
+        const directory = output.computeOutputDirectory(placeOptions.date, { type });
+        const filename = toOutputFilename(output.constructFilename(placeOptions.date, type, hash, { subject: fileSubject }), type);
+        return { directory, filename };
+    }
+
+    async function place(file: string, placeOptions: PlaceOptions): Promise<Placement> {
+        const { directory, filename } = await locate(file, placeOptions);
+        return placeAt(file, directory, filename, placeOptions);
+    }
+
+    return {
+        place,
+        placeAt,
+        locate,
+    }
+}
@@ -0,0 +1,129 @@
+import * as path from 'node:path';
+import * as Collision from './collision';
+import { DEFAULT_PLACEMENT_MODE } from './constants';
+import { Config, DateRange, Plan, PlanDecision, PlanSchema, PlannedAction, Placement } from './dreadcabinet';
+import * as Input from './input/input';
+import * as Place from './place';
+import { Options } from 'dreadcabinet';
+
+export const create = (config: Config, options: Options, dependencies: {
+    input: ReturnType<typeof Input.create>;
+    placement: ReturnType<typeof Place.create>;
+}): {
+    plan: (callback?: (file: string, date?: Date) => Promise<PlanDecision | void>, dateRange?: Partial<DateRange>) => Promise<Plan>;
+    apply: (plan: Plan) => Promise<Placement[]>;
+} => {
+    const logger = options.logger;
+    const { input, placement } = dependencies;
+
+    const planFile = async (
+        file: string,
+        date: Date | undefined,
+        callback: ((file: string, date?: Date) => Promise<PlanDecision | void>) | undefined,
+        collision: ReturnType<typeof Collision.create>,
+    ): Promise<PlannedAction> => {
+        const source = path.resolve(file);
+        const decision = (callback ? await callback(file, date) : undefined) || {};
+
+        if (decision.skip) {
+            return { source, ...(date ? { date: date.toISOString() } : {}), skipped: decision.skip };
+        }
+
+        const placeDate = decision.date || date;
+        if (!placeDate) {
+            return { source, skipped: 'no-date' };
+        }
+
+        const { directory, filename } = await placement.locate(file, { ...decision, date: placeDate });
+        const target = await collision.resolve(directory, filename, { source });
+        const action: PlannedAction = {
+            source,
+            date: placeDate.toISOString(),
+            targetDirectory: directory,
+            targetFilename: path.basename(target.path),
+            mode: decision.mode || DEFAULT_PLACEMENT_MODE,
+            resolution: target.resolution,
+        };
+        if (decision.preserve) {
+            action.preserve = decision.preserve;
+        }
+        if (target.resolution === 'skipped') {
+            action.skipped = 'exists';
+        } else if (target.resolution === 'identical') {
+            action.skipped = 'identical';
+        }
+        return action;
+    }
+
+    async function plan(callback?: (file: string, date?: Date) => Promise<PlanDecision | void>, dateRange: Partial<DateRange> = {}): Promise<Plan> {
+        // A registry of its own, so collisions within the plan are found without reserving paths for apply
+        const collision = Collision.create(config, options);
+        // Workers finish in any order, so each file keeps the place in the walk it had when it started or was skipped,
+        // and the plan follows --sort and --reverse as processing would
+        const planned: { position: number, action: PlannedAction }[] = [];
+        const positions = new Map<string, number>();
+        const positionOf = (file: string): number => {
+            const source = path.resolve(file);
+            if (!positions.has(source)) {
+                positions.set(source, positions.size);
+            }
+            return positions.get(source)!;
+        };
+        const failed = (file: string, error: Error, date?: Date): PlannedAction => {
+            logger.warn('Could not plan %s: %s', file, error.message);
+            return { source: path.resolve(file), ...(date ? { date: date.toISOString() } : {}), skipped: 'failed', error: error.message };
+        };
+
+        await input.process(async (file: string, date?: Date) => {
+            const position = positionOf(file);
+            let action: PlannedAction;
+            try {
+                action = await planFile(file, date, callback, collision);
+            } catch (error) {
+                action = failed(file, error instanceof Error ? error : new Error(String(error)), date);
+            }
+            planned.push({ position, action });
+        }, {
+            ...dateRange,
+            onStart: file => {
+                positionOf(file);
+            },
+            onSkip: (file, reason, date) => {
+                planned.push({ position: positionOf(file), action: { source: path.resolve(file), ...(date ? { date: date.toISOString() } : {}), skipped: reason } });
+            },
+            // Files whose date could not be read never reach the callback
+            onFail: (file, error) => {
+                planned.push({ position: positionOf(file), action: failed(file, error) });
+            },
+        });
+
+        const actions = planned.sort((a, b) => a.position - b.position).map(({ action }) => action);
+        logger.info('Planned %d of %d files.', actions.filter(action => !action.skipped).length, actions.length);
+
+        return { createdAt: new Date().toISOString(), actions };
+    }
+
+    async function apply(plan: Plan): Promise<Placement[]> {
+        // Plans are often read back from JSON files, so check the shape before touching anything
+        const { actions } = PlanSchema.parse(plan);
+        const placements: Placement[] = [];
+
+        for (const action of actions) {
+            if (action.skipped || !action.targetDirectory || !action.targetFilename) {
+                continue;
+            }
+            placements.push(await placement.placeAt(action.source, action.targetDirectory, action.targetFilename, {
+                mode: action.mode,
+                preserve: action.preserve,
+            }));
+        }
+
+        logger.info('Applied plan: placed %d files.', placements.filter(placed => placed.mode).length);
+        return placements;
+    }
+
+    return {
+        plan,
+        apply,
+    }
+}
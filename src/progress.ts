@@ -0,0 +1,68 @@
+import { ProgressTotals } from 'dreadcabinet';
+import * as Events from './events';
+
+const BAR_WIDTH = 24;
+// Redrawing on every file would spend more time on the terminal than on small files
+const REDRAW_INTERVAL_MS = 100;
+
+const formatDuration = (ms: number): string => {
+    const seconds = Math.round(ms / 1000);
+    const minutes = Math.floor(seconds / 60);
+    const hours = Math.floor(minutes / 60);
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return hours > 0 ? `${hours}:${pad(minutes % 60)}:${pad(seconds % 60)}` : `${minutes}:${pad(seconds % 60)}`;
+}
+
+// One line for the terminal: a bar once the walk has found every file, and only the counts until then
+export const formatProgress = (totals: ProgressTotals): string => {
+    const completed = totals.processed + totals.skipped + totals.failed;
+    const rate = totals.elapsedMs > 0 ? completed / (totals.elapsedMs / 1000) : 0;
+    const failed = totals.failed > 0 ? `  ${totals.failed} failed` : '';
+    if (!totals.enumerated) {
+        return `${completed} done, ${totals.discovered} found so far  ${rate.toFixed(1)} files/s${failed}`;
+    }
+    const ratio = totals.discovered > 0 ? completed / totals.discovered : 1;
+    const filled = Math.round(ratio * BAR_WIDTH);
+    const bar = `[${'#'.repeat(filled)}${'-'.repeat(BAR_WIDTH - filled)}]`;
+    const eta = totals.etaMs !== undefined ? `  ETA ${formatDuration(totals.etaMs)}` : '';
+    return `${bar} ${completed}/${totals.discovered} ${Math.floor(ratio * 100)}%  ${rate.toFixed(1)} files/s${eta}${failed}`;
+}
+
+// The progress bar --progress shows while files are processed. It only draws on a terminal, and finish
+// ends the line once a run is over, so that what is written next starts on a line of its own.
+export const create = (events: ReturnType<typeof Events.create>, stream: NodeJS.WriteStream = process.stderr): {
+    finish: () => void;
+} => {
+    if (!stream.isTTY) {
+        return { finish: () => undefined };
+    }
+
+    let latest: ProgressTotals | undefined;
+    let drawnAt = 0;
+    const draw = () => {
+        if (latest) {
+            drawnAt = Date.now();
+            // Clear the rest of the line, in case the previous one was longer
+            stream.write(`\r${formatProgress(latest)}\x1b[K`);
+        }
+    }
+
+    Events.PROCESS_EVENTS.forEach(event => events.on(event, payload => {
+        latest = (payload as { totals: ProgressTotals }).totals;
+        if (Date.now() - drawnAt >= REDRAW_INTERVAL_MS) {
+            draw();
+        }
+    }));
+
+    const finish = () => {
+        if (latest) {
+            draw();
+            stream.write('\n');
+            latest = undefined;
+        }
+    }
+
+    return {
+        finish,
+    }
+}
@@ -17,19 +17,48 @@ export const read = async (args: Args, features: Feature[]): Promise<Partial<Con
     if (features.includes('input')) {
         config.inputDirectory = args.inputDirectory;
         config.recursive = args.recursive;
-        config.limit = args.limit;
+        // Commander hands option values over as strings
+        config.limit = args.limit === undefined ? undefined : Number(args.limit);
+        config.offset = args.offset === undefined ? undefined : Number(args.offset);
+        config.sample = args.sample === undefined ? undefined : Number(args.sample);
+        config.seed = args.seed;
         config.concurrency = args.concurrency;
+        config.dateSources = args.dateSource;
+        config.filenameDatePatterns = args.filenameDatePatterns;
+        config.include = args.include;
+        config.exclude = args.exclude;
+        config.gitignore = args.gitignore;
+        config.onError = args.onError;
+        config.quarantineDirectory = args.quarantineDirectory;
+        config.progress = args.progress;
+        config.timeout = args.timeout === undefined ? undefined : Number(args.timeout);
+        config.retries = args.retries === undefined ? undefined : Number(args.retries);
+        config.retryDelay = args.retryDelay === undefined ? undefined : Number(args.retryDelay);
+        config.rateLimit = args.rateLimit;
+        config.sort = args.sort;
+        config.reverse = args.reverse;
     }
     if (features.includes('structured-input')) {
         config.inputStructure = args.inputStructure;
         config.inputFilenameOptions = args.inputFilenameOptions;
+        config.inputDirectoryTemplate = args.inputDirectoryTemplate;
     }
     if (features.includes('output')) {
         config.outputDirectory = args.outputDirectory;
+        config.onCollision = args.onCollision;
+        config.dryRun = args.dryRun;
     }
     if (features.includes('structured-output')) {
         config.outputStructure = args.outputStructure;
+        config.outputDirectoryTemplate = args.outputDirectoryTemplate;
         config.outputFilenameOptions = args.outputFilenameOptions;
+        config.outputFilenameTemplate = args.outputFilenameTemplate;
+        config.subjectSources = args.subjectSources;
+    }
+    if (features.includes('structured-input') || features.includes('structured-output')) {
+        // Commander hands option values over as strings
+        config.fiscalYearStartMonth = args.fiscalYearStartMonth === undefined ? undefined : Number(args.fiscalYearStartMonth);
+        config.dateFormatProfile = args.dateFormatProfile;
     }
     if (features.includes('extensions')) {
         config.extensions = args.extensions;
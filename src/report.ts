@@ -0,0 +1,57 @@
+import { BatchReport, ProcessReport, ProcessSkipReason } from 'dreadcabinet';
+
+export type ReportFormat = 'table' | 'json';
+
+const SKIP_LABELS: Record<ProcessSkipReason, string> = {
+    'out-of-range': 'out of range',
+    'unparseable-date': 'unparseable date',
+    'excluded': 'excluded',
+    'limit-reached': 'limit reached',
+    'offset': 'before offset',
+    'not-sampled': 'not sampled',
+};
+
+const isBatchReport = (report: ProcessReport | BatchReport): report is BatchReport => 'batches' in report;
+
+// Errors have no enumerable properties, so JSON.stringify would turn every failure into {}
+const toJSON = (report: ProcessReport | BatchReport) => ({
+    ...report,
+    failed: report.failed.map(({ file, error, quarantined }) => ({ file, error: { name: error.name, message: error.message }, quarantined })),
+    ...(isBatchReport(report) ? {
+        failedBatches: report.failedBatches.map(({ files, error }) => ({ files, error: { name: error.name, message: error.message } })),
+    } : {}),
+});
+
+const toTable = (report: ProcessReport | BatchReport): string => {
+    const skipped = Object.values(report.skipped).reduce((total, count) => total + count, 0);
+    const rows: [string, string][] = [
+        ['Processed', String(report.processed)],
+        ['Skipped', String(skipped)],
+        ...Object.entries(SKIP_LABELS).map(([reason, label]): [string, string] => [`  ${label}`, String(report.skipped[reason as ProcessSkipReason])]),
+        ['Failed', String(report.failed.length)],
+        ...(isBatchReport(report) ? [
+            ['Batches', String(report.batches)],
+            ['  failed', String(report.failedBatches.length)],
+        ] as [string, string][] : []),
+        ['Duration', `${(report.durationMs / 1000).toFixed(2)}s`],
+        ['Throughput', `${report.filesPerSecond.toFixed(2)} files/s`],
+    ];
+    const labelWidth = Math.max(...rows.map(([label]) => label.length));
+    const valueWidth = Math.max(...rows.map(([, value]) => value.length));
+    const lines = rows.map(([label, value]) => `${label.padEnd(labelWidth)}  ${value.padStart(valueWidth)}`);
+
+    if (report.aborted) {
+        lines.push('', 'Aborted before every file was processed, so the counts are partial.');
+    }
+
+    if (report.failed.length > 0) {
+        lines.push('', 'Failed files:', ...report.failed.map(({ file, error, quarantined }) =>
+            `  ${file}: ${error.message}${quarantined ? ` (quarantined in ${quarantined})` : ''}`));
+    }
+    return lines.join('\n');
+}
+
+// Render what Operator.process or processBatches did for people (a table) or for other tools (JSON)
+export const formatReport = (report: ProcessReport | BatchReport, format: ReportFormat = 'table'): string => {
+    return format === 'json' ? JSON.stringify(toJSON(report), null, 2) : toTable(report);
+}
@@ -0,0 +1,35 @@
+import { Logger } from 'dreadcabinet';
+import { DEFAULT_SHUTDOWN_SIGNALS } from './constants';
+
+// Turns SIGINT and SIGTERM into an aborted signal for Operator.process, so a run stopped from the terminal
+// finishes the files it started and still resolves to its report. A second signal stops the process at once.
+// Nothing is installed until this is called, and dispose removes the handlers again once the run is over.
+export const createShutdownSignal = (options: { logger?: Logger, signals?: NodeJS.Signals[] } = {}): {
+    signal: AbortSignal;
+    dispose: () => void;
+} => {
+    const controller = new AbortController();
+    const signals = options.signals || DEFAULT_SHUTDOWN_SIGNALS;
+
+    const dispose = () => {
+        signals.forEach(name => process.off(name, onSignal));
+    }
+
+    function onSignal(name: NodeJS.Signals) {
+        if (controller.signal.aborted) {
+            // Without the handlers the signal ends the process the way it would have without them
+            dispose();
+            process.kill(process.pid, name);
+            return;
+        }
+        options.logger?.warn('Received %s, finishing the files in progress. Send it again to stop at once.', name);
+        controller.abort(new Error(`Received ${name}`));
+    }
+
+    signals.forEach(name => process.on(name, onSignal));
+
+    return {
+        signal: controller.signal,
+        dispose,
+    }
+}
@@ -0,0 +1,116 @@
+import * as path from 'node:path';
+import { Config, SubjectSource } from './dreadcabinet';
+import * as Frontmatter from './util/frontmatter';
+import * as Storage from './util/storage';
+import { Options } from 'dreadcabinet';
+
+const HEADING = /^#[ \t]+(.+?)(?:[ \t]+#+)?[ \t]*$/m;
+
+// Trim the value and drop the quotes YAML allows around it, so that empty values count as missing
+const clean = (value: string | undefined): string | undefined => {
+    const trimmed = value?.trim().replace(/^(['"])(.*)\1$/, '$2').trim();
+    return trimmed ? trimmed : undefined;
+}
+
+export const fromFrontmatter = (content: string): string | undefined => {
+    return clean(Frontmatter.field(content, 'title'));
+}
+
+export const fromHeading = (content: string): string | undefined => {
+    return clean(Frontmatter.strip(content).match(HEADING)?.[1]);
+}
+
+export const fromFirstLine = (content: string): string | undefined => {
+    return clean(Frontmatter.strip(content).split(/\r?\n/).find(line => line.trim() !== ''));
+}
+
+export const fromFilename = (file: string): string | undefined => {
+    return clean(path.basename(file, path.extname(file)));
+}
+
+export const create = (config: Config, options: Options): {
+    extract: (file: string) => Promise<string | undefined>;
+    handle: (file: string, work: () => Promise<void>) => Promise<void>;
+} => {
+    const logger = options.logger;
+    const storage: Storage.Utility = Storage.create({ log: logger.debug });
+    // A subjectExtractor on its own is used without having to list it as a source
+    const sources: SubjectSource[] = config.subjectSources || (options.subjectExtractor ? ['custom'] : []);
+    const needsContent = sources.some(source => source !== 'filename');
+
+    // Callbacks usually ask again for the file process just handed them, so each file is read once while it is handled,
+    // counting the runs handling it at once. It is read afresh after that, so a changed file does not keep its old subject.
+    const handling = new Map<string, number>();
+    const extracted = new Map<string, Promise<string | undefined>>();
+
+    const extractFrom = async (file: string): Promise<string | undefined> => {
+        const content = needsContent ? await storage.readFile(file, 'utf8') : '';
+        for (const source of sources) {
+            let subject: string | undefined;
+            switch (source) {
+                case 'frontmatter':
+                    subject = fromFrontmatter(content);
+                    break;
+                case 'heading':
+                    subject = fromHeading(content);
+                    break;
+                case 'first-line':
+                    subject = fromFirstLine(content);
+                    break;
+                case 'filename':
+                    subject = fromFilename(file);
+                    break;
+                case 'custom':
+                    subject = clean(await options.subjectExtractor?.(file, content));
+                    break;
+            }
+            if (subject) {
+                logger.debug('Found subject %s for %s in %s', subject, file, source);
+                return subject;
+            }
+        }
+        return undefined;
+    }
+
+    async function extract(file: string): Promise<string | undefined> {
+        if (sources.length === 0) {
+            return undefined;
+        }
+        const key = path.resolve(file);
+        if (!handling.has(key)) {
+            return extractFrom(file);
+        }
+        if (!extracted.has(key)) {
+            const extraction = extractFrom(file);
+            extracted.set(key, extraction);
+            // A failed read is not kept, so asking again tries again
+            extraction.catch(() => {
+                if (extracted.get(key) === extraction) {
+                    extracted.delete(key);
+                }
+            });
+        }
+        return extracted.get(key)!;
+    }
+
+    async function handle(file: string, work: () => Promise<void>): Promise<void> {
+        const key = path.resolve(file);
+        handling.set(key, (handling.get(key) ?? 0) + 1);
+        try {
+            return await work();
+        } finally {
+            const count = handling.get(key)! - 1;
+            if (count > 0) {
+                handling.set(key, count);
+            } else {
+                handling.delete(key);
+                extracted.delete(key);
+            }
+        }
+    }
+
+    return {
+        extract,
+        handle,
+    }
+}
@@ -112,6 +112,73 @@ const TIMEZONE_NAMES = [
     'US/Pacific-New', 'US/Samoa', 'UTC', 'Universal', 'W-SU', 'WET', 'Zulu'
 ];
 
+export interface IsoWeek {
+    year: number;
+    week: number;
+}
+
+/**
+ * Calculates the ISO 8601 week for a calendar day (month is 1-indexed). The returned year is the
+ * ISO week-year, which differs from the calendar year for the last days of December (which can
+ * fall in week 1 of the next year) and the first days of January (which can fall in week 52 or 53
+ * of the previous year).
+ */
+export const isoWeekOf = (year: number, month: number, day: number): IsoWeek => {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    // Move to the Thursday of the same week; its calendar year is the ISO week-year
+    const dayOfWeek = date.getUTCDay() || 7;
+    date.setUTCDate(date.getUTCDate() + 4 - dayOfWeek);
+    const weekYear = date.getUTCFullYear();
+    const dayOfYear = Math.floor((date.getTime() - Date.UTC(weekYear, 0, 1)) / 86400000) + 1;
+    return { year: weekYear, week: Math.ceil(dayOfYear / 7) };
+}
+
+export const isoWeeksInYear = (year: number): number => {
+    // December 28th is always in the last ISO week of its year
+    return isoWeekOf(year, 12, 28).week;
+}
+
+/**
+ * Given an ISO week-year and week, returns the calendar year that a day in the given month
+ * (1-indexed) belongs to. Week 1 can start in December of the previous year, and weeks 52/53
+ * can end in January of the next year.
+ */
+export const calendarYearForIsoWeek = (weekYear: number, week: number, month: number): number => {
+    if (week === 1 && month === 12) {
+        return weekYear - 1;
+    }
+    if (week >= 52 && month === 1) {
+        return weekYear + 1;
+    }
+    return weekYear;
+}
+
+export interface FiscalPeriod {
+    year: number;
+    quarter: number;
+}
+
+// Calendar quarter (1-4) of a 1-indexed month
+export const quarterOf = (month: number): number => {
+    return Math.floor((month - 1) / 3) + 1;
+}
+
+/**
+ * Calculates the fiscal year and fiscal quarter of a calendar month (1-indexed). Fiscal years are
+ * named after the calendar year in which they end, so with a fiscal year starting in October,
+ * October 2024 is in Q1 of FY2025. A start month of 1 makes fiscal years match calendar years.
+ */
+export const fiscalPeriodOf = (year: number, month: number, startMonth: number): FiscalPeriod => {
+    const monthsIntoYear = (month - startMonth + 12) % 12;
+    const fiscalYear = startMonth > 1 && month >= startMonth ? year + 1 : year;
+    return { year: fiscalYear, quarter: Math.floor(monthsIntoYear / 3) + 1 };
+}
+
+// Inverse of fiscalPeriodOf: the calendar year of a month (1-indexed) within a fiscal year
+export const calendarYearForFiscalYear = (fiscalYear: number, month: number, startMonth: number): number => {
+    return startMonth > 1 && month >= startMonth ? fiscalYear - 1 : fiscalYear;
+}
+
 /**
  * Yes, wrapping dayjs is a bit annoying and might seem overly paranoid. However, I feel strongly
  * about not letting Dayjs instances leak into the rest of the codebase. Having Dayjs objects
@@ -148,6 +215,7 @@ export interface Utility {
     endOfYear: (date: Date) => Date;
     isBefore: (date: Date, other: Date) => boolean;
     isAfter: (date: Date, other: Date) => boolean;
+    isoWeek: (date: Date) => IsoWeek;
 }
 
 export const create = (parameters: { timezone: string }) => {
@@ -241,7 +309,13 @@ export const create = (parameters: { timezone: string }) => {
         return dayjs.tz(date, timezone).isAfter(dayjs.tz(other, timezone));
     }
 
-    return { now, today, date, parse, isValidDate, addDays, addMonths, addYears, format, subDays, subMonths, subYears, startOfMonth, endOfMonth, startOfYear, endOfYear, isBefore, isAfter };
+    const isoWeek = (date: Date): IsoWeek => {
+        // Use the calendar day in the configured timezone, not the UTC one
+        const [year, month, day] = dayjs.tz(date, timezone).format('YYYY-M-D').split('-').map(part => parseInt(part, 10));
+        return isoWeekOf(year, month, day);
+    }
+
+    return { now, today, date, parse, isValidDate, addDays, addMonths, addYears, format, subDays, subMonths, subYears, startOfMonth, endOfMonth, startOfYear, endOfYear, isBefore, isAfter, isoWeek };
 }
 
 export const validTimezones = () => {
@@ -0,0 +1,24 @@
+/**
+ * Just enough frontmatter reading to pull single `key: value` fields out of markdown notes.
+ *
+ * Frontmatter is the block between `---` lines at the very start of a file. Values are
+ * read as plain strings with YAML's optional quotes removed; nested YAML is not supported.
+ */
+
+const FRONTMATTER = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+const escape = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// The value of a top-level field, or undefined when there is no frontmatter, no such field, or it is empty
+export const field = (content: string, name: string): string | undefined => {
+    const frontmatter = content.match(FRONTMATTER)?.[1];
+    if (frontmatter === undefined) {
+        return undefined;
+    }
+    const value = frontmatter.match(new RegExp(`^${escape(name)}:[ \\t]*(.*)$`, 'm'))?.[1];
+    const unquoted = value?.trim().replace(/^(['"])(.*)\1$/, '$2').trim();
+    return unquoted ? unquoted : undefined;
+}
+
+// The content after the frontmatter, or all of it when there is none
+export const strip = (content: string): string => content.replace(FRONTMATTER, '');
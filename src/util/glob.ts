@@ -0,0 +1,117 @@
+/**
+ * Matches relative paths against glob patterns one path at a time, so that a directory walker
+ * can decide what to visit and what to keep without listing the whole tree first.
+ *
+ * The patterns follow glob's defaults for the syntax the input patterns use: `*` and `?` within
+ * a path segment, `**` for any number of directories, `{a,b}` alternatives and `[...]` classes.
+ * As with glob, wildcards do not match names starting with a dot unless the pattern does.
+ */
+
+export interface Matcher {
+    // Whether a file at this relative path, with `/` separators, matches
+    matches: (relativePath: string) => boolean;
+    // Whether files under the directory at this relative path could match, so it is worth opening
+    descend: (relativePath: string) => boolean;
+}
+
+type SegmentMatcher = RegExp | 'globstar';
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Expand {a,b} alternatives, including nested ones, into separate patterns
+const expandBraces = (pattern: string): string[] => {
+    let depth = 0;
+    let open = -1;
+    for (let i = 0; i < pattern.length; i++) {
+        if (pattern[i] === '\\') {
+            i++;
+        } else if (pattern[i] === '{') {
+            if (depth++ === 0) open = i;
+        } else if (pattern[i] === '}' && depth > 0 && --depth === 0) {
+            const body = pattern.slice(open + 1, i);
+            const alternatives: string[] = [];
+            let start = 0;
+            let nested = 0;
+            for (let j = 0; j < body.length; j++) {
+                if (body[j] === '{') nested++;
+                else if (body[j] === '}') nested--;
+                else if (body[j] === ',' && nested === 0) {
+                    alternatives.push(body.slice(start, j));
+                    start = j + 1;
+                }
+            }
+            alternatives.push(body.slice(start));
+            // A single alternative is a literal brace, as in glob
+            if (alternatives.length === 1) {
+                continue;
+            }
+            const [before, after] = [pattern.slice(0, open), pattern.slice(i + 1)];
+            return alternatives.flatMap(alternative => expandBraces(`${before}${alternative}${after}`));
+        }
+    }
+    return [pattern];
+}
+
+const compileSegment = (segment: string): SegmentMatcher => {
+    if (segment === '**') {
+        return 'globstar';
+    }
+    let source = '';
+    for (let i = 0; i < segment.length; i++) {
+        const char = segment[i];
+        if (char === '\\' && i + 1 < segment.length) {
+            source += escapeRegExp(segment[++i]);
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '[') {
+            const close = segment.indexOf(']', i + 2);
+            if (close === -1) {
+                source += '\\[';
+                continue;
+            }
+            const body = segment.slice(i + 1, close).replace(/^!/, '^').replace(/\\/g, '\\\\');
+            source += `[${body}]`;
+            i = close;
+        } else {
+            source += escapeRegExp(char);
+        }
+    }
+    // Dotfiles are only matched by segments that start with a literal dot
+    const dot = segment.startsWith('.') ? '' : '(?!\\.)';
+    return new RegExp(`^${dot}${source}$`);
+}
+
+// Match path segments against pattern segments, where a globstar takes zero or more segments
+const matchSegments = (pattern: SegmentMatcher[], segments: string[], partial: boolean): boolean => {
+    const match = (p: number, s: number): boolean => {
+        if (s === segments.length) {
+            // A directory matches partially while the pattern still has segments left for its files
+            return partial ? p < pattern.length : pattern.slice(p).every(segment => segment === 'globstar');
+        }
+        if (p === pattern.length) {
+            return false;
+        }
+        const segment = pattern[p];
+        if (segment === 'globstar') {
+            // Like glob, ** does not enter dot directories
+            return match(p + 1, s) || (!segments[s].startsWith('.') && match(p, s + 1));
+        }
+        return segment.test(segments[s]) && match(p + 1, s + 1);
+    }
+    return match(0, 0);
+}
+
+export const compile = (pattern: string | string[]): Matcher => {
+    const patterns = (Array.isArray(pattern) ? pattern : [pattern])
+        .flatMap(expandBraces)
+        .map(expanded => expanded.split('/').filter(segment => segment !== '' && segment !== '.').map(compileSegment));
+
+    const split = (relativePath: string) => relativePath.split('/').filter(segment => segment !== '');
+
+    return {
+        matches: (relativePath: string) => patterns.some(segments => matchSegments(segments, split(relativePath), false)),
+        descend: (relativePath: string) => patterns.some(segments => matchSegments(segments, split(relativePath), true)),
+    };
+}
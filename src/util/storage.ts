@@ -1,7 +1,8 @@
 import * as fs from 'node:fs';
-import { glob } from 'glob';
 import * as path from 'node:path';
 import * as crypto from 'node:crypto';
+import { setTimeout as sleep } from 'node:timers/promises';
+import * as Glob from './glob';
 /**
  * This module exists to isolate filesystem operations from the rest of the codebase.
  * This makes testing easier by avoiding direct fs mocking in jest configuration.
@@ -11,6 +12,46 @@ import * as crypto from 'node:crypto';
  * (e.g. S3, Google Cloud Storage, etc).
  */
 
+// How many paths the walk may find ahead of the workers before it waits for them
+const READ_AHEAD = 10000;
+
+// Why a file that matched was left out, as onLimit is told
+type LimitReason = 'limit-reached' | 'offset' | 'not-sampled';
+
+// How forEachFileIn walks a directory. Files go through these in turn: the pattern, prune and exclude while the
+// directory is walked, then orderEntries or sort, matches, sample, offset and limit, so that the offset and the
+// limit count files that matches accepted. Paths are relative to the directory, except for matches and onLimit.
+export interface ForEachFileInOptions {
+    pattern: string | string[];
+    limit?: number;
+    // Matching files to pass over before the limit
+    offset?: number;
+    concurrency?: number;
+    prune?: (relativeDirectory: string) => boolean;
+    exclude?: (relativeFile: string) => boolean;
+    // Whether a file is one to process, asked in walk order and for up to concurrency files at once.
+    // A file it rejects counts towards neither the offset nor the limit.
+    matches?: (file: string) => Promise<boolean>;
+    // Picks the files to process from every matching file, once the walk is over
+    sample?: (files: string[]) => string[];
+    onLimit?: (file: string, reason: LimitReason) => void;
+    // Walk on past the limit to tell onLimit about every matching file left out, rather than stopping there
+    walkPastLimit?: boolean;
+    onDiscover?: (file: string) => void;
+    onEnumerated?: (total: number) => void;
+    interval?: number;
+    signal?: AbortSignal;
+    // Orders the entries of each directory, given their paths relative to the directory walked
+    orderEntries?: (a: string, b: string) => number;
+    sort?: (files: string[]) => Promise<string[]>;
+}
+
+// The files a walk hands out, one at a time
+interface FileIterator {
+    next: () => Promise<IteratorResult<string>>;
+    return: (value?: undefined) => Promise<unknown>;
+}
+
 export interface Utility {
     exists: (path: string) => Promise<boolean>;
     isDirectory: (path: string) => Promise<boolean>;
@@ -20,12 +61,23 @@ export interface Utility {
     isFileReadable: (path: string) => Promise<boolean>;
     isDirectoryWritable: (path: string) => Promise<boolean>;
     isDirectoryReadable: (path: string) => Promise<boolean>;
-    createDirectory: (path: string) => Promise<void>;
+    createDirectory: (path: string) => Promise<string | undefined>;
     readFile: (path: string, encoding: string) => Promise<string>;
     readStream: (path: string) => Promise<fs.ReadStream>;
     writeFile: (path: string, data: string | Buffer, encoding: string) => Promise<void>;
-    forEachFileIn: (directory: string, callback: (path: string) => Promise<void>, options?: { pattern: string, limit?: number, concurrency?: number }) => Promise<void>;
+    appendFile: (path: string, data: string) => Promise<void>;
+    forEachFileIn: (directory: string, callback: (path: string) => Promise<void>, options?: ForEachFileInOptions) => Promise<void>;
     hashFile: (path: string, length: number) => Promise<string>;
+    digestFile: (path: string) => Promise<string>;
+    copyFile: (source: string, target: string, options?: { clone?: boolean }) => Promise<void>;
+    moveFile: (source: string, target: string) => Promise<void>;
+    linkFile: (source: string, target: string) => Promise<void>;
+    symlinkFile: (source: string, target: string) => Promise<void>;
+    removeFile: (path: string) => Promise<void>;
+    removeDirectory: (path: string) => Promise<void>;
+    lstat: (path: string) => Promise<fs.Stats>;
+    stat: (path: string) => Promise<fs.Stats>;
+    copyAttributes: (source: string, target: string, options: { mtime?: boolean, permissions?: boolean }) => Promise<void>;
     listFiles: (directory: string) => Promise<string[]>;
 }
 
@@ -94,9 +146,10 @@ export const create = (params: { log?: (message: string, ...args: any[]) => void
         return await exists(path) && await isDirectory(path) && await isReadable(path);
     }
 
-    const createDirectory = async (path: string): Promise<void> => {
+    // Resolves to the first directory that had to be created, or undefined when the path already existed
+    const createDirectory = async (path: string): Promise<string | undefined> => {
         try {
-            await fs.promises.mkdir(path, { recursive: true });
+            return await fs.promises.mkdir(path, { recursive: true });
         } catch (mkdirError: any) {
             throw new Error(`Failed to create output directory ${path}: ${mkdirError.message} ${mkdirError.stack}`);
         }
@@ -110,46 +163,334 @@ export const create = (params: { log?: (message: string, ...args: any[]) => void
         await fs.promises.writeFile(path, data, { encoding: encoding as BufferEncoding });
     }
 
+    const appendFile = async (path: string, data: string): Promise<void> => {
+        await fs.promises.appendFile(path, data, { encoding: 'utf8' });
+    }
+
+    // The entries of one directory, as they are read, or all at once in order when an order is given
+    async function* entriesOf(dir: fs.Dir, relative: string, orderEntries?: (a: string, b: string) => number): AsyncGenerator<fs.Dirent> {
+        if (!orderEntries) {
+            yield* dir;
+            return;
+        }
+        const entries: { entry: fs.Dirent, entryPath: string }[] = [];
+        for await (const entry of dir) {
+            entries.push({ entry, entryPath: relative ? `${relative}/${entry.name}` : entry.name });
+        }
+        yield* entries.sort((a, b) => orderEntries(a.entryPath, b.entryPath)).map(({ entry }) => entry);
+    }
+
+    // Walk the directory depth-first, yielding the relative paths of matching files as they are
+    // read. Only one open directory handle per level is held, so memory does not grow with the
+    // number of files, and directories the pattern cannot match under are never opened.
+    // Prune and exclude callbacks can leave out further directories and files, given their paths relative to the walked directory.
+    // With orderEntries each directory is read whole and its entries ordered, so the walk comes out in order one level at a time.
+    async function* walk(
+        directory: string,
+        matcher: Glob.Matcher,
+        filters: { prune?: (relativeDirectory: string) => boolean, exclude?: (relativeFile: string) => boolean, orderEntries?: (a: string, b: string) => number },
+        relative: string = ''
+    ): AsyncGenerator<string> {
+        let dir: fs.Dir;
+        try {
+            dir = await fs.promises.opendir(path.join(directory, relative));
+        } catch (error: any) {
+            // The directory walked has to be readable, but subdirectories that are not are passed over, as glob did
+            if (!relative) {
+                throw error;
+            }
+            log(`Passed over ${path.join(directory, relative)}, it could not be read: ${error.message}`);
+            return;
+        }
+        try {
+            for await (const entry of entriesOf(dir, relative, filters.orderEntries)) {
+                const entryPath = relative ? `${relative}/${entry.name}` : entry.name;
+                let isDirectory = entry.isDirectory();
+                let isFile = entry.isFile();
+                if (entry.isSymbolicLink()) {
+                    // Symlinked files are included, symlinked directories are not followed
+                    const stats = await fs.promises.stat(path.join(directory, entryPath)).catch(() => undefined);
+                    isDirectory = false;
+                    isFile = stats?.isFile() ?? false;
+                }
+                if (isDirectory) {
+                    if (matcher.descend(entryPath) && !filters.prune?.(entryPath)) {
+                        yield* walk(directory, matcher, filters, entryPath);
+                    }
+                } else if (isFile && matcher.matches(entryPath) && !filters.exclude?.(entryPath)) {
+                    yield entryPath;
+                }
+            }
+        } finally {
+            // Closing an exhausted Dir throws, so only close one that was left part way through
+            await dir.close().catch(() => undefined);
+        }
+    }
+
+    async function* sorted(files: AsyncGenerator<string>, sort: (files: string[]) => Promise<string[]>): AsyncGenerator<string> {
+        const all: string[] = [];
+        for await (const file of files) {
+            all.push(file);
+        }
+        yield* await sort(all);
+    }
+
+    // The files matches accepts, in the order they came. Up to ahead files are checked at once, so that slow checks,
+    // such as reading a date from each file, overlap as the callbacks do. A check that throws ends the files there,
+    // and its error goes to failed.
+    async function* matching(files: FileIterator, matches: (file: string) => Promise<boolean>, ahead: number, failed: (error: unknown) => void): AsyncGenerator<string> {
+        const checking: { file: string, matched: Promise<boolean> }[] = [];
+        let walked = false;
+        try {
+            while (true) {
+                while (!walked && checking.length < ahead) {
+                    const next = await files.next();
+                    if (next.done) {
+                        walked = true;
+                        break;
+                    }
+                    const matched = matches(next.value);
+                    // A check that fails is only awaited in its turn
+                    matched.catch(() => undefined);
+                    checking.push({ file: next.value, matched });
+                }
+                const first = checking.shift();
+                if (!first) return;
+                let matched: boolean;
+                try {
+                    matched = await first.matched;
+                } catch (error) {
+                    failed(error);
+                    return;
+                }
+                if (matched) {
+                    yield first.file;
+                }
+            }
+        } finally {
+            // Checks already started finish before the walk is released
+            await Promise.allSettled(checking.map(({ matched }) => matched));
+        }
+    }
+
+    // The files the sample picks, in the order they came, once every matching file is known
+    async function* sampled(files: FileIterator, sample: (files: string[]) => string[], leftOut: (file: string) => void): AsyncGenerator<string> {
+        const all: string[] = [];
+        for (let next = await files.next(); !next.done; next = await files.next()) {
+            all.push(next.value);
+        }
+        const picked = new Set(sample(all));
+        log(`Sampled ${picked.size} of ${all.length} matching files`);
+        for (const file of all) {
+            if (picked.has(file)) {
+                yield file;
+            } else {
+                leftOut(file);
+            }
+        }
+    }
+
+    // Walk ahead of the workers into a queue, so files are found early and the total is known while files are
+    // still being processed. Only the paths are held, and no more than READ_AHEAD of them: a full queue waits for
+    // the workers, so in a larger tree the total comes once the walk is that close to the end. The walk is over
+    // after the first limit files, and cut short, without onEnumerated, when the workers stop.
+    function readAhead(
+        files: AsyncGenerator<string>,
+        { limit, stopped, onDiscover, onEnumerated }: { limit: number, stopped: () => boolean, onDiscover?: (file: string) => void, onEnumerated?: (total: number) => void }
+    ): FileIterator {
+        let queue: string[] = [];
+        let head = 0;
+        let found = 0;
+        let walked = false;
+        let cancelled = false;
+        let error: { error: unknown } | undefined;
+        let waiting: (() => void)[] = [];
+        const wake = () => {
+            const resolvers = waiting;
+            waiting = [];
+            resolvers.forEach(resolve => resolve());
+        }
+        // The walk waiting for room in the queue
+        let full: (() => void) | undefined;
+        const makeRoom = () => {
+            full?.();
+            full = undefined;
+        }
+
+        const pump = (async () => {
+            try {
+                let cutShort = false;
+                for await (const file of files) {
+                    found++;
+                    onDiscover?.(file);
+                    queue.push(file);
+                    wake();
+                    while (queue.length - head >= READ_AHEAD && found < limit && !cancelled && !stopped()) {
+                        await new Promise<void>(resolve => {
+                            full = resolve;
+                        });
+                    }
+                    if (cancelled || stopped()) {
+                        cutShort = true;
+                        break;
+                    }
+                    if (found >= limit) break;
+                }
+                if (!cutShort) {
+                    onEnumerated?.(found);
+                }
+            } catch (err) {
+                error = { error: err };
+            } finally {
+                walked = true;
+                wake();
+            }
+        })();
+
+        return {
+            next: async () => {
+                while (head === queue.length && !walked) {
+                    await new Promise<void>(resolve => waiting.push(resolve));
+                }
+                if (head < queue.length) {
+                    const value = queue[head++];
+                    makeRoom();
+                    // Drop the paths handed out so far once they make up most of the queue
+                    if (head > 1024 && head * 2 > queue.length) {
+                        queue = queue.slice(head);
+                        head = 0;
+                    }
+                    return { done: false, value };
+                }
+                if (error) throw error.error;
+                return { done: true, value: undefined };
+            },
+            return: async () => {
+                cancelled = true;
+                makeRoom();
+                await pump;
+                return undefined;
+            },
+        }
+    }
+
     const forEachFileIn = async (
         directory: string,
         callback: (file: string) => Promise<void>,
-        options: { pattern: string | string[], limit?: number, concurrency?: number } = { pattern: '*.*' },
+        options: ForEachFileInOptions = { pattern: '*.*' },
     ): Promise<void> => {
+        const walking = walk(directory, Glob.compile(options.pattern), { prune: options.prune, exclude: options.exclude, orderEntries: options.orderEntries });
+        // Orders that need every file, such as by size, wait for the whole walk before the first file starts
+        const walked = options.sort ? sorted(walking, options.sort) : walking;
+        // The first error a callback throws stops the workers from starting more files, and is passed on as it is.
+        // An aborted signal stops them the same way, but files already started still finish and nothing is thrown.
+        let failure: { error: unknown } | undefined;
+        const stopped = () => failure !== undefined || options.signal?.aborted === true;
+        const limit = options.limit || Infinity;
+        const offset = options.offset || 0;
+        const concurrency = options.concurrency || 1;
+        // Past the limit only one more file is walked to, to tell whether the limit left any out, unless walking on is
+        // asked for. When matches or the sample leave files out, there is no telling how far that is.
+        const files = options.onDiscover || options.onEnumerated ?
+            readAhead(walked, {
+                limit: options.walkPastLimit || options.matches || options.sample ? Infinity : offset + limit + 1,
+                stopped,
+                onDiscover: options.onDiscover && (file => options.onDiscover!(path.join(directory, file))),
+                onEnumerated: options.onEnumerated,
+            }) :
+            walked;
+        // Each stage pulls from the one before it, and is released before it once the workers are done
+        const stages: FileIterator[] = [files];
+        if (options.matches) {
+            const matches = options.matches;
+            // A check that throws stops the workers as a callback that throws does
+            stages.unshift(matching(stages[0], file => matches(path.join(directory, file)), concurrency, error => {
+                failure ??= { error };
+            }));
+        }
+        if (options.sample) {
+            stages.unshift(sampled(stages[0], options.sample, file => options.onLimit?.(path.join(directory, file), 'not-sampled')));
+        }
+        const selected = stages[0];
         try {
-            // NOTE: glob loads all matching files into memory before processing.
-            // For directories with millions of files, this can cause out-of-memory errors.
-            // Consider using streaming glob or incremental processing for very large directories.
-            const files = await glob(options.pattern, { cwd: directory, nodir: true });
-            const concurrency = options.concurrency || 1;
-            const limit = options.limit || files.length;
-            
-            // Use a queue-based approach to avoid race conditions
-            const fileQueue: string[] = files.slice(0, limit);
-            let filesProcessed = 0;
-            
+            // Matching files handed out so far, the offset and the limit count these
+            let filesTaken = 0;
+            let filesStarted = 0;
+            let filesPassedOver = 0;
+            let filesLeftOut = 0;
+
+            // Workers pull the next file only when they are free, so the walk never runs ahead of them.
+            // Past the limit the walk stops at the first file left out, which onLimit is told about, unless asked to
+            // walk on and tell onLimit about every file left out.
+            // With an interval the workers start files at least that far apart between them, each start
+            // booking the next free slot. An abort cuts the wait short, and the file is not started then.
+            let nextStart = 0;
+            async function throttle() {
+                if (!options.interval) return;
+                const now = Date.now();
+                const startAt = Math.max(now, nextStart);
+                nextStart = startAt + options.interval;
+                if (startAt > now) {
+                    await sleep(startAt - now, undefined, { signal: options.signal }).catch(() => undefined);
+                }
+            }
+
             async function worker() {
-                while (fileQueue.length > 0 && filesProcessed < limit) {
-                    // Atomically get next file from queue
-                    const file = fileQueue.shift();
-                    if (!file) break;
-                    
-                    await callback(path.join(directory, file));
-                    
-                    // Atomically increment counter
-                    filesProcessed++;
-                    
-                    if (filesProcessed >= limit) {
+                while (!stopped() && (filesTaken < offset + limit || filesLeftOut === 0 || options.walkPastLimit)) {
+                    const next = await selected.next();
+                    if (next.done || stopped()) break;
+                    const file = path.join(directory, next.value);
+                    // Files come out of the stages in order, so this is the file's place among the matching files
+                    const taken = filesTaken++;
+                    if (taken < offset) {
+                        filesPassedOver++;
+                        options.onLimit?.(file, 'offset');
+                    } else if (taken < offset + limit) {
+                        filesStarted++;
+                        await throttle();
+                        if (stopped()) {
+                            filesStarted--;
+                            break;
+                        }
+                        try {
+                            await callback(file);
+                        } catch (error) {
+                            failure ??= { error };
+                        }
+                    } else if (filesLeftOut === 0 || options.walkPastLimit) {
+                        filesLeftOut++;
+                        options.onLimit?.(file, 'limit-reached');
+                    } else {
                         break;
                     }
                 }
             }
             const workers = Array.from({ length: concurrency }, () => worker());
             await Promise.all(workers);
-            if (filesProcessed >= limit) {
+            if (filesPassedOver > 0) {
+                log(`Passed over the first ${filesPassedOver} matching files for the offset`);
+            }
+            if (failure) {
+                log('Stopped starting files after a callback failed');
+            } else if (options.signal?.aborted) {
+                log(`Stopped starting files after ${filesStarted} when processing was aborted`);
+            } else if (filesLeftOut > 0 && options.walkPastLimit) {
+                log(`Reached limit of ${limit} files, left out ${filesLeftOut} more`);
+            } else if (filesLeftOut > 0) {
+                log(`Reached limit of ${limit} files, stopping with more left`);
+            } else if (filesStarted >= limit) {
                 log(`Reached limit of ${limit} files, stopping`);
             }
         } catch (err: any) {
             throw new Error(`Failed to glob pattern ${options.pattern} in ${directory}: ${err.message}`);
+        } finally {
+            // Release the directory handles still open when the limit stopped the walk early
+            for (const stage of stages) {
+                await stage.return(undefined);
+            }
+        }
+        if (failure) {
+            throw failure.error;
         }
     }
 
@@ -162,6 +503,64 @@ export const create = (params: { log?: (message: string, ...args: any[]) => void
         return crypto.createHash('sha256').update(file).digest('hex').slice(0, length);
     }
 
+    // Unlike hashFile this hashes the raw bytes, so binary files compare correctly,
+    // and streams them so large files are never held in memory
+    const digestFile = async (path: string): Promise<string> => {
+        const hash = crypto.createHash('sha256');
+        for await (const chunk of fs.createReadStream(path)) {
+            hash.update(chunk);
+        }
+        return hash.digest('hex');
+    }
+
+    // The file operations below pass fs errors through untouched, so callers can
+    // inspect error.code (EXDEV, ENOTSUP, ...) and fall back to another operation
+
+    // With clone the copy is a copy-on-write reflink, which fails where the filesystem does not support it
+    const copyFile = async (source: string, target: string, options: { clone?: boolean } = {}): Promise<void> => {
+        await fs.promises.copyFile(source, target, options.clone ? fs.constants.COPYFILE_FICLONE_FORCE : 0);
+    }
+
+    const moveFile = async (source: string, target: string): Promise<void> => {
+        await fs.promises.rename(source, target);
+    }
+
+    const linkFile = async (source: string, target: string): Promise<void> => {
+        await fs.promises.link(source, target);
+    }
+
+    const symlinkFile = async (source: string, target: string): Promise<void> => {
+        await fs.promises.symlink(source, target);
+    }
+
+    const removeFile = async (path: string): Promise<void> => {
+        await fs.promises.unlink(path);
+    }
+
+    // Only removes empty directories
+    const removeDirectory = async (path: string): Promise<void> => {
+        await fs.promises.rmdir(path);
+    }
+
+    const stat = async (path: string): Promise<fs.Stats> => {
+        return await fs.promises.stat(path);
+    }
+
+    // Stats the path itself, so a symlink is not followed to its target
+    const lstat = async (path: string): Promise<fs.Stats> => {
+        return await fs.promises.lstat(path);
+    }
+
+    const copyAttributes = async (source: string, target: string, options: { mtime?: boolean, permissions?: boolean }): Promise<void> => {
+        const stats = await fs.promises.stat(source);
+        if (options.permissions) {
+            await fs.promises.chmod(target, stats.mode);
+        }
+        if (options.mtime) {
+            await fs.promises.utimes(target, stats.atime, stats.mtime);
+        }
+    }
+
     const listFiles = async (directory: string): Promise<string[]> => {
         return await fs.promises.readdir(directory);
     }
@@ -179,8 +578,19 @@ export const create = (params: { log?: (message: string, ...args: any[]) => void
         readFile,
         readStream,
         writeFile,
+        appendFile,
         forEachFileIn,
         hashFile,
+        digestFile,
+        copyFile,
+        moveFile,
+        linkFile,
+        symlinkFile,
+        removeFile,
+        removeDirectory,
+        lstat,
+        stat,
+        copyAttributes,
         listFiles,
     };
 }
\ No newline at end of file
@@ -0,0 +1,76 @@
+/**
+ * A small parser for the `{token}` / `{token:format}` templates used to build output paths.
+ *
+ * Everything outside of braces is kept as literal text, and `{{` / `}}` can be used to
+ * emit literal braces. Parsing is kept separate from rendering so that templates can be
+ * validated once up front and then rendered many times with different values.
+ */
+
+export interface LiteralSegment {
+    kind: 'literal';
+    value: string;
+}
+
+export interface TokenSegment {
+    kind: 'token';
+    name: string;
+    format?: string;
+}
+
+export type Segment = LiteralSegment | TokenSegment;
+
+export const parse = (template: string): Segment[] => {
+    const segments: Segment[] = [];
+    let literal = '';
+    let i = 0;
+
+    const flushLiteral = () => {
+        if (literal.length > 0) {
+            segments.push({ kind: 'literal', value: literal });
+            literal = '';
+        }
+    }
+
+    while (i < template.length) {
+        const char = template[i];
+
+        if (char === '{' && template[i + 1] === '{') {
+            literal += '{';
+            i += 2;
+        } else if (char === '}' && template[i + 1] === '}') {
+            literal += '}';
+            i += 2;
+        } else if (char === '{') {
+            const close = template.indexOf('}', i + 1);
+            const body = close === -1 ? '' : template.slice(i + 1, close);
+            if (close === -1 || body.includes('{')) {
+                throw new Error(`Unclosed "{" at position ${i} in template "${template}"`);
+            }
+            const separator = body.indexOf(':');
+            const name = (separator === -1 ? body : body.slice(0, separator)).trim();
+            const format = separator === -1 ? undefined : body.slice(separator + 1);
+            if (!name) {
+                throw new Error(`Empty token at position ${i} in template "${template}"`);
+            }
+            flushLiteral();
+            segments.push(format === undefined ? { kind: 'token', name } : { kind: 'token', name, format });
+            i = close + 1;
+        } else if (char === '}') {
+            throw new Error(`Unexpected "}" at position ${i} in template "${template}"`);
+        } else {
+            literal += char;
+            i++;
+        }
+    }
+    flushLiteral();
+
+    return segments;
+}
+
+export const tokens = (segments: Segment[]): TokenSegment[] => {
+    return segments.filter((segment): segment is TokenSegment => segment.kind === 'token');
+}
+
+export const render = (segments: Segment[], resolve: (token: TokenSegment) => string): string => {
+    return segments.map(segment => segment.kind === 'literal' ? segment.value : resolve(segment)).join('');
+}
@@ -1,15 +1,32 @@
+import * as path from "node:path";
 import { Config } from "./dreadcabinet";
 import {
+    ALLOWED_COLLISION_POLICIES,
+    ALLOWED_DATE_FORMAT_PROFILES,
+    ALLOWED_DATE_SOURCES,
+    ALLOWED_ERROR_POLICIES,
     ALLOWED_EXTENSIONS,
     ALLOWED_INPUT_FILENAME_OPTIONS,
     ALLOWED_INPUT_STRUCTURES,
     ALLOWED_OUTPUT_FILENAME_OPTIONS,
     ALLOWED_OUTPUT_STRUCTURES,
+    ALLOWED_SORT_ORDERS,
+    ALLOWED_SUBJECT_SOURCES,
+    DEFAULT_QUARANTINE_DIRECTORY,
+    DIRECTORY_TEMPLATE_TOKENS,
+    FILENAME_TEMPLATE_CASE_FORMATS,
+    FILENAME_TEMPLATE_TOKENS,
+    FILENAME_TEMPLATE_UNIQUE_TOKENS,
+    MAX_ERRORS_POLICY,
+    RATE_LIMIT,
 } from "./constants";
 import { ArgumentError } from "./error/ArgumentError";
-import { FilenameOption, FilesystemStructure, Options } from "./dreadcabinet";
+import { CollisionPolicy, DateFormatProfile, DateSource, ErrorPolicy, FilenameOption, FilesystemStructure, Options, SortOrder, SubjectSource } from "./dreadcabinet";
+import * as FilenameDate from "./input/filename-date";
+import * as Output from "./output";
 import * as Dates from "./util/dates";
 import * as Storage from "./util/storage";
+import * as Template from "./util/template";
 
 export { ArgumentError };
 
@@ -30,6 +47,12 @@ export const validate = async (config: Config, options: Options): Promise<void>
         }
     }
 
+    const validateCollisionPolicy = (onCollision: string | undefined): void => {
+        if (onCollision && !ALLOWED_COLLISION_POLICIES.includes(onCollision as CollisionPolicy)) {
+            throw new ArgumentError('--on-collision', `Invalid collision policy: ${onCollision}. Valid options are: ${ALLOWED_COLLISION_POLICIES.join(', ')}`);
+        }
+    }
+
     const validateOutputStructure = (outputStructure: string | undefined): void => {
         const validOptions: FilesystemStructure[] = options.allowed?.outputStructures || ALLOWED_OUTPUT_STRUCTURES;
         if (outputStructure && !validOptions.includes(outputStructure as FilesystemStructure)) {
@@ -37,7 +60,11 @@ export const validate = async (config: Config, options: Options): Promise<void>
         }
     }
 
-    const validateOutputFilenameOptions = (outputFilenameOptions: string[] | undefined, outputStructure: FilesystemStructure | undefined): void => {
+    // The day comes from the output structure, or from the output directory template when there is one
+    const dayIn = (outputDirectoryTemplate: string | undefined): string =>
+        outputDirectoryTemplate ? 'the output directory template has a day' : 'output structure is "day"';
+
+    const validateOutputFilenameOptions = (outputFilenameOptions: string[] | undefined, outputStructure: FilesystemStructure | undefined, outputDirectoryTemplate?: string): void => {
         if (outputFilenameOptions && outputFilenameOptions.length > 0) {
             // Check if first argument contains commas - likely a comma-separated list
             if (outputFilenameOptions[0].includes(',')) {
@@ -57,9 +84,188 @@ export const validate = async (config: Config, options: Options): Promise<void>
             // Validate date option against output structure
             if (outputFilenameOptions.includes('date')) {
                 if (outputStructure && outputStructure === 'day') {
-                    throw new ArgumentError('--output-filename-options', 'Cannot use date in filename when output structure is "day"');
+                    throw new ArgumentError('--output-filename-options', `Cannot use date in filename when ${dayIn(outputDirectoryTemplate)}`);
+                }
+            }
+        }
+    }
+
+    const validateOutputFilenameTemplate = (outputFilenameTemplate: string | undefined, outputStructure: FilesystemStructure | undefined, outputDirectoryTemplate?: string): void => {
+        if (outputFilenameTemplate === undefined) {
+            return;
+        }
+
+        let segments: Template.Segment[];
+        try {
+            segments = Template.parse(outputFilenameTemplate);
+        } catch (error: any) {
+            throw new ArgumentError('--output-filename-template', `Invalid output filename template: ${error.message}`);
+        }
+
+        // Filenames must stay within the output directory, so path separators are not allowed anywhere
+        const hasSeparator = segments.some(segment => /[/\\]/.test(segment.kind === 'literal' ? segment.value : segment.format || ''));
+        if (hasSeparator) {
+            throw new ArgumentError('--output-filename-template', `Filename template must not contain path separators: ${outputFilenameTemplate}`);
+        }
+
+        const tokens = Template.tokens(segments);
+        const unknownTokens = tokens.filter(token => !FILENAME_TEMPLATE_TOKENS.includes(token.name)).map(token => token.name);
+        if (unknownTokens.length > 0) {
+            throw new ArgumentError('--output-filename-template', `Invalid filename template tokens: ${unknownTokens.join(', ')}. Valid tokens are: ${FILENAME_TEMPLATE_TOKENS.join(', ')}`);
+        }
+
+        if (!tokens.some(token => FILENAME_TEMPLATE_UNIQUE_TOKENS.includes(token.name))) {
+            throw new ArgumentError('--output-filename-template', `Filename template must include at least one uniqueness token (${FILENAME_TEMPLATE_UNIQUE_TOKENS.map(name => `{${name}}`).join(', ')}) to avoid overwriting files`);
+        }
+
+        for (const token of tokens) {
+            if (token.format === undefined) {
+                if (token.name === 'date' && outputStructure === 'day') {
+                    throw new ArgumentError('--output-filename-template', `Cannot use {date} without an explicit format when ${dayIn(outputDirectoryTemplate)}, e.g. {date:YYYY-M-D}`);
                 }
+                continue;
+            }
+            if (token.format.length === 0) {
+                throw new ArgumentError('--output-filename-template', `Empty format for filename template token {${token.name}:}`);
+            }
+            if (token.name === 'hash' && !/^[1-9][0-9]*$/.test(token.format)) {
+                throw new ArgumentError('--output-filename-template', `Invalid format for {hash}: ${token.format}. Expected a positive length, e.g. {hash:8}`);
+            }
+            if ((token.name === 'type' || token.name === 'subject') && !FILENAME_TEMPLATE_CASE_FORMATS.includes(token.format)) {
+                throw new ArgumentError('--output-filename-template', `Invalid format for {${token.name}}: ${token.format}. Valid formats are: ${FILENAME_TEMPLATE_CASE_FORMATS.join(', ')}`);
+            }
+        }
+    }
+
+    const validateDirectoryTemplate = (directoryTemplate: string | undefined, argumentName: string, forInput: boolean): void => {
+        if (directoryTemplate === undefined) {
+            return;
+        }
+
+        let segments: Template.Segment[];
+        try {
+            segments = Template.parse(directoryTemplate);
+        } catch (error: any) {
+            throw new ArgumentError(argumentName, `Invalid directory template: ${error.message}`);
+        }
+
+        // Templates are always relative to the input/output directory and may not climb out of it
+        const pathSegments = directoryTemplate.split(/[/\\]/);
+        if (directoryTemplate.startsWith('/') || directoryTemplate.startsWith('\\') || pathSegments.some(part => part === '' || part === '.' || part === '..')) {
+            throw new ArgumentError(argumentName, `Directory template must be a relative path without empty, "." or ".." segments: ${directoryTemplate}`);
+        }
+
+        const tokens = Template.tokens(segments);
+        const unknownTokens = tokens.filter(token => !DIRECTORY_TEMPLATE_TOKENS.includes(token.name)).map(token => token.name);
+        if (unknownTokens.length > 0) {
+            throw new ArgumentError(argumentName, `Invalid directory template tokens: ${unknownTokens.join(', ')}. Valid tokens are: ${DIRECTORY_TEMPLATE_TOKENS.join(', ')}`);
+        }
+        const formattedToken = tokens.find(token => token.format !== undefined);
+        if (formattedToken) {
+            throw new ArgumentError(argumentName, `Directory template tokens do not take a format: {${formattedToken.name}:${formattedToken.format}}`);
+        }
+
+        if (forInput) {
+            // Reading dates back requires every captured part to be anchored to a year
+            const names = tokens.map(token => token.name);
+            const has = (...candidates: string[]) => candidates.some(name => names.includes(name));
+            const hasYear = has('YYYY');
+            const hasMonth = has('M', 'MM', 'MMM', 'MMMM');
+            const hasWeek = has('W', 'WW');
+            if ((hasMonth || has('Q')) && !hasYear) {
+                throw new ArgumentError(argumentName, 'Input directory template needs {YYYY} when it contains a month or quarter');
+            }
+            if (has('D', 'DD') && !hasMonth) {
+                throw new ArgumentError(argumentName, 'Input directory template needs a month token when it contains a day');
+            }
+            if (hasWeek && !hasYear && !has('GGGG')) {
+                throw new ArgumentError(argumentName, 'Input directory template needs {YYYY} or {GGGG} when it contains a week');
             }
+            if (has('GGGG') && !hasWeek) {
+                throw new ArgumentError(argumentName, 'Input directory template needs {W} or {WW} when it contains {GGGG}');
+            }
+        }
+    }
+
+    const validateSubjectSources = (subjectSources: string[] | undefined): void => {
+        if (!subjectSources) {
+            return;
+        }
+        const invalidSources = subjectSources.filter(source => !ALLOWED_SUBJECT_SOURCES.includes(source as SubjectSource));
+        if (invalidSources.length > 0) {
+            throw new ArgumentError('--subject-sources', `Invalid subject sources: ${invalidSources.join(', ')}. Valid options are: ${ALLOWED_SUBJECT_SOURCES.join(', ')}`);
+        }
+        if (subjectSources.includes('custom') && !options.subjectExtractor) {
+            throw new ArgumentError('--subject-sources', 'The custom subject source needs a subjectExtractor in the options');
+        }
+    }
+
+    const validateDateSources = (dateSources: string[] | undefined): void => {
+        if (!dateSources) {
+            return;
+        }
+        const invalidSources = dateSources.filter(source => !ALLOWED_DATE_SOURCES.includes(source as DateSource));
+        if (invalidSources.length > 0) {
+            throw new ArgumentError('--date-source', `Invalid date sources: ${invalidSources.join(', ')}. Valid options are: ${ALLOWED_DATE_SOURCES.join(', ')}`);
+        }
+        if (dateSources.includes('custom') && !options.dateExtractor) {
+            throw new ArgumentError('--date-source', 'The custom date source needs a dateExtractor in the options');
+        }
+    }
+
+    const validateFilenameDatePatterns = (filenameDatePatterns: string[] | undefined): void => {
+        for (const pattern of filenameDatePatterns || []) {
+            try {
+                FilenameDate.compile(pattern);
+            } catch (error: any) {
+                throw new ArgumentError('--filename-date-patterns', error.message);
+            }
+        }
+    }
+
+    // Input globs are matched against paths relative to the input directory, so paths outside it can never match
+    const validateInputGlobs = (patterns: string[] | undefined, argumentName: string): void => {
+        const invalid = (patterns || []).filter(pattern => pattern.trim() === '' || pattern.startsWith('/') || pattern.split('/').includes('..'));
+        if (invalid.length > 0) {
+            throw new ArgumentError(argumentName, `Invalid patterns: ${invalid.join(', ')}. Patterns must be non-empty and relative to the input directory, without ".." segments`);
+        }
+    }
+
+    const validateErrorPolicy = (onError: string | undefined): void => {
+        if (onError && !ALLOWED_ERROR_POLICIES.includes(onError as ErrorPolicy) && !MAX_ERRORS_POLICY.test(onError)) {
+            throw new ArgumentError('--on-error', `Invalid error policy: ${onError}. Valid options are: ${ALLOWED_ERROR_POLICIES.join(', ')}, max-errors=N`);
+        }
+    }
+
+    // Unstructured input only has dates to sort by when a date source finds them
+    const validateSort = (sort: string | undefined, reverse: boolean | undefined, dated: boolean): void => {
+        if (sort && !ALLOWED_SORT_ORDERS.includes(sort as SortOrder)) {
+            throw new ArgumentError('--sort', `Invalid sort order: ${sort}. Valid options are: ${ALLOWED_SORT_ORDERS.join(', ')}`);
+        }
+        if (sort?.startsWith('date-') && !dated) {
+            throw new ArgumentError('--sort', 'Sorting by date is not possible for unstructured input without a date source (--date-source)');
+        }
+        if (reverse && !sort) {
+            throw new ArgumentError('--reverse', 'Reverse needs a sort order to reverse (--sort)');
+        }
+    }
+
+    // Quarantined files are moved out of the way, so they cannot be moved into the directory they came from
+    const validateQuarantineDirectory = (quarantineDirectory: string | undefined, inputDirectory: string | undefined): void => {
+        if (quarantineDirectory && inputDirectory && path.resolve(quarantineDirectory) === path.resolve(inputDirectory)) {
+            throw new ArgumentError('--quarantine-directory', `Invalid quarantine directory: ${quarantineDirectory}. It must not be the input directory`);
+        }
+    }
+
+    const validateRateLimit = (rateLimit: string | undefined): void => {
+        if (rateLimit && (!RATE_LIMIT.test(rateLimit) || Number(rateLimit.match(RATE_LIMIT)![1]) <= 0)) {
+            throw new ArgumentError('--rate-limit', `Invalid rate limit: ${rateLimit}. Use a number of files per second or minute, such as 5/s or 30/m`);
+        }
+    }
+
+    const validateDateFormatProfile = (dateFormatProfile: string | undefined): void => {
+        if (dateFormatProfile && !ALLOWED_DATE_FORMAT_PROFILES.includes(dateFormatProfile as DateFormatProfile)) {
+            throw new ArgumentError('--date-format-profile', `Invalid date format profile: ${dateFormatProfile}. Valid options are: ${ALLOWED_DATE_FORMAT_PROFILES.join(', ')}`);
         }
     }
 
@@ -127,29 +333,97 @@ export const validate = async (config: Config, options: Options): Promise<void>
         }
     }
 
+    if (options.features.includes('input') && config.offset !== undefined) {
+        if (!Number.isInteger(config.offset) || config.offset < 0) {
+            throw new ArgumentError('--offset', 'Offset must be zero or a positive integer');
+        }
+    }
+
+    if (options.features.includes('input') && config.sample !== undefined) {
+        if (!Number.isInteger(config.sample) || config.sample < 1) {
+            throw new ArgumentError('--sample', 'Sample size must be a positive integer');
+        }
+    }
+
+    if (options.features.includes('input') && config.seed !== undefined && config.sample === undefined) {
+        throw new ArgumentError('--seed', 'A seed needs a sample to pick (--sample)');
+    }
+
     if (options.features.includes('input') && config.concurrency !== undefined) {
         if (!Number.isInteger(config.concurrency) || config.concurrency < 1) {
             throw new ArgumentError('--concurrency', 'Concurrency must be a positive integer');
         }
     }
 
+    if (options.features.includes('input') && config.timeout !== undefined) {
+        if (!Number.isInteger(config.timeout) || config.timeout < 1) {
+            throw new ArgumentError('--timeout', 'Timeout must be a positive number of milliseconds');
+        }
+    }
+
+    if (options.features.includes('input') && config.retries !== undefined) {
+        if (!Number.isInteger(config.retries) || config.retries < 0) {
+            throw new ArgumentError('--retries', 'Retries must be zero or a positive integer');
+        }
+    }
+
+    if (options.features.includes('input') && config.retryDelay !== undefined) {
+        if (!Number.isInteger(config.retryDelay) || config.retryDelay < 0) {
+            throw new ArgumentError('--retry-delay', 'Retry delay must be zero or a positive number of milliseconds');
+        }
+    }
+
+    if (options.features.includes('input')) {
+        validateDateSources(config.dateSources);
+        validateFilenameDatePatterns(config.filenameDatePatterns);
+        validateInputGlobs(config.include, '--include');
+        validateInputGlobs(config.exclude, '--exclude');
+        validateErrorPolicy(config.onError);
+        validateRateLimit(config.rateLimit);
+        validateSort(config.sort, config.reverse,
+            options.features.includes('structured-input') || (config.dateSources?.length ?? 0) > 0 || options.dateExtractor !== undefined);
+        if (config.onError === 'quarantine') {
+            validateQuarantineDirectory(config.quarantineDirectory || DEFAULT_QUARANTINE_DIRECTORY, config.inputDirectory);
+        }
+    }
+
     if (options.features.includes('output') && config.outputDirectory) {
         await validateOutputDirectory(config.outputDirectory);
     }
 
+    if (options.features.includes('output')) {
+        validateCollisionPolicy(config.onCollision);
+    }
+
     if (options.features.includes('structured-output')) {
         // Validate filename options if provided
         validateOutputStructure(config.outputStructure);
-        validateOutputFilenameOptions(config.outputFilenameOptions, config.outputStructure as FilesystemStructure);
+        validateDirectoryTemplate(config.outputDirectoryTemplate, '--output-directory-template', false);
+        // With a directory template the filename date holds what its directories leave out, not what the structure's do
+        const filenameStructure = config.outputDirectoryTemplate ? Output.templateStructure(config.outputDirectoryTemplate) : config.outputStructure as FilesystemStructure;
+        validateOutputFilenameOptions(config.outputFilenameOptions, filenameStructure, config.outputDirectoryTemplate);
+        validateOutputFilenameTemplate(config.outputFilenameTemplate, filenameStructure, config.outputDirectoryTemplate);
+        validateSubjectSources(config.subjectSources);
     }
 
     if (options.features.includes('extensions')) {
         validateExtensions(config.extensions);
     }
 
+    if ((options.features.includes('structured-input') || options.features.includes('structured-output')) && config.fiscalYearStartMonth !== undefined) {
+        if (!Number.isInteger(config.fiscalYearStartMonth) || config.fiscalYearStartMonth < 1 || config.fiscalYearStartMonth > 12) {
+            throw new ArgumentError('--fiscal-year-start-month', `Invalid fiscal year start month: ${config.fiscalYearStartMonth}. Must be an integer from 1 (January) to 12 (December)`);
+        }
+    }
+
+    if (options.features.includes('structured-input') || options.features.includes('structured-output')) {
+        validateDateFormatProfile(config.dateFormatProfile);
+    }
+
     if (options.features.includes('structured-input')) {
         validateInputStructure(config.inputStructure);
         validateInputFilenameOptions(config.inputFilenameOptions, config.inputStructure as FilesystemStructure);
+        validateDirectoryTemplate(config.inputDirectoryTemplate, '--input-directory-template', true);
     }
 
     return;
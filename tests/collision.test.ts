@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Config, Options } from '../src/dreadcabinet';
+import type * as StorageUtil from '../src/util/storage';
+import * as path from 'node:path';
+
+// --- Mock Dependencies ---
+
+const mockExists = vi.fn<StorageUtil.Utility['exists']>();
+const mockDigestFile = vi.fn<StorageUtil.Utility['digestFile']>();
+// @ts-ignore - Only mocking used methods
+const mockStorageCreate = vi.fn<typeof StorageUtil.create>().mockReturnValue({
+    exists: mockExists,
+    digestFile: mockDigestFile,
+});
+
+vi.mock('../src/util/storage', () => ({
+    create: mockStorageCreate,
+}));
+
+// --- Dynamically Import Module Under Test ---
+
+const { create, withSuffix, CollisionError } = await import('../src/collision');
+
+// --- Test Suite ---
+
+describe('Collision Module', () => {
+    let baseConfig: Config;
+    let baseOptions: Options;
+    let onDisk: Set<string>;
+
+    const getInstance = (configOverrides: Partial<Config> = {}) => create({ ...baseConfig, ...configOverrides }, baseOptions);
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+
+        onDisk = new Set<string>();
+        mockExists.mockImplementation(async (file) => onDisk.has(file));
+
+        baseConfig = {
+            outputDirectory: '/out',
+            timezone: 'UTC',
+        };
+        baseOptions = {
+            logger: {
+                debug: vi.fn(),
+                info: vi.fn(),
+                warn: vi.fn(),
+                error: vi.fn(),
+                verbose: vi.fn(),
+                silly: vi.fn(),
+            },
+            features: ['output'],
+            addDefaults: false,
+        };
+    });
+
+    describe('withSuffix', () => {
+        it('should insert the suffix before the extension', () => {
+            expect(withSuffix('note.md', 1)).toBe('note-1.md');
+            expect(withSuffix('archive.tar.gz', 2)).toBe('archive.tar-2.gz');
+            expect(withSuffix('README', 3)).toBe('README-3');
+        });
+    });
+
+    describe('resolve', () => {
+        it('should return the requested path when it is free', async () => {
+            const { resolve } = getInstance();
+            const result = await resolve('/out/2025', 'note.md');
+            expect(result).toEqual({ path: path.resolve('/out/2025/note.md'), resolution: 'none' });
+        });
+
+        it('should add a numbered suffix by default when the path exists', async () => {
+            onDisk.add(path.resolve('/out/2025/note.md'));
+            onDisk.add(path.resolve('/out/2025/note-1.md'));
+            const { resolve } = getInstance();
+            const result = await resolve('/out/2025', 'note.md');
+            expect(result).toEqual({
+                path: path.resolve('/out/2025/note-2.md'),
+                resolution: 'suffixed',
+                collidedWith: path.resolve('/out/2025/note.md'),
+            });
+        });
+
+        it('should never hand the same path to concurrent callers', async () => {
+            const { resolve } = getInstance();
+            const results = await Promise.all([
+                resolve('/out/2025', 'note.md'),
+                resolve('/out/2025', 'note.md'),
+                resolve('/out/2025', 'note.md'),
+            ]);
+            expect(results.map(result => result.path)).toEqual([
+                path.resolve('/out/2025/note.md'),
+                path.resolve('/out/2025/note-1.md'),
+                path.resolve('/out/2025/note-2.md'),
+            ]);
+        });
+
+        it('should hand a released path out again', async () => {
+            const { resolve, release } = getInstance();
+            await resolve('/out/2025', 'note.md');
+            release('/out/2025/note.md');
+            const result = await resolve('/out/2025', 'note.md');
+            expect(result.resolution).toBe('none');
+        });
+
+        it('should report existing paths as skipped with the skip policy', async () => {
+            onDisk.add(path.resolve('/out/2025/note.md'));
+            const { resolve } = getInstance({ onCollision: 'skip' });
+            const result = await resolve('/out/2025', 'note.md');
+            expect(result).toEqual({ path: path.resolve('/out/2025/note.md'), resolution: 'skipped' });
+        });
+
+        it('should skip paths claimed earlier in the run with the skip policy', async () => {
+            const { resolve } = getInstance({ onCollision: 'skip' });
+            await resolve('/out/2025', 'note.md');
+            const result = await resolve('/out/2025', 'note.md');
+            expect(result.resolution).toBe('skipped');
+        });
+
+        it('should allow overwriting existing files with the overwrite policy', async () => {
+            onDisk.add(path.resolve('/out/2025/note.md'));
+            const { resolve } = getInstance({ onCollision: 'overwrite' });
+            const result = await resolve('/out/2025', 'note.md');
+            expect(result).toEqual({ path: path.resolve('/out/2025/note.md'), resolution: 'overwritten' });
+        });
+
+        it('should not overwrite a path claimed earlier in the run', async () => {
+            const { resolve } = getInstance({ onCollision: 'overwrite' });
+            await resolve('/out/2025', 'note.md');
+            const result = await resolve('/out/2025', 'note.md');
+            expect(result.path).toBe(path.resolve('/out/2025/note-1.md'));
+            expect(result.resolution).toBe('suffixed');
+        });
+
+        it('should throw a CollisionError with the fail policy', async () => {
+            onDisk.add(path.resolve('/out/2025/note.md'));
+            const { resolve } = getInstance({ onCollision: 'fail' });
+            const error = await resolve('/out/2025', 'note.md').catch(e => e);
+            expect(error).toBeInstanceOf(CollisionError);
+            expect(error.path).toBe(path.resolve('/out/2025/note.md'));
+            expect(error.message).toBe(`Output path ${path.resolve('/out/2025/note.md')} already exists`);
+        });
+
+        it('should report identical files with the compare-hash policy', async () => {
+            onDisk.add(path.resolve('/out/2025/note.md'));
+            mockDigestFile.mockResolvedValue('same');
+            const { resolve } = getInstance({ onCollision: 'compare-hash' });
+            const result = await resolve('/out/2025', 'note.md', { source: '/in/note.md' });
+            expect(result).toEqual({ path: path.resolve('/out/2025/note.md'), resolution: 'identical' });
+            expect(mockDigestFile).toHaveBeenCalledWith('/in/note.md');
+            expect(mockDigestFile).toHaveBeenCalledWith(path.resolve('/out/2025/note.md'));
+        });
+
+        it('should suffix differing files with the compare-hash policy', async () => {
+            onDisk.add(path.resolve('/out/2025/note.md'));
+            mockDigestFile.mockImplementation(async (file) => file);
+            const { resolve } = getInstance({ onCollision: 'compare-hash' });
+            const result = await resolve('/out/2025', 'note.md', { source: '/in/note.md' });
+            expect(result.path).toBe(path.resolve('/out/2025/note-1.md'));
+            expect(result.resolution).toBe('suffixed');
+        });
+
+        it('should require a source with the compare-hash policy', async () => {
+            const { resolve } = getInstance({ onCollision: 'compare-hash' });
+            await expect(resolve('/out/2025', 'note.md'))
+                .rejects.toThrow('Unable to Resolve Output: The compare-hash collision policy needs the source file to compare against');
+        });
+    });
+});
@@ -81,16 +81,40 @@ describe('configure', () => {
         expectOptionAdded('-r, --recursive', 'recursive mode, process all files in the input directory', DEFAULT_RECURSIVE);
         expectOptionAdded('-i, --input-directory <inputDirectory>', 'input directory', DEFAULT_INPUT_DIRECTORY);
         expectOptionAdded('-o, --output-directory <outputDirectory>', 'output directory', DEFAULT_OUTPUT_DIRECTORY);
-        expectOptionAdded('--output-structure <type>', 'output directory structure (none/year/month/day)', DEFAULT_OUTPUT_STRUCTURE);
+        expectOptionAdded('--on-collision <policy>', expect.stringContaining('output path is taken'), 'suffix');
+        expectOptionAdded('--dry-run', expect.stringContaining('without writing anything'), false);
+        expectOptionAdded('--output-structure <type>', 'output directory structure (none/year/quarter/month/week/day/fiscal-year/fiscal-quarter)', DEFAULT_OUTPUT_STRUCTURE);
         expectOptionAdded('--output-filename-options [outputFilenameOptions...]', expect.stringContaining('filename format options'), DEFAULT_OUTPUT_FILENAME_OPTIONS);
+        expectOptionAdded('--output-filename-template <template>', expect.stringContaining('filename template'), undefined);
+        expectOptionAdded('--subject-sources [subjectSources...]', expect.stringContaining('where to find a subject'), undefined);
         expectOptionAdded('--extensions [extensions...]', expect.stringContaining('file extensions to process'), DEFAULT_EXTENSIONS);
-        expectOptionAdded('--input-structure <type>', 'input directory structure (none/year/month/day)', DEFAULT_INPUT_STRUCTURE);
+        expectOptionAdded('--input-structure <type>', 'input directory structure (none/year/quarter/month/week/day/fiscal-year/fiscal-quarter)', DEFAULT_INPUT_STRUCTURE);
         expectOptionAdded('--input-filename-options [options...]', expect.stringContaining('filename format options'), DEFAULT_INPUT_FILENAME_OPTIONS);
         // These have undefined defaults even when addDefaults is true
-        expectOptionAdded('--start <date>', `start date filter (${DATE_FORMAT_YEAR_MONTH_DAY})`, undefined);
+        expectOptionAdded('--date-source [dateSource...]', expect.stringContaining('where unstructured input finds each file\'s date'), undefined);
+        expectOptionAdded('--filename-date-patterns [filenameDatePatterns...]', expect.stringContaining('how dates are found in filenames'), undefined);
+        expectOptionAdded('--include [include...]', expect.stringContaining('only process input files matching these globs'), undefined);
+        expectOptionAdded('--exclude [exclude...]', expect.stringContaining('leave out input files and directories'), undefined);
+        expectOptionAdded('--gitignore', 'honor .gitignore in the input directory as well as .dreadcabinetignore', false);
+        expectOptionAdded('--on-error <policy>', 'what to do when processing a file fails (continue/fail-fast/max-errors=N/quarantine)', 'continue');
+        expectOptionAdded('--quarantine-directory <quarantineDirectory>', expect.stringContaining('where --on-error quarantine moves failed files'), './quarantine');
+        expectOptionAdded('--progress', expect.stringContaining('show a progress bar'), false);
+        expectOptionAdded('--timeout <timeout>', expect.stringContaining('may take before it fails'), undefined);
+        expectOptionAdded('--retries <retries>', expect.stringContaining('how many more times to try a file'), '0');
+        expectOptionAdded('--retry-delay <retryDelay>', expect.stringContaining('milliseconds to wait before the first retry'), '1000');
+        expectOptionAdded('--rate-limit <rateLimit>', expect.stringContaining('start at most this many files'), undefined);
+        expectOptionAdded('--sort <order>', expect.stringContaining('the order files are processed in'), undefined);
+        expectOptionAdded('--reverse', 'reverse the --sort order', false);
+        expectOptionAdded('--offset <offset>', expect.stringContaining('pass over this many matching files'), undefined);
+        expectOptionAdded('--sample <sample>', expect.stringContaining('picked at random'), undefined);
+        expectOptionAdded('--seed <seed>', expect.stringContaining('pick the same --sample every time'), undefined);
+        expectOptionAdded('--start <date>', `start date filter (${DATE_FORMAT_YEAR_MONTH_DAY}), unstructured input needs --date-source`, undefined);
         expectOptionAdded('--end <date>', `end date filter (${DATE_FORMAT_YEAR_MONTH_DAY}), defaults to today`, undefined);
 
-        expect(mockCommand.option).toHaveBeenCalledTimes(13); // Ensure no extra options were added
+        expectOptionAdded('--fiscal-year-start-month <month>', expect.stringContaining('fiscal year starts'), '1');
+        expectOptionAdded('--date-format-profile <profile>', expect.stringContaining('date format profile'), 'compact');
+
+        expect(mockCommand.option).toHaveBeenCalledTimes(38); // Ensure no extra options were added
     });
 
     test('should add all options with default descriptions when addDefaults is false', async () => {
@@ -101,15 +125,14 @@ describe('configure', () => {
         expectOptionAddedWithDescDefault('-r, --recursive', 'recursive mode, process all files in the input directory', DEFAULT_RECURSIVE);
         expectOptionAddedWithDescDefault('-i, --input-directory <inputDirectory>', 'input directory', DEFAULT_INPUT_DIRECTORY);
         expectOptionAddedWithDescDefault('-o, --output-directory <outputDirectory>', 'output directory', DEFAULT_OUTPUT_DIRECTORY);
-        expectOptionAddedWithDescDefault('--output-structure <type>', 'output directory structure (none/year/month/day)', DEFAULT_OUTPUT_STRUCTURE);
+        expectOptionAddedWithDescDefault('--output-structure <type>', 'output directory structure (none/year/quarter/month/week/day/fiscal-year/fiscal-quarter)', DEFAULT_OUTPUT_STRUCTURE);
         expectOptionAddedWithDescDefault('--output-filename-options [outputFilenameOptions...]', 'filename format options (space-separated list of: date,time,subject) example \'date subject\'', DEFAULT_OUTPUT_FILENAME_OPTIONS);
         expectOptionAddedWithDescDefault('--extensions [extensions...]', 'file extensions to process (space-separated list of: mp3,mp4,mpeg,mpga,m4a,wav,webm)', DEFAULT_EXTENSIONS);
-        expectOptionAddedWithDescDefault('--input-structure <type>', 'input directory structure (none/year/month/day)', DEFAULT_INPUT_STRUCTURE);
+        expectOptionAddedWithDescDefault('--input-structure <type>', 'input directory structure (none/year/quarter/month/week/day/fiscal-year/fiscal-quarter)', DEFAULT_INPUT_STRUCTURE);
         expectOptionAddedWithDescDefault('--input-filename-options [options...]', 'filename format options (space-separated list of: date,time,subject)', DEFAULT_INPUT_FILENAME_OPTIONS);
-        expectOptionAddedWithDescDefault('--start <date>', `start date filter (${DATE_FORMAT_YEAR_MONTH_DAY})`, undefined);
+        expectOptionAddedWithDescDefault('--start <date>', `start date filter (${DATE_FORMAT_YEAR_MONTH_DAY}), unstructured input needs --date-source`, undefined);
         expectOptionAddedWithDescDefault('--end <date>', `end date filter (${DATE_FORMAT_YEAR_MONTH_DAY}), defaults to today`, undefined);
-        // 12 options: 11 from baseDefaults + 1 for limit
-        expect(mockCommand.option).toHaveBeenCalledTimes(13);
+        expect(mockCommand.option).toHaveBeenCalledTimes(38);
     });
 
 
@@ -124,6 +147,24 @@ describe('configure', () => {
             extensions: ['txt', 'log'],
             inputStructure: 'day',
             inputFilenameOptions: ['time'],
+            subjectSources: ['frontmatter', 'filename'],
+            dateSources: ['frontmatter', 'mtime'],
+            filenameDatePatterns: ['camera', 'iso'],
+            include: ['notes/**/*.md'],
+            exclude: ['drafts'],
+            gitignore: true,
+            onError: 'max-errors=5',
+            quarantineDirectory: '/var/quarantine',
+            progress: true,
+            timeout: 30000,
+            retries: 2,
+            retryDelay: 500,
+            rateLimit: '5/s',
+            sort: 'date-desc',
+            reverse: true,
+            offset: 20,
+            sample: 50,
+            seed: 'prompt-eval',
         };
         await configure(mockCommand, customDefaults, true, allFeatures);
 
@@ -131,13 +172,31 @@ describe('configure', () => {
         expectOptionAdded('-r, --recursive', 'recursive mode, process all files in the input directory', true);
         expectOptionAdded('-i, --input-directory <inputDirectory>', 'input directory', '/custom/in');
         expectOptionAdded('-o, --output-directory <outputDirectory>', 'output directory', '/custom/out');
-        expectOptionAdded('--output-structure <type>', 'output directory structure (none/year/month/day)', 'year');
+        expectOptionAdded('--output-structure <type>', 'output directory structure (none/year/quarter/month/week/day/fiscal-year/fiscal-quarter)', 'year');
         expectOptionAdded('--output-filename-options [outputFilenameOptions...]', expect.stringContaining('filename format options'), ['subject']);
         expectOptionAdded('--extensions [extensions...]', expect.stringContaining('file extensions to process'), ['txt', 'log']);
-        expectOptionAdded('--input-structure <type>', 'input directory structure (none/year/month/day)', 'day');
+        expectOptionAdded('--input-structure <type>', 'input directory structure (none/year/quarter/month/week/day/fiscal-year/fiscal-quarter)', 'day');
         expectOptionAdded('--input-filename-options [options...]', expect.stringContaining('filename format options'), ['time']);
-
-        expect(mockCommand.option).toHaveBeenCalledTimes(13);
+        expectOptionAdded('--subject-sources [subjectSources...]', expect.stringContaining('where to find a subject'), ['frontmatter', 'filename']);
+        expectOptionAdded('--date-source [dateSource...]', expect.stringContaining('where unstructured input finds each file\'s date'), ['frontmatter', 'mtime']);
+        expectOptionAdded('--filename-date-patterns [filenameDatePatterns...]', expect.stringContaining('how dates are found in filenames'), ['camera', 'iso']);
+        expectOptionAdded('--include [include...]', expect.stringContaining('only process input files matching these globs'), ['notes/**/*.md']);
+        expectOptionAdded('--exclude [exclude...]', expect.stringContaining('leave out input files and directories'), ['drafts']);
+        expectOptionAdded('--gitignore', expect.stringContaining('honor .gitignore'), true);
+        expectOptionAdded('--on-error <policy>', expect.stringContaining('what to do when processing a file fails'), 'max-errors=5');
+        expectOptionAdded('--quarantine-directory <quarantineDirectory>', expect.stringContaining('where --on-error quarantine moves failed files'), '/var/quarantine');
+        expectOptionAdded('--progress', expect.stringContaining('show a progress bar'), true);
+        expectOptionAdded('--timeout <timeout>', expect.stringContaining('may take before it fails'), '30000');
+        expectOptionAdded('--retries <retries>', expect.stringContaining('how many more times to try a file'), '2');
+        expectOptionAdded('--retry-delay <retryDelay>', expect.stringContaining('milliseconds to wait before the first retry'), '500');
+        expectOptionAdded('--rate-limit <rateLimit>', expect.stringContaining('start at most this many files'), '5/s');
+        expectOptionAdded('--sort <order>', expect.stringContaining('the order files are processed in'), 'date-desc');
+        expectOptionAdded('--reverse', 'reverse the --sort order', true);
+        expectOptionAdded('--offset <offset>', expect.stringContaining('pass over this many matching files'), '20');
+        expectOptionAdded('--sample <sample>', expect.stringContaining('picked at random'), '50');
+        expectOptionAdded('--seed <seed>', expect.stringContaining('pick the same --sample every time'), 'prompt-eval');
+
+        expect(mockCommand.option).toHaveBeenCalledTimes(38);
     });
 
 
@@ -153,12 +212,31 @@ describe('configure', () => {
 
         expectOptionNotAdded('-r, --recursive');
         expectOptionNotAdded('-i, --input-directory <inputDirectory>');
+        expectOptionNotAdded('--date-source [dateSource...]');
+        expectOptionNotAdded('--filename-date-patterns [filenameDatePatterns...]');
+        expectOptionNotAdded('--include [include...]');
+        expectOptionNotAdded('--exclude [exclude...]');
+        expectOptionNotAdded('--gitignore');
+        expectOptionNotAdded('--on-error <policy>');
+        expectOptionNotAdded('--quarantine-directory <quarantineDirectory>');
+        expectOptionNotAdded('--progress');
+        expectOptionNotAdded('--timeout <timeout>');
+        expectOptionNotAdded('--retries <retries>');
+        expectOptionNotAdded('--retry-delay <retryDelay>');
+        expectOptionNotAdded('--rate-limit <rateLimit>');
+        expectOptionNotAdded('--sort <order>');
+        expectOptionNotAdded('--reverse');
+        expectOptionNotAdded('--offset <offset>');
+        expectOptionNotAdded('--sample <sample>');
+        expectOptionNotAdded('--seed <seed>');
+        expectOptionNotAdded('--start <date>');
+        expectOptionNotAdded('--end <date>');
 
         // Check others are still added
         expectOptionAdded('--timezone <timezone>', 'timezone for date calculations', DEFAULT_TIMEZONE);
         expectOptionAdded('-o, --output-directory <outputDirectory>', 'output directory', DEFAULT_OUTPUT_DIRECTORY);
-        expectOptionAdded('--output-structure <type>', 'output directory structure (none/year/month/day)', DEFAULT_OUTPUT_STRUCTURE);
-        expect(mockCommand.option).toHaveBeenCalledTimes(11 - 2); // Total options minus the 2 skipped
+        expectOptionAdded('--output-structure <type>', 'output directory structure (none/year/quarter/month/week/day/fiscal-year/fiscal-quarter)', DEFAULT_OUTPUT_STRUCTURE);
+        expect(mockCommand.option).toHaveBeenCalledTimes(38 - 23); // Total options minus the 23 input options
     });
 
     test('should skip output options if "output" feature is disabled', async () => {
@@ -166,12 +244,14 @@ describe('configure', () => {
         await configure(mockCommand, baseDefaults, true, features);
 
         expectOptionNotAdded('-o, --output-directory <outputDirectory>');
+        expectOptionNotAdded('--on-collision <policy>');
+        expectOptionNotAdded('--dry-run');
 
         // Check others are still added
         expectOptionAdded('--timezone <timezone>', 'timezone for date calculations', DEFAULT_TIMEZONE);
         expectOptionAdded('-r, --recursive', 'recursive mode, process all files in the input directory', DEFAULT_RECURSIVE);
-        expectOptionAdded('--output-structure <type>', 'output directory structure (none/year/month/day)', DEFAULT_OUTPUT_STRUCTURE); // Still added by structured-output
-        expect(mockCommand.option).toHaveBeenCalledTimes(13 - 1);
+        expectOptionAdded('--output-structure <type>', 'output directory structure (none/year/quarter/month/week/day/fiscal-year/fiscal-quarter)', DEFAULT_OUTPUT_STRUCTURE); // Still added by structured-output
+        expect(mockCommand.option).toHaveBeenCalledTimes(38 - 3);
     });
 
 
@@ -181,11 +261,13 @@ describe('configure', () => {
 
         expectOptionNotAdded('--output-structure <type>');
         expectOptionNotAdded('--output-filename-options [outputFilenameOptions...]');
+        expectOptionNotAdded('--output-filename-template <template>');
+        expectOptionNotAdded('--subject-sources [subjectSources...]');
 
         // Check others are still added
         expectOptionAdded('--timezone <timezone>', 'timezone for date calculations', DEFAULT_TIMEZONE);
         expectOptionAdded('-o, --output-directory <outputDirectory>', 'output directory', DEFAULT_OUTPUT_DIRECTORY);
-        expect(mockCommand.option).toHaveBeenCalledTimes(13 - 2);
+        expect(mockCommand.option).toHaveBeenCalledTimes(38 - 5);
     });
 
     test('should skip extensions option if "extensions" feature is disabled', async () => {
@@ -197,7 +279,7 @@ describe('configure', () => {
         // Check others are still added
         expectOptionAdded('--timezone <timezone>', 'timezone for date calculations', DEFAULT_TIMEZONE);
         expectOptionAdded('--output-filename-options [outputFilenameOptions...]', expect.stringContaining('filename format options'), DEFAULT_OUTPUT_FILENAME_OPTIONS);
-        expect(mockCommand.option).toHaveBeenCalledTimes(13 - 1);
+        expect(mockCommand.option).toHaveBeenCalledTimes(38 - 1);
     });
 
     test('should skip structured input options if "structured-input" feature is disabled', async () => {
@@ -206,13 +288,12 @@ describe('configure', () => {
 
         expectOptionNotAdded('--input-structure <type>');
         expectOptionNotAdded('--input-filename-options [options...]');
-        expectOptionNotAdded('--start <date>');
-        expectOptionNotAdded('--end <date>');
 
-        // Check others are still added
+        // Check others are still added, including the date filters unstructured input uses with --date-source
         expectOptionAdded('--timezone <timezone>', 'timezone for date calculations', DEFAULT_TIMEZONE);
         expectOptionAdded('--extensions [extensions...]', expect.stringContaining('file extensions to process'), DEFAULT_EXTENSIONS);
-        expect(mockCommand.option).toHaveBeenCalledTimes(13 - 4);
+        expectOptionAdded('--start <date>', expect.stringContaining('start date filter'), undefined);
+        expect(mockCommand.option).toHaveBeenCalledTimes(38 - 3);
     });
 
 });
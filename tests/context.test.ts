@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type * as fs from 'node:fs';
+import type { Config, Options } from '../src/dreadcabinet';
+import type * as Output from '../src/output';
+import type * as StorageUtil from '../src/util/storage';
+
+// --- Mock Dependencies ---
+
+const mockStat = vi.fn<StorageUtil.Utility['stat']>();
+const mockDigestFile = vi.fn<StorageUtil.Utility['digestFile']>();
+// @ts-ignore - Only mocking used methods
+const mockStorageCreate = vi.fn<typeof StorageUtil.create>().mockReturnValue({
+    stat: mockStat,
+    digestFile: mockDigestFile,
+});
+
+vi.mock('../src/util/storage', () => ({
+    create: mockStorageCreate,
+}));
+
+const mockConstructFilename = vi.fn<(date: Date, type: string, hash: string, options?: { subject?: string }) => string>();
+const mockComputeOutputDirectory = vi.fn<(date: Date, options?: { type?: string }) => string>();
+const mockOutput = {
+    constructFilename: mockConstructFilename,
+    constructOutputDirectory: vi.fn(),
+    computeOutputDirectory: mockComputeOutputDirectory,
+} as unknown as ReturnType<typeof Output.create>;
+
+// --- Dynamically Import Module Under Test ---
+
+const { create, subjectFromFilename } = await import('../src/context');
+
+// --- Test Suite ---
+
+describe('Context Module', () => {
+    let baseConfig: Config;
+    let baseOptions: Options;
+
+    const mtime = new Date('2025-03-07T10:15:00Z');
+    const date = new Date('2025-03-07T00:00:00Z');
+
+    const getInstance = (configOverrides: Partial<Config> = {}, optionOverrides: Partial<Options> = {}) =>
+        create({ ...baseConfig, ...configOverrides }, { ...baseOptions, ...optionOverrides }, { output: mockOutput });
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+
+        mockStat.mockResolvedValue({ size: 42, mtime } as fs.Stats);
+        mockDigestFile.mockResolvedValue('0123456789abcdef0123456789abcdef');
+        mockComputeOutputDirectory.mockReturnValue('/out/2025/3');
+        mockConstructFilename.mockReturnValue('7-0123456-md-Planning');
+
+        baseConfig = {
+            timezone: 'UTC',
+            inputDirectory: '/in',
+        };
+        baseOptions = {
+            logger: {
+                debug: vi.fn(),
+                info: vi.fn(),
+                warn: vi.fn(),
+                error: vi.fn(),
+                verbose: vi.fn(),
+                silly: vi.fn(),
+            },
+            features: ['input', 'output'],
+            addDefaults: false,
+        };
+    });
+
+    describe('subjectFromFilename', () => {
+        it('should drop the extension and the date and time in front', () => {
+            expect(subjectFromFilename('/in/2025-3-7-1015-Planning Notes.md')).toBe('Planning Notes');
+            expect(subjectFromFilename('/in/7-1015_standup.m4a')).toBe('standup');
+            expect(subjectFromFilename('/in/Planning.md')).toBe('Planning');
+        });
+
+        it('should have no subject when the filename is only a date', () => {
+            expect(subjectFromFilename('/in/2025-03-07.md')).toBeUndefined();
+            expect(subjectFromFilename('/in/20250307.md')).toBeUndefined();
+        });
+
+        it('should cut out the date the filename date pattern matched, wherever it is', () => {
+            expect(subjectFromFilename('/in/2024-01-01T10-00-00Z.m4a', 'iso')).toBeUndefined();
+            expect(subjectFromFilename('/in/2024-01-01 10.00.00 standup.m4a', 'iso')).toBe('standup');
+            expect(subjectFromFilename('/in/Planning - 2024-01-01.md', 'iso')).toBe('Planning');
+            expect(subjectFromFilename('/in/IMG_20240101_123000.jpg', 'camera')).toBeUndefined();
+            expect(subjectFromFilename('/in/Screenshot 2024-01-01 at 10.00.00.png', 'screenshot')).toBeUndefined();
+            expect(subjectFromFilename('/in/notes.2024.01.01.txt', '(?<year>\\d{4})\\.(?<month>\\d{2})\\.(?<day>\\d{2})')).toBe('notes');
+        });
+
+        it('should fall back to the date in front when the pattern does not match', () => {
+            expect(subjectFromFilename('/in/2025-3-7-1015-Planning Notes.md', 'camera')).toBe('Planning Notes');
+        });
+    });
+
+    describe('build', () => {
+        it('should describe the file', async () => {
+            const context = await getInstance().build('/in/notes/2025-03-07-Planning.md', { date, dateSource: 'filename', time: false });
+
+            expect(context).toMatchObject({
+                path: '/in/notes/2025-03-07-Planning.md',
+                relativePath: 'notes/2025-03-07-Planning.md',
+                extension: 'md',
+                date,
+                dateSource: 'filename',
+                hasTime: false,
+                subject: 'Planning',
+                stats: { size: 42, mtime },
+            });
+            expect(mockStat).toHaveBeenCalledWith('/in/notes/2025-03-07-Planning.md');
+        });
+
+        it('should give the date pattern, and take the subject from what it leaves of the filename', async () => {
+            const context = await getInstance().build('/in/2024-01-01T10-00-00Z standup.m4a', { date, dateSource: 'filename', time: true, datePattern: 'iso' });
+
+            expect(context).toMatchObject({ dateSource: 'filename', datePattern: 'iso', hasTime: true, subject: 'standup' });
+        });
+
+        it('should prefer the extracted subject and only have a time with a date', async () => {
+            const { build } = getInstance();
+
+            expect(await build('/in/note.md', { date, time: true, subject: 'Extracted' })).toMatchObject({ hasTime: true, subject: 'Extracted' });
+            expect(await build('/in/note.md', { time: true })).toMatchObject({ date: undefined, hasTime: false, subject: 'note' });
+        });
+
+        it('should hash the file once, and only when asked', async () => {
+            const context = await getInstance().build('/in/note.md');
+            expect(mockDigestFile).not.toHaveBeenCalled();
+
+            expect(await context.hash()).toBe('01234567');
+            expect(await context.hash()).toBe('01234567');
+            expect(mockDigestFile).toHaveBeenCalledTimes(1);
+        });
+
+        it('should work out the output directory and filename without creating anything', async () => {
+            const context = await getInstance().build('/in/2025-03-07-Planning.md', { date });
+
+            expect(await context.outputDirectory()).toBe('/out/2025/3');
+            expect(mockComputeOutputDirectory).toHaveBeenCalledWith(date, { type: 'md' });
+            expect(await context.outputFilename()).toBe('7-0123456-md-Planning.md');
+            expect(mockConstructFilename).toHaveBeenCalledWith(date, 'md', '01234567', { subject: 'Planning' });
+        });
+
+        it('should refuse output paths without a date or the output feature', async () => {
+            const undated = await getInstance().build('/in/note.md');
+            await expect(undated.outputDirectory()).rejects.toThrow('No date found for /in/note.md, so it has no output path');
+
+            const inputOnly = await getInstance({}, { features: ['input'] }).build('/in/note.md', { date });
+            await expect(inputOnly.outputFilename()).rejects.toThrow('Output feature is not enabled, skipping output construction');
+        });
+    });
+});
@@ -174,4 +174,76 @@ describe('applyDefaults', () => {
         expect(config5.recursive).toBe(false); // Should use provided false over custom default
     });
 
+    test('should only set date sources when configured or given as a default', () => {
+        expect(applyDefaults({}, ['input'], baseDefaults).dateSources).toBeUndefined();
+        expect(applyDefaults({}, ['input'], { dateSources: ['mtime'] }).dateSources).toEqual(['mtime']);
+        expect(applyDefaults({ dateSources: ['filename'] }, ['input'], { dateSources: ['mtime'] }).dateSources).toEqual(['filename']);
+    });
+
+    test('should only set filename date patterns when configured or given as a default', () => {
+        expect(applyDefaults({}, ['input'], baseDefaults).filenameDatePatterns).toBeUndefined();
+        expect(applyDefaults({}, ['input'], { filenameDatePatterns: ['camera'] }).filenameDatePatterns).toEqual(['camera']);
+    });
+
+    test('should take include and exclude globs and gitignore from the defaults when not configured', () => {
+        const config = applyDefaults({}, ['input'], baseDefaults);
+        expect(config.include).toBeUndefined();
+        expect(config.exclude).toBeUndefined();
+        expect(config.gitignore).toBeUndefined();
+
+        const defaults = { include: ['**/*.md'], exclude: ['drafts'], gitignore: true };
+        expect(applyDefaults({}, ['input'], defaults)).toMatchObject(defaults);
+        expect(applyDefaults({ exclude: ['archive'], gitignore: false }, ['input'], defaults)).toMatchObject({ exclude: ['archive'], gitignore: false });
+    });
+
+    test('should take the error policy and quarantine directory from the defaults when not configured', () => {
+        const config = applyDefaults({}, ['input'], baseDefaults);
+        expect(config.onError).toBeUndefined();
+        expect(config.quarantineDirectory).toBeUndefined();
+
+        const defaults = { onError: 'quarantine' as const, quarantineDirectory: '/var/quarantine' };
+        expect(applyDefaults({}, ['input'], defaults)).toMatchObject(defaults);
+        expect(applyDefaults({ onError: 'fail-fast' }, ['input'], defaults)).toMatchObject({ onError: 'fail-fast', quarantineDirectory: '/var/quarantine' });
+    });
+
+    test('should take progress from the defaults when not configured', () => {
+        expect(applyDefaults({}, ['input'], baseDefaults).progress).toBeUndefined();
+        expect(applyDefaults({}, ['input'], { progress: true }).progress).toBe(true);
+        expect(applyDefaults({ progress: false }, ['input'], { progress: true }).progress).toBe(false);
+    });
+
+    test('should take the timeout, retries and rate limit from the defaults when not configured', () => {
+        const config = applyDefaults({}, ['input'], baseDefaults);
+        expect(config.timeout).toBeUndefined();
+        expect(config.retries).toBeUndefined();
+        expect(config.rateLimit).toBeUndefined();
+
+        const defaults = { timeout: 30000, retries: 2, retryDelay: 500, rateLimit: '5/s' as const };
+        expect(applyDefaults({}, ['input'], defaults)).toMatchObject(defaults);
+        // Zero turns retries off rather than falling back to the defaults
+        expect(applyDefaults({ retries: 0, rateLimit: '30/m' }, ['input'], defaults)).toMatchObject({ retries: 0, rateLimit: '30/m' });
+    });
+
+    test('should take the offset, sample and seed from the defaults when not configured', () => {
+        const config = applyDefaults({}, ['input'], baseDefaults);
+        expect(config.offset).toBeUndefined();
+        expect(config.sample).toBeUndefined();
+        expect(config.seed).toBeUndefined();
+
+        const defaults = { offset: 20, sample: 50, seed: 'prompt-eval' };
+        expect(applyDefaults({}, ['input'], defaults)).toMatchObject(defaults);
+        // Zero starts at the first file rather than falling back to the defaults
+        expect(applyDefaults({ offset: 0, seed: 'other' }, ['input'], defaults)).toMatchObject({ offset: 0, seed: 'other' });
+    });
+
+    test('should take the sort order and reverse from the defaults when not configured', () => {
+        const config = applyDefaults({}, ['input'], baseDefaults);
+        expect(config.sort).toBeUndefined();
+        expect(config.reverse).toBeUndefined();
+
+        const defaults = { sort: 'date-desc' as const, reverse: true };
+        expect(applyDefaults({}, ['input'], defaults)).toMatchObject(defaults);
+        expect(applyDefaults({ sort: 'size', reverse: false }, ['input'], defaults)).toMatchObject({ sort: 'size', reverse: false });
+    });
+
 });
@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { CollisionError } from '../../src/error/CollisionError';
+
+describe('CollisionError', () => {
+    it('should create a CollisionError with the correct name and message', () => {
+        const error = new CollisionError('/out/2025/3/7-note.md', 'Output already exists');
+
+        expect(error).toBeInstanceOf(Error);
+        expect(error.name).toBe('CollisionError');
+        expect(error.message).toBe('Output already exists');
+    });
+
+    it('should provide access to the colliding path through the path getter', () => {
+        const error = new CollisionError('/out/2025/3/7-note.md', 'Output already exists');
+
+        expect(error.path).toBe('/out/2025/3/7-note.md');
+    });
+});
@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { ProcessingError } from '../../src/error/ProcessingError';
+
+describe('ProcessingError', () => {
+    it('should create a ProcessingError with the correct name, message and cause', () => {
+        const cause = new Error('Callback failed');
+        const error = new ProcessingError('/in/note.md', 'Stopped processing after /in/note.md failed', cause);
+
+        expect(error).toBeInstanceOf(Error);
+        expect(error.name).toBe('ProcessingError');
+        expect(error.message).toBe('Stopped processing after /in/note.md failed');
+        expect(error.cause).toBe(cause);
+    });
+
+    it('should provide access to the failed file through the file getter', () => {
+        const error = new ProcessingError('/in/note.md', 'Stopped processing');
+
+        expect(error.file).toBe('/in/note.md');
+    });
+});
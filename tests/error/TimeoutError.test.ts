@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { TimeoutError } from '../../src/error/TimeoutError';
+
+describe('TimeoutError', () => {
+    it('should create a TimeoutError with the correct name and message', () => {
+        const error = new TimeoutError('/in/note.md', 5000);
+
+        expect(error).toBeInstanceOf(Error);
+        expect(error.name).toBe('TimeoutError');
+        expect(error.message).toBe('Processing /in/note.md took longer than 5000ms');
+    });
+
+    it('should provide access to the file and the timeout through getters', () => {
+        const error = new TimeoutError('/in/note.md', 5000);
+
+        expect(error.file).toBe('/in/note.md');
+        expect(error.timeout).toBe(5000);
+    });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Logger } from '../src/dreadcabinet';
+
+const { create } = await import('../src/events');
+
+describe('Events Module', () => {
+    let mockLogger: Logger;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.useRealTimers();
+
+        mockLogger = {
+            debug: vi.fn(),
+            info: vi.fn(),
+            warn: vi.fn(),
+            error: vi.fn(),
+            verbose: vi.fn(),
+            silly: vi.fn(),
+        };
+    });
+
+    describe('on', () => {
+        it('should call listeners until they are removed', () => {
+            const events = create(mockLogger);
+            const listener = vi.fn();
+            const unsubscribe = events.on('directoryCreated', listener);
+
+            events.emit('directoryCreated', { directory: '/out/2025' });
+            unsubscribe();
+            events.emit('directoryCreated', { directory: '/out/2025/3' });
+
+            expect(listener).toHaveBeenCalledTimes(1);
+            expect(listener).toHaveBeenCalledWith({ directory: '/out/2025' });
+        });
+
+        it('should log listeners that throw and call the others', () => {
+            const events = create(mockLogger);
+            const listener = vi.fn();
+            events.on('directoryCreated', () => { throw new Error('Listener failed'); });
+            events.on('directoryCreated', listener);
+
+            events.emit('directoryCreated', { directory: '/out/2025' });
+
+            expect(listener).toHaveBeenCalled();
+            expect(mockLogger.warn).toHaveBeenCalledWith('A listener for %s events failed: %s', 'directoryCreated', 'Listener failed');
+        });
+    });
+
+    describe('track', () => {
+        it('should leave the hooks alone without listeners for process events', () => {
+            const events = create(mockLogger);
+            events.on('directoryCreated', vi.fn());
+            const hooks = { onSkip: vi.fn() };
+
+            expect(events.track(hooks)).toBe(hooks);
+        });
+
+        it('should emit each file with the running totals and still call the given hooks', async () => {
+            const events = create(mockLogger);
+            const discover = vi.fn();
+            const skip = vi.fn();
+            const done = vi.fn();
+            const error = vi.fn();
+            events.on('discover', discover);
+            events.on('skip', skip);
+            events.on('done', done);
+            events.on('error', error);
+            const onSkip = vi.fn();
+            const onFail = vi.fn();
+
+            const hooks = events.track({ onSkip, onFail });
+            hooks.onDiscover!('/in/a.md');
+            hooks.onDiscover!('/in/b.md');
+            hooks.onDiscover!('/in/c.md');
+            hooks.onStart!('/in/a.md');
+            hooks.onDone!('/in/a.md');
+            hooks.onSkip!('/in/b.md', 'out-of-range');
+            const failure = new Error('Callback failed');
+            await hooks.onFail!('/in/c.md', failure);
+
+            expect(discover).toHaveBeenLastCalledWith({ file: '/in/c.md', totals: expect.objectContaining({ discovered: 3, enumerated: false }) });
+            expect(done).toHaveBeenCalledWith({ file: '/in/a.md', totals: expect.objectContaining({ started: 1, processed: 1 }) });
+            expect(skip).toHaveBeenCalledWith({ file: '/in/b.md', reason: 'out-of-range', totals: expect.objectContaining({ skipped: 1 }) });
+            expect(error).toHaveBeenCalledWith({ file: '/in/c.md', error: failure, totals: expect.objectContaining({ failed: 1 }) });
+            expect(onSkip).toHaveBeenCalledWith('/in/b.md', 'out-of-range', undefined);
+            expect(onFail).toHaveBeenCalledWith('/in/c.md', failure);
+        });
+
+        it('should count files past the limit as skipped', () => {
+            const events = create(mockLogger);
+            const skip = vi.fn();
+            events.on('skip', skip);
+
+            events.track().onLimit!('/in/z.md', 'limit-reached');
+
+            expect(skip).toHaveBeenCalledWith({ file: '/in/z.md', reason: 'limit-reached', totals: expect.objectContaining({ skipped: 1 }) });
+        });
+
+        it('should only estimate the time left once every file has been found', () => {
+            vi.useFakeTimers();
+            vi.setSystemTime(new Date('2025-03-07T10:00:00Z'));
+            const events = create(mockLogger);
+            const done = vi.fn();
+            events.on('done', done);
+
+            const hooks = events.track();
+            ['/in/a.md', '/in/b.md', '/in/c.md', '/in/d.md'].forEach(file => hooks.onDiscover!(file));
+            vi.advanceTimersByTime(1000);
+            hooks.onDone!('/in/a.md');
+            expect(done).toHaveBeenLastCalledWith(expect.objectContaining({ totals: expect.objectContaining({ etaMs: undefined }) }));
+
+            hooks.onEnumerated!(4);
+            vi.advanceTimersByTime(1000);
+            hooks.onDone!('/in/b.md');
+            // Two files in two seconds leaves two more seconds for the other two
+            expect(done).toHaveBeenLastCalledWith(expect.objectContaining({ totals: expect.objectContaining({ enumerated: true, elapsedMs: 2000, etaMs: 2000 }) }));
+            vi.useRealTimers();
+        });
+    });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { BatchCallback, Config, Feature, InputFile, InputHooks, Logger } from '../../src/dreadcabinet';
+import type * as FilesModule from '../../src/input/files';
+
+const mockFiles = vi.fn<typeof FilesModule.files>();
+
+vi.mock('../../src/input/files', () => ({
+    files: mockFiles,
+}));
+
+const { processBatches } = await import('../../src/input/batches');
+const { ProcessingError } = await import('../../src/error/ProcessingError');
+
+describe('Input: Batches', () => {
+    const date = new Date(Date.UTC(2025, 2, 7));
+    let config: Config;
+    let features: Feature[];
+    let logger: Logger;
+    // How many files the walk had handed out, and whether it was left early
+    let walked: number;
+    let leftEarly: boolean;
+
+    const walkFiles = (count: number, { wait = 0, hooks }: { wait?: number, hooks?: (hooks: InputHooks) => void } = {}) => {
+        mockFiles.mockImplementation(async function* (_config, _features, _logger, { signal, hooks: walkHooks } = {}) {
+            hooks?.(walkHooks!);
+            try {
+                for (let i = 1; i <= count && !signal?.aborted; i++) {
+                    if (wait) await new Promise(resolve => setTimeout(resolve, wait));
+                    walked++;
+                    yield { path: `/in/note${i}.md`, date, dateSource: 'mtime' } as InputFile;
+                }
+                return { excluded: { files: 2, directories: 0 } };
+            } finally {
+                leftEarly = walked < count;
+            }
+        });
+    }
+    const paths = (batch: InputFile[]) => batch.map(file => file.path.replace('/in/', ''));
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        config = { timezone: 'UTC', inputDirectory: '/in', concurrency: 2 };
+        features = ['input'];
+        logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn(), verbose: vi.fn(), silly: vi.fn() };
+        walked = 0;
+        leftEarly = false;
+        walkFiles(7);
+    });
+
+    it('should hand the files over in batches, with the last one holding what is left', async () => {
+        const batches: string[][] = [];
+        const callback = vi.fn<BatchCallback>(async files => {
+            batches.push(paths(files));
+        });
+
+        const report = await processBatches(config, features, logger, callback, { batchSize: 3 });
+
+        expect(batches).toEqual([['note1.md', 'note2.md', 'note3.md'], ['note4.md', 'note5.md', 'note6.md'], ['note7.md']]);
+        expect(callback.mock.calls[0][0][0]).toEqual({ path: '/in/note1.md', date, dateSource: 'mtime' });
+        expect(report).toEqual({
+            processed: 7,
+            skipped: { 'out-of-range': 0, 'unparseable-date': 0, 'excluded': 2, 'limit-reached': 0, 'offset': 0, 'not-sampled': 0 },
+            failed: [],
+            durationMs: expect.any(Number),
+            filesPerSecond: expect.any(Number),
+            aborted: false,
+            batches: 3,
+            failedBatches: [],
+        });
+        expect(logger.info).toHaveBeenCalledWith('Processed %d files matching criteria in %d batches, excluded %d files and %d directories.', 7, 3, 2, 0);
+    });
+
+    it('should run no more batches at once than the concurrency', async () => {
+        walkFiles(12);
+        let running = 0;
+        let most = 0;
+        const callback = vi.fn<BatchCallback>(async () => {
+            running++;
+            most = Math.max(most, running);
+            await new Promise(resolve => setTimeout(resolve, 10));
+            running--;
+        });
+
+        await processBatches(config, features, logger, callback, { batchSize: 2 });
+
+        expect(callback).toHaveBeenCalledTimes(6);
+        expect(most).toBe(2);
+    });
+
+    it('should hand a batch over before it is full once its first file has waited long enough', async () => {
+        walkFiles(3, { wait: 100 });
+        const batches: string[][] = [];
+
+        await processBatches(config, features, logger, async files => {
+            batches.push(paths(files));
+        }, { batchSize: 10, maxWaitMs: 150 });
+
+        // The second file comes 100ms after the first, the third too late for their batch
+        expect(batches).toEqual([['note1.md', 'note2.md'], ['note3.md']]);
+    });
+
+    it('should fail every file of a batch whose callback throws', async () => {
+        const error = new Error('Bulk insert failed');
+        const onFail = vi.fn();
+
+        const report = await processBatches(config, features, logger, async files => {
+            if (files[0].path === '/in/note4.md') throw error;
+        }, { batchSize: 3, onFail });
+
+        expect(report.processed).toBe(4);
+        expect(report.failed).toEqual([
+            { file: '/in/note4.md', error },
+            { file: '/in/note5.md', error },
+            { file: '/in/note6.md', error },
+        ]);
+        expect(report.failedBatches).toEqual([{ files: ['/in/note4.md', '/in/note5.md', '/in/note6.md'], error }]);
+        expect(onFail).toHaveBeenCalledWith('/in/note5.md', error);
+        expect(logger.error).toHaveBeenCalledWith('Error processing a batch of %d files starting with %s: %s', 3, '/in/note4.md', 'Bulk insert failed');
+    });
+
+    it('should fail only the files a batch callback lists', async () => {
+        const error = new Error('Duplicate key');
+        const onDone = vi.fn();
+
+        const report = await processBatches(config, features, logger, async files => {
+            return files.filter(file => file.path === '/in/note2.md').map(file => ({ file: file.path, error }));
+        }, { batchSize: 3, onDone });
+
+        expect(report.processed).toBe(6);
+        expect(report.failed).toEqual([{ file: '/in/note2.md', error }]);
+        expect(report.failedBatches).toEqual([]);
+        expect(onDone).toHaveBeenCalledTimes(6);
+        expect(onDone).not.toHaveBeenCalledWith('/in/note2.md');
+    });
+
+    it('should stop handing batches over and leave the walk when the error policy says so', async () => {
+        walkFiles(20);
+        const callback = vi.fn<BatchCallback>(async () => {
+            throw new Error('Server unavailable');
+        });
+
+        await expect(processBatches({ ...config, concurrency: 1, onError: 'fail-fast' }, features, logger, callback, { batchSize: 2 }))
+            .rejects.toThrow(ProcessingError);
+
+        expect(callback).toHaveBeenCalledTimes(1);
+        expect(leftEarly).toBe(true);
+    });
+
+    it('should count the files the walk skips and tell the caller', async () => {
+        const onSkip = vi.fn();
+        walkFiles(1, {
+            hooks: hooks => {
+                hooks.onSkip?.('/in/old.md', 'out-of-range', date);
+                hooks.onLimit?.('/in/late.md', 'limit-reached');
+            },
+        });
+
+        const report = await processBatches(config, features, logger, vi.fn(), { batchSize: 5, onSkip });
+
+        expect(report.skipped).toMatchObject({ 'out-of-range': 1, 'limit-reached': 1 });
+        expect(onSkip).toHaveBeenCalledWith('/in/old.md', 'out-of-range', date);
+    });
+
+    it('should let the batches already handed over finish once the signal is aborted', async () => {
+        const controller = new AbortController();
+        const callback = vi.fn<BatchCallback>(async () => {
+            controller.abort();
+        });
+
+        const report = await processBatches({ ...config, concurrency: 1 }, features, logger, callback, { batchSize: 2, signal: controller.signal });
+
+        expect(callback).toHaveBeenCalledTimes(1);
+        expect(callback).toHaveBeenCalledWith(expect.any(Array), controller.signal);
+        expect(report).toMatchObject({ processed: 2, batches: 1, aborted: true });
+        expect(logger.warn).toHaveBeenCalledWith('Processing was aborted after %d batches, the files not yet handed over were left alone.', 1);
+    });
+
+    it('should reject batch sizes and waits that are not positive', async () => {
+        await expect(processBatches(config, features, logger, vi.fn(), { batchSize: 0 }))
+            .rejects.toThrow('Batch size must be a positive integer');
+        await expect(processBatches(config, features, logger, vi.fn(), { batchSize: 5, maxWaitMs: -1 }))
+            .rejects.toThrow('Batch wait must be a positive number of milliseconds');
+        expect(mockFiles).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Config, Options } from '../../src/dreadcabinet';
+import type * as StorageUtil from '../../src/util/storage';
+import * as Dates from '../../src/util/dates';
+
+// --- Mock Dependencies ---
+
+const mockReadFile = vi.fn<StorageUtil.Utility['readFile']>();
+const mockStat = vi.fn<StorageUtil.Utility['stat']>();
+// @ts-ignore - Only mocking used methods
+const mockStorageCreate = vi.fn<typeof StorageUtil.create>().mockReturnValue({
+    readFile: mockReadFile,
+    stat: mockStat,
+});
+
+vi.mock('../../src/util/storage', () => ({
+    create: mockStorageCreate,
+}));
+
+// --- Dynamically Import Module Under Test ---
+
+const { create, fromFrontmatter, fromFilename, fromContent } = await import('../../src/input/date-source');
+
+// --- Test Suite ---
+
+describe('Input: Date Sources', () => {
+    let baseConfig: Config;
+    let baseOptions: Options;
+    const dates = Dates.create({ timezone: 'UTC' });
+    const mtime = new Date('2025-05-01T12:00:00Z');
+    const ctime = new Date('2025-05-02T12:00:00Z');
+
+    const note = [
+        '---',
+        'title: Planning',
+        'date: 2025-03-07 10:15',
+        '---',
+        'Written on 2025-02-28',
+    ].join('\n');
+
+    const getInstance = (configOverrides: Partial<Config> = {}, optionOverrides: Partial<Options> = {}) =>
+        create({ ...baseConfig, ...configOverrides }, { ...baseOptions, ...optionOverrides });
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+
+        mockReadFile.mockResolvedValue(note);
+        // @ts-ignore - Only the stats the date sources use
+        mockStat.mockResolvedValue({ mtime, ctime, birthtime: new Date(0), birthtimeMs: 0 });
+
+        baseConfig = {
+            timezone: 'UTC',
+        };
+        baseOptions = {
+            logger: {
+                debug: vi.fn(),
+                info: vi.fn(),
+                warn: vi.fn(),
+                error: vi.fn(),
+                verbose: vi.fn(),
+                silly: vi.fn(),
+            },
+            features: ['input'],
+            addDefaults: false,
+        };
+    });
+
+    describe('sources', () => {
+        it('should read the frontmatter date with its time', () => {
+            expect(fromFrontmatter(dates, note)).toEqual(new Date('2025-03-07T10:15:00Z'));
+            expect(fromFrontmatter(dates, '---\ndate: someday\n---\n')).toBeUndefined();
+        });
+
+        it('should find dates in filenames with the built-in patterns', () => {
+            expect(fromFilename(dates, '/in/2025-03-07-notes.md')).toEqual({ date: new Date('2025-03-07T00:00:00Z'), pattern: 'iso', time: false });
+            expect(fromFilename(dates, '/in/IMG_20250307.jpg')).toEqual({ date: new Date('2025-03-07T00:00:00Z'), pattern: 'camera', time: false });
+            // The directory is not part of the filename
+            expect(fromFilename(dates, '/in/2025-03-07/notes.md')).toBeUndefined();
+        });
+
+        it('should only try the given filename patterns', () => {
+            expect(fromFilename(dates, '/in/IMG_20250307.jpg', ['iso'])).toBeUndefined();
+        });
+
+        it('should reject digits that only look like a date', () => {
+            expect(fromFilename(dates, '/in/2025-13-45.md')).toBeUndefined();
+            expect(fromFilename(dates, '/in/2025-02-30.md')).toBeUndefined();
+            expect(fromFilename(dates, '/in/a1b2c3202503071234.md')).toBeUndefined();
+        });
+
+        it('should find the first date-like line after the frontmatter', () => {
+            expect(fromContent(dates, note)).toEqual(new Date('2025-02-28T00:00:00Z'));
+            expect(fromContent(dates, 'No dates\nat all')).toBeUndefined();
+        });
+    });
+
+    describe('resolve', () => {
+        it('should resolve nothing when no sources are configured', async () => {
+            const { sources, resolve } = getInstance();
+            expect(sources).toEqual([]);
+            expect(await resolve('/in/note.md')).toBeUndefined();
+            expect(mockReadFile).not.toHaveBeenCalled();
+            expect(mockStat).not.toHaveBeenCalled();
+        });
+
+        it('should try the sources in order and report the one that found the date', async () => {
+            const { resolve } = getInstance({ dateSources: ['filename', 'frontmatter', 'mtime'] });
+            expect(await resolve('/in/note.md')).toEqual({ date: new Date('2025-03-07T10:15:00Z'), source: 'frontmatter', time: true });
+        });
+
+        it('should use the file times, skipping a birthtime the filesystem does not record', async () => {
+            const { resolve } = getInstance({ dateSources: ['birthtime', 'ctime', 'mtime'] });
+            expect(await resolve('/in/note.md')).toEqual({ date: ctime, source: 'ctime', time: true });
+            expect(mockStat).toHaveBeenCalledWith('/in/note.md');
+        });
+
+        it('should only read what the sources need', async () => {
+            const { resolve } = getInstance({ dateSources: ['filename'] });
+            expect(await resolve('/in/2025-03-07.md')).toEqual({ date: new Date('2025-03-07T00:00:00Z'), source: 'filename', pattern: 'iso', time: false });
+            expect(mockReadFile).not.toHaveBeenCalled();
+            expect(mockStat).not.toHaveBeenCalled();
+        });
+
+        it('should use the configured filename date patterns', async () => {
+            const dayFirst = '(?<day>\\d{2})\\.(?<month>\\d{2})\\.(?<year>\\d{4})';
+            const { resolve } = getInstance({ dateSources: ['filename'], filenameDatePatterns: [dayFirst] });
+            expect(await resolve('/in/notes 07.03.2025.md')).toEqual({ date: new Date('2025-03-07T00:00:00Z'), source: 'filename', pattern: dayFirst, time: false });
+            expect(await resolve('/in/2025-03-07.md')).toBeUndefined();
+        });
+
+        it('should call the custom extractor with the file and its content', async () => {
+            const date = new Date('2024-12-24T00:00:00Z');
+            const dateExtractor = vi.fn<(file: string, content: string) => Promise<Date | undefined>>().mockResolvedValue(date);
+            const { resolve } = getInstance({ dateSources: ['custom', 'mtime'] }, { dateExtractor });
+
+            expect(await resolve('/in/note.md')).toEqual({ date, source: 'custom', time: true });
+            expect(dateExtractor).toHaveBeenCalledWith('/in/note.md', note);
+        });
+
+        it('should use a dateExtractor on its own and ignore invalid dates', async () => {
+            const dateExtractor = vi.fn<(file: string, content: string) => Promise<Date | undefined>>().mockResolvedValue(new Date('nope'));
+            const { sources, resolve } = getInstance({}, { dateExtractor });
+
+            expect(sources).toEqual(['custom']);
+            expect(await resolve('/in/note.md')).toBeUndefined();
+        });
+    });
+});
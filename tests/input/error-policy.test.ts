@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Config, Logger, ProcessFailure } from '../../src/dreadcabinet';
+import type * as StorageUtil from '../../src/util/storage';
+
+// --- Mock Dependencies ---
+
+const mockCreateDirectory = vi.fn<StorageUtil.Utility['createDirectory']>();
+const mockMoveFile = vi.fn<StorageUtil.Utility['moveFile']>();
+const mockCopyFile = vi.fn<StorageUtil.Utility['copyFile']>();
+const mockRemoveFile = vi.fn<StorageUtil.Utility['removeFile']>();
+const mockWriteFile = vi.fn<StorageUtil.Utility['writeFile']>();
+// @ts-ignore - Only mocking used methods
+const mockStorageCreate = vi.fn<typeof StorageUtil.create>().mockReturnValue({
+    createDirectory: mockCreateDirectory,
+    moveFile: mockMoveFile,
+    copyFile: mockCopyFile,
+    removeFile: mockRemoveFile,
+    writeFile: mockWriteFile,
+});
+
+vi.mock('../../src/util/storage', () => ({
+    create: mockStorageCreate,
+}));
+
+// --- Dynamically Import Module Under Test ---
+
+const { create, maxErrors, quarantinePath } = await import('../../src/input/error-policy');
+const { ProcessingError } = await import('../../src/error/ProcessingError');
+
+// --- Test Suite ---
+
+describe('Input: Error Policy', () => {
+    let baseConfig: Config;
+    let mockLogger: Logger;
+
+    const failure = (file: string): ProcessFailure => ({ file, error: new Error(`${file} is broken`) });
+    const getInstance = (configOverrides: Partial<Config> = {}) => create({ ...baseConfig, ...configOverrides }, mockLogger);
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+
+        baseConfig = {
+            timezone: 'UTC',
+            inputDirectory: '/in',
+        };
+        mockLogger = {
+            debug: vi.fn(),
+            info: vi.fn(),
+            warn: vi.fn(),
+            error: vi.fn(),
+            verbose: vi.fn(),
+            silly: vi.fn(),
+        };
+    });
+
+    describe('maxErrors', () => {
+        it('should allow no failures with fail-fast, N with max-errors=N and any number otherwise', () => {
+            expect(maxErrors('fail-fast')).toBe(0);
+            expect(maxErrors('max-errors=3')).toBe(3);
+            expect(maxErrors('continue')).toBe(Infinity);
+            expect(maxErrors('quarantine')).toBe(Infinity);
+        });
+    });
+
+    describe('quarantinePath', () => {
+        it('should keep the path relative to the input directory', () => {
+            expect(quarantinePath('/in/2025/3/note.md', '/in', '/quarantine')).toBe('/quarantine/2025/3/note.md');
+            expect(quarantinePath('/elsewhere/note.md', '/in', '/quarantine')).toBe('/quarantine/note.md');
+        });
+    });
+
+    describe('handle', () => {
+        it('should go on after every failure with continue, the default', async () => {
+            const { handle } = getInstance();
+            for (let i = 0; i < 5; i++) {
+                await expect(handle(failure(`/in/${i}.md`))).resolves.toBeUndefined();
+            }
+            expect(mockMoveFile).not.toHaveBeenCalled();
+        });
+
+        it('should stop at the first failure with fail-fast', async () => {
+            const first = failure('/in/a.md');
+            const rejection = getInstance({ onError: 'fail-fast' }).handle(first);
+
+            await expect(rejection).rejects.toThrow(new ProcessingError('/in/a.md', 'Stopped processing after /in/a.md failed: /in/a.md is broken'));
+            await expect(rejection).rejects.toMatchObject({ file: '/in/a.md', cause: first.error });
+        });
+
+        it('should stop once more than N files failed with max-errors=N', async () => {
+            const { handle } = getInstance({ onError: 'max-errors=2' });
+            await handle(failure('/in/a.md'));
+            await handle(failure('/in/b.md'));
+
+            await expect(handle(failure('/in/c.md')))
+                .rejects.toThrow('Stopped processing after 3 files failed, more than the 2 allowed by --on-error max-errors=2');
+        });
+
+        it('should move quarantined files with an error sidecar and go on', async () => {
+            const broken = failure('/in/2025/3/note.md');
+            await getInstance({ onError: 'quarantine', quarantineDirectory: '/quarantine' }).handle(broken);
+
+            expect(mockCreateDirectory).toHaveBeenCalledWith('/quarantine/2025/3');
+            expect(mockMoveFile).toHaveBeenCalledWith('/in/2025/3/note.md', '/quarantine/2025/3/note.md');
+            const [sidecarPath, sidecar] = mockWriteFile.mock.calls[0];
+            expect(sidecarPath).toBe('/quarantine/2025/3/note.md.error.json');
+            expect(JSON.parse(sidecar as string)).toMatchObject({
+                file: '/in/2025/3/note.md',
+                failedAt: expect.any(String),
+                error: { name: 'Error', message: '/in/2025/3/note.md is broken' },
+            });
+            expect(broken.quarantined).toBe('/quarantine/2025/3/note.md');
+        });
+
+        it('should copy and remove quarantined files across devices', async () => {
+            mockMoveFile.mockRejectedValueOnce(Object.assign(new Error('cross-device link'), { code: 'EXDEV' }));
+            await getInstance({ onError: 'quarantine', quarantineDirectory: '/quarantine' }).handle(failure('/in/note.md'));
+
+            expect(mockCopyFile).toHaveBeenCalledWith('/in/note.md', '/quarantine/note.md');
+            expect(mockRemoveFile).toHaveBeenCalledWith('/in/note.md');
+        });
+
+        it('should log and go on when a file cannot be quarantined', async () => {
+            mockMoveFile.mockRejectedValueOnce(Object.assign(new Error('permission denied'), { code: 'EACCES' }));
+            const broken = failure('/in/note.md');
+
+            await expect(getInstance({ onError: 'quarantine', quarantineDirectory: '/quarantine' }).handle(broken)).resolves.toBeUndefined();
+
+            expect(mockLogger.error).toHaveBeenCalledWith('Unable to quarantine %s in %s: %s', '/in/note.md', '/quarantine/note.md', 'permission denied');
+            expect(broken.quarantined).toBeUndefined();
+        });
+
+        it('should only say where files would go in a dry run', async () => {
+            await getInstance({ onError: 'quarantine', quarantineDirectory: '/quarantine', dryRun: true }).handle(failure('/in/note.md'));
+
+            expect(mockMoveFile).not.toHaveBeenCalled();
+            expect(mockLogger.info).toHaveBeenCalledWith('Would quarantine %s in %s', '/in/note.md', '/quarantine/note.md');
+        });
+    });
+});
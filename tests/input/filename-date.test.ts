@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import * as Dates from '../../src/util/dates';
+
+const { compile, match, toDate } = await import('../../src/input/filename-date');
+
+describe('Input: Filename Dates', () => {
+    const dates = Dates.create({ timezone: 'UTC' });
+    const all = ['camera', 'screenshot', 'whatsapp', 'iso', 'compact', 'dreadcabinet'];
+
+    describe('built-in patterns', () => {
+        it.each([
+            ['IMG_20240101_123000.jpg', 'camera', '2024-01-01T12:30:00Z', true],
+            ['PXL_20240101_123000123.jpg', 'camera', '2024-01-01T12:30:00Z', true],
+            ['Screenshot 2024-01-01 at 10.00.00.png', 'screenshot', '2024-01-01T10:00:00Z', true],
+            ['Screen Shot 2020-01-01 at 1.05.09 PM.png', 'screenshot', '2020-01-01T13:05:09Z', true],
+            ['Screenshot 2024-01-01 at 12.00.00 AM.png', 'screenshot', '2024-01-01T00:00:00Z', true],
+            ['Screenshot_20240101-100000.png', 'screenshot', '2024-01-01T10:00:00Z', true],
+            ['VID-20240101-WA0001.mp4', 'whatsapp', '2024-01-01T00:00:00Z', false],
+            ['2024-01-01T10-00-00Z.m4a', 'iso', '2024-01-01T10:00:00Z', true],
+            ['Recording 2024-01-01 10.00.m4a', 'iso', '2024-01-01T10:00:00Z', true],
+            ['20240101_100000.m4a', 'compact', '2024-01-01T10:00:00Z', true],
+            ['2024-1-1-1000-notes.md', 'dreadcabinet', '2024-01-01T10:00:00Z', true],
+        ])('should read %s with the %s pattern', (filename, pattern, expected, time) => {
+            expect(match(dates, filename, all)).toEqual({ date: new Date(expected), pattern, time });
+        });
+
+        it('should try the patterns in the order given', () => {
+            expect(match(dates, 'IMG_20240101_123000.jpg', ['compact', 'camera'])?.pattern).toBe('compact');
+        });
+
+        it('should drop the time when asked to', () => {
+            expect(match(dates, 'IMG_20240101_123000.jpg', ['camera'], { time: false })?.date).toEqual(new Date('2024-01-01T00:00:00Z'));
+        });
+
+        it('should read times without a Z in the configured timezone', () => {
+            const newYork = Dates.create({ timezone: 'America/New_York' });
+            expect(match(newYork, '20240101_100000.m4a', ['compact'])?.date).toEqual(new Date('2024-01-01T15:00:00Z'));
+            expect(match(newYork, '2024-01-01T10-00-00Z.m4a', ['iso'])?.date).toEqual(new Date('2024-01-01T10:00:00Z'));
+        });
+
+        it('should not match names without a date', () => {
+            expect(match(dates, 'notes.md', all)).toBeUndefined();
+            expect(match(dates, 'IMG_2024.jpg', all)).toBeUndefined();
+        });
+    });
+
+    describe('user patterns', () => {
+        it('should use the named groups of a regular expression', () => {
+            const pattern = 'scan (?<day>\\d{2})\\.(?<month>\\d{2})\\.(?<year>\\d{4}) (?<hour>\\d{2})h(?<minute>\\d{2})';
+            expect(match(dates, 'scan 07.03.2025 14h30.pdf', [pattern])).toEqual({ date: new Date('2025-03-07T14:30:00Z'), pattern, time: true });
+        });
+
+        it('should reject regular expressions that do not compile or lack a date group', () => {
+            expect(() => compile('(?<year>\\d{4')).toThrow('Invalid filename date pattern: (?<year>\\d{4.');
+            expect(() => compile('(?<year>\\d{4})-(?<month>\\d{2})')).toThrow('It needs the named groups day, or use one of: camera, screenshot, whatsapp, iso, compact, dreadcabinet');
+            expect(() => compile('camra')).toThrow('It needs the named groups year, month, day');
+        });
+    });
+
+    describe('toDate', () => {
+        it('should reject impossible dates and times', () => {
+            expect(toDate(dates, { year: '2025', month: '02', day: '29' })).toBeUndefined();
+            expect(toDate(dates, { year: '2024', month: '02', day: '29' })).toEqual(new Date('2024-02-29T00:00:00Z'));
+            expect(toDate(dates, { year: '2025', month: '01', day: '01', hour: '24' })).toBeUndefined();
+            expect(toDate(dates, { year: '2025', month: '01', day: '01', hour: '13', meridiem: 'PM' })).toBeUndefined();
+        });
+    });
+});
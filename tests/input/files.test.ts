@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Config, Feature, InputFile, Logger } from '../../src/dreadcabinet';
+import type * as ProcessModule from '../../src/input/process';
+
+const mockWalk = vi.fn<typeof ProcessModule.walk>();
+
+vi.mock('../../src/input/process', () => ({
+    walk: mockWalk,
+}));
+
+const { files } = await import('../../src/input/files');
+
+describe('Input: Files', () => {
+    const date = new Date(Date.UTC(2025, 2, 7));
+    let config: Config;
+    let features: Feature[];
+    let logger: Logger;
+    // How many files the walk had started, and whether it saw an abort before the next one
+    let started: string[];
+    let walkSignal: AbortSignal | undefined;
+
+    const collect = async (iterable: AsyncIterable<InputFile>): Promise<InputFile[]> => {
+        const found: InputFile[] = [];
+        for await (const file of iterable) {
+            found.push(file);
+        }
+        return found;
+    }
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        config = { timezone: 'UTC', inputDirectory: '/in', concurrency: 4 };
+        features = ['input'];
+        logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn(), verbose: vi.fn(), silly: vi.fn() };
+        started = [];
+        walkSignal = undefined;
+
+        // Walk five files one after another, stopping at an abort the way the input processors do
+        mockWalk.mockImplementation(async (_config, _features, _logger, callback, { signal } = {}) => {
+            walkSignal = signal;
+            for (let i = 1; i <= 5 && !signal?.aborted; i++) {
+                started.push(`/in/note${i}.md`);
+                await callback(`/in/note${i}.md`, date, 'mtime');
+            }
+            return { fileCount: started.length };
+        });
+    });
+
+    it('should yield every file the walk finds, with its date and where it came from', async () => {
+        const found = await collect(files(config, features, logger));
+
+        expect(found).toHaveLength(5);
+        expect(found[0]).toEqual({ path: '/in/note1.md', date, dateSource: 'mtime' });
+        // One file at a time, whatever concurrency process would use
+        expect(mockWalk).toHaveBeenCalledWith({ ...config, concurrency: 1 }, features, logger, expect.any(Function),
+            expect.objectContaining({ start: undefined, end: undefined, dates: undefined }));
+    });
+
+    it('should give structured input dates the structure as their source', async () => {
+        const found = await collect(files(config, ['input', 'structured-input'], logger));
+        expect(found[0]).toEqual({ path: '/in/note1.md', date, dateSource: 'structure' });
+    });
+
+    it('should not walk ahead of the files asked for', async () => {
+        const iterator = files(config, features, logger)[Symbol.asyncIterator]();
+
+        await iterator.next();
+        await iterator.next();
+        expect(started).toEqual(['/in/note1.md', '/in/note2.md']);
+
+        await iterator.return(undefined);
+    });
+
+    it('should stop the walk when the loop is left early', async () => {
+        const found: InputFile[] = [];
+        for await (const file of files(config, features, logger)) {
+            found.push(file);
+            if (found.length === 2) break;
+        }
+
+        expect(walkSignal?.aborted).toBe(true);
+        expect(started).toEqual(['/in/note1.md', '/in/note2.md']);
+    });
+
+    it('should stop the walk once the signal is aborted', async () => {
+        const controller = new AbortController();
+        const found: InputFile[] = [];
+        for await (const file of files(config, features, logger, { signal: controller.signal })) {
+            found.push(file);
+            if (found.length === 3) controller.abort();
+        }
+
+        expect(found).toHaveLength(3);
+        expect(started).toHaveLength(3);
+    });
+
+    it('should throw what the walk throws', async () => {
+        mockWalk.mockRejectedValueOnce(new Error('Start or end date are both required for structured input'));
+
+        await expect(collect(files(config, ['input', 'structured-input'], logger)))
+            .rejects.toThrow('Start or end date are both required for structured input');
+    });
+});
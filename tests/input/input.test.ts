@@ -1,6 +1,10 @@
 import { describe, test, expect, beforeEach, vi } from 'vitest';
-import type { Config, Args, Options, Logger, Feature } from '../../src/dreadcabinet';
+import type { Config, Args, Options, Logger, Feature, FileContext, ProcessReport } from '../../src/dreadcabinet';
+import type { FileDetails } from '../../src/context';
+import type * as Subject from '../../src/subject';
 import type * as ProcessModule from '../../src/input/process';
+import type * as FilesModule from '../../src/input/files';
+import type * as BatchesModule from '../../src/input/batches';
 
 // Mock the process function from the './process' module
 const mockProcess = vi.fn<typeof ProcessModule.process>();
@@ -9,10 +13,29 @@ vi.mock('../../src/input/process', () => ({
     process: mockProcess,
 }));
 
+const mockFiles = vi.fn<typeof FilesModule.files>();
+const mockProcessBatches = vi.fn<typeof BatchesModule.processBatches>();
+
+vi.mock('../../src/input/batches', () => ({
+    processBatches: mockProcessBatches,
+}));
+
+vi.mock('../../src/input/files', () => ({
+    files: mockFiles,
+}));
+
 // Dynamically import the module under test after mocking
 const { create } = await import('../../src/input/input');
 
 describe('Input: Create', () => {
+    const report: ProcessReport = {
+        processed: 1,
+        skipped: { 'out-of-range': 0, 'unparseable-date': 0, 'excluded': 0, 'limit-reached': 0, 'offset': 0, 'not-sampled': 0 },
+        failed: [],
+        durationMs: 5,
+        filesPerSecond: 200,
+        aborted: false,
+    };
     let mockConfig: Config;
     let mockArgs: Args;
     let mockOptions: Options;
@@ -82,6 +105,7 @@ describe('Input: Create', () => {
             {
                 start: undefined,
                 end: undefined,
+                walkPastLimit: false,
             }
         );
     });
@@ -91,6 +115,13 @@ describe('Input: Create', () => {
         const specificArgs: Args = { ...mockArgs, recursive: true };
         const specificOptions: Options = { ...mockOptions, features: [...mockFeatures, 'structured-input'] };
 
+        const date = new Date(2025, 2, 7);
+        mockProcess.mockImplementationOnce(async (_config, _features, _logger, callback) => {
+            // @ts-ignore - The wrapped callback takes the date that structured input passes
+            await callback('/input/note.md', date);
+            return report;
+        });
+
         const inputModule = create(mockConfig, specificOptions);
         await inputModule.process(mockCallback);
 
@@ -98,12 +129,15 @@ describe('Input: Create', () => {
             mockConfig,
             specificOptions.features,
             specificOptions.logger,
-            mockCallback,
+            expect.any(Function),
             {
                 start: undefined,
                 end: undefined,
+                walkPastLimit: false,
             }
         );
+        // Structured input dates come from where the file is, and the callback is told so as the context is
+        expect(mockCallback).toHaveBeenCalledWith('/input/note.md', date, undefined, 'structure', undefined, undefined);
     });
 
     test('process method should pass concurrency option when provided', async () => {
@@ -118,6 +152,7 @@ describe('Input: Create', () => {
             {
                 start: undefined,
                 end: undefined,
+                walkPastLimit: false,
             }
         );
     });
@@ -135,7 +170,142 @@ describe('Input: Create', () => {
                 start: undefined,
                 end: undefined,
                 concurrency: undefined,
+                walkPastLimit: false,
             }
         );
     });
+
+    test('process method should pass each file\'s extracted subject to the callback', async () => {
+        const extract = vi.fn<(file: string) => Promise<string | undefined>>().mockResolvedValue('Extracted');
+        const date = new Date(2025, 2, 7);
+        mockProcess.mockImplementationOnce(async (_config, _features, _logger, callback) => {
+            // @ts-ignore - The wrapped callback takes the date that structured input passes
+            await callback('/input/note.md', date);
+            return report;
+        });
+
+        const handle = vi.fn<ReturnType<typeof Subject.create>['handle']>((_file, work) => work());
+
+        const inputModule = create(mockConfig, mockOptions, { subject: { extract, handle } });
+        expect(await inputModule.process(mockCallback)).toBe(report);
+
+        expect(extract).toHaveBeenCalledWith('/input/note.md');
+        expect(mockCallback).toHaveBeenCalledWith('/input/note.md', date, 'Extracted', undefined, undefined, undefined);
+        // The subject is extracted and the callback runs while the file is handled, so asking again reads it once
+        expect(handle).toHaveBeenCalledWith('/input/note.md', expect.any(Function));
+        expect(handle.mock.invocationCallOrder[0]).toBeLessThan(extract.mock.invocationCallOrder[0]);
+    });
+
+    test('process method should pass each file\'s context to the callback', async () => {
+        const fileContext = { path: '/input/note.md', relativePath: 'note.md', extension: 'md', hasTime: false } as FileContext;
+        const build = vi.fn<(file: string, details?: FileDetails) => Promise<FileContext>>().mockResolvedValue(fileContext);
+        const date = new Date(2025, 2, 7);
+        mockProcess.mockImplementationOnce(async (_config, _features, _logger, callback) => {
+            // @ts-ignore - The wrapped callback takes the date that structured input passes
+            await callback('/input/note.md', date);
+            return report;
+        });
+
+        const specificOptions: Options = { ...mockOptions, features: [...mockFeatures, 'structured-input'] };
+        const inputModule = create({ ...mockConfig, inputFilenameOptions: ['date', 'time'] }, specificOptions, { context: { build } });
+        await inputModule.process(mockCallback);
+
+        expect(build).toHaveBeenCalledWith('/input/note.md', { date, dateSource: 'structure', time: true, subject: undefined });
+        expect(mockCallback).toHaveBeenCalledWith('/input/note.md', date, undefined, 'structure', fileContext, undefined);
+    });
+
+    test('process method should pass the filename date pattern that dated a file to its context', async () => {
+        const build = vi.fn<(file: string, details?: FileDetails) => Promise<FileContext>>().mockResolvedValue({} as FileContext);
+        const date = new Date(2024, 0, 1);
+        mockProcess.mockImplementationOnce(async (_config, _features, _logger, callback) => {
+            await callback('/input/2024-01-01T10-00-00Z.m4a', date, 'filename', true, 'iso');
+            return report;
+        });
+
+        await create(mockConfig, mockOptions, { context: { build } }).process(mockCallback);
+
+        expect(build).toHaveBeenCalledWith('/input/2024-01-01T10-00-00Z.m4a', expect.objectContaining({ dateSource: 'filename', datePattern: 'iso' }));
+    });
+
+    test('process method should find the filename date pattern again for structured input without directories', async () => {
+        const build = vi.fn<(file: string, details?: FileDetails) => Promise<FileContext>>().mockResolvedValue({} as FileContext);
+        const date = new Date(2024, 0, 1);
+        mockProcess.mockImplementationOnce(async (_config, _features, _logger, callback) => {
+            // @ts-ignore - The wrapped callback takes the date that structured input passes
+            await callback('/input/IMG_20240101_123000.jpg', date);
+            return report;
+        });
+
+        const specificOptions: Options = { ...mockOptions, features: [...mockFeatures, 'structured-input'] };
+        const config: Config = { ...mockConfig, inputStructure: 'none', inputFilenameOptions: ['date', 'time'], filenameDatePatterns: ['iso', 'camera'] };
+        await create(config, specificOptions, { context: { build } }).process(mockCallback);
+
+        expect(build).toHaveBeenCalledWith('/input/IMG_20240101_123000.jpg', expect.objectContaining({ dateSource: 'structure', datePattern: 'camera' }));
+    });
+
+    test('process method should only walk on past the limit when the caller gives onLimit', async () => {
+        const inputModule = create(mockConfig, mockOptions);
+        const onLimit = vi.fn();
+        await inputModule.process(mockCallback, { onLimit });
+        await inputModule.processBatches(vi.fn(), { batchSize: 10, onLimit });
+
+        expect(mockProcess).toHaveBeenCalledWith(mockConfig, mockOptions.features, mockOptions.logger, mockCallback,
+            expect.objectContaining({ onLimit, walkPastLimit: true }));
+        expect(mockProcessBatches).toHaveBeenCalledWith(mockConfig, mockOptions.features, mockOptions.logger, expect.any(Function),
+            expect.objectContaining({ onLimit, walkPastLimit: true }));
+    });
+
+    test('process method should pass the signal to the input processors and the callback', async () => {
+        const controller = new AbortController();
+        mockProcess.mockImplementationOnce(async (_config, _features, _logger, callback) => {
+            await callback('/input/note.md');
+            return report;
+        });
+
+        const inputModule = create(mockConfig, mockOptions);
+        await inputModule.process(mockCallback, { signal: controller.signal });
+
+        expect(mockProcess).toHaveBeenCalledWith(mockConfig, mockOptions.features, mockOptions.logger, expect.any(Function),
+            expect.objectContaining({ signal: controller.signal }));
+        expect(mockCallback).toHaveBeenCalledWith('/input/note.md', undefined, undefined, undefined, undefined, controller.signal);
+    });
+
+    test('process method should try a failed file again when retries are configured', async () => {
+        mockProcess.mockImplementationOnce(async (_config, _features, _logger, callback) => {
+            await callback('/input/note.md');
+            return report;
+        });
+        mockCallback.mockRejectedValueOnce(new Error('Server unavailable'));
+
+        const inputModule = create({ ...mockConfig, retries: 1, retryDelay: 0 }, mockOptions);
+        await inputModule.process(mockCallback);
+
+        expect(mockCallback).toHaveBeenCalledTimes(2);
+        expect(mockLogger.warn).toHaveBeenCalledWith('Processing %s failed: %s. Trying again in %dms (retry %d of %d)',
+            '/input/note.md', 'Server unavailable', 0, 1, 1);
+    });
+
+    test('files method should walk the files with the date range, date sources and signal', async () => {
+        const dateSources = { dateSources: ['mtime' as const] };
+        const start = new Date(2025, 0, 1);
+        const signal = new AbortController().signal;
+
+        const inputModule = create({ ...mockConfig, ...dateSources }, mockOptions);
+        inputModule.files({ start, signal });
+
+        expect(mockFiles).toHaveBeenCalledWith(expect.objectContaining(dateSources), mockOptions.features, mockOptions.logger,
+            { start, end: undefined, dates: expect.objectContaining({ sources: ['mtime'] }), signal });
+    });
+
+    test('processBatches method should hand the batch options, hooks and signal to the batch processor', async () => {
+        const batchCallback = vi.fn();
+        const onSkip = vi.fn();
+        const signal = new AbortController().signal;
+
+        const inputModule = create(mockConfig, mockOptions);
+        await inputModule.processBatches(batchCallback, { batchSize: 50, maxWaitMs: 1000, onSkip, signal });
+
+        expect(mockProcessBatches).toHaveBeenCalledWith(mockConfig, mockOptions.features, mockOptions.logger, batchCallback,
+            { start: undefined, end: undefined, batchSize: 50, maxWaitMs: 1000, onSkip, dates: undefined, signal, walkPastLimit: false });
+    });
 });
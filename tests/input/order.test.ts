@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Config, Logger } from '../../src/dreadcabinet';
+import type * as StorageUtil from '../../src/util/storage';
+
+// --- Mock Dependencies ---
+
+const mockStat = vi.fn<StorageUtil.Utility['stat']>();
+// @ts-ignore - Only mocking used methods
+const mockStorageCreate = vi.fn<typeof StorageUtil.create>().mockReturnValue({
+    stat: mockStat,
+});
+
+vi.mock('../../src/util/storage', () => ({
+    create: mockStorageCreate,
+}));
+
+// --- Dynamically Import Module Under Test ---
+
+const { create, comparePaths } = await import('../../src/input/order');
+
+// --- Test Suite ---
+
+describe('Input: Order', () => {
+    let baseConfig: Config;
+    let logger: Logger;
+
+    // Sizes and modification times of the files in /in
+    const stats: Record<string, { size: number, mtime: Date }> = {
+        '/in/a.md': { size: 30, mtime: new Date('2025-03-01T00:00:00Z') },
+        '/in/sub/b.md': { size: 10, mtime: new Date('2025-01-01T00:00:00Z') },
+        '/in/c.md': { size: 20, mtime: new Date('2025-02-01T00:00:00Z') },
+    };
+    const files = ['a.md', 'sub/b.md', 'c.md'];
+
+    const getInstance = (configOverrides: Partial<Config> = {}, structured = false, dates?: Parameters<typeof create>[2]['dates']) =>
+        create({ ...baseConfig, ...configOverrides }, logger, { structured, dates });
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        // @ts-ignore - Only the stats sorting uses
+        mockStat.mockImplementation(async (file: string) => stats[file]);
+
+        baseConfig = {
+            timezone: 'UTC',
+            inputDirectory: '/in',
+        };
+        logger = {
+            debug: vi.fn(),
+            info: vi.fn(),
+            warn: vi.fn(),
+            error: vi.fn(),
+            verbose: vi.fn(),
+            silly: vi.fn(),
+        };
+    });
+
+    it('should compare paths by code point', () => {
+        expect(['b', 'B', 'a', '10', '9'].sort(comparePaths)).toEqual(['10', '9', 'B', 'a', 'b']);
+    });
+
+    it('should leave the order alone without a sort order', () => {
+        const dates = { sources: [], resolve: vi.fn() };
+        expect(getInstance({}, false, dates)).toEqual({ dates });
+    });
+
+    it('should order directory entries by path, reversed with reverse', () => {
+        const { orderEntries, sort } = getInstance({ sort: 'path' });
+        expect(sort).toBeUndefined();
+        expect(['b', 'a', 'c'].sort(orderEntries)).toEqual(['a', 'b', 'c']);
+
+        const reversed = getInstance({ sort: 'path', reverse: true });
+        expect(['b', 'a', 'c'].sort(reversed.orderEntries)).toEqual(['c', 'b', 'a']);
+    });
+
+    it('should sort by file name, whatever the directory', async () => {
+        const { sort } = getInstance({ sort: 'name' });
+        await expect(sort!(['z/b.md', 'a/c.md', 'y/a.md'])).resolves.toEqual(['y/a.md', 'z/b.md', 'a/c.md']);
+    });
+
+    it('should sort by size and by modification time', async () => {
+        await expect(getInstance({ sort: 'size' }).sort!(files)).resolves.toEqual(['sub/b.md', 'c.md', 'a.md']);
+        await expect(getInstance({ sort: 'mtime' }).sort!(files)).resolves.toEqual(['sub/b.md', 'c.md', 'a.md']);
+        await expect(getInstance({ sort: 'size', reverse: true }).sort!(files)).resolves.toEqual(['a.md', 'c.md', 'sub/b.md']);
+        expect(mockStat).toHaveBeenCalledWith('/in/sub/b.md');
+    });
+
+    it('should break ties by path', async () => {
+        mockStat.mockImplementation(async () => ({ size: 1, mtime: new Date(0) }) as any);
+        await expect(getInstance({ sort: 'size' }).sort!(['c.md', 'a.md', 'b.md'])).resolves.toEqual(['a.md', 'b.md', 'c.md']);
+    });
+
+    it('should walk structured input in date order, with numbers compared by value', () => {
+        const { orderEntries, sort } = getInstance({ sort: 'date-desc', inputStructure: 'month' }, true);
+        expect(sort).toBeUndefined();
+        expect(['2024/2', '2024/10', '2024/9'].sort(orderEntries)).toEqual(['2024/10', '2024/9', '2024/2']);
+        expect(['2024/3/3-note.md', '2024/3/12-note.md'].sort(orderEntries)).toEqual(['2024/3/12-note.md', '2024/3/3-note.md']);
+
+        const ascending = getInstance({ sort: 'date-asc', inputStructure: 'month' }, true);
+        expect(['2', '10', '9'].sort(ascending.orderEntries)).toEqual(['2', '9', '10']);
+        const reversed = getInstance({ sort: 'date-asc', reverse: true, inputStructure: 'month' }, true);
+        expect(['2', '10', '9'].sort(reversed.orderEntries)).toEqual(['10', '9', '2']);
+    });
+
+    it('should walk fiscal years by the dates their directories and files cover, not by name', () => {
+        const { orderEntries } = getInstance({ sort: 'date-desc', inputStructure: 'fiscal-year', fiscalYearStartMonth: 10 }, true);
+        const files = ['FY2025/10-5-a.md', 'FY2025/3-5-b.md', 'FY2025/12-1-c.md', 'FY2025/9-20-d.md'];
+        expect(files.sort(orderEntries)).toEqual(['FY2025/9-20-d.md', 'FY2025/3-5-b.md', 'FY2025/12-1-c.md', 'FY2025/10-5-a.md']);
+        expect(['FY2024', 'FY2026', 'FY2025'].sort(orderEntries)).toEqual(['FY2026', 'FY2025', 'FY2024']);
+
+        const quarters = getInstance({ sort: 'date-asc', inputStructure: 'fiscal-quarter', fiscalYearStartMonth: 11 }, true);
+        expect(['FY2025/Q1/1-5.md', 'FY2025/Q1/12-1.md'].sort(quarters.orderEntries)).toEqual(['FY2025/Q1/12-1.md', 'FY2025/Q1/1-5.md']);
+    });
+
+    it('should walk ISO weeks that span the new year in date order', () => {
+        const { orderEntries } = getInstance({ sort: 'date-asc', inputStructure: 'week' }, true);
+        expect(['2025/W01/1-2-a.md', '2025/W01/12-30-b.md'].sort(orderEntries)).toEqual(['2025/W01/12-30-b.md', '2025/W01/1-2-a.md']);
+    });
+
+    it('should walk directory template months named in words in date order, with undated entries last', () => {
+        const { orderEntries } = getInstance({ sort: 'date-asc', inputDirectoryTemplate: '{YYYY}/{MMM}' }, true);
+        expect(['2024/Dec', 'misc', '2024/Apr', '2024/Feb'].sort(orderEntries)).toEqual(['2024/Feb', '2024/Apr', '2024/Dec', 'misc']);
+        expect(['2024/Feb/10.md', '2024/Feb/9.md'].sort(orderEntries)).toEqual(['2024/Feb/9.md', '2024/Feb/10.md']);
+    });
+
+    it('should sort directory template trees split by extension whole, by the dates of their files', async () => {
+        const { orderEntries, sort } = getInstance({ sort: 'date-desc', inputDirectoryTemplate: '{YYYY}/{ext}' }, true);
+        expect(orderEntries).toBeUndefined();
+        await expect(sort!(['2024/md/3-5.md', '2024/txt/1-2.txt', '2024/md/1-1.md', '2024/txt/12-9.txt']))
+            .resolves.toEqual(['2024/txt/12-9.txt', '2024/md/3-5.md', '2024/txt/1-2.txt', '2024/md/1-1.md']);
+
+        const weeks = getInstance({ sort: 'date-desc', inputDirectoryTemplate: '{YYYY}/W{WW}' }, true);
+        expect(weeks.orderEntries).toBeUndefined();
+    });
+
+    it('should sort unstructured input by the dates found, with undated files last', async () => {
+        const found: Record<string, Date | undefined> = {
+            '/in/a.md': new Date('2025-01-01T00:00:00Z'),
+            '/in/sub/b.md': undefined,
+            '/in/c.md': new Date('2025-06-01T00:00:00Z'),
+        };
+        const resolve = vi.fn(async (file: string) => found[file] && { date: found[file]!, source: 'mtime' as const, time: true });
+        const dates = { sources: ['mtime' as const], resolve };
+
+        const ascending = getInstance({ sort: 'date-asc' }, false, dates);
+        await expect(ascending.sort!(files)).resolves.toEqual(['a.md', 'c.md', 'sub/b.md']);
+
+        const descending = getInstance({ sort: 'date-desc' }, false, dates);
+        await expect(descending.sort!(files)).resolves.toEqual(['c.md', 'a.md', 'sub/b.md']);
+    });
+
+    it('should hand back each date sorting found once, instead of finding it again', async () => {
+        const resolve = vi.fn(async () => ({ date: new Date('2025-01-01T00:00:00Z'), source: 'mtime' as const, time: true }));
+        const { sort, dates } = getInstance({ sort: 'date-asc' }, false, { sources: ['mtime'], resolve });
+
+        await sort!(['a.md']);
+        expect(resolve).toHaveBeenCalledTimes(1);
+
+        await expect(dates!.resolve('/in/a.md')).resolves.toEqual(expect.objectContaining({ source: 'mtime' }));
+        expect(resolve).toHaveBeenCalledTimes(1);
+        await dates!.resolve('/in/a.md');
+        expect(resolve).toHaveBeenCalledTimes(2);
+    });
+});
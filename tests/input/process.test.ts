@@ -1,9 +1,10 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import type { Config, Feature, Logger, Args } from '../../src/dreadcabinet';
+import type * as UnstructuredModule from '../../src/input/unstructured';
 
 // Mock dependencies using vi.mock
 const mockProcessStructuredInput = vi.fn<() => Promise<number>>();
-const mockProcessUnstructuredInput = vi.fn<() => Promise<number>>();
+const mockProcessUnstructuredInput = vi.fn<typeof UnstructuredModule.process>();
 
 vi.mock('../../src/input/structured', () => ({
     process: mockProcessStructuredInput,
@@ -13,6 +14,12 @@ vi.mock('../../src/input/unstructured', () => ({
     process: mockProcessUnstructuredInput,
 }));
 
+const mockCreateSelection = vi.fn<() => Promise<any>>();
+
+vi.mock('../../src/input/selection', () => ({
+    create: mockCreateSelection,
+}));
+
 // Dynamically import the module under test AFTER mocks are defined
 const { process } = await import('../../src/input/process');
 
@@ -56,6 +63,8 @@ describe('Input Processing', () => {
         // Mock the sub-processors to return a file count
         mockProcessStructuredInput.mockResolvedValue(5);
         mockProcessUnstructuredInput.mockResolvedValue(10);
+        // Nothing is included or excluded unless a test says so
+        mockCreateSelection.mockResolvedValue(undefined);
     });
 
     it('should throw an error if the input feature is not enabled', async () => {
@@ -98,6 +107,10 @@ describe('Input Processing', () => {
             mockConfig.inputDirectory,
             mockCallback,
             1,
+            { fiscalYearStartMonth: mockConfig.fiscalYearStartMonth },
+            { onSkip: expect.any(Function), onPrune: undefined, onFail: expect.any(Function), onLimit: expect.any(Function) },
+            undefined,
+            { signal: undefined, interval: undefined },
         );
         expect(mockProcessUnstructuredInput).not.toHaveBeenCalled();
         expect(mockLogger.info).toHaveBeenCalledWith('Processed %d files matching criteria.', expectedFileCount);
@@ -121,6 +134,7 @@ describe('Input Processing', () => {
             mockLogger,
             mockCallback,
             1,
+            { dates: undefined, start: undefined, end: undefined, onSkip: expect.any(Function), onPrune: undefined, onFail: expect.any(Function), onLimit: expect.any(Function) },
         );
         expect(mockProcessStructuredInput).not.toHaveBeenCalled();
         expect(mockLogger.info).toHaveBeenCalledWith('Processed %d files matching criteria.', expectedFileCount);
@@ -144,6 +158,10 @@ describe('Input Processing', () => {
             expect.anything(), // inputDirectory
             expect.anything(), // callback
             1,
+            expect.anything(), // structure options
+            expect.anything(), // hooks
+            undefined, // selection
+            { signal: undefined, interval: undefined },
         );
     });
 
@@ -162,6 +180,194 @@ describe('Input Processing', () => {
             expect.anything(), // logger
             expect.anything(), // callback
             1,
+            expect.anything(), // date sources and filters
         );
     });
+
+    it('should reject start and end for unstructured input without date sources', async () => {
+        await expect(process(mockConfig as Config, mockFeatures, mockLogger, mockCallback, { start: new Date('2023-01-01') }))
+            .rejects.toThrow('Start or end date is not allowed for unstructured input without a date source (--date-source)');
+        expect(mockProcessUnstructuredInput).not.toHaveBeenCalled();
+    });
+
+    it('should pass the sort order on to the input processors', async () => {
+        mockConfig.sort = 'size';
+        await process(mockConfig as Config, mockFeatures, mockLogger, mockCallback);
+        expect(mockProcessUnstructuredInput).toHaveBeenCalledWith(
+            expect.anything(), false, ['txt'], undefined, expect.anything(), mockCallback, 1,
+            expect.objectContaining({ sort: expect.any(Function), orderEntries: undefined }),
+        );
+
+        mockConfig.sort = 'date-desc';
+        await process(mockConfig as Config, ['input', 'structured-input'], mockLogger, mockCallback, { start: new Date('2023-01-01'), end: new Date('2023-01-31') });
+        expect(mockProcessStructuredInput).toHaveBeenCalledWith(
+            expect.anything(), expect.anything(), expect.anything(), expect.anything(),
+            expect.anything(), expect.anything(), undefined, expect.anything(), expect.anything(),
+            expect.anything(), mockCallback, 1, expect.anything(), expect.anything(), undefined,
+            expect.objectContaining({ orderEntries: expect.any(Function), sort: undefined }),
+        );
+    });
+
+    it('should pass the offset and sample on to the input processors', async () => {
+        mockConfig.offset = 20;
+        mockConfig.sample = 5;
+        mockConfig.seed = 'prompt-eval';
+        await process(mockConfig as Config, mockFeatures, mockLogger, mockCallback);
+        expect(mockProcessUnstructuredInput).toHaveBeenCalledWith(
+            expect.anything(), false, ['txt'], undefined, expect.anything(), mockCallback, 1,
+            expect.objectContaining({ offset: 20, sample: expect.any(Function) }),
+        );
+
+        await process(mockConfig as Config, ['input', 'structured-input'], mockLogger, mockCallback, { start: new Date('2023-01-01'), end: new Date('2023-01-31') });
+        expect(mockProcessStructuredInput).toHaveBeenCalledWith(
+            expect.anything(), expect.anything(), expect.anything(), expect.anything(),
+            expect.anything(), expect.anything(), undefined, expect.anything(), expect.anything(),
+            expect.anything(), mockCallback, 1, expect.anything(), expect.anything(), undefined,
+            expect.objectContaining({ offset: 20, sample: expect.any(Function) }),
+        );
+    });
+
+    it('should only ask the input processors to walk past the limit when told to', async () => {
+        await process(mockConfig as Config, mockFeatures, mockLogger, mockCallback);
+        expect(mockProcessUnstructuredInput).toHaveBeenLastCalledWith(
+            expect.anything(), false, ['txt'], undefined, expect.anything(), expect.anything(), 1,
+            expect.objectContaining({ walkPastLimit: undefined, onLimit: expect.any(Function) }),
+        );
+
+        await process(mockConfig as Config, mockFeatures, mockLogger, mockCallback, { walkPastLimit: true });
+        expect(mockProcessUnstructuredInput).toHaveBeenLastCalledWith(
+            expect.anything(), false, ['txt'], undefined, expect.anything(), expect.anything(), 1,
+            expect.objectContaining({ walkPastLimit: true }),
+        );
+    });
+
+    it('should reject sorting unstructured input by date without date sources', async () => {
+        mockConfig.sort = 'date-asc';
+        await expect(process(mockConfig as Config, mockFeatures, mockLogger, mockCallback))
+            .rejects.toThrow('Sorting by date is not possible for unstructured input without a date source (--date-source)');
+        expect(mockProcessUnstructuredInput).not.toHaveBeenCalled();
+    });
+
+    it('should pass date sources and the range to processUnstructuredInput', async () => {
+        const dates = { sources: ['mtime' as const], resolve: vi.fn() };
+        const onSkip = vi.fn();
+        const start = new Date('2023-01-01');
+
+        await process(mockConfig as Config, mockFeatures, mockLogger, mockCallback, { start, onSkip, dates });
+
+        expect(mockProcessUnstructuredInput).toHaveBeenCalledWith(
+            expect.anything(), // inputDirectory
+            false,             // recursive
+            ['txt'],           // extensions
+            undefined, // limit
+            expect.anything(), // logger
+            mockCallback,
+            1,
+            expect.objectContaining({ dates, start, end: undefined }),
+        );
+
+        // The caller's hooks still hear about every skipped file
+        const hooks = mockProcessUnstructuredInput.mock.calls[0][7];
+        hooks?.onSkip?.('/fake/input/old.txt', 'out-of-range', start);
+        expect(onSkip).toHaveBeenCalledWith('/fake/input/old.txt', 'out-of-range', start);
+    });
+
+    it('should report what happened to every file', async () => {
+        const error = new Error('Callback failed');
+        const onFail = vi.fn();
+        mockProcessUnstructuredInput.mockImplementationOnce(async (_directory, _recursive, _extensions, _limit, _logger, _callback, _concurrency, hooks) => {
+            hooks?.onSkip?.('/fake/input/a.txt', 'unparseable-date');
+            await hooks?.onFail?.('/fake/input/b.txt', error);
+            hooks?.onLimit?.('/fake/input/c.txt', 'limit-reached');
+            hooks?.onLimit?.('/fake/input/d.txt', 'offset');
+            return 4;
+        });
+        mockCreateSelection.mockResolvedValue({
+            excludesDirectory: vi.fn(),
+            excludesFile: vi.fn(),
+            excluded: vi.fn(() => ({ files: 2, directories: 1 })),
+        });
+
+        const report = await process(mockConfig as Config, mockFeatures, mockLogger, mockCallback, { onFail });
+
+        expect(report).toEqual({
+            processed: 4,
+            skipped: { 'out-of-range': 0, 'unparseable-date': 1, 'excluded': 2, 'limit-reached': 1, 'offset': 1, 'not-sampled': 0 },
+            failed: [{ file: '/fake/input/b.txt', error }],
+            durationMs: expect.any(Number),
+            filesPerSecond: expect.any(Number),
+            aborted: false,
+        });
+        expect(onFail).toHaveBeenCalledWith('/fake/input/b.txt', error);
+    });
+
+    it('should reject when the error policy stops processing', async () => {
+        mockConfig.onError = 'fail-fast';
+        mockProcessUnstructuredInput.mockImplementationOnce(async (_directory, _recursive, _extensions, _limit, _logger, _callback, _concurrency, hooks) => {
+            await hooks?.onFail?.('/fake/input/b.txt', new Error('Callback failed'));
+            return 0;
+        });
+
+        await expect(process(mockConfig as Config, mockFeatures, mockLogger, mockCallback))
+            .rejects.toThrow('Stopped processing after /fake/input/b.txt failed: Callback failed');
+        expect(mockLogger.info).not.toHaveBeenCalledWith('Processed %d files matching criteria.', expect.anything());
+    });
+
+    it('should tell onStart and onDone about each file the callback completes', async () => {
+        const onStart = vi.fn();
+        const onDone = vi.fn();
+        const onDiscover = vi.fn();
+        mockProcessUnstructuredInput.mockImplementationOnce(async (_directory, _recursive, _extensions, _limit, _logger, callback, _concurrency, hooks) => {
+            hooks?.onDiscover?.('/fake/input/a.txt');
+            await callback('/fake/input/a.txt');
+            return 1;
+        });
+
+        await process(mockConfig as Config, mockFeatures, mockLogger, mockCallback, { onStart, onDone, onDiscover });
+
+        expect(onDiscover).toHaveBeenCalledWith('/fake/input/a.txt');
+        expect(onStart).toHaveBeenCalledWith('/fake/input/a.txt');
+        expect(mockCallback).toHaveBeenCalledWith('/fake/input/a.txt', undefined, undefined, undefined, undefined);
+        expect(onDone).toHaveBeenCalledWith('/fake/input/a.txt');
+        expect(onStart.mock.invocationCallOrder[0]).toBeLessThan(mockCallback.mock.invocationCallOrder[0]);
+    });
+
+    it('should pass the signal on and report the partial counts once aborted', async () => {
+        const controller = new AbortController();
+        mockProcessUnstructuredInput.mockImplementationOnce(async () => {
+            controller.abort();
+            return 2;
+        });
+
+        const report = await process(mockConfig as Config, mockFeatures, mockLogger, mockCallback, { signal: controller.signal });
+
+        expect(mockProcessUnstructuredInput).toHaveBeenCalledWith(
+            expect.anything(), false, ['txt'], undefined, expect.anything(), mockCallback, 1,
+            expect.objectContaining({ signal: controller.signal }),
+        );
+        expect(report).toMatchObject({ processed: 2, aborted: true });
+        expect(mockLogger.warn).toHaveBeenCalledWith('Processing was aborted after %d files, the files not yet started were left alone.', 2);
+    });
+
+    it('should pass the selection to the input processors and report what it excluded', async () => {
+        const selection = {
+            excludesDirectory: vi.fn(),
+            excludesFile: vi.fn(),
+            excluded: vi.fn(() => ({ files: 3, directories: 1 })),
+        };
+        mockCreateSelection.mockResolvedValue(selection);
+
+        await process(mockConfig as Config, mockFeatures, mockLogger, mockCallback);
+
+        expect(mockCreateSelection).toHaveBeenCalledWith(mockConfig, mockLogger);
+        expect(mockProcessUnstructuredInput).toHaveBeenCalledWith(
+            expect.anything(), false, ['txt'], undefined, expect.anything(), mockCallback, 1,
+            expect.objectContaining({ selection }),
+        );
+        expect(mockLogger.info).toHaveBeenCalledWith('Processed %d files matching criteria, excluded %d files and %d directories.', 10, 3, 1);
+
+        mockFeatures = ['input', 'structured-input'];
+        await process(mockConfig as Config, mockFeatures, mockLogger, mockCallback, { start: new Date('2023-01-01'), end: new Date('2023-01-31') });
+        expect((mockProcessStructuredInput.mock.calls[0] as unknown[])[14]).toBe(selection);
+    });
 });
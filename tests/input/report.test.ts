@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Config, Logger } from '../../src/dreadcabinet';
+import type * as ErrorPolicy from '../../src/input/error-policy';
+
+// --- Mock Dependencies ---
+
+const mockHandle = vi.fn<ReturnType<typeof ErrorPolicy.create>['handle']>();
+
+vi.mock('../../src/input/error-policy', () => ({
+    create: vi.fn(() => ({ handle: mockHandle })),
+}));
+
+// --- Dynamically Import Module Under Test ---
+
+const { create } = await import('../../src/input/report');
+
+// --- Test Suite ---
+
+describe('Input: Report', () => {
+    let baseConfig: Config;
+    let mockLogger: Logger;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockHandle.mockResolvedValue(undefined);
+
+        baseConfig = {
+            timezone: 'UTC',
+            inputDirectory: '/in',
+        };
+        mockLogger = {
+            debug: vi.fn(),
+            info: vi.fn(),
+            warn: vi.fn(),
+            error: vi.fn(),
+            verbose: vi.fn(),
+            silly: vi.fn(),
+        };
+    });
+
+    it('should count skipped and limited files and still tell the caller', () => {
+        const onSkip = vi.fn();
+        const onLimit = vi.fn();
+        const report = create(baseConfig, mockLogger, { onSkip, onLimit });
+        const date = new Date('2025-03-07T00:00:00Z');
+
+        report.hooks.onSkip!('/in/a.md', 'out-of-range', date);
+        report.hooks.onSkip!('/in/b.md', 'out-of-range');
+        report.hooks.onLimit!('/in/c.md', 'limit-reached');
+
+        expect(onSkip).toHaveBeenCalledWith('/in/a.md', 'out-of-range', date);
+        expect(onLimit).toHaveBeenCalledWith('/in/c.md', 'limit-reached');
+        expect(report.finish(4, { aborted: false }).skipped).toEqual({
+            'out-of-range': 2, 'unparseable-date': 0, 'excluded': 0, 'limit-reached': 1, 'offset': 0, 'not-sampled': 0,
+        });
+    });
+
+    it('should record each failure, tell the caller and then hand it to the error policy', async () => {
+        const calls: string[] = [];
+        const onFail = vi.fn(async () => { calls.push('onFail'); });
+        mockHandle.mockImplementation(async () => { calls.push('policy'); });
+        const report = create(baseConfig, mockLogger, { onFail });
+        const error = new Error('broken');
+
+        await report.hooks.onFail!('/in/a.md', error);
+        await report.fail('/in/b.md', error);
+
+        expect(calls).toEqual(['onFail', 'policy', 'onFail', 'policy']);
+        expect(mockHandle).toHaveBeenCalledWith({ file: '/in/a.md', error });
+        expect(report.finish(0, { aborted: false }).failed).toEqual([{ file: '/in/a.md', error }, { file: '/in/b.md', error }]);
+    });
+
+    it('should let the error policy stop processing by throwing', async () => {
+        mockHandle.mockRejectedValue(new Error('Too many errors'));
+        const report = create(baseConfig, mockLogger);
+
+        await expect(report.fail('/in/a.md', new Error('broken'))).rejects.toThrow('Too many errors');
+    });
+
+    it('should log the summary and count the files excluded one by one', () => {
+        const report = create(baseConfig, mockLogger);
+
+        const result = report.finish(7, { excluded: { files: 2, directories: 1 }, aborted: true });
+
+        expect(mockLogger.info).toHaveBeenCalledWith('Processed %d files matching criteria, excluded %d files and %d directories.', 7, 2, 1);
+        expect(result).toMatchObject({ processed: 7, aborted: true, skipped: expect.objectContaining({ excluded: 2 }) });
+        expect(result.durationMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should name the batches in the summary when there are any', () => {
+        const report = create(baseConfig, mockLogger);
+
+        report.finish(7, { aborted: false, batches: 3 });
+
+        expect(mockLogger.info).toHaveBeenCalledWith('Processed %d files matching criteria in %d batches.', 7, 3);
+    });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Config, Options } from '../../src/dreadcabinet';
+
+const { create, backoffDelay, rateLimitInterval } = await import('../../src/input/retry');
+const { TimeoutError } = await import('../../src/error/TimeoutError');
+
+describe('Input: Retry', () => {
+    let baseConfig: Config;
+    let baseOptions: Options;
+
+    const getInstance = (configOverrides: Partial<Config> = {}, optionOverrides: Partial<Options> = {}) =>
+        create({ ...baseConfig, ...configOverrides }, { ...baseOptions, ...optionOverrides });
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        baseConfig = {
+            timezone: 'UTC',
+            inputDirectory: '/in',
+        };
+        baseOptions = {
+            logger: {
+                debug: vi.fn(),
+                info: vi.fn(),
+                warn: vi.fn(),
+                error: vi.fn(),
+                verbose: vi.fn(),
+                silly: vi.fn(),
+            },
+            features: ['input'],
+            addDefaults: false,
+        };
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    describe('backoffDelay', () => {
+        it('should double the delay for each retry, with up to half of it random', () => {
+            expect(backoffDelay(1, 1000, () => 0)).toBe(500);
+            expect(backoffDelay(1, 1000, () => 1)).toBe(1000);
+            expect(backoffDelay(3, 1000, () => 0.5)).toBe(3000);
+        });
+
+        it('should never wait more than a minute', () => {
+            expect(backoffDelay(20, 1000, () => 1)).toBe(60000);
+        });
+    });
+
+    describe('rateLimitInterval', () => {
+        it('should space files out evenly over a second or a minute', () => {
+            expect(rateLimitInterval('5/s')).toBe(200);
+            expect(rateLimitInterval('30/m')).toBe(2000);
+            expect(rateLimitInterval('0.5/s')).toBe(2000);
+        });
+    });
+
+    describe('run', () => {
+        it('should try a file once without retries', async () => {
+            const attempt = vi.fn().mockRejectedValue(new Error('Server unavailable'));
+
+            await expect(getInstance().run('/in/note.md', attempt)).rejects.toThrow('Server unavailable');
+            expect(attempt).toHaveBeenCalledTimes(1);
+        });
+
+        it('should try again with backoff until an attempt succeeds', async () => {
+            const attempt = vi.fn()
+                .mockRejectedValueOnce(new Error('Server unavailable'))
+                .mockRejectedValueOnce(new Error('Server unavailable'))
+                .mockResolvedValue(undefined);
+
+            const run = getInstance({ retries: 3, retryDelay: 100 }).run('/in/note.md', attempt);
+            await vi.runAllTimersAsync();
+            await expect(run).resolves.toBeUndefined();
+
+            expect(attempt).toHaveBeenCalledTimes(3);
+            expect(baseOptions.logger.warn).toHaveBeenCalledWith('Processing %s failed: %s. Trying again in %dms (retry %d of %d)',
+                '/in/note.md', 'Server unavailable', expect.any(Number), 2, 3);
+        });
+
+        it('should throw the last error once the retries run out', async () => {
+            const attempt = vi.fn()
+                .mockRejectedValueOnce(new Error('First'))
+                .mockRejectedValueOnce(new Error('Second'));
+
+            const run = getInstance({ retries: 1, retryDelay: 100 }).run('/in/note.md', attempt);
+            const rejection = expect(run).rejects.toThrow('Second');
+            await vi.runAllTimersAsync();
+            await rejection;
+        });
+
+        it('should not try again when the predicate says the error will not go away', async () => {
+            const retryable = vi.fn(() => false);
+            const error = new Error('Unsupported format');
+            const attempt = vi.fn().mockRejectedValue(error);
+
+            await expect(getInstance({ retries: 3 }, { retryable }).run('/in/note.md', attempt)).rejects.toBe(error);
+
+            expect(attempt).toHaveBeenCalledTimes(1);
+            expect(retryable).toHaveBeenCalledWith(error, '/in/note.md', 1);
+        });
+
+        it('should fail an attempt that takes too long and abort its signal', async () => {
+            let attemptSignal: AbortSignal | undefined;
+            const attempt = vi.fn((signal?: AbortSignal) => {
+                attemptSignal = signal;
+                return new Promise<void>(() => undefined);
+            });
+
+            const run = getInstance({ timeout: 5000 }).run('/in/note.md', attempt);
+            const rejection = expect(run).rejects.toThrow(new TimeoutError('/in/note.md', 5000));
+            await vi.advanceTimersByTimeAsync(5000);
+            await rejection;
+
+            expect(attemptSignal?.aborted).toBe(true);
+            expect(attemptSignal?.reason).toBeInstanceOf(TimeoutError);
+        });
+
+        it('should stop trying once the run is aborted', async () => {
+            const controller = new AbortController();
+            const attempt = vi.fn(async () => {
+                controller.abort();
+                throw new Error('Server unavailable');
+            });
+
+            await expect(getInstance({ retries: 3 }).run('/in/note.md', attempt, controller.signal)).rejects.toThrow('Server unavailable');
+            expect(attempt).toHaveBeenCalledTimes(1);
+        });
+    });
+});
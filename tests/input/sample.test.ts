@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Config, Logger } from '../../src/dreadcabinet';
+
+const { create, rank } = await import('../../src/input/sample');
+
+describe('Input: Sample', () => {
+    let baseConfig: Config;
+    let logger: Logger;
+
+    const files = Array.from({ length: 20 }, (_, i) => `2025/${i % 12 + 1}/${i}-note.md`);
+
+    beforeEach(() => {
+        baseConfig = {
+            timezone: 'UTC',
+            inputDirectory: '/in',
+        };
+        logger = {
+            debug: vi.fn(),
+            info: vi.fn(),
+            warn: vi.fn(),
+            error: vi.fn(),
+            verbose: vi.fn(),
+            silly: vi.fn(),
+        };
+    });
+
+    it('should not sample without a sample size', () => {
+        expect(create(baseConfig, logger)).toBeUndefined();
+    });
+
+    it('should pick the same files for the same seed, whatever order they come in', () => {
+        const sample = create({ ...baseConfig, sample: 5, seed: 'prompt-eval' }, logger)!;
+
+        const picked = sample(files);
+        expect(picked).toHaveLength(5);
+        expect(new Set(sample([...files].reverse()))).toEqual(new Set(picked));
+        expect(picked.every(file => files.includes(file))).toBe(true);
+        expect(logger.info).not.toHaveBeenCalled();
+    });
+
+    it('should pick other files for another seed', () => {
+        const picked = create({ ...baseConfig, sample: 5, seed: 'a' }, logger)!(files);
+        const other = create({ ...baseConfig, sample: 5, seed: 'b' }, logger)!(files);
+        expect(new Set(other)).not.toEqual(new Set(picked));
+    });
+
+    it('should keep the files picked when others are added, unless a new one ranks ahead of them', () => {
+        const sample = create({ ...baseConfig, sample: 5, seed: 'prompt-eval' }, logger)!;
+        const picked = sample(files);
+        const added = 'zzz/added.md';
+
+        const again = sample([...files, added]);
+        const displaced = picked.filter(file => !again.includes(file));
+        if (again.includes(added)) {
+            expect(displaced).toHaveLength(1);
+            expect(rank('prompt-eval', added) < rank('prompt-eval', displaced[0])).toBe(true);
+        } else {
+            expect(displaced).toEqual([]);
+        }
+    });
+
+    it('should pick every file when there are fewer than the sample size', () => {
+        const sample = create({ ...baseConfig, sample: 50, seed: 'prompt-eval' }, logger)!;
+        expect(new Set(sample(files))).toEqual(new Set(files));
+    });
+
+    it('should make up a seed and log it when none is given', () => {
+        create({ ...baseConfig, sample: 5 }, logger);
+        expect(logger.info).toHaveBeenCalledWith('Sampling %d files with seed %s, pass --seed %s to pick the same files again', 5, expect.stringMatching(/^[0-9a-f]{8}$/), expect.any(String));
+    });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Config, Logger } from '../../src/dreadcabinet';
+import type * as StorageUtil from '../../src/util/storage';
+
+// --- Mock Dependencies ---
+
+const mockExists = vi.fn<StorageUtil.Utility['exists']>();
+const mockReadFile = vi.fn<StorageUtil.Utility['readFile']>();
+// @ts-ignore - Only mocking used methods
+const mockStorageCreate = vi.fn<typeof StorageUtil.create>().mockReturnValue({
+    exists: mockExists,
+    readFile: mockReadFile,
+});
+
+vi.mock('../../src/util/storage', () => ({
+    create: mockStorageCreate,
+}));
+
+// --- Dynamically Import Module Under Test ---
+
+const { create, parseIgnoreFile, isIgnored } = await import('../../src/input/selection');
+
+// --- Test Suite ---
+
+describe('Input: Selection', () => {
+    let baseConfig: Config;
+    let ignoreFiles: Record<string, string>;
+    const logger: Logger = {
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        verbose: vi.fn(),
+        silly: vi.fn(),
+    };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        baseConfig = { timezone: 'UTC', inputDirectory: '/input' } as Config;
+        ignoreFiles = {};
+        mockExists.mockImplementation(async (file: string) => file in ignoreFiles);
+        mockReadFile.mockImplementation(async (file: string) => ignoreFiles[file]);
+    });
+
+    describe('parseIgnoreFile', () => {
+        const rules = parseIgnoreFile([
+            '# build output',
+            'build/',
+            '*.log',
+            '!keep.log',
+            '/drafts',
+            'notes/**/private.md   ',
+            '\\#literal.md',
+            '',
+        ].join('\n'));
+
+        it('matches patterns without a leading or middle slash at any depth', () => {
+            expect(isIgnored(rules, 'error.log', false)).toBe(true);
+            expect(isIgnored(rules, 'a/b/error.log', false)).toBe(true);
+            expect(isIgnored(rules, 'a/build', true)).toBe(true);
+        });
+
+        it('only matches directories with a trailing slash', () => {
+            expect(isIgnored(rules, 'build', true)).toBe(true);
+            expect(isIgnored(rules, 'build', false)).toBe(false);
+        });
+
+        it('anchors patterns with a slash to the input directory', () => {
+            expect(isIgnored(rules, 'drafts', true)).toBe(true);
+            expect(isIgnored(rules, 'a/drafts', true)).toBe(false);
+            expect(isIgnored(rules, 'notes/2025/private.md', false)).toBe(true);
+        });
+
+        it('lets later negated rules include files again', () => {
+            expect(isIgnored(rules, 'keep.log', false)).toBe(false);
+        });
+
+        it('skips comments and reads escaped characters literally', () => {
+            expect(rules).toHaveLength(6);
+            expect(isIgnored(rules, '#literal.md', false)).toBe(true);
+        });
+    });
+
+    describe('create', () => {
+        it('returns undefined when there is nothing to include or exclude', async () => {
+            await expect(create(baseConfig, logger)).resolves.toBeUndefined();
+            expect(mockExists).toHaveBeenCalledWith('/input/.dreadcabinetignore');
+            expect(mockExists).not.toHaveBeenCalledWith('/input/.gitignore');
+        });
+
+        it('applies include and exclude globs relative to the input directory', async () => {
+            const selection = (await create({ ...baseConfig, include: ['notes/**/*.md'], exclude: ['notes/drafts', '**/*.tmp.md'] }, logger))!;
+
+            expect(selection.excludesFile('notes/2025/plan.md')).toBe(false);
+            expect(selection.excludesFile('todo.md')).toBe(true);
+            expect(selection.excludesFile('notes/scratch.tmp.md')).toBe(true);
+            expect(selection.excludesDirectory('notes/drafts')).toBe(true);
+            expect(selection.excludesDirectory('notes/2025')).toBe(false);
+            expect(selection.excluded()).toEqual({ files: 2, directories: 1 });
+        });
+
+        it('reads .dreadcabinetignore, and .gitignore only when asked to', async () => {
+            ignoreFiles = { '/input/.dreadcabinetignore': 'private/\n', '/input/.gitignore': '*.bak\n' };
+
+            const selection = (await create(baseConfig, logger))!;
+            expect(selection.excludesDirectory('private')).toBe(true);
+            expect(selection.excludesFile('notes.bak')).toBe(false);
+
+            const withGitignore = (await create({ ...baseConfig, gitignore: true }, logger))!;
+            expect(withGitignore.excludesFile('notes.bak')).toBe(true);
+            expect(withGitignore.excludesDirectory('private')).toBe(true);
+        });
+
+        it('lets the .dreadcabinetignore override the .gitignore', async () => {
+            ignoreFiles = { '/input/.gitignore': '*.md\n', '/input/.dreadcabinetignore': '!*.md\n' };
+
+            const selection = (await create({ ...baseConfig, gitignore: true }, logger))!;
+            expect(selection.excludesFile('notes.md')).toBe(false);
+        });
+
+        it('leaves out a quarantine directory inside the input directory without counting it', async () => {
+            const selection = (await create({ ...baseConfig, onError: 'quarantine', quarantineDirectory: '/input/failed' }, logger))!;
+            expect(selection.excludesDirectory('failed')).toBe(true);
+            expect(selection.excludesDirectory('notes')).toBe(false);
+            expect(selection.excluded()).toEqual({ files: 0, directories: 0 });
+
+            await expect(create({ ...baseConfig, onError: 'quarantine', quarantineDirectory: '/quarantine' }, logger)).resolves.toBeUndefined();
+            await expect(create({ ...baseConfig, quarantineDirectory: '/input/failed' }, logger)).resolves.toBeUndefined();
+        });
+    });
+});
@@ -6,7 +6,9 @@ import * as path from 'node:path';
 type FileCallback = (file: string, date?: Date) => Promise<void>;
 
 // Mock dependencies with proper type annotations
-vi.mock('../../src/util/dates', () => ({
+vi.mock('../../src/util/dates', async (importOriginal) => ({
+    // Keep the pure ISO week helpers, only the date utility is mocked
+    ...await importOriginal<typeof import('../../src/util/dates')>(),
     create: vi.fn(() => ({
         now: vi.fn((): Date => new Date('2023-01-01T00:00:00Z')),
         subDays: vi.fn((date: Date, days: number): Date => {
@@ -14,6 +16,8 @@ vi.mock('../../src/util/dates', () => ({
             result.setUTCDate(result.getUTCDate() - days);
             return result;
         }),
+        // Local date strings are read as UTC, the timezone these tests use
+        date: vi.fn((date: string): Date => new Date(`${date}Z`)),
         parse: vi.fn((date: Date | string): Date => new Date(date)),
         format: vi.fn((): string => '2023-01-01'),
         isBefore: vi.fn((date1: Date, date2: Date): boolean => date1 < date2),
@@ -29,7 +33,10 @@ vi.mock('../../src/util/storage', () => ({
                 `${dir}/2023/01/01/0000-sample.json`,
             ];
             for (const file of mockFiles) {
-                await callback(file);
+                // Only files the date range matches are handed to the callback, as forEachFileIn does
+                if (await options.matches(file)) {
+                    await callback(file);
+                }
             }
         }),
     })),
@@ -239,6 +246,20 @@ describe('structured.ts', () => {
             expect(date).toEqual(new Date(Date.UTC(2022, 0, 15, 8, 30)));
         });
 
+        it('should parse padded and unpadded "day" directories alike', async () => {
+            const structured = await importStructured();
+            const padded = structured.parseDateFromFilePath('2022/03/07/0830-test.txt', '0830-test.txt', 'day', true, 'UTC', mockLogger);
+            const mixed = structured.parseDateFromFilePath('2022/3/07/0830-test.txt', '0830-test.txt', 'day', true, 'UTC', mockLogger);
+            expect(padded).toEqual(new Date(Date.UTC(2022, 2, 7, 8, 30)));
+            expect(mixed).toEqual(padded);
+        });
+
+        it('should parse padded filename dates under the "year" structure', async () => {
+            const structured = await importStructured();
+            const date = structured.parseDateFromFilePath('2022/03-07-0830-test.txt', '03-07-0830-test.txt', 'year', true, 'UTC', mockLogger);
+            expect(date).toEqual(new Date(Date.UTC(2022, 2, 7, 8, 30)));
+        });
+
         it('should parse date from path with "day" structure', async () => {
             const structured = await importStructured();
             const date = structured.parseDateFromFilePath(
@@ -252,6 +273,109 @@ describe('structured.ts', () => {
             expect(date).toEqual(new Date(Date.UTC(2022, 0, 15, 8, 30)));
         });
 
+        it('should parse date from path with "week" structure', async () => {
+            const structured = await importStructured();
+            const date = structured.parseDateFromFilePath(
+                '2022/W02/1-15-0830-test.txt',
+                '1-15-0830-test.txt',
+                'week',
+                true,
+                'UTC',
+                mockLogger
+            );
+            expect(date).toEqual(new Date(Date.UTC(2022, 0, 15, 8, 30)));
+        });
+
+        it('should resolve the previous calendar year for December days in week 1', async () => {
+            const structured = await importStructured();
+            const date = structured.parseDateFromFilePath(
+                '2025/W01/12-30-test.txt',
+                '12-30-test.txt',
+                'week',
+                false,
+                'UTC',
+                mockLogger
+            );
+            expect(date).toEqual(new Date(Date.UTC(2024, 11, 30)));
+        });
+
+        it('should resolve the next calendar year for January days in week 53', async () => {
+            const structured = await importStructured();
+            const date = structured.parseDateFromFilePath(
+                '2020/W53/1-2-test.txt',
+                '1-2-test.txt',
+                'week',
+                false,
+                'UTC',
+                mockLogger
+            );
+            expect(date).toEqual(new Date(Date.UTC(2021, 0, 2)));
+        });
+
+        it('should return null when the filename date is not in the week directory', async () => {
+            const structured = await importStructured();
+            const date = structured.parseDateFromFilePath(
+                '2022/W10/1-15-test.txt',
+                '1-15-test.txt',
+                'week',
+                false,
+                'UTC',
+                mockLogger
+            );
+            expect(date).toBeNull();
+            expect(mockLogger.warn).toHaveBeenCalledWith('Date in filename 1-15-test.txt does not fall in ISO week 2022/W10');
+        });
+
+        it('should return null for an invalid week directory', async () => {
+            const structured = await importStructured();
+            const date = structured.parseDateFromFilePath(
+                '2023/W53/1-2-test.txt',
+                '1-2-test.txt',
+                'week',
+                false,
+                'UTC',
+                mockLogger
+            );
+            expect(date).toBeNull();
+        });
+
+        it('should parse date from path with "quarter" structure', async () => {
+            const structured = await importStructured();
+            const date = structured.parseDateFromFilePath('2022/Q1/2-15-test.txt', '2-15-test.txt', 'quarter', false, 'UTC', mockLogger);
+            expect(date).toEqual(new Date(Date.UTC(2022, 1, 15)));
+        });
+
+        it('should return null when the filename date is not in the quarter directory', async () => {
+            const structured = await importStructured();
+            const date = structured.parseDateFromFilePath('2022/Q2/2-15-test.txt', '2-15-test.txt', 'quarter', false, 'UTC', mockLogger);
+            expect(date).toBeNull();
+        });
+
+        it('should parse date from path with "fiscal-year" structure', async () => {
+            const structured = await importStructured();
+            const options = { fiscalYearStartMonth: 10 };
+            expect(structured.parseDateFromFilePath('FY2025/11-3-test.txt', '11-3-test.txt', 'fiscal-year', false, 'UTC', mockLogger, options))
+                .toEqual(new Date(Date.UTC(2024, 10, 3)));
+            expect(structured.parseDateFromFilePath('FY2025/3-1-test.txt', '3-1-test.txt', 'fiscal-year', false, 'UTC', mockLogger, options))
+                .toEqual(new Date(Date.UTC(2025, 2, 1)));
+        });
+
+        it('should parse date from path with "fiscal-quarter" structure', async () => {
+            const structured = await importStructured();
+            const options = { fiscalYearStartMonth: 10 };
+            expect(structured.parseDateFromFilePath('FY2025/Q1/12-24-test.txt', '12-24-test.txt', 'fiscal-quarter', false, 'UTC', mockLogger, options))
+                .toEqual(new Date(Date.UTC(2024, 11, 24)));
+            expect(structured.parseDateFromFilePath('FY2025/Q2/12-24-test.txt', '12-24-test.txt', 'fiscal-quarter', false, 'UTC', mockLogger, options))
+                .toBeNull();
+        });
+
+        it('should return null for an invalid fiscal year directory', async () => {
+            const structured = await importStructured();
+            const date = structured.parseDateFromFilePath('archive/Q1/1-2-test.txt', '1-2-test.txt', 'fiscal-quarter', false, 'UTC', mockLogger);
+            expect(date).toBeNull();
+            expect(mockLogger.warn).toHaveBeenCalledWith('Invalid fiscal year/quarter format in path: archive/Q1');
+        });
+
         it('should return null for invalid path format', async () => {
             const structured = await importStructured();
             const date = structured.parseDateFromFilePath(
@@ -264,6 +388,167 @@ describe('structured.ts', () => {
             );
             expect(date).toBeNull();
         });
+
+        it('should read "none" filenames with the configured filename date patterns', async () => {
+            const structured = await importStructured();
+            const options = { filenameDatePatterns: ['camera', 'screenshot'] };
+            const photo = structured.parseDateFromFilePath('IMG_20240101_123000.jpg', 'IMG_20240101_123000.jpg', 'none', true, 'UTC', mockLogger, options);
+            const screenshot = structured.parseDateFromFilePath('Screenshot 2024-01-02 at 10.00.00.png', 'Screenshot 2024-01-02 at 10.00.00.png', 'none', false, 'UTC', mockLogger, options);
+            const ownFormat = structured.parseDateFromFilePath('2024-1-3-1000.md', '2024-1-3-1000.md', 'none', true, 'UTC', mockLogger, options);
+
+            expect(photo).toEqual(new Date(Date.UTC(2024, 0, 1, 12, 30)));
+            expect(mockLogger.verbose).toHaveBeenCalledWith('Found date %s in filename %s with pattern %s', photo!.toISOString(), 'IMG_20240101_123000.jpg', 'camera');
+            // Times are only read when the time filename option is set
+            expect(screenshot).toEqual(new Date(Date.UTC(2024, 0, 2)));
+            // Only the listed patterns are tried
+            expect(ownFormat).toBeNull();
+        });
+    });
+
+    describe('parseDirectoryTemplate', () => {
+        it('should capture date parts from a matching directory', async () => {
+            const structured = await importStructured();
+            expect(structured.parseDirectoryTemplate('2025/03-March/07', '{YYYY}/{MM}-{MMMM}/{DD}'))
+                .toEqual({ year: 2025, month: 3, day: 7 });
+        });
+
+        it('should capture ISO weeks, quarters and extensions', async () => {
+            const structured = await importStructured();
+            expect(structured.parseDirectoryTemplate('2025/md/W03', '{GGGG}/{ext}/W{WW}'))
+                .toEqual({ weekYear: 2025, ext: 'md', week: 3 });
+            expect(structured.parseDirectoryTemplate('2025/Q1', '{YYYY}/Q{Q}'))
+                .toEqual({ year: 2025, quarter: 1 });
+        });
+
+        it('should accept unpadded numbers for padded tokens', async () => {
+            const structured = await importStructured();
+            expect(structured.parseDirectoryTemplate('2025/3/7', '{YYYY}/{MM}/{DD}')).toEqual({ year: 2025, month: 3, day: 7 });
+        });
+
+        it('should match month names case-insensitively', async () => {
+            const structured = await importStructured();
+            expect(structured.parseDirectoryTemplate('2025/mar', '{YYYY}/{MMM}')).toEqual({ year: 2025, month: 3 });
+        });
+
+        it('should return null when the directory does not match', async () => {
+            const structured = await importStructured();
+            expect(structured.parseDirectoryTemplate('2025/3', '{YYYY}/{MM}-{MMMM}')).toBeNull();
+            expect(structured.parseDirectoryTemplate('2025/Smarch', '{YYYY}/{MMMM}')).toBeNull();
+        });
+
+        it('should return null when the same part is captured with different values', async () => {
+            const structured = await importStructured();
+            expect(structured.parseDirectoryTemplate('2025/03-April', '{YYYY}/{MM}-{MMMM}')).toBeNull();
+        });
+    });
+
+    describe('parseDateFromFilePath with a directory template', () => {
+        it('should read back a tree written with a year/month/day template', async () => {
+            const structured = await importStructured();
+            const options = { directoryTemplate: '{YYYY}/{MM}-{MMMM}/{DD}' };
+            const date = structured.parseDateFromFilePath('2025/03-March/07/0830-note.md', '0830-note.md', 'month', true, 'UTC', mockLogger, options);
+            expect(date).toEqual(new Date(Date.UTC(2025, 2, 7, 8, 30)));
+        });
+
+        it('should read the day from the filename when the template stops at the month', async () => {
+            const structured = await importStructured();
+            const options = { directoryTemplate: '{YYYY}/{ext}/{MM}' };
+            const date = structured.parseDateFromFilePath('2025/md/03/7-note.md', '7-note.md', 'month', false, 'UTC', mockLogger, options);
+            expect(date).toEqual(new Date(Date.UTC(2025, 2, 7)));
+        });
+
+        it('should resolve ISO week-years from the filename month', async () => {
+            const structured = await importStructured();
+            const options = { directoryTemplate: '{GGGG}/W{WW}' };
+            const date = structured.parseDateFromFilePath('2025/W01/12-30-note.md', '12-30-note.md', 'month', false, 'UTC', mockLogger, options);
+            expect(date).toEqual(new Date(Date.UTC(2024, 11, 30)));
+        });
+
+        it('should reject files whose extension does not match the {ext} directory', async () => {
+            const structured = await importStructured();
+            const options = { directoryTemplate: '{YYYY}/{ext}/{MM}' };
+            const date = structured.parseDateFromFilePath('2025/txt/03/7-note.md', '7-note.md', 'month', false, 'UTC', mockLogger, options);
+            expect(date).toBeNull();
+        });
+
+        it('should reject files whose date does not match the quarter directory', async () => {
+            const structured = await importStructured();
+            const options = { directoryTemplate: '{YYYY}/Q{Q}' };
+            const date = structured.parseDateFromFilePath('2025/Q2/1-15-note.md', '1-15-note.md', 'month', false, 'UTC', mockLogger, options);
+            expect(date).toBeNull();
+            expect(mockLogger.warn).toHaveBeenCalledWith('Date in filename 1-15-note.md does not match its directory 2025/Q2');
+        });
+
+        it('should reject paths that do not match the template', async () => {
+            const structured = await importStructured();
+            const options = { directoryTemplate: '{YYYY}/{MM}' };
+            const date = structured.parseDateFromFilePath('notes/7-note.md', '7-note.md', 'month', false, 'UTC', mockLogger, options);
+            expect(date).toBeNull();
+        });
+    });
+
+    describe('directoryDateRange', () => {
+        const range = (start: string, end: string) => ({ start: new Date(`${start}T00:00:00Z`), end: new Date(`${end}T00:00:00Z`) });
+
+        it('should cover the years, months and days of the calendar structures', async () => {
+            const structured = await importStructured();
+            expect(structured.directoryDateRange('2024', 'day', 'UTC')).toEqual(range('2024-01-01', '2025-01-01'));
+            expect(structured.directoryDateRange('2024/2', 'month', 'UTC')).toEqual(range('2024-02-01', '2024-03-01'));
+            expect(structured.directoryDateRange('2024/12/31', 'day', 'UTC')).toEqual(range('2024-12-31', '2025-01-01'));
+            expect(structured.directoryDateRange('2024/Q4', 'quarter', 'UTC')).toEqual(range('2024-10-01', '2025-01-01'));
+        });
+
+        it('should cover ISO week-years and weeks for the week structure', async () => {
+            const structured = await importStructured();
+            // ISO 2025 runs from Monday 2024-12-30 to Sunday 2025-12-28
+            expect(structured.directoryDateRange('2025', 'week', 'UTC')).toEqual(range('2024-12-30', '2025-12-29'));
+            expect(structured.directoryDateRange('2025/W02', 'week', 'UTC')).toEqual(range('2025-01-06', '2025-01-13'));
+            expect(structured.directoryDateRange('2025/W54', 'week', 'UTC')).toBeNull();
+        });
+
+        it('should cover fiscal years and quarters from the fiscal year start month', async () => {
+            const structured = await importStructured();
+            const options = { fiscalYearStartMonth: 10 };
+            expect(structured.directoryDateRange('FY2025', 'fiscal-year', 'UTC', options)).toEqual(range('2024-10-01', '2025-10-01'));
+            expect(structured.directoryDateRange('FY2025/Q2', 'fiscal-quarter', 'UTC', options)).toEqual(range('2025-01-01', '2025-04-01'));
+        });
+
+        it('should match directories against the levels of a directory template', async () => {
+            const structured = await importStructured();
+            const options = { directoryTemplate: '{YYYY}/{MM}-{MMMM}/{DD}' };
+            expect(structured.directoryDateRange('2025', 'none', 'UTC', options)).toEqual(range('2025-01-01', '2026-01-01'));
+            expect(structured.directoryDateRange('2025/03-March', 'none', 'UTC', options)).toEqual(range('2025-03-01', '2025-04-01'));
+            expect(structured.directoryDateRange('2025/03-April', 'none', 'UTC', options)).toBeNull();
+        });
+
+        it('should return null for directories that say nothing about dates', async () => {
+            const structured = await importStructured();
+            expect(structured.directoryDateRange('archive', 'none', 'UTC')).toBeNull();
+            expect(structured.directoryDateRange('notes', 'month', 'UTC')).toBeNull();
+            expect(structured.directoryDateRange('2024/2/30', 'day', 'UTC')).toBeNull();
+            expect(structured.directoryDateRange('2024/01/01/extra', 'day', 'UTC')).toBeNull();
+        });
+    });
+
+    describe('matchStructuredFile', () => {
+        it('should give the date of a file in range, and skip the rest without calling anything else', async () => {
+            const structured = await importStructured();
+            const onSkip = vi.fn();
+            const dateRange = {
+                start: new Date('2022-01-01'),
+                end: new Date('2022-02-01')
+            };
+
+            await expect(structured.matchStructuredFile(
+                '/input/2022/01/15/0830-test.txt', '/input', 'day', true, 'UTC', '**/*.*', dateRange, mockLogger, {}, { onSkip }
+            )).resolves.toEqual(new Date(Date.UTC(2022, 0, 15, 8, 30)));
+            await expect(structured.matchStructuredFile(
+                '/input/2022/02/15/0830-test.txt', '/input', 'day', true, 'UTC', '**/*.*', dateRange, mockLogger, {}, { onSkip }
+            )).resolves.toBeUndefined();
+
+            expect(onSkip).toHaveBeenCalledTimes(1);
+            expect(onSkip).toHaveBeenCalledWith('/input/2022/02/15/0830-test.txt', 'out-of-range', new Date(Date.UTC(2022, 1, 15, 8, 30)));
+        });
     });
 
     describe('processStructuredFile', () => {
@@ -318,6 +603,45 @@ describe('structured.ts', () => {
             expect(callback).not.toHaveBeenCalled();
         });
 
+        it('should report skipped files and why through the onSkip hook', async () => {
+            const structured = await importStructured();
+            const callback = vi.fn() as unknown as FileCallback;
+            const onSkip = vi.fn();
+            const dateRange = {
+                start: new Date('2023-01-01'),
+                end: new Date('2023-02-01')
+            };
+
+            await structured.processStructuredFile(
+                '/input/2022/01/15/0830-test.txt', '/input', 'day', true, 'UTC', callback, '**/*.*', dateRange, mockLogger, {}, { onSkip }
+            );
+            await structured.processStructuredFile(
+                '/input/2022/13/15/0830-test.txt', '/input', 'day', true, 'UTC', callback, '**/*.*', dateRange, mockLogger, {}, { onSkip }
+            );
+
+            expect(onSkip).toHaveBeenNthCalledWith(1, '/input/2022/01/15/0830-test.txt', 'out-of-range', new Date(Date.UTC(2022, 0, 15, 8, 30)));
+            expect(onSkip).toHaveBeenNthCalledWith(2, '/input/2022/13/15/0830-test.txt', 'unparseable-date');
+            expect(callback).not.toHaveBeenCalled();
+        });
+
+        it('should report files whose callback throws through the onFail hook', async () => {
+            const structured = await importStructured();
+            const error = new Error('Callback failed');
+            const callback = vi.fn().mockRejectedValue(error) as unknown as FileCallback;
+            const onFail = vi.fn();
+            const dateRange = {
+                start: new Date('2022-01-01'),
+                end: new Date('2023-01-01')
+            };
+
+            const result = await structured.processStructuredFile(
+                '/input/2022/01/15/0830-test.txt', '/input', 'day', true, 'UTC', callback, '**/*.*', dateRange, mockLogger, {}, { onFail }
+            );
+
+            expect(result).toBe(false);
+            expect(onFail).toHaveBeenCalledWith('/input/2022/01/15/0830-test.txt', error);
+        });
+
         it('should skip if file path cannot be parsed', async () => {
             const structured = await importStructured();
             const callback = vi.fn() as unknown as FileCallback;
@@ -392,6 +716,7 @@ describe('structured.ts', () => {
                 forEachFileIn: vi.fn(async (dir: string, cb: (file: string) => Promise<void>, options: any) => {
                     expect(options?.concurrency).toBe(concurrency);
                     const promises = mockFiles.map(async (file) => {
+                        if (!await options.matches(file)) return;
                         currentParallel++;
                         if (currentParallel > maxParallel) maxParallel = currentParallel;
                         await cb(file);
@@ -420,5 +745,85 @@ describe('structured.ts', () => {
             expect(callback).toHaveBeenCalledTimes(2);
             expect(maxParallel).toBeGreaterThan(1); // Should have parallelism
         });
+
+        it('should prune directories outside the date range and report them', async () => {
+            const structured = await importStructured();
+            const callback = vi.fn() as unknown as FileCallback;
+            const onPrune = vi.fn();
+            const visited: string[] = [];
+
+            const storageModule = await import('../../src/util/storage');
+            (storageModule.create as ReturnType<typeof vi.fn>).mockReturnValue({
+                forEachFileIn: vi.fn(async (dir: string, cb: (file: string) => Promise<void>, options: any) => {
+                    for (const directory of ['2021', '2022', '2022/01', '2022/02', '2022/02/14', '2022/02/15']) {
+                        if (!options.prune(directory)) {
+                            visited.push(directory);
+                        }
+                    }
+                    if (await options.matches(`${dir}/2022/02/15/0830-file.md`)) {
+                        await cb(`${dir}/2022/02/15/0830-file.md`);
+                    }
+                })
+            });
+
+            const fileCount = await structured.process(
+                'day',
+                ['time'],
+                ['md'],
+                'UTC',
+                new Date('2022-02-15'),
+                new Date('2022-02-16'),
+                undefined,
+                [],
+                mockLogger,
+                '/input',
+                callback,
+                1,
+                {},
+                { onPrune }
+            );
+
+            expect(fileCount).toBe(1);
+            expect(visited).toEqual(['2022', '2022/02', '2022/02/15']);
+            expect(onPrune.mock.calls).toEqual([['/input/2021'], ['/input/2022/01'], ['/input/2022/02/14']]);
+            expect(mockLogger.info).toHaveBeenCalledWith('Pruned %d directories outside the date range.', 3);
+        });
+
+        it('should pass files the limit leaves out on to onLimit', async () => {
+            const structured = await importStructured();
+            const callback = vi.fn() as unknown as FileCallback;
+            const onLimit = vi.fn();
+
+            const storageModule = await import('../../src/util/storage');
+            (storageModule.create as ReturnType<typeof vi.fn>).mockReturnValue({
+                forEachFileIn: vi.fn(async (dir: string, cb: (file: string) => Promise<void>, options: any) => {
+                    for (const file of [`${dir}/2022/02/15/0830-file.md`, `${dir}/2022/02/16/0900-file.md`]) {
+                        expect(await options.matches(file)).toBe(true);
+                    }
+                    await cb(`${dir}/2022/02/15/0830-file.md`);
+                    options.onLimit(`${dir}/2022/02/16/0900-file.md`, 'limit-reached');
+                })
+            });
+
+            const fileCount = await structured.process(
+                'day',
+                ['time'],
+                ['md'],
+                'UTC',
+                new Date('2022-02-01'),
+                new Date('2022-03-01'),
+                1,
+                [],
+                mockLogger,
+                '/input',
+                callback,
+                1,
+                {},
+                { onLimit }
+            );
+
+            expect(fileCount).toBe(1);
+            expect(onLimit.mock.calls).toEqual([['/input/2022/02/16/0900-file.md', 'limit-reached']]);
+        });
     });
 });
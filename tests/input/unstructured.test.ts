@@ -96,7 +96,7 @@ describe('Input: Unstructured Process', () => {
         expect(mockForEachFileIn).toHaveBeenCalledWith(
             inputDirectory,
             expect.any(Function),
-            { pattern: '*.*' }
+            { pattern: '*.*', onLimit: expect.any(Function) }
         );
         expect(mockCallback).toHaveBeenCalledTimes(2);
         expect(mockCallback).toHaveBeenCalledWith('file1.txt');
@@ -131,7 +131,7 @@ describe('Input: Unstructured Process', () => {
         expect(mockForEachFileIn).toHaveBeenCalledWith(
             inputDirectory,
             expect.any(Function),
-            { pattern: '*.{eml,msg}' }
+            { pattern: '*.{eml,msg}', onLimit: expect.any(Function) }
         );
         expect(mockCallback).toHaveBeenCalledTimes(2);
         expect(mockCallback).toHaveBeenCalledWith('file1.eml');
@@ -163,7 +163,7 @@ describe('Input: Unstructured Process', () => {
         expect(mockForEachFileIn).toHaveBeenCalledWith(
             inputDirectory,
             expect.any(Function),
-            { pattern: '**/*' }
+            { pattern: '**/*', onLimit: expect.any(Function) }
         );
         expect(mockCallback).toHaveBeenCalledTimes(3);
         expect(mockCallback).toHaveBeenCalledWith('file1.txt');
@@ -197,7 +197,7 @@ describe('Input: Unstructured Process', () => {
         expect(mockForEachFileIn).toHaveBeenCalledWith(
             inputDirectory,
             expect.any(Function),
-            { pattern: '**/*.{txt}' }
+            { pattern: '**/*.{txt}', onLimit: expect.any(Function) }
         );
         expect(mockCallback).toHaveBeenCalledTimes(2);
         expect(mockCallback).toHaveBeenCalledWith('file1.txt');
@@ -224,10 +224,12 @@ describe('Input: Unstructured Process', () => {
             await callback(successFile);
         });
 
-        const count = await processUnstructured(inputDirectory, recursive, extensions, undefined, mockLogger, mockCallback);
+        const onFail = vi.fn();
+        const count = await processUnstructured(inputDirectory, recursive, extensions, undefined, mockLogger, mockCallback, undefined, { onFail });
 
         expect(mockCallback).toHaveBeenCalledTimes(2);
         expect(mockCallback).toHaveBeenCalledWith(errorFile);
+        expect(onFail).toHaveBeenCalledWith(errorFile, testError);
         expect(mockCallback).toHaveBeenCalledWith(successFile);
         expect(mockLogger.error).toHaveBeenCalledTimes(1);
         expect(mockLogger.error).toHaveBeenCalledWith(
@@ -259,9 +261,11 @@ describe('Input: Unstructured Process', () => {
             await callback(successFile);
         });
 
-        const count = await processUnstructured(inputDirectory, recursive, extensions, undefined, mockLogger, mockCallback);
+        const onFail = vi.fn();
+        const count = await processUnstructured(inputDirectory, recursive, extensions, undefined, mockLogger, mockCallback, undefined, { onFail });
 
         expect(mockCallback).toHaveBeenCalledTimes(2);
+        expect(onFail).toHaveBeenCalledWith(errorFile, new Error('Callback failed as string'));
         expect(mockLogger.error).toHaveBeenCalledTimes(1);
         // Check for the specific logging format for non-Error objects
         expect(mockLogger.error).toHaveBeenCalledWith(
@@ -319,7 +323,7 @@ describe('Input: Unstructured Process', () => {
         expect(mockForEachFileIn).toHaveBeenCalledWith(
             inputDirectory,
             expect.any(Function),
-            { pattern: '**/*.{txt,log}', limit, concurrency }
+            { pattern: '**/*.{txt,log}', limit, concurrency, onLimit: expect.any(Function) }
         );
         expect(mockCallback).toHaveBeenCalledTimes(files.length);
         for (const file of files) {
@@ -328,4 +332,68 @@ describe('Input: Unstructured Process', () => {
         // This checks that at least concurrency number of callbacks were in flight at once
         expect(maxParallel).toBeGreaterThan(1);
     });
+
+    describe('date sources', () => {
+        const dated: Record<string, Date> = {
+            'early.md': new Date('2025-01-15T00:00:00Z'),
+            'inside.md': new Date('2025-03-07T00:00:00Z'),
+            'late.md': new Date('2025-04-01T00:00:00Z'),
+        };
+        const dates = {
+            sources: ['filename' as const],
+            resolve: vi.fn(async (file: string) => dated[file] ? { date: dated[file], source: 'filename' as const, time: false, pattern: 'iso' } : undefined),
+        };
+
+        beforeEach(() => {
+            mockForEachFileIn.mockImplementation(async (dir, callback, options) => {
+                for (const file of ['early.md', 'inside.md', 'late.md', 'undated.md']) {
+                    // With a date range only the files it matches reach the callback, as forEachFileIn does
+                    if (!options?.matches || await options.matches(file)) {
+                        await callback(file);
+                    }
+                }
+            });
+        });
+
+        test('should pass the resolved date, its source and the pattern that found it to the callback', async () => {
+            const count = await processUnstructured('/notes', false, [], undefined, mockLogger, mockCallback, 1, { dates });
+
+            expect(mockCallback).toHaveBeenCalledWith('inside.md', dated['inside.md'], 'filename', false, 'iso');
+            // Without a range, files without a date are still processed
+            expect(mockCallback).toHaveBeenCalledWith('undated.md');
+            expect(count).toBe(4);
+        });
+
+        test('should skip files outside the range or without a date when filtering', async () => {
+            const onSkip = vi.fn();
+            const start = new Date('2025-03-01T00:00:00Z');
+            const end = new Date('2025-04-01T00:00:00Z');
+
+            const count = await processUnstructured('/notes', false, [], undefined, mockLogger, mockCallback, 1, { dates, start, end, onSkip });
+
+            expect(mockCallback).toHaveBeenCalledTimes(1);
+            expect(mockCallback).toHaveBeenCalledWith('inside.md', dated['inside.md'], 'filename', false, 'iso');
+            // Start is inclusive and end is exclusive, as for structured input
+            expect(onSkip).toHaveBeenCalledWith('early.md', 'out-of-range', dated['early.md']);
+            expect(onSkip).toHaveBeenCalledWith('late.md', 'out-of-range', dated['late.md']);
+            expect(onSkip).toHaveBeenCalledWith('undated.md', 'unparseable-date');
+            expect(count).toBe(1);
+        });
+
+        test('should drop the date held for a file the limit leaves out, and pass the file on to onLimit', async () => {
+            const onLimit = vi.fn();
+            dates.resolve.mockClear();
+            mockForEachFileIn.mockImplementation(async (dir, callback, options) => {
+                expect(await options?.matches?.('inside.md')).toBe(true);
+                options?.onLimit?.('inside.md', 'limit-reached');
+                // Were the date still held, the callback would be given it without resolving again
+                await callback('inside.md');
+            });
+
+            await processUnstructured('/notes', false, [], 0, mockLogger, mockCallback, 1, { dates, start: new Date('2025-03-01T00:00:00Z'), onLimit });
+
+            expect(onLimit).toHaveBeenCalledWith('inside.md', 'limit-reached');
+            expect(dates.resolve).toHaveBeenCalledTimes(2);
+        });
+    });
 });
@@ -0,0 +1,242 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Config, Options } from '../src/dreadcabinet';
+import type * as StorageUtil from '../src/util/storage';
+import * as path from 'node:path';
+
+// --- Mock Dependencies ---
+
+const mockExists = vi.fn<StorageUtil.Utility['exists']>();
+const mockCreateDirectory = vi.fn<StorageUtil.Utility['createDirectory']>();
+const mockAppendFile = vi.fn<StorageUtil.Utility['appendFile']>();
+const mockReadFile = vi.fn<StorageUtil.Utility['readFile']>();
+const mockLstat = vi.fn<StorageUtil.Utility['lstat']>();
+const mockListFiles = vi.fn<StorageUtil.Utility['listFiles']>();
+const mockRemoveFile = vi.fn<StorageUtil.Utility['removeFile']>();
+const mockRemoveDirectory = vi.fn<StorageUtil.Utility['removeDirectory']>();
+const mockMoveFile = vi.fn<StorageUtil.Utility['moveFile']>();
+const mockCopyFile = vi.fn<StorageUtil.Utility['copyFile']>();
+const mockCopyAttributes = vi.fn<StorageUtil.Utility['copyAttributes']>();
+// @ts-ignore - Only mocking used methods
+const mockStorageCreate = vi.fn<typeof StorageUtil.create>().mockReturnValue({
+    exists: mockExists,
+    createDirectory: mockCreateDirectory,
+    appendFile: mockAppendFile,
+    readFile: mockReadFile,
+    lstat: mockLstat,
+    listFiles: mockListFiles,
+    removeFile: mockRemoveFile,
+    removeDirectory: mockRemoveDirectory,
+    moveFile: mockMoveFile,
+    copyFile: mockCopyFile,
+    copyAttributes: mockCopyAttributes,
+});
+
+vi.mock('../src/util/storage', () => ({
+    create: mockStorageCreate,
+}));
+
+// --- Dynamically Import Module Under Test ---
+
+const { create, createRunId } = await import('../src/journal');
+
+// --- Test Suite ---
+
+describe('Journal Module', () => {
+    let baseConfig: Config;
+    let baseOptions: Options;
+    // The journal file and the stats of the files on disk
+    let journal: string;
+    let onDisk: Map<string, { mtimeMs: number, size: number }>;
+    const journalPath = path.resolve('/out/.dreadcabinet-journal.ndjson');
+    const out = (...segments: string[]) => path.resolve('/out', ...segments);
+
+    const getInstance = () => create(baseConfig, baseOptions);
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+
+        journal = '';
+        onDisk = new Map();
+        mockAppendFile.mockImplementation(async (_file, data) => { journal += data; });
+        mockReadFile.mockImplementation(async () => journal);
+        mockExists.mockImplementation(async (file) => file === journalPath ? journal !== '' : onDisk.has(file));
+        // @ts-ignore - Only the stats the journal uses
+        mockLstat.mockImplementation(async (file) => {
+            const stats = onDisk.get(file);
+            if (!stats) throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' });
+            return stats;
+        });
+        mockListFiles.mockResolvedValue([]);
+
+        baseConfig = {
+            outputDirectory: '/out',
+            timezone: 'UTC',
+        };
+        baseOptions = {
+            logger: {
+                debug: vi.fn(),
+                info: vi.fn(),
+                warn: vi.fn(),
+                error: vi.fn(),
+                verbose: vi.fn(),
+                silly: vi.fn(),
+            },
+            features: ['output'],
+            addDefaults: false,
+        };
+    });
+
+    const entries = () => journal.trim().split('\n').map(line => JSON.parse(line));
+
+    describe('createRunId', () => {
+        it('should start with a compact timestamp so run IDs sort by time', () => {
+            expect(createRunId(new Date(Date.UTC(2025, 2, 7, 10, 15)))).toMatch(/^20250307T101500000Z-[0-9a-f]{6}$/);
+        });
+    });
+
+    describe('recordDirectory', () => {
+        it('should record every created directory, parents first, except the output directory itself', async () => {
+            const { runId, recordDirectory } = getInstance();
+            await recordDirectory('/out', '/out/2025/3');
+
+            expect(entries()).toEqual([
+                { type: 'directory', runId, timestamp: expect.any(String), path: out('2025') },
+                { type: 'directory', runId, timestamp: expect.any(String), path: out('2025', '3') },
+            ]);
+            expect(mockAppendFile).toHaveBeenCalledWith(journalPath, expect.stringMatching(/\n$/));
+        });
+
+        it('should stop at the first directory that was created', async () => {
+            const { recordDirectory } = getInstance();
+            await recordDirectory('/out/2025/3', '/out/2025/3/7');
+
+            expect(entries().map(entry => entry.path)).toEqual([out('2025', '3'), out('2025', '3', '7')]);
+        });
+
+        it('should tell listeners about every created directory, the output directory included', async () => {
+            const emit = vi.fn();
+            // @ts-ignore - Only mocking used methods
+            const { recordDirectory } = create(baseConfig, baseOptions, { events: { emit } });
+            await recordDirectory('/out', '/out/2025/3');
+
+            expect(emit.mock.calls).toEqual([
+                ['directoryCreated', { directory: out() }],
+                ['directoryCreated', { directory: out('2025') }],
+                ['directoryCreated', { directory: out('2025', '3') }],
+            ]);
+        });
+    });
+
+    describe('recordFile', () => {
+        it('should record the placed file with its mtime and size', async () => {
+            onDisk.set(out('note.md'), { mtimeMs: 100, size: 5 });
+            const { runId, recordFile } = getInstance();
+            await recordFile('/in/note.md', '/out/note.md', 'hardlink');
+
+            expect(entries()).toEqual([{
+                type: 'file', runId, timestamp: expect.any(String), path: out('note.md'), source: path.resolve('/in/note.md'), mode: 'hardlink', mtimeMs: 100, size: 5,
+            }]);
+        });
+
+        it('should keep lines from concurrent workers apart', async () => {
+            onDisk.set(out('a.md'), { mtimeMs: 1, size: 1 });
+            onDisk.set(out('b.md'), { mtimeMs: 2, size: 2 });
+            const { recordFile } = getInstance();
+            await Promise.all([recordFile('/in/a.md', '/out/a.md', 'copy'), recordFile('/in/b.md', '/out/b.md', 'copy')]);
+
+            expect(entries().map(entry => entry.path).sort()).toEqual([out('a.md'), out('b.md')]);
+        });
+    });
+
+    describe('undo', () => {
+        const run = async () => {
+            const instance = getInstance();
+            onDisk.set(out('2025', 'copied.md'), { mtimeMs: 1, size: 1 });
+            onDisk.set(out('2025', 'moved.md'), { mtimeMs: 2, size: 2 });
+            await instance.recordDirectory('/out/2025', '/out/2025');
+            await instance.recordFile('/in/copied.md', '/out/2025/copied.md', 'copy');
+            await instance.recordFile('/in/moved.md', '/out/2025/moved.md', 'move');
+            return instance;
+        }
+
+        it('should remove copies, move moved files back and remove the emptied directories', async () => {
+            const { runId, undo } = await run();
+            const report = await getInstance().undo(runId);
+
+            expect(mockMoveFile).toHaveBeenCalledWith(out('2025', 'moved.md'), path.resolve('/in/moved.md'));
+            expect(mockRemoveFile).toHaveBeenCalledWith(out('2025', 'copied.md'));
+            expect(mockRemoveDirectory).toHaveBeenCalledWith(out('2025'));
+            expect(report).toEqual({
+                runId,
+                removed: [out('2025', 'copied.md'), out('2025')],
+                restored: [path.resolve('/in/moved.md')],
+                kept: [],
+            });
+
+            // The undo is journaled too, so the run cannot be undone twice
+            expect(entries().at(-1)).toEqual({ type: 'undo', runId, timestamp: expect.any(String) });
+            await expect(undo(runId)).rejects.toThrow(`Unable to Undo: Run ${runId} has already been undone`);
+        });
+
+        it('should keep files modified since the run and the directories holding them', async () => {
+            const { runId, undo } = await run();
+            onDisk.set(out('2025', 'copied.md'), { mtimeMs: 1, size: 10 });
+            mockListFiles.mockResolvedValueOnce(['copied.md']);
+
+            const report = await undo(runId);
+
+            expect(mockRemoveFile).not.toHaveBeenCalled();
+            expect(mockRemoveDirectory).not.toHaveBeenCalled();
+            expect(report.kept).toEqual([
+                { path: out('2025', 'copied.md'), reason: 'modified' },
+                { path: out('2025'), reason: 'not-empty' },
+            ]);
+        });
+
+        it('should not move a file back over a file at its original path', async () => {
+            const { runId, undo } = await run();
+            onDisk.set(path.resolve('/in/moved.md'), { mtimeMs: 3, size: 3 });
+
+            const report = await undo(runId);
+
+            expect(mockMoveFile).not.toHaveBeenCalled();
+            expect(report.kept).toContainEqual({ path: out('2025', 'moved.md'), reason: 'source-exists' });
+        });
+
+        it('should keep overwritten files and report missing ones', async () => {
+            const { runId, recordFile, undo } = getInstance();
+            onDisk.set(out('replaced.md'), { mtimeMs: 1, size: 1 });
+            await recordFile('/in/replaced.md', '/out/replaced.md', 'copy', true);
+            onDisk.set(out('gone.md'), { mtimeMs: 1, size: 1 });
+            await recordFile('/in/gone.md', '/out/gone.md', 'copy');
+            onDisk.delete(out('gone.md'));
+
+            const report = await undo(runId);
+
+            expect(mockRemoveFile).not.toHaveBeenCalled();
+            expect(report.kept).toEqual([
+                { path: out('gone.md'), reason: 'missing' },
+                { path: out('replaced.md'), reason: 'overwritten' },
+            ]);
+        });
+
+        it('should copy moved files back across devices', async () => {
+            const { runId, undo } = await run();
+            mockMoveFile.mockRejectedValueOnce(Object.assign(new Error('EXDEV'), { code: 'EXDEV' }));
+
+            await undo(runId);
+
+            expect(mockCopyFile).toHaveBeenCalledWith(out('2025', 'moved.md'), path.resolve('/in/moved.md'));
+            expect(mockCopyAttributes).toHaveBeenCalledWith(out('2025', 'moved.md'), path.resolve('/in/moved.md'), { mtime: true, permissions: true });
+            expect(mockRemoveFile).toHaveBeenCalledWith(out('2025', 'moved.md'));
+        });
+
+        it('should throw for unknown runs and missing journals', async () => {
+            const { undo } = getInstance();
+            await expect(undo('nope')).rejects.toThrow(`Unable to Undo: No journal found at ${journalPath}`);
+
+            await run();
+            await expect(undo('nope')).rejects.toThrow(`Unable to Undo: No journal entries found for run nope in ${journalPath}`);
+        });
+    });
+});
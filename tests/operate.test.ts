@@ -1,27 +1,122 @@
-import { describe, test, expect, beforeEach, vi } from 'vitest';
-import type { Args, Config, Operator, Options } from '../src/dreadcabinet';
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { Args, BatchReport, Config, DateRange, Operator, Options, OutputPath, PlaceOptions, Placement, Plan, PlanDecision, ProcessReport, UndoReport } from '../src/dreadcabinet';
+import type * as Collision from '../src/collision';
+import type * as Context from '../src/context';
+import type * as Place from '../src/place';
+import type * as Planner from '../src/plan';
+import type * as Subject from '../src/subject';
 import type * as Input from '../src/input/input';
+import type * as Journal from '../src/journal';
 import type * as Output from '../src/output';
+import type * as Progress from '../src/progress';
 
 // --- Mock Dependencies ---
 
 // Mock Input module
 // Use the actual return type structure from Input.create
-const mockInputProcess = vi.fn<(callback: (file: string, date?: Date) => Promise<void>) => Promise<void>>();
+const mockInputProcess = vi.fn<(callback: (file: string, date?: Date) => Promise<void>) => Promise<ProcessReport>>();
+const mockInputProcessBatches = vi.fn<ReturnType<typeof Input.create>['processBatches']>();
+const mockInputFiles = vi.fn<ReturnType<typeof Input.create>['files']>();
 const mockInputCreate = vi.fn<typeof Input.create>().mockReturnValue({
     process: mockInputProcess,
+    processBatches: mockInputProcessBatches,
+    files: mockInputFiles,
 });
 
 // Mock Output module
 // Use the actual return type structure from Output.create
 const mockOutputConstructFilename = vi.fn<(date: Date, type: string, hash: string, options?: { subject?: string }) => string>();
-const mockOutputConstructOutputDirectory = vi.fn<(creationTime: Date) => Promise<string>>();
+const mockOutputConstructOutputDirectory = vi.fn<(creationTime: Date, options?: { type?: string }) => Promise<string>>();
+const mockOutputComputeOutputDirectory = vi.fn<(creationTime: Date, options?: { type?: string }) => string>();
 
 const mockOutputCreate = vi.fn<typeof Output.create>().mockReturnValue({
     constructFilename: mockOutputConstructFilename,
     constructOutputDirectory: mockOutputConstructOutputDirectory,
+    computeOutputDirectory: mockOutputComputeOutputDirectory,
 });
 
+// Mock Collision module
+const mockCollisionResolve = vi.fn<(directory: string, filename: string, options?: { source?: string }) => Promise<OutputPath>>();
+const mockCollisionRelease = vi.fn<(path: string) => void>();
+const mockCollisionCreate = vi.fn<typeof Collision.create>().mockReturnValue({
+    resolve: mockCollisionResolve,
+    release: mockCollisionRelease,
+});
+
+vi.mock('../src/collision', () => ({
+    create: mockCollisionCreate,
+}));
+
+// Mock Subject module
+const mockExtract = vi.fn<(file: string) => Promise<string | undefined>>();
+const mockSubjectCreate = vi.fn<typeof Subject.create>().mockReturnValue({
+    extract: mockExtract,
+    handle: (_file, work) => work(),
+});
+
+vi.mock('../src/subject', () => ({
+    create: mockSubjectCreate,
+}));
+
+// Mock Context module
+const mockContextCreate = vi.fn<typeof Context.create>().mockReturnValue({
+    build: vi.fn(),
+});
+
+vi.mock('../src/context', () => ({
+    create: mockContextCreate,
+}));
+
+// Mock Journal module
+const mockUndo = vi.fn<(runId: string) => Promise<UndoReport>>();
+const mockJournalCreate = vi.fn<typeof Journal.create>().mockReturnValue({
+    runId: '20231121T123000000Z-abcdef',
+    recordDirectory: vi.fn(),
+    recordFile: vi.fn(),
+    undo: mockUndo,
+});
+
+vi.mock('../src/journal', () => ({
+    create: mockJournalCreate,
+}));
+
+// Mock Place module
+const mockPlace = vi.fn<(file: string, options: PlaceOptions) => Promise<Placement>>();
+const mockPlaceCreate = vi.fn<typeof Place.create>().mockReturnValue({
+    place: mockPlace,
+    placeAt: vi.fn(),
+    locate: vi.fn(),
+});
+
+// Mock Plan module
+const mockPlan = vi.fn<(callback?: (file: string, date?: Date) => Promise<PlanDecision | void>, dateRange?: Partial<DateRange>) => Promise<Plan>>();
+const mockApply = vi.fn<(plan: Plan) => Promise<Placement[]>>();
+const mockPlannerCreate = vi.fn<typeof Planner.create>().mockReturnValue({
+    plan: mockPlan,
+    apply: mockApply,
+});
+
+vi.mock('../src/plan', () => ({
+    create: mockPlannerCreate,
+}));
+
+// Mock Progress module
+const mockProgressFinish = vi.fn();
+const mockProgressCreate = vi.fn<typeof Progress.create>().mockReturnValue({
+    finish: mockProgressFinish,
+});
+
+vi.mock('../src/progress', () => ({
+    create: mockProgressCreate,
+}));
+
+vi.mock('../src/place', () => ({
+    create: mockPlaceCreate,
+}));
+
 vi.mock('../src/input/input', () => ({
     create: mockInputCreate,
 }));
@@ -90,19 +185,69 @@ describe('Operator Factory (create)', () => {
     test('should call Input.create and Output.create with correct arguments', async () => {
         // This test implicitly runs create via beforeEach
         expect(mockInputCreate).toHaveBeenCalledTimes(1);
-        expect(mockInputCreate).toHaveBeenCalledWith(baseConfig, baseOptions);
+        expect(mockContextCreate).toHaveBeenCalledWith(baseConfig, baseOptions, { output: mockOutputCreate.mock.results[0].value });
+        expect(mockInputCreate).toHaveBeenCalledWith(baseConfig, baseOptions, { subject: mockSubjectCreate.mock.results[0].value, context: mockContextCreate.mock.results[0].value, events: expect.objectContaining({ on: expect.any(Function) }) });
         expect(mockOutputCreate).toHaveBeenCalledTimes(1);
-        expect(mockOutputCreate).toHaveBeenCalledWith(baseConfig, baseOptions);
+        expect(mockOutputCreate).toHaveBeenCalledWith(baseConfig, baseOptions, { journal: mockJournalCreate.mock.results[0].value });
     });
 
     test('should return an operator with a process function that calls input.process', async () => {
         const callback = vi.fn<(file: string) => Promise<void>>();
-        mockInputProcess.mockResolvedValue(undefined); // Mock the process implementation
+        const report = { processed: 0, skipped: { 'out-of-range': 0, 'unparseable-date': 0, 'excluded': 0, 'limit-reached': 0, 'offset': 0, 'not-sampled': 0 }, failed: [], durationMs: 0, filesPerSecond: 0, aborted: false };
+        mockInputProcess.mockResolvedValue(report); // Mock the process implementation
 
-        await testOperator.process(callback);
+        expect(await testOperator.process(callback)).toBe(report);
 
         expect(mockInputProcess).toHaveBeenCalledTimes(1);
-        expect(mockInputProcess).toHaveBeenCalledWith(callback);
+        expect(mockInputProcess).toHaveBeenCalledWith(callback, undefined);
+        expect(mockProgressCreate).not.toHaveBeenCalled();
+    });
+
+    test('should hand the events of its modules to listeners', async () => {
+        const events = mockJournalCreate.mock.calls[0][2]!.events!;
+        expect(mockInputCreate.mock.calls[0][2]?.events).toBe(events);
+
+        const listener = vi.fn();
+        const unsubscribe = testOperator.on('directoryCreated', listener);
+        events.emit('directoryCreated', { directory: '/out/2023/11' });
+        unsubscribe();
+        events.emit('directoryCreated', { directory: '/out/2023/12' });
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(listener).toHaveBeenCalledWith({ directory: '/out/2023/11' });
+    });
+
+    test('should end the progress bar once each run is over, even when it fails', async () => {
+        const operator = await create({ ...baseConfig, progress: true }, baseArgs, baseOptions);
+        expect(mockProgressCreate).toHaveBeenCalledWith(mockInputCreate.mock.calls[1][2]?.events);
+
+        mockInputProcess.mockRejectedValueOnce(new Error('Stopped processing'));
+        await expect(operator.process(vi.fn())).rejects.toThrow('Stopped processing');
+
+        expect(mockProgressFinish).toHaveBeenCalledTimes(1);
+    });
+
+    test('should end the progress bar once each batch run is over', async () => {
+        const operator = await create({ ...baseConfig, progress: true }, baseArgs, baseOptions);
+        const batchReport = { batches: 2, failedBatches: [] } as unknown as BatchReport;
+        mockInputProcessBatches.mockResolvedValueOnce(batchReport);
+        const callback = vi.fn();
+
+        await expect(operator.processBatches(callback, { batchSize: 10 })).resolves.toBe(batchReport);
+
+        expect(mockInputProcessBatches).toHaveBeenCalledWith(callback, { batchSize: 10 });
+        expect(mockProgressFinish).toHaveBeenCalledTimes(1);
+    });
+
+    test('should hand out the files that input walks', async () => {
+        const files = (async function* () {
+            yield { path: '/in/note.md' };
+        })();
+        mockInputFiles.mockReturnValueOnce(files);
+        const signal = new AbortController().signal;
+
+        expect(testOperator.files({ start: new Date('2023-11-01'), signal })).toBe(files);
+        expect(mockInputFiles).toHaveBeenCalledWith({ start: new Date('2023-11-01'), signal });
     });
 
     describe('constructFilename', () => {
@@ -120,6 +265,20 @@ describe('Operator Factory (create)', () => {
             expect(filename).toBe(expectedFilename);
         });
 
+        test('should extract the subject from the file when none is given', async () => {
+            mockExtract.mockResolvedValue('From Heading');
+
+            await testOperator.constructFilename(testDate, 'md', 'abc', { file: '/in/note.md' });
+            expect(mockExtract).toHaveBeenCalledWith('/in/note.md');
+            expect(mockOutputConstructFilename).toHaveBeenCalledWith(testDate, 'md', 'abc', { subject: 'From Heading' });
+
+            // A given subject wins over the file's
+            mockExtract.mockClear();
+            await testOperator.constructFilename(testDate, 'md', 'abc', { subject: 'Given', file: '/in/note.md' });
+            expect(mockExtract).not.toHaveBeenCalled();
+            expect(mockOutputConstructFilename).toHaveBeenLastCalledWith(testDate, 'md', 'abc', { subject: 'Given' });
+        });
+
         test('should throw error if output feature is disabled', async () => {
             const optionsNoOutput: Options = { ...baseOptions, features: ['input'] };
             const operatorNoOutput = await create(baseConfig, baseArgs, optionsNoOutput);
@@ -141,10 +300,19 @@ describe('Operator Factory (create)', () => {
             const dir = await testOperator.constructOutputDirectory(testDate);
 
             expect(mockOutputConstructOutputDirectory).toHaveBeenCalledTimes(1);
-            expect(mockOutputConstructOutputDirectory).toHaveBeenCalledWith(testDate);
+            expect(mockOutputConstructOutputDirectory).toHaveBeenCalledWith(testDate, undefined);
             expect(dir).toBe(expectedDir);
         });
 
+        test('should pass the file type through to output.constructOutputDirectory', async () => {
+            mockOutputConstructOutputDirectory.mockResolvedValue('/out/2023/md');
+
+            const dir = await testOperator.constructOutputDirectory(testDate, { type: 'md' });
+
+            expect(mockOutputConstructOutputDirectory).toHaveBeenCalledWith(testDate, { type: 'md' });
+            expect(dir).toBe('/out/2023/md');
+        });
+
         test('should throw error if output feature is disabled', async () => {
             const optionsNoOutput: Options = { ...baseOptions, features: ['input'] };
             const operatorNoOutput = await create(baseConfig, baseArgs, optionsNoOutput);
@@ -155,4 +323,218 @@ describe('Operator Factory (create)', () => {
             expect(mockOutputConstructOutputDirectory).not.toHaveBeenCalled();
         });
     });
+
+    describe('resolveOutputPath', () => {
+        test('should call collision.resolve when output feature is enabled', async () => {
+            const resolved: OutputPath = { path: '/out/2023/11/note-1.md', resolution: 'suffixed', collidedWith: '/out/2023/11/note.md' };
+            mockCollisionResolve.mockResolvedValue(resolved);
+
+            const result = await testOperator.resolveOutputPath('/out/2023/11', 'note.md', { source: '/in/note.md' });
+
+            expect(mockCollisionCreate).toHaveBeenCalledWith(baseConfig, baseOptions);
+            expect(mockCollisionResolve).toHaveBeenCalledWith('/out/2023/11', 'note.md', { source: '/in/note.md' });
+            expect(result).toBe(resolved);
+        });
+
+        test('should release reservations through collision.release', () => {
+            testOperator.releaseOutputPath('/out/2023/11/note.md');
+
+            expect(mockCollisionRelease).toHaveBeenCalledWith('/out/2023/11/note.md');
+        });
+
+        test('should throw error if output feature is disabled', async () => {
+            const optionsNoOutput: Options = { ...baseOptions, features: ['input'] };
+            const operatorNoOutput = await create(baseConfig, baseArgs, optionsNoOutput);
+
+            await expect(operatorNoOutput.resolveOutputPath('/out', 'note.md'))
+                .rejects.toThrow('Output feature is not enabled, skipping output construction');
+
+            expect(mockCollisionResolve).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('place', () => {
+        test('should hand the shared output, collision, journal and subject modules to place', () => {
+            expect(mockPlaceCreate).toHaveBeenCalledWith(baseConfig, baseOptions, {
+                output: mockOutputCreate.mock.results[0].value,
+                collision: mockCollisionCreate.mock.results[0].value,
+                journal: mockJournalCreate.mock.results[0].value,
+                subject: mockSubjectCreate.mock.results[0].value,
+            });
+        });
+
+        test('should call place.place when output feature is enabled', async () => {
+            const placement: Placement = { path: '/out/2023/11/21-note.md', resolution: 'none', mode: 'copy' };
+            mockPlace.mockResolvedValue(placement);
+
+            const result = await testOperator.place('/in/note.md', { date: testDate, subject: 'note', mode: 'copy' });
+
+            expect(mockPlace).toHaveBeenCalledWith('/in/note.md', { date: testDate, subject: 'note', mode: 'copy' });
+            expect(result).toBe(placement);
+        });
+
+        test('should throw error if output feature is disabled', async () => {
+            const optionsNoOutput: Options = { ...baseOptions, features: ['input'] };
+            const operatorNoOutput = await create(baseConfig, baseArgs, optionsNoOutput);
+
+            await expect(operatorNoOutput.place('/in/note.md', { date: testDate }))
+                .rejects.toThrow('Output feature is not enabled, skipping output construction');
+
+            expect(mockPlace).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('plan and apply', () => {
+        test('should hand the shared input and placement modules to the planner', () => {
+            expect(mockPlannerCreate).toHaveBeenCalledWith(baseConfig, baseOptions, {
+                input: { process: expect.any(Function), processBatches: expect.any(Function), files: mockInputFiles },
+                placement: mockPlaceCreate.mock.results[0].value,
+            });
+        });
+
+        test('should call planner.plan and planner.apply when output feature is enabled', async () => {
+            const plan: Plan = { createdAt: '2023-11-21T12:30:00.000Z', actions: [{ source: '/in/note.md', skipped: 'no-date' }] };
+            mockPlan.mockResolvedValue(plan);
+            mockApply.mockResolvedValue([]);
+            const callback = vi.fn();
+            const dateRange = { start: testDate, end: testDate };
+
+            expect(await testOperator.plan(callback, dateRange)).toBe(plan);
+            expect(await testOperator.apply(plan)).toEqual([]);
+
+            expect(mockPlan).toHaveBeenCalledWith(callback, dateRange);
+            expect(mockApply).toHaveBeenCalledWith(plan);
+        });
+
+        test('should throw error if output feature is disabled', async () => {
+            const optionsNoOutput: Options = { ...baseOptions, features: ['input'] };
+            const operatorNoOutput = await create(baseConfig, baseArgs, optionsNoOutput);
+
+            await expect(operatorNoOutput.plan()).rejects.toThrow('Output feature is not enabled, skipping output construction');
+            await expect(operatorNoOutput.apply({ createdAt: '', actions: [] })).rejects.toThrow('Output feature is not enabled, skipping output construction');
+        });
+    });
+
+    describe('runId and undo', () => {
+        test('should expose the journal run ID', () => {
+            expect(testOperator.runId).toBe('20231121T123000000Z-abcdef');
+        });
+
+        test('should call journal.undo when output feature is enabled', async () => {
+            const report: UndoReport = { runId: 'earlier', removed: ['/out/2023/11/note.md'], restored: [], kept: [] };
+            mockUndo.mockResolvedValue(report);
+
+            expect(await testOperator.undo('earlier')).toBe(report);
+            expect(mockUndo).toHaveBeenCalledWith('earlier');
+        });
+
+        test('should throw error if output feature is disabled', async () => {
+            const optionsNoOutput: Options = { ...baseOptions, features: ['input'] };
+            const operatorNoOutput = await create(baseConfig, baseArgs, optionsNoOutput);
+
+            await expect(operatorNoOutput.undo('earlier')).rejects.toThrow('Output feature is not enabled, skipping output construction');
+            expect(mockUndo).not.toHaveBeenCalled();
+        });
+    });
+});
+
+// The real input pipeline, over files in a temporary directory, to see how far the walk goes
+describe('Operator.process walking an input directory', () => {
+    let inputDirectory: string;
+    let options: Options;
+
+    beforeEach(async () => {
+        vi.clearAllMocks();
+        const actual = await vi.importActual<typeof Input>('../src/input/input');
+        mockInputCreate.mockImplementation(actual.create);
+        inputDirectory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'dreadcabinet-'));
+        options = {
+            features: ['input'],
+            allowed: {},
+            logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn(), verbose: vi.fn(), silly: vi.fn() },
+            addDefaults: false,
+        };
+    });
+
+    afterEach(async () => {
+        mockInputCreate.mockReturnValue({ process: mockInputProcess, processBatches: mockInputProcessBatches, files: mockInputFiles });
+        await fs.promises.rm(inputDirectory, { recursive: true, force: true });
+    });
+
+    const write = async (files: string[]) => {
+        for (const file of files) {
+            await fs.promises.mkdir(path.dirname(path.join(inputDirectory, file)), { recursive: true });
+            await fs.promises.writeFile(path.join(inputDirectory, file), 'note');
+        }
+    };
+
+    test('should stop the walk at the limit, reading no more dates than it needs', async () => {
+        await write(Array.from({ length: 50 }, (_, i) => `note-${i}.md`));
+        const dateExtractor = vi.fn(async () => new Date('2024-06-01T00:00:00Z'));
+        const config: Config = { inputDirectory, timezone: 'UTC', recursive: false, extensions: ['md', 'txt'], concurrency: 1, limit: 2 };
+        const operator = await create(config, {} as Args, { ...options, dateExtractor });
+        // Listening makes the walk run ahead of the workers
+        operator.on('skip', vi.fn());
+
+        const callback = vi.fn(async () => undefined);
+        const report = await operator.process(callback, { start: new Date('2024-01-01T00:00:00Z'), end: new Date('2025-01-01T00:00:00Z') });
+
+        expect(callback).toHaveBeenCalledTimes(2);
+        expect(report.processed).toBe(2);
+        // The walk stops at the first file past the limit, which shows the limit left files out
+        expect(report.skipped['limit-reached']).toBe(1);
+        // The two files processed, and the one past the limit
+        expect(dateExtractor.mock.calls.length).toBeLessThanOrEqual(3);
+    });
+
+    test('should not report the limit reached when it takes every file', async () => {
+        await write(['a.md', 'b.md']);
+        const config: Config = { inputDirectory, timezone: 'UTC', recursive: false, extensions: ['md', 'txt'], concurrency: 1, limit: 2 };
+        const operator = await create(config, {} as Args, options);
+
+        const report = await operator.process(vi.fn(async () => undefined));
+
+        expect(report.processed).toBe(2);
+        expect(report.skipped['limit-reached']).toBe(0);
+    });
+
+    test('should give the newest files for date-desc without opening the older directories', async () => {
+        await write(Array.from({ length: 12 }, (_, month) => Array.from({ length: 10 }, (_, day) => `2024/${month + 1}/${day + 10}-note.md`)).flat());
+        const config: Config = {
+            inputDirectory, timezone: 'UTC', recursive: true, extensions: ['md', 'txt'], concurrency: 1, limit: 2, sort: 'date-desc',
+            inputStructure: 'month', inputFilenameOptions: ['date', 'subject'],
+        };
+        const operator = await create(config, {} as Args, { ...options, features: ['input', 'structured-input'] });
+        const opendir = vi.spyOn(fs.promises, 'opendir');
+
+        const processed: string[] = [];
+        try {
+            const report = await operator.process(async file => {
+                processed.push(path.relative(inputDirectory, file));
+            }, { start: new Date('2024-01-01T00:00:00Z'), end: new Date('2025-01-01T00:00:00Z') });
+
+            expect(processed).toEqual(['2024/12/19-note.md', '2024/12/18-note.md']);
+            expect(report.skipped['limit-reached']).toBe(1);
+            // The input directory, 2024 and 2024/12
+            expect(opendir).toHaveBeenCalledTimes(3);
+        } finally {
+            opendir.mockRestore();
+        }
+    });
+
+    test('should give the newest files for date-desc in a fiscal year tree', async () => {
+        await write(['FY2025/10-5-note.md', 'FY2025/12-1-note.md', 'FY2025/3-5-note.md', 'FY2025/9-20-note.md', 'FY2024/9-30-note.md']);
+        const config: Config = {
+            inputDirectory, timezone: 'UTC', recursive: true, extensions: ['md', 'txt'], concurrency: 1, limit: 2, sort: 'date-desc',
+            inputStructure: 'fiscal-year', fiscalYearStartMonth: 10, inputFilenameOptions: ['date', 'subject'],
+        };
+        const operator = await create(config, {} as Args, { ...options, features: ['input', 'structured-input'] });
+
+        const processed: string[] = [];
+        await operator.process(async file => {
+            processed.push(path.relative(inputDirectory, file));
+        }, { start: new Date('2023-10-01T00:00:00Z'), end: new Date('2025-10-01T00:00:00Z') });
+
+        expect(processed).toEqual(['FY2025/9-20-note.md', 'FY2025/3-5-note.md']);
+    });
 });
@@ -1,5 +1,5 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
-import type { Config, Options } from '../src/dreadcabinet';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Config, FilenameOption, Options } from '../src/dreadcabinet';
 import type * as StorageUtil from '../src/util/storage';
 import type * as DatesUtil from '../src/util/dates';
 import * as path from 'node:path'; // Import path for verification
@@ -8,12 +8,14 @@ import * as path from 'node:path'; // Import path for verification
 
 // Dates Util Mock
 const mockDateFormat = vi.fn<DatesUtil.Utility['format']>();
+const mockDateIsoWeek = vi.fn<DatesUtil.Utility['isoWeek']>();
 // @ts-ignore - Mocking only the passthrough behavior for Date objects
 const mockDateDate = vi.fn<DatesUtil.Utility['date']>().mockImplementation((d: Date) => d); // Pass through Date object
 // @ts-ignore - Only mocking used methods
 const mockDatesCreate = vi.fn<typeof DatesUtil.create>().mockReturnValue({
     format: mockDateFormat,
     date: mockDateDate,
+    isoWeek: mockDateIsoWeek,
     // @ts-ignore - Add other methods if necessary
 });
 
@@ -51,7 +53,9 @@ const mockStorageCreate = vi.fn<typeof StorageUtil.create>().mockReturnValue({
 });
 
 
-vi.mock('../src/util/dates', () => ({
+vi.mock('../src/util/dates', async (importOriginal) => ({
+    // Keep the pure quarter and fiscal period helpers, only the date utility is mocked
+    ...await importOriginal<typeof import('../src/util/dates')>(),
     create: mockDatesCreate,
 }));
 
@@ -61,7 +65,9 @@ vi.mock('../src/util/storage', () => ({
 
 // --- Dynamically Import Module Under Test ---
 
-const { create: createOutput } = await import('../src/output');
+const { create: createOutput, templateStructure } = await import('../src/output');
+const { parseDateFromFilePath } = await import('../src/input/structured');
+const { create: createDates } = await vi.importActual<typeof DatesUtil>('../src/util/dates');
 
 // --- Test Suite ---
 
@@ -86,6 +92,11 @@ describe('Output Module', () => {
                 case 'M-D': return '06-15';         // DATE_FORMAT_MONTH_DAY (for 'year' structure)
                 // case 'D': return '15'; // DATE_FORMAT_DAY (for 'month' structure) - covered above
                 case 'HHmm': return '1030';            // DATE_FORMAT_HOURS (for time option)
+                case 'MM': return '06';
+                case 'MMMM': return 'June';
+                case 'DD': return '15';
+                case 'YYYY-MM-DD': return '2024-06-15';
+                case 'MM-DD': return '06-15';
                 default: return `unknown-format-${format}`;
             }
         });
@@ -130,7 +141,37 @@ describe('Output Module', () => {
         return createOutput(config, options);
     };
 
+    describe('computeOutputDirectory', () => {
+        it('should compute the same path as constructOutputDirectory without creating it', () => {
+            const { computeOutputDirectory } = getInstance({ outputStructure: 'day' });
+            expect(computeOutputDirectory(testDate)).toBe(path.join('/output/base', '2024', '06', '15'));
+            expect(mockCreateDirectory).not.toHaveBeenCalled();
+        });
+    });
+
     describe('constructOutputDirectory', () => {
+        it('should not create the directory in a dry run', async () => {
+            const { constructOutputDirectory } = getInstance({ outputStructure: 'year', dryRun: true });
+            const result = await constructOutputDirectory(testDate);
+            expect(result).toBe(path.join('/output/base', '2024'));
+            expect(mockCreateDirectory).not.toHaveBeenCalled();
+        });
+
+        it('should journal the directories it creates', async () => {
+            const recordDirectory = vi.fn<(created: string, directory: string) => Promise<void>>();
+            const journal = { runId: 'run', recordDirectory, recordFile: vi.fn(), undo: vi.fn() };
+            const { constructOutputDirectory } = createOutput({ ...baseConfig, outputStructure: 'month' }, baseOptions, { journal });
+
+            mockCreateDirectory.mockResolvedValueOnce('/output/base/2024');
+            await constructOutputDirectory(testDate);
+            expect(recordDirectory).toHaveBeenCalledWith('/output/base/2024', path.join('/output/base', '2024', '06'));
+
+            // Nothing new was created the second time
+            mockCreateDirectory.mockResolvedValueOnce(undefined);
+            await constructOutputDirectory(testDate);
+            expect(recordDirectory).toHaveBeenCalledTimes(1);
+        });
+
         it('should throw if outputDirectory is not set', async () => {
             const { constructOutputDirectory } = getInstance({ outputDirectory: undefined });
             await expect(constructOutputDirectory(testDate))
@@ -183,6 +224,82 @@ describe('Output Module', () => {
             expect(mockCreateDirectory).toHaveBeenCalledWith(expectedPath);
         });
 
+        it('should zero-pad month and day directories with the padded date format profile', async () => {
+            const { constructOutputDirectory } = getInstance({ outputStructure: 'day', dateFormatProfile: 'padded' });
+            const result = await constructOutputDirectory(testDate);
+            expect(result).toBe(path.join('/output/base', '2024', '06', '15'));
+            expect(mockDateFormat).toHaveBeenCalledWith(testDate, 'MM');
+            expect(mockDateFormat).toHaveBeenCalledWith(testDate, 'DD');
+            expect(mockDateFormat).not.toHaveBeenCalledWith(testDate, 'M');
+        });
+
+        it('should construct path for outputStructure "week" using the ISO week-year', async () => {
+            mockDateIsoWeek.mockReturnValue({ year: 2025, week: 1 });
+            const { constructOutputDirectory } = getInstance({ outputStructure: 'week' });
+            const result = await constructOutputDirectory(testDate);
+            const expectedPath = path.join('/output/base', '2025', 'W01');
+            expect(result).toBe(expectedPath);
+            expect(mockDateIsoWeek).toHaveBeenCalledWith(testDate);
+            expect(mockCreateDirectory).toHaveBeenCalledWith(expectedPath);
+        });
+
+        it('should construct path for outputStructure "quarter"', async () => {
+            const { constructOutputDirectory } = getInstance({ outputStructure: 'quarter' });
+            const result = await constructOutputDirectory(testDate);
+            const expectedPath = path.join('/output/base', '2024', 'Q2');
+            expect(result).toBe(expectedPath);
+            expect(mockCreateDirectory).toHaveBeenCalledWith(expectedPath);
+        });
+
+        it('should construct path for outputStructure "fiscal-year"', async () => {
+            const { constructOutputDirectory } = getInstance({ outputStructure: 'fiscal-year', fiscalYearStartMonth: 4 });
+            const result = await constructOutputDirectory(testDate);
+            const expectedPath = path.join('/output/base', 'FY2025');
+            expect(result).toBe(expectedPath);
+            expect(mockCreateDirectory).toHaveBeenCalledWith(expectedPath);
+        });
+
+        it('should construct path for outputStructure "fiscal-quarter"', async () => {
+            const { constructOutputDirectory } = getInstance({ outputStructure: 'fiscal-quarter', fiscalYearStartMonth: 4 });
+            const result = await constructOutputDirectory(testDate);
+            const expectedPath = path.join('/output/base', 'FY2025', 'Q1');
+            expect(result).toBe(expectedPath);
+            expect(mockCreateDirectory).toHaveBeenCalledWith(expectedPath);
+        });
+
+        it('should default the fiscal year to the calendar year', async () => {
+            const { constructOutputDirectory } = getInstance({ outputStructure: 'fiscal-quarter' });
+            const result = await constructOutputDirectory(testDate);
+            expect(result).toBe(path.join('/output/base', 'FY2024', 'Q2'));
+        });
+
+        it('should construct path from an output directory template', async () => {
+            const { constructOutputDirectory } = getInstance({ outputDirectoryTemplate: '{YYYY}/{MM}-{MMMM}/{DD}' });
+            const result = await constructOutputDirectory(testDate);
+            const expectedPath = path.join('/output/base', '2024', '06-June', '15');
+            expect(result).toBe(expectedPath);
+            expect(mockCreateDirectory).toHaveBeenCalledWith(expectedPath);
+        });
+
+        it('should not require an output structure when an output directory template is set', async () => {
+            const { constructOutputDirectory } = getInstance({ outputStructure: undefined, outputDirectoryTemplate: '{YYYY}/Q{Q}' });
+            const result = await constructOutputDirectory(testDate);
+            expect(result).toBe(path.join('/output/base', '2024', 'Q2'));
+        });
+
+        it('should route by file type with {ext} in an output directory template', async () => {
+            mockDateIsoWeek.mockReturnValue({ year: 2024, week: 7 });
+            const { constructOutputDirectory } = getInstance({ outputDirectoryTemplate: '{GGGG}/{ext}/W{WW}' });
+            const result = await constructOutputDirectory(testDate, { type: 'md' });
+            expect(result).toBe(path.join('/output/base', '2024', 'md', 'W07'));
+        });
+
+        it('should throw if the output directory template uses {ext} without a type', async () => {
+            const { constructOutputDirectory } = getInstance({ outputDirectoryTemplate: '{YYYY}/{ext}' });
+            await expect(constructOutputDirectory(testDate))
+                .rejects.toThrow('Unable to Create Output: Output directory template uses {ext} but no file type was provided');
+        });
+
         it('should use the configured timezone', async () => {
             const { constructOutputDirectory } = getInstance({ timezone: 'America/New_York' });
             await constructOutputDirectory(testDate);
@@ -215,6 +332,13 @@ describe('Output Module', () => {
             expect(filename).toBe(`06-15-${hash}-${type}`);
         });
 
+        it('should add date (MM-dd) for structure "week"', () => {
+            const { constructFilename } = getInstance({ outputStructure: 'week', outputFilenameOptions: ['date'] });
+            const filename = constructFilename(testDate, type, hash);
+            expect(mockDateFormat).toHaveBeenCalledWith(testDate, 'M-D');
+            expect(filename).toBe(`06-15-${hash}-${type}`);
+        });
+
         it('should add date (dd) for structure "month"', () => {
             const { constructFilename } = getInstance({ outputStructure: 'month', outputFilenameOptions: ['date'] });
             const filename = constructFilename(testDate, type, hash);
@@ -222,6 +346,20 @@ describe('Output Module', () => {
             expect(filename).toBe(`15-${hash}-${type}`);
         });
 
+        it('should zero-pad filename dates with the padded date format profile', () => {
+            const { constructFilename: noneFilename } = getInstance({ outputStructure: 'none', outputFilenameOptions: ['date'], dateFormatProfile: 'padded' });
+            expect(noneFilename(testDate, type, hash)).toBe(`2024-06-15-${hash}-${type}`);
+            expect(mockDateFormat).toHaveBeenCalledWith(testDate, 'YYYY-MM-DD');
+
+            const { constructFilename: yearFilename } = getInstance({ outputStructure: 'year', outputFilenameOptions: ['date'], dateFormatProfile: 'padded' });
+            expect(yearFilename(testDate, type, hash)).toBe(`06-15-${hash}-${type}`);
+            expect(mockDateFormat).toHaveBeenCalledWith(testDate, 'MM-DD');
+
+            const { constructFilename: monthFilename } = getInstance({ outputStructure: 'month', outputFilenameOptions: ['date'], dateFormatProfile: 'padded' });
+            expect(monthFilename(testDate, type, hash)).toBe(`15-${hash}-${type}`);
+            expect(mockDateFormat).toHaveBeenCalledWith(testDate, 'DD');
+        });
+
         // formatDate itself throws if structure is 'day', this is validated upstream
         // but we can check that formatDate is not called with 'day' structure if 'date' option is present
         // (though the internal formatDate function handles this explicitly)
@@ -310,5 +448,94 @@ describe('Output Module', () => {
             // Ensure it was called exactly twice with this config
             expect(mockDatesCreate.mock.calls.filter(call => call[0].timezone === 'America/New_York')).toHaveLength(2);
         });
+
+        // --- Template Tests ---
+        it('should build the filename from an output filename template', () => {
+            const { constructFilename } = getInstance({
+                outputStructure: 'month',
+                outputFilenameTemplate: '{date}_{subject}__{hash}.{type}',
+            });
+            const filename = constructFilename(testDate, 'md', hash, { subject: 'Weekly Sync' });
+            expect(filename).toBe(`15_Weekly_Sync__${hash}.md`);
+        });
+
+        it('should apply per-token formats in an output filename template', () => {
+            const { constructFilename } = getInstance({
+                outputStructure: 'day',
+                outputFilenameTemplate: '{date:YYYY-M-D}-{time:HHmm}-{hash:3}-{subject:lower}.{type:upper}',
+            });
+            const filename = constructFilename(testDate, 'md', hash, { subject: 'Weekly Sync' });
+            expect(mockDateFormat).toHaveBeenCalledWith(testDate, 'YYYY-M-D');
+            expect(filename).toBe('2024-06-15-1030-abc-weekly_sync.MD');
+        });
+
+        it('should date the filename by what an output directory template leaves out, rather than the structure', () => {
+            const { constructFilename } = getInstance({ outputStructure: 'month', outputDirectoryTemplate: '{YYYY}/{ext}', outputFilenameOptions: ['date'] });
+            expect(constructFilename(testDate, type, hash)).toBe(`06-15-${hash}-${type}`);
+        });
+
+        it('should throw for a date in the filename when the output directory template has a day', () => {
+            const { constructFilename } = getInstance({ outputDirectoryTemplate: '{YYYY}/{MM}/{DD}', outputFilenameOptions: ['date'] });
+            expect(() => constructFilename(testDate, type, hash)).toThrow('Cannot use date in filename when the output directory template has a day');
+        });
+
+        it('should keep literal braces in an output filename template', () => {
+            const { constructFilename } = getInstance({ outputFilenameTemplate: '{{{hash}}}' });
+            expect(constructFilename(testDate, type, hash)).toBe(`{${hash}}`);
+        });
+
+        it('should prefer the output filename template over output filename options', () => {
+            const { constructFilename } = getInstance({
+                outputFilenameOptions: ['date', 'time', 'subject'],
+                outputFilenameTemplate: '{hash}',
+            });
+            expect(constructFilename(testDate, type, hash, { subject: 'ignored' })).toBe(hash);
+        });
     });
-});
\ No newline at end of file
+});
+
+describe('templateStructure', () => {
+    it('should stand for the finest part of the date an output directory template captures', () => {
+        expect(templateStructure('{YYYY}/{MM}-{MMMM}/{DD}')).toBe('day');
+        expect(templateStructure('{YYYY}/{ext}/{MM}')).toBe('month');
+        expect(templateStructure('{YYYY}/Q{Q}')).toBe('year');
+        expect(templateStructure('{GGGG}/W{WW}')).toBe('year');
+        expect(templateStructure('{ext}')).toBe('none');
+    });
+});
+
+// Files written with an output directory template read back to the same date through the same template as input
+describe('Output directory template round trip', () => {
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn(), verbose: vi.fn(), silly: vi.fn() };
+    // Monday of ISO week 1 of 2025, in the last days of the calendar year 2024
+    const date = new Date(Date.UTC(2024, 11, 30, 8, 30));
+
+    beforeEach(() => {
+        mockDatesCreate.mockImplementation(createDates);
+    });
+
+    afterEach(() => {
+        mockDatesCreate.mockImplementation(() => ({ format: mockDateFormat, date: mockDateDate, isoWeek: mockDateIsoWeek }) as unknown as DatesUtil.Utility);
+    });
+
+    it.each([
+        ['{YYYY}', ['date', 'time', 'subject']],
+        ['{YYYY}/Q{Q}', ['date', 'time', 'subject']],
+        ['{GGGG}/W{WW}', ['date', 'time', 'subject']],
+        ['{YYYY}/{MM}-{MMMM}', ['date', 'time', 'subject']],
+        ['{YYYY}/{ext}/{MM}', ['date', 'time', 'subject']],
+        ['{YYYY}/{MM}/{DD}', ['time', 'subject']],
+        ['{ext}', ['date', 'time', 'subject']],
+    ] as [string, FilenameOption[]][])('should read back %s', (template, outputFilenameOptions) => {
+        for (const dateFormatProfile of ['compact', 'padded'] as const) {
+            const output = createOutput({
+                outputDirectory: '/output', outputStructure: 'month', outputDirectoryTemplate: template, outputFilenameOptions, dateFormatProfile, timezone: 'UTC',
+            } as Config, { logger, features: [], allowed: {}, addDefaults: false } as unknown as Options);
+            const directory = output.computeOutputDirectory(date, { type: 'md' });
+            const filename = `${output.constructFilename(date, 'md', 'abc', { subject: 'Notes' })}.md`;
+            const relativePath = path.relative('/output', path.join(directory, filename));
+
+            expect(parseDateFromFilePath(relativePath, filename, 'month', true, 'UTC', logger, { directoryTemplate: template })).toEqual(date);
+        }
+    });
+});
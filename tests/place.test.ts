@@ -0,0 +1,286 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Config, Options, OutputPath, PlacementMode } from '../src/dreadcabinet';
+import type * as StorageUtil from '../src/util/storage';
+import * as path from 'node:path';
+
+// --- Mock Dependencies ---
+
+const mockDigestFile = vi.fn<StorageUtil.Utility['digestFile']>();
+const mockCopyFile = vi.fn<StorageUtil.Utility['copyFile']>();
+const mockMoveFile = vi.fn<StorageUtil.Utility['moveFile']>();
+const mockLinkFile = vi.fn<StorageUtil.Utility['linkFile']>();
+const mockSymlinkFile = vi.fn<StorageUtil.Utility['symlinkFile']>();
+const mockRemoveFile = vi.fn<StorageUtil.Utility['removeFile']>();
+const mockCopyAttributes = vi.fn<StorageUtil.Utility['copyAttributes']>();
+const mockCreateDirectory = vi.fn<StorageUtil.Utility['createDirectory']>();
+// @ts-ignore - Only mocking used methods
+const mockStorageCreate = vi.fn<typeof StorageUtil.create>().mockReturnValue({
+    digestFile: mockDigestFile,
+    copyFile: mockCopyFile,
+    moveFile: mockMoveFile,
+    linkFile: mockLinkFile,
+    symlinkFile: mockSymlinkFile,
+    removeFile: mockRemoveFile,
+    copyAttributes: mockCopyAttributes,
+    createDirectory: mockCreateDirectory,
+});
+
+vi.mock('../src/util/storage', () => ({
+    create: mockStorageCreate,
+}));
+
+// Output and collision are handed in, so plain mocks are enough
+const mockConstructFilename = vi.fn<(date: Date, type: string, hash: string, options?: { subject?: string }) => string>();
+const mockConstructOutputDirectory = vi.fn<(creationTime: Date, options?: { type?: string }) => Promise<string>>();
+const mockComputeOutputDirectory = vi.fn<(creationTime: Date, options?: { type?: string }) => string>();
+const mockResolve = vi.fn<(directory: string, filename: string, options?: { source?: string }) => Promise<OutputPath>>();
+const mockRelease = vi.fn<(path: string) => void>();
+const mockExtract = vi.fn<(file: string) => Promise<string | undefined>>();
+const mockRecordDirectory = vi.fn<(created: string, directory: string) => Promise<void>>();
+const mockRecordFile = vi.fn<(source: string, target: string, mode: PlacementMode, overwritten?: boolean) => Promise<void>>();
+
+// --- Dynamically Import Module Under Test ---
+
+const { create, toOutputFilename } = await import('../src/place');
+
+const codeError = (code: string) => Object.assign(new Error(code), { code });
+
+// --- Test Suite ---
+
+describe('Place Module', () => {
+    let baseConfig: Config;
+    let baseOptions: Options;
+    let testDate: Date;
+    const source = path.resolve('/in/note.md');
+    const target = path.resolve('/out/2025/3/7-cafebabe-md-note.md');
+
+    const getInstance = (configOverrides: Partial<Config> = {}) => create({ ...baseConfig, ...configOverrides }, baseOptions, {
+        output: { constructFilename: mockConstructFilename, constructOutputDirectory: mockConstructOutputDirectory, computeOutputDirectory: mockComputeOutputDirectory },
+        collision: { resolve: mockResolve, release: mockRelease },
+        journal: { runId: 'run', recordDirectory: mockRecordDirectory, recordFile: mockRecordFile, undo: vi.fn() },
+        subject: { extract: mockExtract, handle: (_file, work) => work() },
+    });
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+
+        testDate = new Date(2025, 2, 7);
+        mockDigestFile.mockResolvedValue('cafebabe0123456789');
+        mockComputeOutputDirectory.mockReturnValue('/out/2025/3');
+        mockConstructFilename.mockReturnValue('7-cafebabe-md-note');
+        mockResolve.mockResolvedValue({ path: target, resolution: 'none' });
+
+        baseConfig = {
+            outputDirectory: '/out',
+            timezone: 'UTC',
+        };
+        baseOptions = {
+            logger: {
+                debug: vi.fn(),
+                info: vi.fn(),
+                warn: vi.fn(),
+                error: vi.fn(),
+                verbose: vi.fn(),
+                silly: vi.fn(),
+            },
+            features: ['output'],
+            addDefaults: false,
+        };
+    });
+
+    describe('toOutputFilename', () => {
+        it('should append the type as an extension unless it is already there', () => {
+            expect(toOutputFilename('7-hash-md-note', 'md')).toBe('7-hash-md-note.md');
+            expect(toOutputFilename('7_note__hash.md', 'md')).toBe('7_note__hash.md');
+        });
+    });
+
+    describe('locate', () => {
+        it('should compute the directory and filename without creating anything', async () => {
+            const { locate } = getInstance();
+            const result = await locate('/in/note.md', { date: testDate, subject: 'note' });
+
+            expect(result).toEqual({ directory: '/out/2025/3', filename: '7-cafebabe-md-note.md' });
+            expect(mockConstructOutputDirectory).not.toHaveBeenCalled();
+            expect(mockCreateDirectory).not.toHaveBeenCalled();
+            expect(mockResolve).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('placeAt', () => {
+        it('should place a file at a given directory and filename', async () => {
+            const { placeAt } = getInstance();
+            const result = await placeAt('/in/note.md', '/out/2025/3', '7-cafebabe-md-note.md', { mode: 'hardlink' });
+
+            expect(mockResolve).toHaveBeenCalledWith('/out/2025/3', '7-cafebabe-md-note.md', { source });
+            expect(mockLinkFile).toHaveBeenCalledWith(source, target);
+            expect(result).toEqual({ path: target, resolution: 'none', mode: 'hardlink' });
+        });
+    });
+
+    describe('place', () => {
+        it('should copy the file to the computed output path by default', async () => {
+            const { place } = getInstance();
+            const result = await place('/in/note.md', { date: testDate, subject: 'note' });
+
+            expect(mockComputeOutputDirectory).toHaveBeenCalledWith(testDate, { type: 'md' });
+            expect(mockConstructFilename).toHaveBeenCalledWith(testDate, 'md', 'cafebabe', { subject: 'note' });
+            expect(mockResolve).toHaveBeenCalledWith('/out/2025/3', '7-cafebabe-md-note.md', { source });
+            expect(mockCreateDirectory).toHaveBeenCalledWith('/out/2025/3');
+            expect(mockCopyFile).toHaveBeenCalledWith(source, target, { clone: false });
+            expect(mockCopyAttributes).not.toHaveBeenCalled();
+            expect(result).toEqual({ path: target, resolution: 'none', mode: 'copy' });
+        });
+
+        it('should journal created directories and placed files', async () => {
+            mockCreateDirectory.mockResolvedValueOnce('/out/2025');
+            const { place } = getInstance();
+            await place('/in/note.md', { date: testDate, mode: 'reflink' });
+
+            expect(mockRecordDirectory).toHaveBeenCalledWith('/out/2025', '/out/2025/3');
+            expect(mockRecordFile).toHaveBeenCalledWith(source, target, 'reflink', false);
+        });
+
+        it('should journal the mode actually used and whether a file was overwritten', async () => {
+            mockResolve.mockResolvedValueOnce({ path: target, resolution: 'overwritten' });
+            mockLinkFile.mockRejectedValueOnce(codeError('EXDEV'));
+            const { place } = getInstance();
+            await place('/in/note.md', { date: testDate, mode: 'hardlink' });
+
+            // The directory already existed, so there is nothing to journal for it
+            expect(mockRecordDirectory).not.toHaveBeenCalled();
+            expect(mockRecordFile).toHaveBeenCalledWith(source, target, 'copy', true);
+        });
+
+        it('should use the given hash and type', async () => {
+            const { place } = getInstance();
+            await place('/in/note.md', { date: testDate, hash: 'given', type: 'txt' });
+
+            expect(mockDigestFile).not.toHaveBeenCalled();
+            expect(mockConstructFilename).toHaveBeenCalledWith(testDate, 'txt', 'given', { subject: undefined });
+        });
+
+        it('should use the extracted subject when none is given', async () => {
+            mockExtract.mockResolvedValue('From Frontmatter');
+            const { place } = getInstance();
+
+            await place('/in/note.md', { date: testDate });
+            expect(mockExtract).toHaveBeenCalledWith(source);
+            expect(mockConstructFilename).toHaveBeenCalledWith(testDate, 'md', 'cafebabe', { subject: 'From Frontmatter' });
+
+            await place('/in/note.md', { date: testDate, subject: 'given' });
+            expect(mockConstructFilename).toHaveBeenLastCalledWith(testDate, 'md', 'cafebabe', { subject: 'given' });
+        });
+
+        it('should preserve mtime and permissions on request', async () => {
+            const { place } = getInstance();
+            await place('/in/note.md', { date: testDate, preserve: ['mtime', 'permissions'] });
+
+            expect(mockCopyAttributes).toHaveBeenCalledWith(source, target, { mtime: true, permissions: true });
+        });
+
+        it('should not write anything when the output is skipped or identical', async () => {
+            mockResolve.mockResolvedValueOnce({ path: target, resolution: 'identical' });
+            const { place } = getInstance();
+            const result = await place('/in/note.md', { date: testDate });
+
+            expect(result).toEqual({ path: target, resolution: 'identical' });
+            expect(mockCopyFile).not.toHaveBeenCalled();
+            expect(mockCreateDirectory).not.toHaveBeenCalled();
+        });
+
+        it('should resolve the target but write nothing in a dry run', async () => {
+            const { place } = getInstance({ dryRun: true });
+            const result = await place('/in/note.md', { date: testDate, mode: 'move' });
+
+            expect(result).toEqual({ path: target, resolution: 'none' });
+            expect(mockResolve).toHaveBeenCalled();
+            expect(mockCreateDirectory).not.toHaveBeenCalled();
+            expect(mockMoveFile).not.toHaveBeenCalled();
+            expect(mockRecordFile).not.toHaveBeenCalled();
+            expect(baseOptions.logger.info).toHaveBeenCalledWith('Dry run: would %s %s to %s', 'move', source, target);
+        });
+
+        it('should move the file', async () => {
+            const { place } = getInstance();
+            const result = await place('/in/note.md', { date: testDate, mode: 'move' });
+
+            expect(mockMoveFile).toHaveBeenCalledWith(source, target);
+            expect(result.mode).toBe('move');
+        });
+
+        it('should copy and remove the source when moving across devices', async () => {
+            mockMoveFile.mockRejectedValueOnce(codeError('EXDEV'));
+            const { place } = getInstance();
+            const result = await place('/in/note.md', { date: testDate, mode: 'move' });
+
+            expect(mockCopyFile).toHaveBeenCalledWith(source, target, { clone: false });
+            expect(mockCopyAttributes).toHaveBeenCalledWith(source, target, { mtime: true, permissions: true });
+            expect(mockRemoveFile).toHaveBeenCalledWith(source);
+            expect(result.mode).toBe('move');
+        });
+
+        it('should not fall back when a move fails for another reason', async () => {
+            mockMoveFile.mockRejectedValueOnce(codeError('EACCES'));
+            const { place } = getInstance();
+
+            await expect(place('/in/note.md', { date: testDate, mode: 'move' })).rejects.toThrow('EACCES');
+            expect(mockCopyFile).not.toHaveBeenCalled();
+            expect(mockRemoveFile).not.toHaveBeenCalled();
+        });
+
+        it('should release the target when placing fails, so that trying the file again does not collide with it', async () => {
+            const { place } = getInstance();
+            mockCreateDirectory.mockRejectedValueOnce(codeError('ENOENT'));
+            await expect(place('/in/note.md', { date: testDate })).rejects.toThrow('ENOENT');
+            expect(mockRelease).toHaveBeenCalledWith(target);
+
+            mockRelease.mockClear();
+            mockCopyFile.mockRejectedValueOnce(codeError('ENOSPC'));
+            await expect(place('/in/note.md', { date: testDate })).rejects.toThrow('ENOSPC');
+            expect(mockRelease).toHaveBeenCalledWith(target);
+            expect(mockRecordFile).not.toHaveBeenCalled();
+
+            mockRelease.mockClear();
+            await place('/in/note.md', { date: testDate });
+            expect(mockRelease).not.toHaveBeenCalled();
+        });
+
+        it('should hard link the file and fall back to a copy across devices', async () => {
+            const { place } = getInstance();
+            expect((await place('/in/note.md', { date: testDate, mode: 'hardlink' })).mode).toBe('hardlink');
+            expect(mockLinkFile).toHaveBeenCalledWith(source, target);
+
+            mockLinkFile.mockRejectedValueOnce(codeError('EXDEV'));
+            expect((await place('/in/note.md', { date: testDate, mode: 'hardlink' })).mode).toBe('copy');
+            expect(mockCopyFile).toHaveBeenCalledWith(source, target, { clone: false });
+        });
+
+        it('should symlink to the absolute source path', async () => {
+            const { place } = getInstance();
+            const result = await place('in/note.md', { date: testDate, mode: 'symlink' });
+
+            expect(mockSymlinkFile).toHaveBeenCalledWith(path.resolve('in/note.md'), target);
+            expect(result.mode).toBe('symlink');
+        });
+
+        it('should remove an existing file before linking over it', async () => {
+            mockResolve.mockResolvedValueOnce({ path: target, resolution: 'overwritten' });
+            const { place } = getInstance();
+            await place('/in/note.md', { date: testDate, mode: 'symlink' });
+
+            expect(mockRemoveFile).toHaveBeenCalledWith(target);
+            expect(mockSymlinkFile).toHaveBeenCalledWith(source, target);
+        });
+
+        it('should reflink the file and fall back to a copy where cloning is unsupported', async () => {
+            const { place } = getInstance();
+            expect((await place('/in/note.md', { date: testDate, mode: 'reflink' })).mode).toBe('reflink');
+            expect(mockCopyFile).toHaveBeenCalledWith(source, target, { clone: true });
+
+            mockCopyFile.mockRejectedValueOnce(codeError('ENOTSUP'));
+            expect((await place('/in/note.md', { date: testDate, mode: 'reflink' })).mode).toBe('copy');
+            expect(mockCopyFile).toHaveBeenLastCalledWith(source, target, { clone: false });
+        });
+    });
+});
@@ -0,0 +1,208 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Config, InputHooks, Options, OutputPath, Plan, PlaceOptions, Placement, ProcessReport } from '../src/dreadcabinet';
+import type * as Collision from '../src/collision';
+import * as path from 'node:path';
+
+// --- Mock Dependencies ---
+
+// Each plan gets a collision registry of its own
+const mockResolve = vi.fn<(directory: string, filename: string, options?: { source?: string }) => Promise<OutputPath>>();
+const mockCollisionCreate = vi.fn<typeof Collision.create>().mockReturnValue({
+    resolve: mockResolve,
+    release: vi.fn(),
+});
+
+vi.mock('../src/collision', () => ({
+    create: mockCollisionCreate,
+}));
+
+// Input and placement are handed in, so plain mocks are enough
+type ProcessCallback = (file: string, date?: Date) => Promise<void>;
+const mockProcess = vi.fn<(callback: ProcessCallback, options?: { start?: Date, end?: Date } & InputHooks) => Promise<ProcessReport>>();
+const mockLocate = vi.fn<(file: string, options: PlaceOptions) => Promise<{ directory: string, filename: string }>>();
+const mockPlaceAt = vi.fn<(file: string, directory: string, filename: string, options?: Pick<PlaceOptions, 'mode' | 'preserve'>) => Promise<Placement>>();
+
+// --- Dynamically Import Module Under Test ---
+
+const { create } = await import('../src/plan');
+
+// --- Test Suite ---
+
+describe('Plan Module', () => {
+    let baseConfig: Config;
+    let baseOptions: Options;
+    const date = new Date(Date.UTC(2025, 2, 7));
+    const report = {} as ProcessReport;
+
+    const getInstance = () => create(baseConfig, baseOptions, {
+        input: { process: mockProcess, processBatches: vi.fn(), files: vi.fn() },
+        placement: { place: vi.fn(), placeAt: mockPlaceAt, locate: mockLocate },
+    });
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+
+        // Walk two dated files and report one skipped file, like structured input would
+        mockProcess.mockImplementation(async (callback, options) => {
+            await callback('/in/2025/3/7-b.md', date);
+            options?.onSkip?.('/in/2024/1/1-old.md', 'out-of-range', new Date(Date.UTC(2024, 0, 1)));
+            await callback('/in/2025/3/7-a.md', date);
+            return report;
+        });
+        mockLocate.mockImplementation(async (file) => ({ directory: '/out/2025/3', filename: path.basename(file) }));
+        mockResolve.mockImplementation(async (directory, filename) => ({ path: path.resolve(directory, filename), resolution: 'none' }));
+
+        baseConfig = {
+            outputDirectory: '/out',
+            timezone: 'UTC',
+        };
+        baseOptions = {
+            logger: {
+                debug: vi.fn(),
+                info: vi.fn(),
+                warn: vi.fn(),
+                error: vi.fn(),
+                verbose: vi.fn(),
+                silly: vi.fn(),
+            },
+            features: ['input', 'output'],
+            addDefaults: false,
+        };
+    });
+
+    describe('plan', () => {
+        it('should plan every file the input walk reaches, in the order it reached them', async () => {
+            const { plan } = getInstance();
+            const result = await plan(undefined, { start: date, end: date });
+
+            expect(mockProcess).toHaveBeenCalledWith(expect.any(Function), expect.objectContaining({ start: date, end: date }));
+            expect(result.actions).toEqual([
+                { source: path.resolve('/in/2025/3/7-b.md'), date: date.toISOString(), targetDirectory: '/out/2025/3', targetFilename: '7-b.md', mode: 'copy', resolution: 'none' },
+                { source: path.resolve('/in/2024/1/1-old.md'), date: '2024-01-01T00:00:00.000Z', skipped: 'out-of-range' },
+                { source: path.resolve('/in/2025/3/7-a.md'), date: date.toISOString(), targetDirectory: '/out/2025/3', targetFilename: '7-a.md', mode: 'copy', resolution: 'none' },
+            ]);
+            expect(mockPlaceAt).not.toHaveBeenCalled();
+        });
+
+        it('should produce a plan that survives a round trip through JSON', async () => {
+            const { plan } = getInstance();
+            const result = await plan();
+            expect(JSON.parse(JSON.stringify(result))).toEqual(result);
+        });
+
+        it('should apply the options and skips returned by the callback', async () => {
+            const { plan } = getInstance();
+            const result = await plan(async (file) => file.endsWith('a.md') ? { skip: 'draft' } : { subject: 'b', mode: 'move', preserve: ['mtime'] });
+
+            expect(mockLocate).toHaveBeenCalledWith('/in/2025/3/7-b.md', { subject: 'b', mode: 'move', preserve: ['mtime'], date });
+            expect(result.actions[2]).toEqual({ source: path.resolve('/in/2025/3/7-a.md'), date: date.toISOString(), skipped: 'draft' });
+            expect(result.actions[0]).toMatchObject({ mode: 'move', preserve: ['mtime'] });
+        });
+
+        it('should skip files without a date', async () => {
+            mockProcess.mockImplementation(async (callback) => {
+                await callback('/in/note.md');
+                return report;
+            });
+            const { plan } = getInstance();
+            const result = await plan();
+            expect(result.actions).toEqual([{ source: path.resolve('/in/note.md'), skipped: 'no-date' }]);
+        });
+
+        it('should record collisions found while planning', async () => {
+            mockResolve.mockResolvedValueOnce({ path: path.resolve('/out/2025/3/7-b-1.md'), resolution: 'suffixed' });
+            mockResolve.mockResolvedValueOnce({ path: path.resolve('/out/2025/3/7-a.md'), resolution: 'identical' });
+            const { plan } = getInstance();
+            const result = await plan();
+
+            expect(result.actions[2]).toMatchObject({ targetFilename: '7-a.md', resolution: 'identical', skipped: 'identical' });
+            expect(result.actions[0]).toMatchObject({ targetFilename: '7-b-1.md', resolution: 'suffixed' });
+        });
+
+        it('should keep the order files started in, whatever order they finish in', async () => {
+            mockProcess.mockImplementation(async (callback, options) => {
+                // The walk starts b then a, as --sort put them, and a finishes first
+                options?.onStart?.('/in/2025/3/7-b.md');
+                const first = callback('/in/2025/3/7-b.md', date);
+                options?.onStart?.('/in/2025/3/7-a.md');
+                await callback('/in/2025/3/7-a.md', date);
+                await first;
+                return report;
+            });
+            let finish!: () => void;
+            const finished = new Promise<void>(resolve => { finish = resolve; });
+            mockLocate.mockImplementation(async (file) => {
+                if (file.endsWith('b.md')) {
+                    await finished;
+                } else {
+                    finish();
+                }
+                return { directory: '/out/2025/3', filename: path.basename(file) };
+            });
+
+            const result = await getInstance().plan();
+
+            expect(result.actions.map(action => action.source)).toEqual([path.resolve('/in/2025/3/7-b.md'), path.resolve('/in/2025/3/7-a.md')]);
+        });
+
+        it('should record files that could not be planned as skipped, with the error', async () => {
+            mockLocate.mockImplementation(async (file) => {
+                if (file.endsWith('a.md')) {
+                    throw new Error('EACCES: permission denied');
+                }
+                return { directory: '/out/2025/3', filename: path.basename(file) };
+            });
+            mockProcess.mockImplementation(async (callback, options) => {
+                await callback('/in/2025/3/7-a.md', date);
+                await options?.onFail?.('/in/notes/undated.md', new Error('Could not read the date'));
+                await callback('/in/2025/3/7-b.md', date);
+                return report;
+            });
+
+            const result = await getInstance().plan();
+
+            expect(result.actions).toEqual([
+                { source: path.resolve('/in/2025/3/7-a.md'), date: date.toISOString(), skipped: 'failed', error: 'EACCES: permission denied' },
+                { source: path.resolve('/in/notes/undated.md'), skipped: 'failed', error: 'Could not read the date' },
+                expect.objectContaining({ source: path.resolve('/in/2025/3/7-b.md'), targetFilename: '7-b.md' }),
+            ]);
+            expect(baseOptions.logger.warn).toHaveBeenCalledWith('Could not plan %s: %s', '/in/2025/3/7-a.md', 'EACCES: permission denied');
+        });
+
+        it('should use a fresh collision registry for each plan', async () => {
+            const { plan } = getInstance();
+            await plan();
+            await plan();
+            expect(mockCollisionCreate).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe('apply', () => {
+        const plan: Plan = {
+            createdAt: '2025-03-07T00:00:00.000Z',
+            actions: [
+                { source: '/in/2024/1/1-old.md', skipped: 'out-of-range' },
+                { source: '/in/2025/3/7-a.md', date: date.toISOString(), targetDirectory: '/out/2025/3', targetFilename: '7-a.md', mode: 'hardlink', resolution: 'none', preserve: ['mtime'] },
+            ],
+        };
+
+        it('should place every action that is not skipped', async () => {
+            const placed: Placement = { path: '/out/2025/3/7-a.md', resolution: 'none', mode: 'hardlink' };
+            mockPlaceAt.mockResolvedValue(placed);
+            const { apply } = getInstance();
+
+            const result = await apply(plan);
+
+            expect(mockPlaceAt).toHaveBeenCalledTimes(1);
+            expect(mockPlaceAt).toHaveBeenCalledWith('/in/2025/3/7-a.md', '/out/2025/3', '7-a.md', { mode: 'hardlink', preserve: ['mtime'] });
+            expect(result).toEqual([placed]);
+        });
+
+        it('should reject malformed plans before placing anything', async () => {
+            const { apply } = getInstance();
+            // @ts-ignore - Testing a malformed plan read from JSON
+            await expect(apply({ actions: [{ source: '/in/a.md', mode: 'teleport' }] })).rejects.toThrow();
+            expect(mockPlaceAt).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Logger, ProgressTotals } from '../src/dreadcabinet';
+
+const Events = await import('../src/events');
+const { create, formatProgress } = await import('../src/progress');
+
+describe('Progress Module', () => {
+    const totals: ProgressTotals = { discovered: 40, enumerated: true, started: 12, processed: 8, skipped: 1, failed: 1, elapsedMs: 4000, etaMs: 12000 };
+    let mockLogger: Logger;
+
+    beforeEach(() => {
+        mockLogger = {
+            debug: vi.fn(),
+            info: vi.fn(),
+            warn: vi.fn(),
+            error: vi.fn(),
+            verbose: vi.fn(),
+            silly: vi.fn(),
+        };
+    });
+
+    const stream = (isTTY: boolean) => ({ isTTY, write: vi.fn() }) as unknown as NodeJS.WriteStream & { write: ReturnType<typeof vi.fn> };
+
+    describe('formatProgress', () => {
+        it('should draw a bar with the rate and time left once every file has been found', () => {
+            expect(formatProgress(totals)).toBe('[######------------------] 10/40 25%  2.5 files/s  ETA 0:12  1 failed');
+            expect(formatProgress({ ...totals, failed: 0, etaMs: 3_725_000 })).toBe('[#####-------------------] 9/40 22%  2.3 files/s  ETA 1:02:05');
+        });
+
+        it('should only count while files are still being found', () => {
+            expect(formatProgress({ ...totals, enumerated: false, etaMs: undefined })).toBe('10 done, 40 found so far  2.5 files/s  1 failed');
+        });
+    });
+
+    describe('create', () => {
+        it('should redraw the line as files are done and end it once the run is over', () => {
+            const events = Events.create(mockLogger);
+            const out = stream(true);
+            const { finish } = create(events, out);
+
+            events.emit('done', { file: '/in/a.md', totals });
+            expect(out.write).toHaveBeenCalledWith(`\r${formatProgress(totals)}\x1b[K`);
+
+            finish();
+            expect(out.write).toHaveBeenLastCalledWith('\n');
+            finish();
+            expect(out.write).toHaveBeenCalledTimes(3);
+        });
+
+        it('should draw nothing when not writing to a terminal', () => {
+            const events = Events.create(mockLogger);
+            const out = stream(false);
+            const { finish } = create(events, out);
+
+            events.emit('done', { file: '/in/a.md', totals });
+            finish();
+
+            expect(out.write).not.toHaveBeenCalled();
+            expect(events.track()).toEqual({});
+        });
+    });
+});
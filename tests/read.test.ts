@@ -52,6 +52,50 @@ describe('read', () => {
         await expect(read(args, features)).resolves.toEqual(expectedConfig);
     });
 
+    test('should read the date sources and filename date patterns with the input feature', async () => {
+        const args: Args = { ...baseArgs, dateSource: ['frontmatter', 'mtime'], filenameDatePatterns: ['camera'] };
+        await expect(read(args, ['input'])).resolves.toMatchObject({ dateSources: ['frontmatter', 'mtime'], filenameDatePatterns: ['camera'] });
+        await expect(read(args, ['output'])).resolves.not.toHaveProperty('dateSources');
+    });
+
+    test('should read the include and exclude globs and gitignore with the input feature', async () => {
+        const args: Args = { ...baseArgs, include: ['**/*.md'], exclude: ['drafts'], gitignore: true };
+        await expect(read(args, ['input'])).resolves.toMatchObject({ include: ['**/*.md'], exclude: ['drafts'], gitignore: true });
+        await expect(read(args, ['output'])).resolves.not.toHaveProperty('include');
+    });
+
+    test('should read the error policy and quarantine directory with the input feature', async () => {
+        const args: Args = { ...baseArgs, onError: 'quarantine', quarantineDirectory: '/var/quarantine' };
+        await expect(read(args, ['input'])).resolves.toMatchObject({ onError: 'quarantine', quarantineDirectory: '/var/quarantine' });
+        await expect(read(args, ['output'])).resolves.not.toHaveProperty('onError');
+    });
+
+    test('should read progress with the input feature', async () => {
+        const args: Args = { ...baseArgs, progress: true };
+        await expect(read(args, ['input'])).resolves.toMatchObject({ progress: true });
+        await expect(read(args, ['output'])).resolves.not.toHaveProperty('progress');
+    });
+
+    test('should read the timeout, retries and rate limit with the input feature, as numbers', async () => {
+        // @ts-ignore - Commander hands option values over as strings
+        const args: Args = { ...baseArgs, timeout: '30000', retries: '2', retryDelay: '500', rateLimit: '5/s' };
+        await expect(read(args, ['input'])).resolves.toMatchObject({ timeout: 30000, retries: 2, retryDelay: 500, rateLimit: '5/s' });
+        await expect(read(args, ['output'])).resolves.not.toHaveProperty('retries');
+    });
+
+    test('should read the limit, offset, sample and seed with the input feature, as numbers', async () => {
+        // @ts-ignore - Commander hands option values over as strings
+        const args: Args = { ...baseArgs, limit: '10', offset: '20', sample: '50', seed: 'prompt-eval' };
+        await expect(read(args, ['input'])).resolves.toMatchObject({ limit: 10, offset: 20, sample: 50, seed: 'prompt-eval' });
+        await expect(read(args, ['output'])).resolves.not.toHaveProperty('offset');
+    });
+
+    test('should read the sort order and reverse with the input feature', async () => {
+        const args: Args = { ...baseArgs, sort: 'date-desc', reverse: true };
+        await expect(read(args, ['input'])).resolves.toMatchObject({ sort: 'date-desc', reverse: true });
+        await expect(read(args, ['output'])).resolves.not.toHaveProperty('sort');
+    });
+
     test('should only populate timezone if no features are provided', async () => {
         const features: Feature[] = [];
         const expectedConfig: Partial<Config> = {
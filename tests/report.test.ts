@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import type { BatchReport, ProcessReport } from '../src/dreadcabinet';
+
+const { formatReport } = await import('../src/report');
+
+describe('Report Module', () => {
+    const report: ProcessReport = {
+        processed: 12,
+        skipped: { 'out-of-range': 3, 'unparseable-date': 1, 'excluded': 1, 'limit-reached': 0, 'offset': 0, 'not-sampled': 0 },
+        failed: [{ file: '/in/2025/3/7-notes.md', error: new TypeError('Cannot read properties of undefined') }],
+        durationMs: 1230,
+        filesPerSecond: 9.756,
+        aborted: false,
+    };
+
+    it('should render a table with the skipped files by reason and the failures', () => {
+        expect(formatReport(report)).toBe([
+            'Processed                     12',
+            'Skipped                        5',
+            '  out of range                 3',
+            '  unparseable date             1',
+            '  excluded                     1',
+            '  limit reached                0',
+            '  before offset                0',
+            '  not sampled                  0',
+            'Failed                         1',
+            'Duration                   1.23s',
+            'Throughput          9.76 files/s',
+            '',
+            'Failed files:',
+            '  /in/2025/3/7-notes.md: Cannot read properties of undefined',
+        ].join('\n'));
+    });
+
+    it('should say where failed files were quarantined', () => {
+        const quarantined = { ...report, failed: [{ ...report.failed[0], quarantined: '/quarantine/2025/3/7-notes.md' }] };
+
+        expect(formatReport(quarantined)).toContain('  /in/2025/3/7-notes.md: Cannot read properties of undefined (quarantined in /quarantine/2025/3/7-notes.md)');
+        expect(JSON.parse(formatReport(quarantined, 'json')).failed[0].quarantined).toBe('/quarantine/2025/3/7-notes.md');
+    });
+
+    it('should say when the counts only cover part of an aborted run', () => {
+        expect(formatReport({ ...report, aborted: true })).toContain('\nAborted before every file was processed, so the counts are partial.\n');
+        expect(formatReport(report)).not.toContain('Aborted');
+    });
+
+    it('should leave out the failed files when nothing failed', () => {
+        expect(formatReport({ ...report, failed: [] }, 'table')).not.toContain('Failed files:');
+    });
+
+    it('should render JSON that keeps the error messages', () => {
+        expect(JSON.parse(formatReport(report, 'json'))).toEqual({
+            ...report,
+            failed: [{ file: '/in/2025/3/7-notes.md', error: { name: 'TypeError', message: 'Cannot read properties of undefined' } }],
+        });
+    });
+
+    it('should count the batches of a batch run, and keep their error messages in JSON', () => {
+        const batchReport: BatchReport = {
+            ...report,
+            batches: 4,
+            failedBatches: [{ files: ['/in/a.md', '/in/b.md'], error: new Error('Bulk insert failed') }],
+        };
+
+        expect(formatReport(batchReport)).toContain([
+            'Failed                         1',
+            'Batches                        4',
+            '  failed                       1',
+        ].join('\n'));
+        expect(JSON.parse(formatReport(batchReport, 'json')).failedBatches).toEqual([
+            { files: ['/in/a.md', '/in/b.md'], error: { name: 'Error', message: 'Bulk insert failed' } },
+        ]);
+        expect(formatReport(report)).not.toContain('Batches');
+    });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import type { Logger } from '../src/dreadcabinet';
+
+const { createShutdownSignal } = await import('../src/shutdown');
+
+describe('Shutdown Module', () => {
+    let dispose: (() => void) | undefined;
+
+    const mockLogger: Logger = {
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        verbose: vi.fn(),
+        silly: vi.fn(),
+    };
+
+    afterEach(() => {
+        dispose?.();
+        vi.restoreAllMocks();
+    });
+
+    it('should install nothing until called, and remove its handlers on dispose', () => {
+        const before = process.listenerCount('SIGTERM');
+        const shutdown = createShutdownSignal();
+        expect(process.listenerCount('SIGTERM')).toBe(before + 1);
+
+        shutdown.dispose();
+        expect(process.listenerCount('SIGTERM')).toBe(before);
+    });
+
+    it('should abort the signal on the first SIGINT or SIGTERM', () => {
+        const shutdown = createShutdownSignal({ logger: mockLogger });
+        dispose = shutdown.dispose;
+
+        process.emit('SIGTERM', 'SIGTERM');
+
+        expect(shutdown.signal.aborted).toBe(true);
+        expect(shutdown.signal.reason).toEqual(new Error('Received SIGTERM'));
+        expect(mockLogger.warn).toHaveBeenCalledWith('Received %s, finishing the files in progress. Send it again to stop at once.', 'SIGTERM');
+    });
+
+    it('should hand a second signal back to the process', () => {
+        const kill = vi.spyOn(process, 'kill').mockImplementation(() => true);
+        const before = process.listenerCount('SIGINT');
+        const shutdown = createShutdownSignal({ signals: ['SIGINT'] });
+        dispose = shutdown.dispose;
+
+        process.emit('SIGINT', 'SIGINT');
+        expect(kill).not.toHaveBeenCalled();
+
+        process.emit('SIGINT', 'SIGINT');
+        expect(process.listenerCount('SIGINT')).toBe(before);
+        expect(kill).toHaveBeenCalledWith(process.pid, 'SIGINT');
+    });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Config, Options } from '../src/dreadcabinet';
+import type * as StorageUtil from '../src/util/storage';
+
+// --- Mock Dependencies ---
+
+const mockReadFile = vi.fn<StorageUtil.Utility['readFile']>();
+// @ts-ignore - Only mocking used methods
+const mockStorageCreate = vi.fn<typeof StorageUtil.create>().mockReturnValue({
+    readFile: mockReadFile,
+});
+
+vi.mock('../src/util/storage', () => ({
+    create: mockStorageCreate,
+}));
+
+// --- Dynamically Import Module Under Test ---
+
+const { create, fromFrontmatter, fromHeading, fromFirstLine, fromFilename } = await import('../src/subject');
+
+// --- Test Suite ---
+
+describe('Subject Module', () => {
+    let baseConfig: Config;
+    let baseOptions: Options;
+
+    const note = [
+        '---',
+        'title: "Quarterly Planning"',
+        'tags: [work]',
+        '---',
+        '',
+        'Agenda for the week',
+        '',
+        '# Planning Notes #',
+    ].join('\n');
+
+    const getInstance = (configOverrides: Partial<Config> = {}, optionOverrides: Partial<Options> = {}) =>
+        create({ ...baseConfig, ...configOverrides }, { ...baseOptions, ...optionOverrides });
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+
+        mockReadFile.mockResolvedValue(note);
+
+        baseConfig = {
+            timezone: 'UTC',
+        };
+        baseOptions = {
+            logger: {
+                debug: vi.fn(),
+                info: vi.fn(),
+                warn: vi.fn(),
+                error: vi.fn(),
+                verbose: vi.fn(),
+                silly: vi.fn(),
+            },
+            features: ['input', 'output', 'structured-output'],
+            addDefaults: false,
+        };
+    });
+
+    describe('sources', () => {
+        it('should read the frontmatter title without its quotes', () => {
+            expect(fromFrontmatter(note)).toBe('Quarterly Planning');
+            expect(fromFrontmatter('---\ntitle:\n---\n')).toBeUndefined();
+            expect(fromFrontmatter('title: Not frontmatter')).toBeUndefined();
+        });
+
+        it('should read the first level one heading outside the frontmatter', () => {
+            expect(fromHeading(note)).toBe('Planning Notes');
+            expect(fromHeading('## Only a subheading')).toBeUndefined();
+        });
+
+        it('should read the first non-empty line outside the frontmatter', () => {
+            expect(fromFirstLine(note)).toBe('Agenda for the week');
+            expect(fromFirstLine('\n\n')).toBeUndefined();
+        });
+
+        it('should use the filename without its extension', () => {
+            expect(fromFilename('/in/2025/meeting notes.md')).toBe('meeting notes');
+        });
+    });
+
+    describe('extract', () => {
+        it('should extract nothing when no sources are configured', async () => {
+            const { extract } = getInstance();
+            expect(await extract('/in/note.md')).toBeUndefined();
+            expect(mockReadFile).not.toHaveBeenCalled();
+        });
+
+        it('should try the sources in order until one finds a subject', async () => {
+            mockReadFile.mockResolvedValue('no title here\n');
+            const { extract } = getInstance({ subjectSources: ['frontmatter', 'heading', 'filename', 'first-line'] });
+            expect(await extract('/in/fallback.md')).toBe('fallback');
+        });
+
+        it('should not read the file when only the filename is used', async () => {
+            const { extract } = getInstance({ subjectSources: ['filename'] });
+            expect(await extract('/in/note.md')).toBe('note');
+            expect(mockReadFile).not.toHaveBeenCalled();
+        });
+
+        it('should read each file once while it is handled', async () => {
+            const { extract, handle } = getInstance({ subjectSources: ['heading'] });
+            await handle('/in/note.md', async () => {
+                await Promise.all([extract('/in/note.md'), extract('/in/note.md')]);
+                expect(await extract('/in/note.md')).toBe('Planning Notes');
+            });
+            expect(mockReadFile).toHaveBeenCalledTimes(1);
+        });
+
+        it('should read the file afresh once it is no longer handled', async () => {
+            const { extract, handle } = getInstance({ subjectSources: ['heading'] });
+            await handle('/in/note.md', async () => { await extract('/in/note.md'); });
+
+            mockReadFile.mockResolvedValue('# Renamed');
+            expect(await extract('/in/note.md')).toBe('Renamed');
+            await handle('/in/note.md', async () => {
+                expect(await extract('/in/note.md')).toBe('Renamed');
+            });
+            expect(mockReadFile).toHaveBeenCalledTimes(3);
+        });
+
+        it('should keep the subject until every run handling the file is done', async () => {
+            const { extract, handle } = getInstance({ subjectSources: ['heading'] });
+            let finish!: () => void;
+            const first = handle('/in/note.md', async () => {
+                await extract('/in/note.md');
+                await new Promise<void>(resolve => { finish = resolve; });
+            });
+            await handle('/in/note.md', async () => { await extract('/in/note.md'); });
+            expect(await extract('/in/note.md')).toBe('Planning Notes');
+            finish();
+            await first;
+
+            expect(mockReadFile).toHaveBeenCalledTimes(1);
+        });
+
+        it('should not keep a failed read', async () => {
+            const { extract, handle } = getInstance({ subjectSources: ['heading'] });
+            mockReadFile.mockRejectedValueOnce(new Error('busy'));
+            await handle('/in/note.md', async () => {
+                await expect(extract('/in/note.md')).rejects.toThrow('busy');
+                expect(await extract('/in/note.md')).toBe('Planning Notes');
+            });
+            expect(mockReadFile).toHaveBeenCalledTimes(2);
+        });
+
+        it('should call the custom extractor with the file and its content', async () => {
+            const subjectExtractor = vi.fn<(file: string, content: string) => Promise<string | undefined>>().mockResolvedValue('  Custom  ');
+            const { extract } = getInstance({ subjectSources: ['custom', 'heading'] }, { subjectExtractor });
+
+            expect(await extract('/in/note.md')).toBe('Custom');
+            expect(subjectExtractor).toHaveBeenCalledWith('/in/note.md', note);
+        });
+
+        it('should use a subjectExtractor on its own when no sources are configured', async () => {
+            const subjectExtractor = vi.fn<(file: string, content: string) => Promise<string | undefined>>().mockResolvedValue(undefined);
+            const { extract } = getInstance({}, { subjectExtractor });
+
+            expect(await extract('/in/note.md')).toBeUndefined();
+            expect(subjectExtractor).toHaveBeenCalledTimes(1);
+        });
+    });
+});
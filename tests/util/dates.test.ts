@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { create, validTimezones } from '../../src/util/dates';
+import { calendarYearForFiscalYear, calendarYearForIsoWeek, create, fiscalPeriodOf, isoWeekOf, isoWeeksInYear, quarterOf, validTimezones } from '../../src/util/dates';
 import MockDate from 'mockdate';
 
 describe('dates utility', () => {
@@ -300,6 +300,62 @@ describe('dates utility', () => {
         });
     });
 
+    describe('ISO weeks', () => {
+        it('calculates the ISO week of a mid-year day', () => {
+            expect(isoWeekOf(2023, 5, 15)).toEqual({ year: 2023, week: 20 });
+        });
+
+        it('assigns late December days to week 1 of the next week-year', () => {
+            expect(isoWeekOf(2024, 12, 30)).toEqual({ year: 2025, week: 1 });
+        });
+
+        it('assigns early January days to the last week of the previous week-year', () => {
+            expect(isoWeekOf(2021, 1, 1)).toEqual({ year: 2020, week: 53 });
+            expect(isoWeekOf(2023, 1, 1)).toEqual({ year: 2022, week: 52 });
+        });
+
+        it('counts weeks in a year', () => {
+            expect(isoWeeksInYear(2020)).toBe(53);
+            expect(isoWeeksInYear(2023)).toBe(52);
+        });
+
+        it('resolves the calendar year of a day in an ISO week', () => {
+            expect(calendarYearForIsoWeek(2025, 1, 12)).toBe(2024);
+            expect(calendarYearForIsoWeek(2025, 1, 1)).toBe(2025);
+            expect(calendarYearForIsoWeek(2020, 53, 1)).toBe(2021);
+            expect(calendarYearForIsoWeek(2020, 53, 12)).toBe(2020);
+        });
+
+        it('uses the calendar day in the configured timezone', () => {
+            // 2024-12-30T03:00Z is still December 29th in New York, which is in 2024-W52
+            expect(dates.isoWeek(new Date('2024-12-30T03:00:00Z'))).toEqual({ year: 2024, week: 52 });
+            expect(create({ timezone: 'UTC' }).isoWeek(new Date('2024-12-30T03:00:00Z'))).toEqual({ year: 2025, week: 1 });
+        });
+    });
+
+    describe('quarters and fiscal periods', () => {
+        it('calculates calendar quarters', () => {
+            expect([1, 3, 4, 6, 7, 9, 10, 12].map(quarterOf)).toEqual([1, 1, 2, 2, 3, 3, 4, 4]);
+        });
+
+        it('matches calendar years and quarters when the fiscal year starts in January', () => {
+            expect(fiscalPeriodOf(2024, 1, 1)).toEqual({ year: 2024, quarter: 1 });
+            expect(fiscalPeriodOf(2024, 12, 1)).toEqual({ year: 2024, quarter: 4 });
+        });
+
+        it('names fiscal years after the calendar year in which they end', () => {
+            expect(fiscalPeriodOf(2024, 10, 10)).toEqual({ year: 2025, quarter: 1 });
+            expect(fiscalPeriodOf(2025, 1, 10)).toEqual({ year: 2025, quarter: 2 });
+            expect(fiscalPeriodOf(2025, 9, 10)).toEqual({ year: 2025, quarter: 4 });
+        });
+
+        it('resolves the calendar year of a month in a fiscal year', () => {
+            expect(calendarYearForFiscalYear(2025, 10, 10)).toBe(2024);
+            expect(calendarYearForFiscalYear(2025, 9, 10)).toBe(2025);
+            expect(calendarYearForFiscalYear(2025, 12, 1)).toBe(2025);
+        });
+    });
+
     describe('validTimezones', () => {
         it('returns an array of valid timezone strings', () => {
             const timezones = validTimezones();
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import * as Frontmatter from '../../src/util/frontmatter';
+
+describe('frontmatter utility', () => {
+    const note = [
+        '---',
+        'title: "Quarterly Planning"',
+        "date: '2025-03-07'",
+        'tags: [work]',
+        'empty:',
+        '---',
+        'Agenda for the week',
+    ].join('\n');
+
+    describe('field', () => {
+        it('reads a field without the quotes YAML allows around it', () => {
+            expect(Frontmatter.field(note, 'title')).toBe('Quarterly Planning');
+            expect(Frontmatter.field(note, 'date')).toBe('2025-03-07');
+        });
+
+        it('returns undefined for missing and empty fields', () => {
+            expect(Frontmatter.field(note, 'author')).toBeUndefined();
+            expect(Frontmatter.field(note, 'empty')).toBeUndefined();
+        });
+
+        it('only reads fields inside the frontmatter', () => {
+            expect(Frontmatter.field('title: Not frontmatter', 'title')).toBeUndefined();
+            expect(Frontmatter.field(`${note}\nauthor: Someone`, 'author')).toBeUndefined();
+        });
+
+        it('treats the field name literally', () => {
+            expect(Frontmatter.field('---\nt.tle: Dotted\n---\n', 'title')).toBeUndefined();
+        });
+    });
+
+    describe('strip', () => {
+        it('removes the frontmatter and keeps the rest', () => {
+            expect(Frontmatter.strip(note)).toBe('Agenda for the week');
+            expect(Frontmatter.strip('No frontmatter')).toBe('No frontmatter');
+        });
+    });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import * as Glob from '../../src/util/glob';
+
+describe('glob utility', () => {
+    describe('matches', () => {
+        it('matches files in the top directory only without a globstar', () => {
+            const matcher = Glob.compile('*.*');
+            expect(matcher.matches('notes.md')).toBe(true);
+            expect(matcher.matches('README')).toBe(false);
+            expect(matcher.matches('sub/notes.md')).toBe(false);
+        });
+
+        it('matches files at any depth with a globstar, including the top directory', () => {
+            const matcher = Glob.compile('**/*');
+            expect(matcher.matches('README')).toBe(true);
+            expect(matcher.matches('2025/03/notes.md')).toBe(true);
+        });
+
+        it('expands alternatives for the extension patterns input builds', () => {
+            const matcher = Glob.compile('**/*.{md,txt}');
+            expect(matcher.matches('a.md')).toBe(true);
+            expect(matcher.matches('x/y/b.txt')).toBe(true);
+            expect(matcher.matches('c.pdf')).toBe(false);
+            expect(Glob.compile('*.{md}').matches('a.{md}')).toBe(true);
+        });
+
+        it('supports ? and character classes', () => {
+            expect(Glob.compile('file?.md').matches('file1.md')).toBe(true);
+            expect(Glob.compile('file?.md').matches('file10.md')).toBe(false);
+            expect(Glob.compile('[ab]*.md').matches('beta.md')).toBe(true);
+            expect(Glob.compile('[!ab]*.md').matches('beta.md')).toBe(false);
+        });
+
+        it('does not match dotfiles or files in dot directories unless the pattern names the dot', () => {
+            expect(Glob.compile('**/*').matches('.hidden')).toBe(false);
+            expect(Glob.compile('**/*').matches('.git/config')).toBe(false);
+            expect(Glob.compile('.*').matches('.hidden')).toBe(true);
+        });
+
+        it('matches any of several patterns', () => {
+            const matcher = Glob.compile(['*.md', 'docs/*.txt']);
+            expect(matcher.matches('a.md')).toBe(true);
+            expect(matcher.matches('docs/b.txt')).toBe(true);
+            expect(matcher.matches('docs/b.md')).toBe(false);
+        });
+
+        it('treats regular expression characters literally', () => {
+            expect(Glob.compile('a+b.md').matches('a+b.md')).toBe(true);
+            expect(Glob.compile('a+b.md').matches('aab.md')).toBe(false);
+        });
+    });
+
+    describe('descend', () => {
+        it('only descends where the pattern can still match files', () => {
+            expect(Glob.compile('*.*').descend('sub')).toBe(false);
+            expect(Glob.compile('**/*').descend('sub/deeper')).toBe(true);
+            expect(Glob.compile('docs/*.md').descend('docs')).toBe(true);
+            expect(Glob.compile('docs/*.md').descend('src')).toBe(false);
+            expect(Glob.compile('docs/*.md').descend('docs/nested')).toBe(false);
+        });
+
+        it('does not descend into dot directories through a globstar', () => {
+            expect(Glob.compile('**/*').descend('.git')).toBe(false);
+            expect(Glob.compile('.config/*').descend('.config')).toBe(true);
+        });
+    });
+});
@@ -12,13 +12,14 @@ var fs: {
     },
     constants: {
         R_OK: number,
-        W_OK: number
+        W_OK: number,
+        COPYFILE_FICLONE_FORCE: number
     },
     createReadStream: ReturnType<typeof vi.fn<() => any>>,
 };
 
 // Mock the fs module
-const mockGlob = vi.fn<() => Promise<any>>();
+const mockOpendir = vi.fn<(path: string) => Promise<any>>();
 const mockStat = vi.fn<() => Promise<any>>();
 const mockAccess = vi.fn<() => Promise<void>>();
 const mockMkdir = vi.fn<() => Promise<void>>();
@@ -27,6 +28,16 @@ const mockWriteFile = vi.fn<() => Promise<void>>();
 const mockLstatSync = vi.fn<() => Promise<any>>();
 const mockReaddir = vi.fn<() => Promise<string[]>>();
 const mockCreateReadStream = vi.fn<() => any>();
+const mockCopyFile = vi.fn<() => Promise<void>>();
+const mockRename = vi.fn<() => Promise<void>>();
+const mockLink = vi.fn<() => Promise<void>>();
+const mockSymlink = vi.fn<() => Promise<void>>();
+const mockUnlink = vi.fn<() => Promise<void>>();
+const mockChmod = vi.fn<() => Promise<void>>();
+const mockUtimes = vi.fn<() => Promise<void>>();
+const mockAppendFile = vi.fn<() => Promise<void>>();
+const mockRmdir = vi.fn<() => Promise<void>>();
+const mockLstat = vi.fn<() => Promise<any>>();
 
 vi.mock('fs', () => ({
     __esModule: true,
@@ -37,11 +48,23 @@ vi.mock('fs', () => ({
         readFile: mockReadFile,
         writeFile: mockWriteFile,
         lstatSync: mockLstatSync,
-        readdir: mockReaddir
+        readdir: mockReaddir,
+        copyFile: mockCopyFile,
+        rename: mockRename,
+        link: mockLink,
+        symlink: mockSymlink,
+        unlink: mockUnlink,
+        chmod: mockChmod,
+        utimes: mockUtimes,
+        appendFile: mockAppendFile,
+        rmdir: mockRmdir,
+        lstat: mockLstat,
+        opendir: mockOpendir
     },
     constants: {
         R_OK: 4,
-        W_OK: 2
+        W_OK: 2,
+        COPYFILE_FICLONE_FORCE: 4
     },
     createReadStream: mockCreateReadStream
 }));
@@ -57,11 +80,6 @@ vi.mock('crypto', () => ({
     createHash: mockCrypto.createHash
 }));
 
-vi.mock('glob', () => ({
-    __esModule: true,
-    glob: mockGlob
-}));
-
 // Import the storage module after mocking fs
 let storageModule: any;
 
@@ -72,7 +90,6 @@ describe('Storage Utility', () => {
 
     beforeAll(async () => {
         var fs = await import('fs');
-        var glob = await import('glob');
         storageModule = await import('../../src/util/storage');
     });
 
@@ -314,6 +331,13 @@ describe('Storage Utility', () => {
             expect(mockMkdir).toHaveBeenCalledWith('/test/dir', { recursive: true });
         });
 
+        it('should return the first directory it created', async () => {
+            // @ts-ignore - mkdir resolves to a path when it creates something
+            mockMkdir.mockResolvedValueOnce('/test');
+
+            await expect(storage.createDirectory('/test/dir')).resolves.toBe('/test');
+        });
+
         it('should throw error if directory creation fails', async () => {
             mockMkdir.mockRejectedValueOnce(new Error('Failed to create directory'));
 
@@ -457,6 +481,109 @@ describe('Storage Utility', () => {
         });
     });
 
+    describe('digestFile', () => {
+        it('should hash the raw bytes of the file as they are streamed', async () => {
+            const chunks = [Buffer.from([0xff, 0x00]), Buffer.from('rest')];
+            const mockHash = {
+                update: vi.fn().mockReturnThis(),
+                digest: vi.fn().mockReturnValue('0123456789abcdef0123456789abcdef')
+            };
+
+            mockCreateReadStream.mockReturnValueOnce((async function* () { yield* chunks; })());
+            mockCrypto.createHash.mockReturnValueOnce(mockHash);
+
+            const result = await storage.digestFile('/test/image.png');
+
+            expect(mockCreateReadStream).toHaveBeenCalledWith('/test/image.png');
+            expect(mockCrypto.createHash).toHaveBeenCalledWith('sha256');
+            expect(mockHash.update).toHaveBeenNthCalledWith(1, chunks[0]);
+            expect(mockHash.update).toHaveBeenNthCalledWith(2, chunks[1]);
+            expect(result).toBe('0123456789abcdef0123456789abcdef');
+        });
+    });
+
+    describe('copyFile', () => {
+        it('should copy the file', async () => {
+            await storage.copyFile('/in/a.md', '/out/a.md');
+            expect(mockCopyFile).toHaveBeenCalledWith('/in/a.md', '/out/a.md', 0);
+        });
+
+        it('should force a copy-on-write clone when asked to', async () => {
+            await storage.copyFile('/in/a.md', '/out/a.md', { clone: true });
+            expect(mockCopyFile).toHaveBeenCalledWith('/in/a.md', '/out/a.md', 4);
+        });
+
+        it('should pass fs errors through', async () => {
+            const error = Object.assign(new Error('not supported'), { code: 'ENOTSUP' });
+            mockCopyFile.mockRejectedValueOnce(error);
+            await expect(storage.copyFile('/in/a.md', '/out/a.md', { clone: true })).rejects.toBe(error);
+        });
+    });
+
+    describe('moveFile, linkFile, symlinkFile and removeFile', () => {
+        it('should call the matching fs operation', async () => {
+            await storage.moveFile('/in/a.md', '/out/a.md');
+            await storage.linkFile('/in/b.md', '/out/b.md');
+            await storage.symlinkFile('/in/c.md', '/out/c.md');
+            await storage.removeFile('/out/d.md');
+
+            expect(mockRename).toHaveBeenCalledWith('/in/a.md', '/out/a.md');
+            expect(mockLink).toHaveBeenCalledWith('/in/b.md', '/out/b.md');
+            expect(mockSymlink).toHaveBeenCalledWith('/in/c.md', '/out/c.md');
+            expect(mockUnlink).toHaveBeenCalledWith('/out/d.md');
+        });
+    });
+
+    describe('appendFile, removeDirectory and lstat', () => {
+        it('should call the matching fs operation', async () => {
+            const stats = { mtimeMs: 1, size: 2 };
+            mockLstat.mockResolvedValueOnce(stats);
+
+            await storage.appendFile('/out/log.ndjson', '{}\n');
+            await storage.removeDirectory('/out/2025');
+            const result = await storage.lstat('/out/a.md');
+
+            expect(mockAppendFile).toHaveBeenCalledWith('/out/log.ndjson', '{}\n', { encoding: 'utf8' });
+            expect(mockRmdir).toHaveBeenCalledWith('/out/2025');
+            expect(mockLstat).toHaveBeenCalledWith('/out/a.md');
+            expect(result).toBe(stats);
+        });
+    });
+
+    describe('stat', () => {
+        it('should follow symlinks to the file they point at', async () => {
+            const stats = { mtimeMs: 1, birthtimeMs: 0 };
+            mockStat.mockResolvedValueOnce(stats);
+
+            expect(await storage.stat('/in/link.md')).toBe(stats);
+            expect(mockStat).toHaveBeenCalledWith('/in/link.md');
+        });
+    });
+
+    describe('copyAttributes', () => {
+        const atime = new Date(2025, 0, 1);
+        const mtime = new Date(2025, 0, 2);
+
+        it('should copy permissions and times from the source', async () => {
+            mockStat.mockResolvedValueOnce({ mode: 0o100640, atime, mtime });
+
+            await storage.copyAttributes('/in/a.md', '/out/a.md', { mtime: true, permissions: true });
+
+            expect(mockStat).toHaveBeenCalledWith('/in/a.md');
+            expect(mockChmod).toHaveBeenCalledWith('/out/a.md', 0o100640);
+            expect(mockUtimes).toHaveBeenCalledWith('/out/a.md', atime, mtime);
+        });
+
+        it('should only copy what is asked for', async () => {
+            mockStat.mockResolvedValueOnce({ mode: 0o100640, atime, mtime });
+
+            await storage.copyAttributes('/in/a.md', '/out/a.md', { mtime: true });
+
+            expect(mockChmod).not.toHaveBeenCalled();
+            expect(mockUtimes).toHaveBeenCalledWith('/out/a.md', atime, mtime);
+        });
+    });
+
     describe('listFiles', () => {
         it('should list files in a directory', async () => {
             mockReaddir.mockResolvedValueOnce(['file1.txt', 'file2.txt', 'subdirectory']);
@@ -476,10 +603,42 @@ describe('Storage Utility', () => {
     });
 
     describe('forEachFileIn', () => {
+        // A directory entry as fs.opendir yields it
+        const entry = (name: string, type: 'file' | 'directory' | 'symlink' = 'file') => ({
+            name,
+            isFile: () => type === 'file',
+            isDirectory: () => type === 'directory',
+            isSymbolicLink: () => type === 'symlink',
+        });
+
+        // Serve opendir from a map of directory paths to their entries, counting how many entries are read
+        const mockTree = (tree: Record<string, ReturnType<typeof entry>[]>) => {
+            const read = { count: 0 };
+            const close = vi.fn(async () => undefined);
+            mockOpendir.mockImplementation(async (directory: string) => {
+                const entries = tree[directory];
+                if (!entries) {
+                    throw new Error(`ENOENT: no such file or directory, opendir '${directory}'`);
+                }
+                return {
+                    close,
+                    async *[Symbol.asyncIterator]() {
+                        for (const item of entries) {
+                            read.count++;
+                            yield item;
+                        }
+                    },
+                };
+            });
+            return { read, close };
+        };
+
+        beforeEach(() => {
+            mockOpendir.mockReset();
+        });
+
         it('should iterate over files in a directory', async () => {
-            // Setup mocks for the chain of function calls
-            // @ts-ignore
-            mockGlob.mockResolvedValueOnce(['file1.txt', 'file2.txt']);
+            mockTree({ '/test/dir': [entry('file1.txt'), entry('file2.txt')] });
 
             const callbackFn = vi.fn();
             await storage.forEachFileIn('/test/dir', callbackFn);
@@ -490,18 +649,414 @@ describe('Storage Utility', () => {
         });
 
         it('should handle custom glob patterns', async () => {
-            // @ts-ignore
-            mockGlob.mockResolvedValueOnce(['doc1.pdf', 'doc2.pdf']);
+            mockTree({ '/test/dir': [entry('doc1.pdf'), entry('doc2.pdf'), entry('notes.txt')] });
 
             const callbackFn = vi.fn();
             await storage.forEachFileIn('/test/dir', callbackFn, { pattern: '*.pdf' });
 
-            expect(mockGlob).toHaveBeenCalledWith('*.pdf', expect.objectContaining({ cwd: '/test/dir' }));
+            expect(mockOpendir).toHaveBeenCalledWith('/test/dir');
             expect(callbackFn).toHaveBeenCalledTimes(2);
+            expect(callbackFn).not.toHaveBeenCalledWith('/test/dir/notes.txt');
+        });
+
+        it('should only descend into subdirectories for recursive patterns', async () => {
+            mockTree({
+                '/test/dir': [entry('top.md'), entry('sub', 'directory')],
+                '/test/dir/sub': [entry('nested.md'), entry('image.png')],
+            });
+
+            const flat = vi.fn();
+            await storage.forEachFileIn('/test/dir', flat, { pattern: '*.md' });
+            expect(flat.mock.calls).toEqual([['/test/dir/top.md']]);
+            expect(mockOpendir).not.toHaveBeenCalledWith('/test/dir/sub');
+
+            const recursive = vi.fn();
+            await storage.forEachFileIn('/test/dir', recursive, { pattern: '**/*.{md,txt}' });
+            expect(recursive.mock.calls).toEqual([['/test/dir/top.md'], ['/test/dir/sub/nested.md']]);
+        });
+
+        it('should pass over subdirectories it cannot read, and go on with the rest', async () => {
+            mockTree({
+                '/test/dir': [entry('a', 'directory'), entry('locked', 'directory'), entry('z.md')],
+                '/test/dir/a': [entry('1.md')],
+            });
+            const opendir = mockOpendir.getMockImplementation()!;
+            mockOpendir.mockImplementation(async (directory: string) => {
+                if (directory === '/test/dir/locked') {
+                    throw Object.assign(new Error(`EACCES: permission denied, opendir '${directory}'`), { code: 'EACCES' });
+                }
+                return opendir(directory);
+            });
+
+            const callbackFn = vi.fn();
+            await storage.forEachFileIn('/test/dir', callbackFn, { pattern: '**/*.md' });
+
+            expect(callbackFn.mock.calls).toEqual([['/test/dir/a/1.md'], ['/test/dir/z.md']]);
+            expect(mockLog).toHaveBeenCalledWith(expect.stringContaining('Passed over /test/dir/locked, it could not be read: EACCES'));
+        });
+
+        it('should fail when the directory itself cannot be read', async () => {
+            mockTree({});
+            await expect(storage.forEachFileIn('/test/dir', vi.fn(), { pattern: '**/*.md' })).rejects.toThrow('Failed to glob pattern **/*.md in /test/dir: ENOENT');
+        });
+
+        it('should leave directories the prune callback rejects unread', async () => {
+            mockTree({
+                '/test/dir': [entry('2024', 'directory'), entry('2025', 'directory')],
+                '/test/dir/2024': [entry('old.md')],
+                '/test/dir/2025': [entry('new.md')],
+            });
+            const prune = vi.fn((relativeDirectory: string) => relativeDirectory === '2024');
+
+            const callbackFn = vi.fn();
+            await storage.forEachFileIn('/test/dir', callbackFn, { pattern: '**/*.md', prune });
+
+            expect(callbackFn.mock.calls).toEqual([['/test/dir/2025/new.md']]);
+            expect(prune.mock.calls).toEqual([['2024'], ['2025']]);
+            expect(mockOpendir).not.toHaveBeenCalledWith('/test/dir/2024');
+        });
+
+        it('should leave out files the exclude callback rejects', async () => {
+            mockTree({ '/test/dir': [entry('keep.md'), entry('skip.md')] });
+            const exclude = vi.fn((relativeFile: string) => relativeFile === 'skip.md');
+
+            const callbackFn = vi.fn();
+            await storage.forEachFileIn('/test/dir', callbackFn, { pattern: '*.md', exclude, limit: 1 });
+
+            expect(callbackFn.mock.calls).toEqual([['/test/dir/keep.md']]);
+        });
+
+        it('should skip dotfiles and dot directories like glob', async () => {
+            mockTree({
+                '/test/dir': [entry('.hidden.md'), entry('.git', 'directory'), entry('note.md')],
+                '/test/dir/.git': [entry('config.md')],
+            });
+
+            const callbackFn = vi.fn();
+            await storage.forEachFileIn('/test/dir', callbackFn, { pattern: '**/*' });
+
+            expect(callbackFn.mock.calls).toEqual([['/test/dir/note.md']]);
+            expect(mockOpendir).not.toHaveBeenCalledWith('/test/dir/.git');
+        });
+
+        it('should include symlinked files without following symlinked directories', async () => {
+            mockTree({ '/test/dir': [entry('link.md', 'symlink'), entry('linked-dir', 'symlink')] });
+            mockStat.mockImplementation(async (...args: any[]) => ({ isFile: () => args[0] === '/test/dir/link.md' }));
+
+            const callbackFn = vi.fn();
+            await storage.forEachFileIn('/test/dir', callbackFn, { pattern: '**/*' });
+
+            expect(callbackFn.mock.calls).toEqual([['/test/dir/link.md']]);
+            expect(mockOpendir).toHaveBeenCalledTimes(1);
+        });
+
+        it('should stop reading the directory once the limit is reached', async () => {
+            const { read, close } = mockTree({
+                '/test/dir': Array.from({ length: 100 }, (_, i) => entry(`file${i}.txt`)),
+            });
+
+            const callbackFn = vi.fn();
+            await storage.forEachFileIn('/test/dir', callbackFn, { pattern: '*.*', limit: 3, concurrency: 2 });
+
+            expect(callbackFn).toHaveBeenCalledTimes(3);
+            expect(read.count).toBeLessThan(10);
+            expect(close).toHaveBeenCalled();
+            expect(mockLog).toHaveBeenCalledWith('Reached limit of 3 files, stopping with more left');
+        });
+
+        it('should not say more were left out when the limit takes every file', async () => {
+            mockTree({ '/test/dir': [entry('a.txt'), entry('b.txt')] });
+
+            const onLimit = vi.fn();
+            await storage.forEachFileIn('/test/dir', vi.fn(), { pattern: '*.*', limit: 2, onLimit });
+
+            expect(onLimit).not.toHaveBeenCalled();
+            expect(mockLog).toHaveBeenCalledWith('Reached limit of 2 files, stopping');
+        });
+
+        it('should stop starting files after a callback throws and pass its error on', async () => {
+            mockTree({
+                '/test/dir': Array.from({ length: 10 }, (_, i) => entry(`file${i}.txt`)),
+            });
+            const error = new Error('Callback failed');
+            const callbackFn = vi.fn(async (file: string) => {
+                if (file.endsWith('file1.txt')) throw error;
+            });
+
+            await expect(storage.forEachFileIn('/test/dir', callbackFn, { pattern: '*.*', concurrency: 2 })).rejects.toBe(error);
+
+            // The other worker finishes the file it has, and no more are started
+            expect(callbackFn.mock.calls.length).toBeLessThanOrEqual(3);
+            expect(mockLog).toHaveBeenCalledWith('Stopped starting files after a callback failed');
+        });
+
+        it('should stop starting files once the signal is aborted, without throwing', async () => {
+            mockTree({
+                '/test/dir': Array.from({ length: 10 }, (_, i) => entry(`file${i}.txt`)),
+            });
+            const controller = new AbortController();
+            const callbackFn = vi.fn(async (file: string) => {
+                if (file.endsWith('file1.txt')) controller.abort();
+            });
+
+            await storage.forEachFileIn('/test/dir', callbackFn, { pattern: '*.*', concurrency: 2, signal: controller.signal });
+
+            // The other worker finishes the file it has, and no more are started
+            expect(callbackFn.mock.calls.length).toBeLessThanOrEqual(3);
+            expect(mockLog).toHaveBeenCalledWith(`Stopped starting files after ${callbackFn.mock.calls.length} when processing was aborted`);
+        });
+
+        it('should start no files when the signal is already aborted', async () => {
+            mockTree({
+                '/test/dir': [entry('file1.txt')],
+            });
+
+            const callbackFn = vi.fn();
+            await storage.forEachFileIn('/test/dir', callbackFn, { pattern: '*.*', signal: AbortSignal.abort() });
+
+            expect(callbackFn).not.toHaveBeenCalled();
+        });
+
+        it('should space file starts at least the interval apart across all workers', async () => {
+            mockTree({
+                '/test/dir': Array.from({ length: 4 }, (_, i) => entry(`file${i}.txt`)),
+            });
+            const startedAt: number[] = [];
+            const callbackFn = vi.fn(async () => {
+                startedAt.push(Date.now());
+            });
+
+            await storage.forEachFileIn('/test/dir', callbackFn, { pattern: '*.*', concurrency: 4, interval: 40 });
+
+            expect(callbackFn).toHaveBeenCalledTimes(4);
+            for (let i = 1; i < startedAt.length; i++) {
+                // Timers and the clock are only good to a few milliseconds
+                expect(startedAt[i] - startedAt[i - 1]).toBeGreaterThanOrEqual(35);
+            }
+        });
+
+        it('should not start a file that was waiting for its turn once the signal is aborted', async () => {
+            mockTree({
+                '/test/dir': Array.from({ length: 4 }, (_, i) => entry(`file${i}.txt`)),
+            });
+            const controller = new AbortController();
+            const callbackFn = vi.fn(async () => {
+                controller.abort();
+            });
+
+            await storage.forEachFileIn('/test/dir', callbackFn, { pattern: '*.*', concurrency: 2, interval: 60000, signal: controller.signal });
+
+            expect(callbackFn).toHaveBeenCalledTimes(1);
+        });
+
+        it('should find every file ahead of the workers when asked', async () => {
+            mockTree({
+                '/test/dir': Array.from({ length: 10 }, (_, i) => entry(`file${i}.txt`)),
+            });
+            const onDiscover = vi.fn();
+            const onEnumerated = vi.fn();
+            const totals: number[] = [];
+            const callbackFn = vi.fn(async () => {
+                totals.push(onDiscover.mock.calls.length);
+            });
+
+            await storage.forEachFileIn('/test/dir', callbackFn, { pattern: '*.*', concurrency: 2, onDiscover, onEnumerated });
+
+            expect(callbackFn).toHaveBeenCalledTimes(10);
+            expect(onDiscover).toHaveBeenCalledWith('/test/dir/file0.txt');
+            expect(onEnumerated).toHaveBeenCalledWith(10);
+            // The walk is over long before the last files are processed
+            expect(totals[totals.length - 1]).toBe(10);
+            expect(onDiscover.mock.invocationCallOrder[9]).toBeLessThan(callbackFn.mock.invocationCallOrder[9]);
+        });
+
+        it('should find no more than 10,000 files ahead of the workers, and wait for them there', async () => {
+            const { read } = mockTree({
+                '/test/dir': Array.from({ length: 10100 }, (_, i) => entry(`file${i}.txt`)),
+            });
+            const onEnumerated = vi.fn();
+            let readWhileFirstRunning = -1;
+            const callbackFn = vi.fn(async () => {
+                if (readWhileFirstRunning === -1) {
+                    // Give the walk time to run as far ahead as it will
+                    await new Promise(resolve => setTimeout(resolve, 50));
+                    readWhileFirstRunning = read.count;
+                }
+            });
+
+            await storage.forEachFileIn('/test/dir', callbackFn, { pattern: '*.*', onDiscover: vi.fn(), onEnumerated });
+
+            expect(readWhileFirstRunning).toBe(10001);
+            expect(callbackFn).toHaveBeenCalledTimes(10100);
+            expect(onEnumerated).toHaveBeenCalledWith(10100);
+        });
+
+        it('should find no more than one file past the limit ahead of the workers', async () => {
+            mockTree({
+                '/test/dir': Array.from({ length: 10 }, (_, i) => entry(`file${i}.txt`)),
+            });
+            const onEnumerated = vi.fn();
+
+            await storage.forEachFileIn('/test/dir', vi.fn(), { pattern: '*.*', limit: 3, onEnumerated });
+
+            expect(onEnumerated).toHaveBeenCalledWith(4);
+        });
+
+        it('should walk on past the limit to count the files left out when asked', async () => {
+            mockTree({
+                '/test/dir': Array.from({ length: 10 }, (_, i) => entry(`file${i}.txt`)),
+            });
+
+            const callbackFn = vi.fn();
+            const onLimit = vi.fn();
+            await storage.forEachFileIn('/test/dir', callbackFn, { pattern: '*.*', limit: 3, concurrency: 2, onLimit, walkPastLimit: true });
+
+            expect(callbackFn).toHaveBeenCalledTimes(3);
+            expect(onLimit).toHaveBeenCalledTimes(7);
+            expect(onLimit).toHaveBeenCalledWith('/test/dir/file9.txt', 'limit-reached');
+            expect(mockLog).toHaveBeenCalledWith('Reached limit of 3 files, left out 7 more');
+        });
+
+        it('should stop at the first file past the limit, telling onLimit about it, unless asked to walk on', async () => {
+            const { read } = mockTree({
+                '/test/dir': Array.from({ length: 100 }, (_, i) => entry(`file${i}.txt`)),
+            });
+
+            const callbackFn = vi.fn();
+            const onLimit = vi.fn();
+            await storage.forEachFileIn('/test/dir', callbackFn, { pattern: '*.*', limit: 3, offset: 1, onLimit, onEnumerated: vi.fn() });
+
+            expect(callbackFn).toHaveBeenCalledTimes(3);
+            expect(onLimit.mock.calls).toEqual([['/test/dir/file0.txt', 'offset'], ['/test/dir/file4.txt', 'limit-reached']]);
+            expect(read.count).toBeLessThan(10);
+        });
+
+        it('should not read ahead of busy workers', async () => {
+            const { read } = mockTree({
+                '/test/dir': Array.from({ length: 10 }, (_, i) => entry(`file${i}.txt`)),
+            });
+            let readWhileFirstRunning = -1;
+            const callbackFn = vi.fn(async () => {
+                if (readWhileFirstRunning === -1) {
+                    readWhileFirstRunning = read.count;
+                }
+            });
+
+            await storage.forEachFileIn('/test/dir', callbackFn, { pattern: '*.*', concurrency: 2 });
+
+            expect(callbackFn).toHaveBeenCalledTimes(10);
+            expect(readWhileFirstRunning).toBeLessThanOrEqual(2);
+        });
+
+        it('should walk each directory in the order orderEntries gives', async () => {
+            mockTree({
+                '/test/dir': [entry('b.md'), entry('c', 'directory'), entry('a.md')],
+                '/test/dir/c': [entry('2.md'), entry('1.md')],
+            });
+
+            const callbackFn = vi.fn();
+            await storage.forEachFileIn('/test/dir', callbackFn, { pattern: '**/*.md', orderEntries: (a: string, b: string) => a < b ? 1 : a > b ? -1 : 0, limit: 3 });
+
+            expect(callbackFn.mock.calls).toEqual([['/test/dir/c/2.md'], ['/test/dir/c/1.md'], ['/test/dir/b.md']]);
+        });
+
+        it('should hand every file to sort before the first starts, and apply the limit after', async () => {
+            mockTree({
+                '/test/dir': [entry('a.md'), entry('sub', 'directory'), entry('c.md')],
+                '/test/dir/sub': [entry('b.md')],
+            });
+            const sort = vi.fn(async (files: string[]) => [...files].reverse());
+
+            const callbackFn = vi.fn();
+            const onLimit = vi.fn();
+            await storage.forEachFileIn('/test/dir', callbackFn, { pattern: '**/*.md', sort, limit: 2, onLimit, walkPastLimit: true });
+
+            expect(sort).toHaveBeenCalledWith(['a.md', 'sub/b.md', 'c.md']);
+            expect(callbackFn.mock.calls).toEqual([['/test/dir/c.md'], ['/test/dir/sub/b.md']]);
+            expect(onLimit).toHaveBeenCalledWith('/test/dir/a.md', 'limit-reached');
+        });
+
+        it('should count only the files matches accepts towards the offset and limit', async () => {
+            mockTree({
+                '/test/dir': Array.from({ length: 10 }, (_, i) => entry(`file${i}.txt`)),
+            });
+            // Only the odd files match
+            const matches = vi.fn(async (file: string) => Number(file.match(/(\d)\.txt$/)![1]) % 2 === 1);
+
+            const callbackFn = vi.fn();
+            const onLimit = vi.fn();
+            await storage.forEachFileIn('/test/dir', callbackFn, { pattern: '*.*', matches, offset: 1, limit: 2, concurrency: 2, onLimit, walkPastLimit: true });
+
+            expect(matches).toHaveBeenCalledWith('/test/dir/file0.txt');
+            expect(callbackFn.mock.calls).toEqual([['/test/dir/file3.txt'], ['/test/dir/file5.txt']]);
+            expect(onLimit.mock.calls).toEqual([
+                ['/test/dir/file1.txt', 'offset'],
+                ['/test/dir/file7.txt', 'limit-reached'],
+                ['/test/dir/file9.txt', 'limit-reached'],
+            ]);
+            expect(mockLog).toHaveBeenCalledWith('Passed over the first 1 matching files for the offset');
+        });
+
+        it('should keep the walk order while checking files ahead of the workers', async () => {
+            mockTree({
+                '/test/dir': Array.from({ length: 6 }, (_, i) => entry(`file${i}.txt`)),
+            });
+            let checking = 0;
+            let mostChecking = 0;
+            // Earlier files take longer to check
+            const matches = async (file: string) => {
+                mostChecking = Math.max(mostChecking, ++checking);
+                await new Promise(resolve => setTimeout(resolve, 30 - Number(file.match(/(\d)\.txt$/)![1]) * 5));
+                checking--;
+                return true;
+            };
+
+            const started: string[] = [];
+            await storage.forEachFileIn('/test/dir', async (file: string) => {
+                started.push(file);
+            }, { pattern: '*.*', matches, concurrency: 3 });
+
+            expect(started).toEqual(Array.from({ length: 6 }, (_, i) => `/test/dir/file${i}.txt`));
+            expect(mostChecking).toBe(3);
+        });
+
+        it('should stop starting files and pass the error on when matches throws', async () => {
+            mockTree({
+                '/test/dir': Array.from({ length: 5 }, (_, i) => entry(`file${i}.txt`)),
+            });
+            const error = new Error('Stopped after too many errors');
+            const matches = vi.fn(async (file: string) => {
+                if (file.endsWith('file2.txt')) throw error;
+                return true;
+            });
+
+            const callbackFn = vi.fn();
+            await expect(storage.forEachFileIn('/test/dir', callbackFn, { pattern: '*.*', matches })).rejects.toBe(error);
+            expect(callbackFn.mock.calls).toEqual([['/test/dir/file0.txt'], ['/test/dir/file1.txt']]);
+        });
+
+        it('should process the files the sample picks, in walk order, and tell onLimit about the rest', async () => {
+            mockTree({
+                '/test/dir': Array.from({ length: 5 }, (_, i) => entry(`file${i}.txt`)),
+            });
+            const sample = vi.fn((files: string[]) => [files[3], files[1]]);
+
+            const callbackFn = vi.fn();
+            const onLimit = vi.fn();
+            await storage.forEachFileIn('/test/dir', callbackFn, { pattern: '*.*', sample, onLimit });
+
+            expect(sample).toHaveBeenCalledWith(['file0.txt', 'file1.txt', 'file2.txt', 'file3.txt', 'file4.txt']);
+            expect(callbackFn.mock.calls).toEqual([['/test/dir/file1.txt'], ['/test/dir/file3.txt']]);
+            expect(onLimit.mock.calls).toEqual([
+                ['/test/dir/file0.txt', 'not-sampled'],
+                ['/test/dir/file2.txt', 'not-sampled'],
+                ['/test/dir/file4.txt', 'not-sampled'],
+            ]);
+            expect(mockLog).toHaveBeenCalledWith('Sampled 2 of 5 matching files');
         });
 
-        it('should throw error if glob fails', async () => {
-            mockGlob.mockRejectedValueOnce(new Error('Glob error'));
+        it('should throw error if the directory cannot be read', async () => {
+            mockTree({});
 
             const callbackFn = vi.fn();
             await expect(storage.forEachFileIn('/test/dir', callbackFn)).rejects.toThrow(
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import * as Template from '../../src/util/template';
+
+describe('template utility', () => {
+    describe('parse', () => {
+        it('splits a template into literal and token segments', () => {
+            expect(Template.parse('{date}_{subject}__{hash}.{type}')).toEqual([
+                { kind: 'token', name: 'date' },
+                { kind: 'literal', value: '_' },
+                { kind: 'token', name: 'subject' },
+                { kind: 'literal', value: '__' },
+                { kind: 'token', name: 'hash' },
+                { kind: 'literal', value: '.' },
+                { kind: 'token', name: 'type' },
+            ]);
+        });
+
+        it('parses token formats, keeping everything after the first colon', () => {
+            expect(Template.parse('{time:HH:mm}')).toEqual([
+                { kind: 'token', name: 'time', format: 'HH:mm' },
+            ]);
+        });
+
+        it('treats doubled braces as literal braces', () => {
+            expect(Template.parse('{{x}}')).toEqual([{ kind: 'literal', value: '{x}' }]);
+        });
+
+        it('returns an empty list for an empty template', () => {
+            expect(Template.parse('')).toEqual([]);
+        });
+
+        it('throws on an unclosed token', () => {
+            expect(() => Template.parse('{date')).toThrow('Unclosed "{" at position 0 in template "{date"');
+        });
+
+        it('throws on a stray closing brace', () => {
+            expect(() => Template.parse('date}')).toThrow('Unexpected "}" at position 4 in template "date}"');
+        });
+
+        it('throws on an empty token', () => {
+            expect(() => Template.parse('a{}')).toThrow('Empty token at position 1 in template "a{}"');
+        });
+    });
+
+    describe('tokens', () => {
+        it('returns only the token segments', () => {
+            const segments = Template.parse('{date}-{hash:8}');
+            expect(Template.tokens(segments)).toEqual([
+                { kind: 'token', name: 'date' },
+                { kind: 'token', name: 'hash', format: '8' },
+            ]);
+        });
+    });
+
+    describe('render', () => {
+        it('resolves each token and keeps literals as-is', () => {
+            const segments = Template.parse('{a}-{b:x}.txt');
+            const result = Template.render(segments, token => `${token.name}${token.format ?? ''}`);
+            expect(result).toBe('a-bx.txt');
+        });
+    });
+});
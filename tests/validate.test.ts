@@ -218,6 +218,46 @@ describe('validate', () => {
     });
 
 
+    // --- Output Filename Template Validation ---
+    test('should pass with a valid output filename template', async () => {
+        await expect(runValidation({ outputStructure: 'month', outputFilenameTemplate: '{date}_{subject:lower}__{hash:8}.{type}' })).resolves.toBeUndefined();
+    });
+
+    test('should throw on an unclosed output filename template token', async () => {
+        await expect(runValidation({ outputFilenameTemplate: '{date_{hash}' }))
+            .rejects.toThrow(/Invalid output filename template/);
+    });
+
+    test('should throw on unknown output filename template tokens', async () => {
+        await expect(runValidation({ outputFilenameTemplate: '{hash}-{author}' }))
+            .rejects.toThrow(new ArgumentError('--output-filename-template', 'Invalid filename template tokens: author. Valid tokens are: date, time, hash, type, subject'));
+    });
+
+    test('should throw if output filename template has no uniqueness token', async () => {
+        await expect(runValidation({ outputFilenameTemplate: '{date}-{subject}.{type}' }))
+            .rejects.toThrow(new ArgumentError('--output-filename-template', 'Filename template must include at least one uniqueness token ({hash}) to avoid overwriting files'));
+    });
+
+    test('should throw if output filename template contains a path separator', async () => {
+        await expect(runValidation({ outputFilenameTemplate: '{date}/{hash}' }))
+            .rejects.toThrow(new ArgumentError('--output-filename-template', 'Filename template must not contain path separators: {date}/{hash}'));
+    });
+
+    test('should throw if output filename template uses {date} with output structure "day"', async () => {
+        await expect(runValidation({ outputStructure: 'day', outputFilenameTemplate: '{date}-{hash}' }))
+            .rejects.toThrow(new ArgumentError('--output-filename-template', 'Cannot use {date} without an explicit format when output structure is "day", e.g. {date:YYYY-M-D}'));
+        await expect(runValidation({ outputStructure: 'day', outputFilenameTemplate: '{date:YYYY-MM-DD}-{hash}' }))
+            .resolves.toBeUndefined();
+    });
+
+    test('should throw on invalid output filename template token formats', async () => {
+        await expect(runValidation({ outputFilenameTemplate: '{hash:abc}' }))
+            .rejects.toThrow(new ArgumentError('--output-filename-template', 'Invalid format for {hash}: abc. Expected a positive length, e.g. {hash:8}'));
+        await expect(runValidation({ outputFilenameTemplate: '{hash}-{subject:title}' }))
+            .rejects.toThrow(new ArgumentError('--output-filename-template', 'Invalid format for {subject}: title. Valid formats are: lower, upper'));
+    });
+
+
     test('should throw with invalid input structure', async () => {
         await expect(runValidation({ inputStructure: 'invalid' as FilesystemStructure }))
             .rejects.toThrow(new ArgumentError('--input-structure', `Invalid input structure: invalid. Valid options are: ${ALLOWED_INPUT_STRUCTURES.join(', ')}`));
@@ -251,6 +291,248 @@ describe('validate', () => {
             .rejects.toThrow(new ArgumentError('--input-filename-options', 'Cannot use date in filename when input structure is "day"'));
     });
 
+    // --- Directory Template Validation ---
+    test('should pass with valid directory templates', async () => {
+        await expect(runValidation({
+            outputDirectoryTemplate: '{YYYY}/{MM}-{MMMM}/{DD}',
+            inputDirectoryTemplate: '{YYYY}/{ext}/{MM}',
+        })).resolves.toBeUndefined();
+    });
+
+    test('should throw on a filename date when the output directory template has a day, whatever the structure', async () => {
+        await expect(runValidation({ outputStructure: 'month', outputDirectoryTemplate: '{YYYY}/{MM}/{DD}', outputFilenameOptions: ['date', 'time'] }))
+            .rejects.toThrow(new ArgumentError('--output-filename-options', 'Cannot use date in filename when the output directory template has a day'));
+        await expect(runValidation({ outputDirectoryTemplate: '{YYYY}/{MM}/{DD}', outputFilenameTemplate: '{date}-{hash}' }))
+            .rejects.toThrow(new ArgumentError('--output-filename-template', 'Cannot use {date} without an explicit format when the output directory template has a day, e.g. {date:YYYY-M-D}'));
+        // The template, not the structure, decides how much of the date the filename holds
+        await expect(runValidation({ outputStructure: 'day', outputDirectoryTemplate: '{YYYY}', outputFilenameOptions: ['date', 'time'] })).resolves.toBeUndefined();
+    });
+
+    test('should throw on unknown directory template tokens', async () => {
+        await expect(runValidation({ outputDirectoryTemplate: '{YYYY}/{subject}' }))
+            .rejects.toThrow(new ArgumentError('--output-directory-template', 'Invalid directory template tokens: subject. Valid tokens are: YYYY, GGGG, Q, M, MM, MMM, MMMM, W, WW, D, DD, ext'));
+    });
+
+    test('should throw on directory templates that leave the base directory', async () => {
+        await expect(runValidation({ outputDirectoryTemplate: '../{YYYY}' }))
+            .rejects.toThrow(new ArgumentError('--output-directory-template', 'Directory template must be a relative path without empty, "." or ".." segments: ../{YYYY}'));
+        await expect(runValidation({ outputDirectoryTemplate: '/{YYYY}' }))
+            .rejects.toThrow(/Directory template must be a relative path/);
+    });
+
+    test('should throw on formatted directory template tokens', async () => {
+        await expect(runValidation({ outputDirectoryTemplate: '{YYYY:x}' }))
+            .rejects.toThrow(new ArgumentError('--output-directory-template', 'Directory template tokens do not take a format: {YYYY:x}'));
+    });
+
+    test('should throw on input directory templates that cannot be read back', async () => {
+        await expect(runValidation({ inputDirectoryTemplate: '{MM}/{DD}' }))
+            .rejects.toThrow(new ArgumentError('--input-directory-template', 'Input directory template needs {YYYY} when it contains a month or quarter'));
+        await expect(runValidation({ inputDirectoryTemplate: '{YYYY}/{DD}' }))
+            .rejects.toThrow(new ArgumentError('--input-directory-template', 'Input directory template needs a month token when it contains a day'));
+        await expect(runValidation({ inputDirectoryTemplate: '{ext}/W{WW}' }))
+            .rejects.toThrow(new ArgumentError('--input-directory-template', 'Input directory template needs {YYYY} or {GGGG} when it contains a week'));
+        await expect(runValidation({ inputDirectoryTemplate: '{GGGG}' }))
+            .rejects.toThrow(new ArgumentError('--input-directory-template', 'Input directory template needs {W} or {WW} when it contains {GGGG}'));
+        // Output templates do not need to be readable
+        await expect(runValidation({ outputDirectoryTemplate: '{MM}/{DD}' })).resolves.toBeUndefined();
+    });
+
+    // --- Fiscal Year Validation ---
+    test('should pass with a valid fiscal year start month', async () => {
+        await expect(runValidation({ fiscalYearStartMonth: 10 })).resolves.toBeUndefined();
+    });
+
+    test('should throw with an invalid fiscal year start month', async () => {
+        await expect(runValidation({ fiscalYearStartMonth: 13 }))
+            .rejects.toThrow(new ArgumentError('--fiscal-year-start-month', 'Invalid fiscal year start month: 13. Must be an integer from 1 (January) to 12 (December)'));
+        await expect(runValidation({ fiscalYearStartMonth: NaN }))
+            .rejects.toThrow(/Invalid fiscal year start month: NaN/);
+    });
+
+    // --- Collision Policy Validation ---
+    test('should pass with a valid collision policy', async () => {
+        await expect(runValidation({ onCollision: 'compare-hash' })).resolves.toBeUndefined();
+    });
+
+    test('should throw with an invalid collision policy', async () => {
+        // @ts-ignore - Testing an invalid value from the command line
+        await expect(runValidation({ onCollision: 'rename' }))
+            .rejects.toThrow(new ArgumentError('--on-collision', 'Invalid collision policy: rename. Valid options are: suffix, skip, overwrite, fail, compare-hash'));
+    });
+
+    test('should not validate the collision policy when output is disabled', async () => {
+        // @ts-ignore - Testing an invalid value from the command line
+        await expect(runValidation({ onCollision: 'rename' }, { features: ['input'] })).resolves.toBeUndefined();
+    });
+
+    // --- Subject Source Validation ---
+    test('should pass with valid subject sources', async () => {
+        await expect(runValidation({ subjectSources: ['frontmatter', 'heading', 'first-line', 'filename'] })).resolves.toBeUndefined();
+        await expect(runValidation({ subjectSources: ['custom'] }, { subjectExtractor: vi.fn() })).resolves.toBeUndefined();
+    });
+
+    test('should throw with invalid subject sources', async () => {
+        // @ts-ignore - Testing an invalid value from the command line
+        await expect(runValidation({ subjectSources: ['heading', 'title'] }))
+            .rejects.toThrow(new ArgumentError('--subject-sources', 'Invalid subject sources: title. Valid options are: frontmatter, heading, first-line, filename, custom'));
+    });
+
+    test('should throw with the custom subject source but no subjectExtractor', async () => {
+        await expect(runValidation({ subjectSources: ['custom'] }))
+            .rejects.toThrow(new ArgumentError('--subject-sources', 'The custom subject source needs a subjectExtractor in the options'));
+    });
+
+    // --- Date Source Validation ---
+    test('should pass with valid date sources', async () => {
+        await expect(runValidation({ dateSources: ['frontmatter', 'filename', 'content', 'birthtime', 'mtime'] })).resolves.toBeUndefined();
+        await expect(runValidation({ dateSources: ['custom', 'ctime'] }, { dateExtractor: vi.fn() })).resolves.toBeUndefined();
+    });
+
+    test('should throw with invalid date sources', async () => {
+        // @ts-ignore - Testing an invalid value from the command line
+        await expect(runValidation({ dateSources: ['mtime', 'atime'] }))
+            .rejects.toThrow(new ArgumentError('--date-source', 'Invalid date sources: atime. Valid options are: mtime, birthtime, ctime, frontmatter, filename, content, custom'));
+    });
+
+    test('should throw with the custom date source but no dateExtractor', async () => {
+        await expect(runValidation({ dateSources: ['custom'] }))
+            .rejects.toThrow(new ArgumentError('--date-source', 'The custom date source needs a dateExtractor in the options'));
+    });
+
+    // --- Filename Date Pattern Validation ---
+    test('should pass with built-in filename date patterns and regular expressions with date groups', async () => {
+        await expect(runValidation({ filenameDatePatterns: ['camera', '(?<day>\\d{2})\\.(?<month>\\d{2})\\.(?<year>\\d{4})'] })).resolves.toBeUndefined();
+    });
+
+    test('should throw with filename date patterns that are neither built-in nor usable regular expressions', async () => {
+        await expect(runValidation({ filenameDatePatterns: ['phone'] }))
+            .rejects.toThrow(new ArgumentError('--filename-date-patterns', 'Invalid filename date pattern: phone. It needs the named groups year, month, day, or use one of: camera, screenshot, whatsapp, iso, compact, dreadcabinet'));
+        await expect(runValidation({ filenameDatePatterns: ['(?<year>\\d{4'] }))
+            .rejects.toThrow(ArgumentError);
+    });
+
+    // --- Include/Exclude Glob Validation ---
+    test('should pass with include and exclude globs relative to the input directory', async () => {
+        await expect(runValidation({ include: ['notes/**/*.md'], exclude: ['drafts', '**/*.tmp'] })).resolves.toBeUndefined();
+    });
+
+    test('should throw with include or exclude globs that cannot match inside the input directory', async () => {
+        await expect(runValidation({ include: ['/notes/*.md'] }))
+            .rejects.toThrow(new ArgumentError('--include', 'Invalid patterns: /notes/*.md. Patterns must be non-empty and relative to the input directory, without ".." segments'));
+        await expect(runValidation({ exclude: ['../outside'] }))
+            .rejects.toThrow(ArgumentError);
+    });
+
+    // --- Error Policy Validation ---
+    test('should pass with valid error policies', async () => {
+        for (const onError of ['continue', 'fail-fast', 'quarantine', 'max-errors=10'] as const) {
+            await expect(runValidation({ onError })).resolves.toBeUndefined();
+        }
+    });
+
+    test('should throw with an invalid error policy', async () => {
+        // @ts-ignore - Testing an invalid policy
+        await expect(runValidation({ onError: 'max-errors=ten' }))
+            .rejects.toThrow(new ArgumentError('--on-error', 'Invalid error policy: max-errors=ten. Valid options are: continue, fail-fast, quarantine, max-errors=N'));
+    });
+
+    test('should throw when quarantined files would be moved into the input directory itself', async () => {
+        await expect(runValidation({ onError: 'quarantine', quarantineDirectory: '/input/' }))
+            .rejects.toThrow(new ArgumentError('--quarantine-directory', 'Invalid quarantine directory: /input/. It must not be the input directory'));
+        await expect(runValidation({ onError: 'quarantine', quarantineDirectory: '/input/quarantine' })).resolves.toBeUndefined();
+    });
+
+    // --- Timeout, Retries and Rate Limit Validation ---
+    test('should pass with a valid timeout, retries, retry delay and rate limit', async () => {
+        await expect(runValidation({ timeout: 30000, retries: 0, retryDelay: 0, rateLimit: '5/s' })).resolves.toBeUndefined();
+        await expect(runValidation({ retries: 3, retryDelay: 250, rateLimit: '0.5/m' })).resolves.toBeUndefined();
+    });
+
+    test('should throw with a timeout that is not a positive number of milliseconds', async () => {
+        await expect(runValidation({ timeout: 0 }))
+            .rejects.toThrow(new ArgumentError('--timeout', 'Timeout must be a positive number of milliseconds'));
+        await expect(runValidation({ timeout: Number('soon') }))
+            .rejects.toThrow(ArgumentError);
+    });
+
+    test('should throw with negative or fractional retries and retry delays', async () => {
+        await expect(runValidation({ retries: -1 }))
+            .rejects.toThrow(new ArgumentError('--retries', 'Retries must be zero or a positive integer'));
+        await expect(runValidation({ retries: 1.5 }))
+            .rejects.toThrow(ArgumentError);
+        await expect(runValidation({ retryDelay: -100 }))
+            .rejects.toThrow(new ArgumentError('--retry-delay', 'Retry delay must be zero or a positive number of milliseconds'));
+    });
+
+    test('should throw with an invalid rate limit', async () => {
+        for (const rateLimit of ['5', '5/h', '0/s', 'fast']) {
+            // @ts-ignore - Testing an invalid value from the command line
+            await expect(runValidation({ rateLimit }))
+                .rejects.toThrow(new ArgumentError('--rate-limit', `Invalid rate limit: ${rateLimit}. Use a number of files per second or minute, such as 5/s or 30/m`));
+        }
+    });
+
+    // --- Offset and Sample Validation ---
+    test('should pass with a valid offset, sample and seed', async () => {
+        await expect(runValidation({ offset: 0, limit: 10 })).resolves.toBeUndefined();
+        await expect(runValidation({ offset: 100, sample: 50, seed: 'prompt-eval' })).resolves.toBeUndefined();
+    });
+
+    test('should throw with a negative or fractional offset', async () => {
+        await expect(runValidation({ offset: -1 }))
+            .rejects.toThrow(new ArgumentError('--offset', 'Offset must be zero or a positive integer'));
+        await expect(runValidation({ offset: Number('ten') }))
+            .rejects.toThrow(ArgumentError);
+    });
+
+    test('should throw with a sample that is not a positive integer', async () => {
+        await expect(runValidation({ sample: 0 }))
+            .rejects.toThrow(new ArgumentError('--sample', 'Sample size must be a positive integer'));
+        await expect(runValidation({ sample: 2.5 }))
+            .rejects.toThrow(ArgumentError);
+    });
+
+    test('should throw with a seed but no sample', async () => {
+        await expect(runValidation({ seed: 'prompt-eval' }))
+            .rejects.toThrow(new ArgumentError('--seed', 'A seed needs a sample to pick (--sample)'));
+    });
+
+    // --- Sort Validation ---
+    test('should pass with a valid sort order', async () => {
+        await expect(runValidation({ sort: 'size', reverse: true })).resolves.toBeUndefined();
+        await expect(runValidation({ sort: 'date-desc' })).resolves.toBeUndefined();
+        await expect(runValidation({ sort: 'date-asc', dateSources: ['mtime'] }, { features: ['input'] })).resolves.toBeUndefined();
+    });
+
+    test('should throw with an invalid sort order', async () => {
+        // @ts-ignore - Testing an invalid value from the command line
+        await expect(runValidation({ sort: 'random' }))
+            .rejects.toThrow(new ArgumentError('--sort', 'Invalid sort order: random. Valid options are: name, path, date-asc, date-desc, size, mtime'));
+    });
+
+    test('should throw when sorting unstructured input by date without a date source', async () => {
+        await expect(runValidation({ sort: 'date-desc' }, { features: ['input'] }))
+            .rejects.toThrow(new ArgumentError('--sort', 'Sorting by date is not possible for unstructured input without a date source (--date-source)'));
+        await expect(runValidation({ sort: 'mtime' }, { features: ['input'] })).resolves.toBeUndefined();
+    });
+
+    test('should throw with reverse but no sort order', async () => {
+        await expect(runValidation({ reverse: true }))
+            .rejects.toThrow(new ArgumentError('--reverse', 'Reverse needs a sort order to reverse (--sort)'));
+    });
+
+    // --- Date Format Profile Validation ---
+    test('should pass with a valid date format profile', async () => {
+        await expect(runValidation({ dateFormatProfile: 'padded' })).resolves.toBeUndefined();
+    });
+
+    test('should throw with an invalid date format profile', async () => {
+        // @ts-ignore - Testing an invalid value from the command line
+        await expect(runValidation({ dateFormatProfile: 'zeros' }))
+            .rejects.toThrow(new ArgumentError('--date-format-profile', 'Invalid date format profile: zeros. Valid options are: compact, padded'));
+    });
+
     // --- Extensions Validation ---
     test('should pass with valid extensions', async () => {
         await expect(runValidation({ extensions: ['eml', 'msg'] }, { allowed: { ...baseOptions.allowed, extensions: ['eml', 'msg'] } })).resolves.toBeUndefined();